@@ -0,0 +1,172 @@
+import type { ChatMessage, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
+import { LocalSearchEngine, type LocalSearchOptions } from '../services/localSearch.js';
+import type {
+  BackendKind,
+  KnowledgeBaseDocument,
+  KnowledgeBaseStats,
+  ListOptions,
+  SearchFilters,
+  SupportBackend
+} from './types.js';
+import { classifyByKeywords, generateFromKnowledgeBase, rewriteQueryFromHistory } from './rules.js';
+
+// Seed data for development
+export const seedKnowledgeBase: KnowledgeBaseEntry[] = [
+  {
+    id: 'kb_1',
+    title: 'Password Reset Guide',
+    content: 'To reset your password: 1. Go to the login page 2. Click "Forgot Password" 3. Enter your email 4. Check your email for reset instructions 5. Follow the link and create a new password',
+    category: 'technical',
+    priority: 'high',
+    product_type: 'web_app',
+    tags: ['password', 'reset', 'login'],
+    last_updated: new Date('2025-06-24T10:00:00Z')
+  },
+  {
+    id: 'kb_2',
+    title: 'Account Billing Information',
+    content: 'Your billing information can be found in Account Settings > Billing. Here you can view current plans, payment history, and update payment methods.',
+    category: 'billing',
+    priority: 'medium',
+    product_type: 'web_app',
+    tags: ['billing', 'account', 'payment'],
+    last_updated: new Date('2025-06-23T15:30:00Z')
+  },
+  {
+    id: 'kb_3',
+    title: 'Getting Started Guide',
+    content: 'Welcome! To get started: 1. Complete your profile 2. Explore the dashboard 3. Connect your first data source 4. Create your first project 5. Invite team members',
+    category: 'general',
+    priority: 'low',
+    product_type: 'web_app',
+    tags: ['getting-started', 'onboarding'],
+    last_updated: new Date('2025-06-22T09:15:00Z')
+  }
+];
+
+export interface InMemoryBackendOptions extends LocalSearchOptions {
+  /** Initial entries, the seed entries by default */
+  entries?: KnowledgeBaseEntry[];
+}
+
+/**
+ * Everything in process, for development and tests: keyword rules stand in
+ * for the models and the local search engine ranks entries.
+ */
+export class InMemoryBackend implements SupportBackend {
+  readonly name: BackendKind = 'memory';
+  private entries: KnowledgeBaseEntry[];
+  private searchEngine: LocalSearchEngine;
+  private indexStale = true;
+
+  constructor(options: InMemoryBackendOptions = {}) {
+    const { entries = seedKnowledgeBase, ...searchOptions } = options;
+    this.entries = entries.map(entry => ({ ...entry }));
+    this.searchEngine = new LocalSearchEngine(searchOptions);
+  }
+
+  async rewrite(query: string, history: ChatMessage[]): Promise<string> {
+    return rewriteQueryFromHistory(query, history);
+  }
+
+  async classify(query: string): Promise<QueryClassification> {
+    return classifyByKeywords(query);
+  }
+
+  async generate(query: string, knowledgeBaseResults: KnowledgeBaseEntry[]): Promise<ResponseGeneration> {
+    return generateFromKnowledgeBase(query, knowledgeBaseResults);
+  }
+
+  async search(query: string, filters: SearchFilters): Promise<KnowledgeBaseEntry[]> {
+    const { limit = 10, relevance_threshold = 0.7, ...rest } = filters;
+
+    if (this.indexStale) {
+      this.searchEngine.index(this.entries);
+      this.indexStale = false;
+    }
+    return this.searchEngine.search(query, { ...rest, limit, relevance_threshold });
+  }
+
+  async list(options: ListOptions): Promise<KnowledgeBaseEntry[]> {
+    const { category, priority, product_type, tag, limit } = options;
+
+    const entries = this.entries.filter(entry =>
+      (!category || entry.category === category) &&
+      (!priority || entry.priority === priority) &&
+      (!product_type || entry.product_type === product_type) &&
+      (!tag || entry.tags.includes(tag))
+    );
+    return (limit === undefined ? entries : entries.slice(0, limit)).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Documents replace stored entries with the same id
+   */
+  async upsert(documents: KnowledgeBaseDocument[]): Promise<number> {
+    for (const { content, metadata = {} } of documents) {
+      const entry: KnowledgeBaseEntry = {
+        id: metadata.id || `kb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        title: metadata.title || '',
+        content,
+        category: metadata.category || 'general',
+        priority: metadata.priority || 'medium',
+        product_type: metadata.product_type || undefined,
+        tags: metadata.tags || [],
+        last_updated: new Date(metadata.last_updated || Date.now())
+      };
+
+      this.entries = [...this.entries.filter(existing => existing.id !== entry.id), entry];
+    }
+
+    this.indexStale = this.indexStale || documents.length > 0;
+    return documents.length;
+  }
+
+  async update(id: string, updates: Partial<Omit<KnowledgeBaseEntry, 'id'>>): Promise<boolean> {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index === -1) return false;
+
+    const existing = this.entries[index];
+    this.entries[index] = {
+      ...existing,
+      title: updates.title || existing.title,
+      content: updates.content || existing.content,
+      category: updates.category || existing.category,
+      priority: updates.priority || existing.priority,
+      product_type: updates.product_type || existing.product_type,
+      tags: updates.tags || existing.tags,
+      last_updated: new Date()
+    };
+    this.indexStale = true;
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const remaining = this.entries.filter(entry => entry.id !== id);
+    if (remaining.length === this.entries.length) return false;
+
+    this.entries = remaining;
+    this.indexStale = true;
+    return true;
+  }
+
+  async categories(): Promise<string[]> {
+    return [...new Set(this.entries.map(entry => entry.category))].sort();
+  }
+
+  async stats(): Promise<KnowledgeBaseStats> {
+    const by_category: Record<string, number> = {};
+    const by_priority: Record<string, number> = {};
+
+    for (const entry of this.entries) {
+      by_category[entry.category] = (by_category[entry.category] || 0) + 1;
+      by_priority[entry.priority] = (by_priority[entry.priority] || 0) + 1;
+    }
+
+    return { total_entries: this.entries.length, by_category, by_priority };
+  }
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,59 @@
+import { HashingEmbedder } from '../services/localSearch.js';
+import type { BackendKind, SupportBackend } from './types.js';
+import { InMemoryBackend } from './inMemory.js';
+import { MindsDBSqlBackend } from './mindsdbSql.js';
+import { MindsDBSdkBackend } from './mindsdbSdk.js';
+
+export type * from './types.js';
+export { InMemoryBackend, seedKnowledgeBase } from './inMemory.js';
+export { MindsDBSqlBackend } from './mindsdbSql.js';
+export { MindsDBSdkBackend } from './mindsdbSdk.js';
+
+// Adding a backend means implementing SupportBackend and registering it here
+const backendFactories: Record<BackendKind, () => SupportBackend> = {
+  'memory': () => new InMemoryBackend({
+    embedder: process.env.LOCAL_SEARCH_EMBEDDER === 'hashing' ? new HashingEmbedder() : undefined
+  }),
+  'mindsdb-sql': () => new MindsDBSqlBackend(),
+  'mindsdb-sdk': () => new MindsDBSdkBackend()
+};
+
+let sharedBackend: SupportBackend | null = null;
+
+/**
+ * SUPPORT_BACKEND selects the backend. When it is unset, MOCK_MODE=true
+ * selects 'memory' and anything else 'mindsdb-sdk'.
+ */
+export function resolveBackendKind(): BackendKind {
+  const kind = process.env.SUPPORT_BACKEND;
+
+  if (!kind) {
+    return process.env.MOCK_MODE === 'true' ? 'memory' : 'mindsdb-sdk';
+  }
+  if (!Object.keys(backendFactories).includes(kind)) {
+    throw new Error(`Unknown SUPPORT_BACKEND "${kind}", expected one of: ${Object.keys(backendFactories).join(', ')}`);
+  }
+  return kind as BackendKind;
+}
+
+export function createSupportBackend(kind: BackendKind = resolveBackendKind()): SupportBackend {
+  return backendFactories[kind]();
+}
+
+/**
+ * The configured backend, shared by every service not given one so that
+ * chat and knowledge base administration see the same entries
+ */
+export function getSupportBackend(): SupportBackend {
+  if (!sharedBackend) {
+    sharedBackend = createSupportBackend();
+  }
+  return sharedBackend;
+}
+
+/**
+ * Replace the shared backend; null makes the next call read the configuration again
+ */
+export function setSupportBackend(backend: SupportBackend | null): void {
+  sharedBackend = backend;
+}
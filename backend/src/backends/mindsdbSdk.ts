@@ -0,0 +1,325 @@
+import type { KnowledgeBaseChunk, KnowledgeBaseEntry } from '../types/index.js';
+import {
+  getMindsDBClient,
+  buildKnowledgeBaseSearch,
+  buildInsert,
+  buildDelete,
+  buildSelect,
+  buildCreateKnowledgeBase
+} from '../config/database.js';
+import { chunkMarkdown, joinChunks, type ChunkingOptions } from '../services/chunking.js';
+import type {
+  BackendKind,
+  KnowledgeBaseChunkRow,
+  KnowledgeBaseDocument,
+  KnowledgeBaseDocumentMetadata,
+  KnowledgeBaseStats,
+  ListOptions,
+  SearchFilters,
+  UpsertOptions
+} from './types.js';
+import { MindsDBSqlBackend } from './mindsdbSql.js';
+
+/**
+ * MindsDB through its JavaScript SDK: entries live in a knowledge base, one
+ * row per chunk. Models are queried as in the SQL backend, and search falls
+ * back to it when the SDK cannot connect.
+ */
+export class MindsDBSdkBackend extends MindsDBSqlBackend {
+  readonly name: BackendKind = 'mindsdb-sdk';
+
+  constructor(private knowledgeBase: string = 'support_kb', table?: string) {
+    super(table);
+  }
+
+  async search(query: string, filters: SearchFilters): Promise<KnowledgeBaseEntry[]> {
+    try {
+      const client = await getMindsDBClient();
+
+      if (!client) {
+        console.log('MindsDB SDK not available, falling back to SQL search');
+        return super.search(query, filters);
+      }
+
+      const {
+        category,
+        priority,
+        product_type,
+        limit = 10,
+        relevance_threshold = 0.7
+      } = filters;
+
+      // Use proper MindsDB Knowledge Base SQL syntax, ordered by relevance
+      const sql = buildKnowledgeBaseSearch(this.knowledgeBase, {
+        columns: ['id', 'chunk_id', 'chunk_content', 'metadata', 'distance', 'relevance'],
+        content: query,
+        relevanceThreshold: relevance_threshold || undefined,
+        // Add metadata filters using proper MindsDB syntax
+        metadataFilters: { category, priority, product_type },
+        limit
+      });
+
+      console.log('Executing MindsDB Knowledge Base query:', sql);
+
+      const results = await client.SQL.runQuery(sql);
+
+      // One entry per article, carrying the chunks that matched
+      return this.groupChunkRows(results.rows as KnowledgeBaseChunkRow[]);
+
+    } catch (error) {
+      console.error('MindsDB SDK search failed:', error);
+      console.log('Falling back to SQL search...');
+      return super.search(query, filters);
+    }
+  }
+
+  /**
+   * Knowledge base rows are chunks, so they are joined back into one entry
+   * per article before filtering by tag and applying the limit
+   */
+  async list(options: ListOptions): Promise<KnowledgeBaseEntry[]> {
+    const { category, priority, product_type, tag, limit, knowledgeBase = this.knowledgeBase } = options;
+
+    const rows = await this.runQuery(buildSelect(knowledgeBase, ['*'], { category, priority, product_type }));
+    const entries = this.groupChunkRows(rows)
+      .filter(entry => !tag || entry.tags.includes(tag))
+      .map(entry => ({
+        ...entry,
+        chunk_content: undefined,
+        chunks: undefined,
+        relevance: undefined,
+        distance: undefined
+      }));
+
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
+  /**
+   * Add documents in a single INSERT. Each document is split into chunks
+   * stored with its parent id and chunk index.
+   */
+  async upsert(documents: KnowledgeBaseDocument[], options: UpsertOptions = {}): Promise<number> {
+    const { knowledgeBase = this.knowledgeBase, chunking = {} } = options;
+
+    const rows = this.chunkRows(documents, chunking);
+    if (rows.length === 0) {
+      throw new Error('No content to insert');
+    }
+
+    await this.runQuery(buildInsert(knowledgeBase, rows));
+    console.log(`${documents.length} document(s) added to knowledge base in ${rows.length} chunk(s)`);
+    return documents.length;
+  }
+
+  /**
+   * Knowledge bases cannot update rows in place, so the article's chunks are
+   * written again under the same ids, which replaces them. New content is
+   * re-chunked; otherwise the stored chunks are kept as they are with the new
+   * metadata. Chunks left over from a longer old text are deleted afterwards,
+   * so a failed write keeps the old article.
+   */
+  async update(id: string, updates: Partial<Omit<KnowledgeBaseEntry, 'id'>>): Promise<boolean> {
+    const existingRows = await this.readArticle(id);
+    const [existing] = this.groupChunkRows(existingRows);
+    if (!existing) return false;
+
+    const metadata: KnowledgeBaseDocumentMetadata = {
+      title: updates.title || existing.title,
+      category: updates.category || existing.category,
+      priority: updates.priority || existing.priority,
+      product_type: updates.product_type || existing.product_type,
+      tags: updates.tags || existing.tags
+    };
+    const rows = updates.content
+      ? this.chunkRows([{ content: updates.content, metadata: { ...metadata, id } }], {})
+      : this.articleRows(id, metadata, existing.chunks || []);
+    await this.runQuery(buildInsert(this.knowledgeBase, rows));
+
+    const current = new Set(rows.map(row => row.id));
+    for (const row of existingRows.filter(row => !current.has(row.id))) {
+      await this.runQuery(buildDelete(this.knowledgeBase, { id: row.id }));
+    }
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if ((await this.readArticle(id)).length === 0) return false;
+
+    await this.runQuery(buildDelete(this.knowledgeBase, { parent_id: id }));
+    return true;
+  }
+
+  async categories(): Promise<string[]> {
+    const entries = await this.list({});
+    return [...new Set(entries.map(entry => entry.category))].sort();
+  }
+
+  async stats(): Promise<KnowledgeBaseStats> {
+    const entries = await this.list({});
+    const by_category: Record<string, number> = {};
+    const by_priority: Record<string, number> = {};
+
+    for (const entry of entries) {
+      by_category[entry.category] = (by_category[entry.category] || 0) + 1;
+      by_priority[entry.priority] = (by_priority[entry.priority] || 0) + 1;
+    }
+
+    return { total_entries: entries.length, by_category, by_priority };
+  }
+
+  /**
+   * Create the knowledge base unless it already exists
+   */
+  async initialize(knowledgeBase: string = this.knowledgeBase): Promise<boolean> {
+    try {
+      const client = await getMindsDBClient();
+
+      if (!client) {
+        console.log('MindsDB SDK not available, skipping KB initialization');
+        return false;
+      }
+
+      // Check if knowledge base already exists
+      try {
+        const checkSql = buildSelect('information_schema.knowledge_bases', ['*'], { name: knowledgeBase });
+        const existing = await client.SQL.runQuery(checkSql);
+        if (existing && existing.rows && existing.rows.length > 0) {
+          console.log(`Knowledge base "${knowledgeBase}" already exists`);
+          return true;
+        }
+      } catch {
+        // KB doesn't exist, we'll create it
+        console.log(`Knowledge base "${knowledgeBase}" not found, creating...`);
+      }
+
+      // Create knowledge base using MindsDB SQL syntax
+      const createSql = buildCreateKnowledgeBase(knowledgeBase, {
+        embeddingModel: {
+          provider: 'openai',
+          model_name: 'text-embedding-ada-002',
+          api_key: process.env.OPENAI_API_KEY || 'your-api-key'
+        },
+        metadataColumns: [
+          'title', 'category', 'priority', 'product_type', 'tags', 'last_updated',
+          'parent_id', 'chunk_index', 'chunk_count', 'heading', 'chunk_overlap',
+          'chunk_separator'
+        ],
+        contentColumns: ['content'],
+        idColumn: 'id'
+      });
+
+      await client.SQL.runQuery(createSql);
+      console.log(`Knowledge base "${knowledgeBase}" created successfully`);
+      return true;
+
+    } catch (error) {
+      console.error('Failed to initialize knowledge base:', error);
+      return false;
+    }
+  }
+
+  private async runQuery(sql: string): Promise<KnowledgeBaseChunkRow[]> {
+    const client = await getMindsDBClient();
+    if (!client) {
+      throw new Error('MindsDB SDK not available');
+    }
+
+    const result = await client.SQL.runQuery(sql);
+    return result.rows || [];
+  }
+
+  /**
+   * Split documents into knowledge base rows, one per chunk
+   */
+  private chunkRows(documents: KnowledgeBaseDocument[], chunking: ChunkingOptions) {
+    return documents.flatMap(({ content, metadata = {} }) => {
+      // Generate a unique ID for the article; chunk ids derive from it
+      const parentId = metadata.id || `kb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const chunks = chunkMarkdown(content, chunking).map(chunk => ({
+        chunk_index: chunk.index,
+        content: chunk.content,
+        heading: chunk.heading,
+        overlap: chunk.overlap,
+        separator: chunk.separator
+      }));
+
+      return this.articleRows(parentId, metadata, chunks);
+    });
+  }
+
+  /**
+   * Knowledge base rows for the chunks of one article
+   */
+  private articleRows(parentId: string, metadata: KnowledgeBaseDocumentMetadata, chunks: KnowledgeBaseChunk[]) {
+    return chunks.map(chunk => ({
+      id: `${parentId}_chunk_${chunk.chunk_index}`,
+      content: chunk.content,
+      title: metadata.title || '',
+      category: metadata.category || 'general',
+      priority: metadata.priority || 'medium',
+      product_type: metadata.product_type || '',
+      tags: JSON.stringify(metadata.tags || []),
+      last_updated: metadata.last_updated || new Date().toISOString(),
+      parent_id: parentId,
+      chunk_index: chunk.chunk_index,
+      chunk_count: chunks.length,
+      heading: chunk.heading || '',
+      chunk_overlap: chunk.overlap ?? 0,
+      chunk_separator: chunk.separator ?? null
+    }));
+  }
+
+  private readArticle(id: string): Promise<KnowledgeBaseChunkRow[]> {
+    return this.runQuery(buildSelect(this.knowledgeBase, ['*'], { parent_id: id }));
+  }
+
+  /**
+   * Group knowledge base rows, one per chunk, into one entry per parent article.
+   * Entries keep the order of their best-ranked chunk; the matching chunks are
+   * put back in article order and joined into chunk_content.
+   */
+  private groupChunkRows(rows: KnowledgeBaseChunkRow[]): KnowledgeBaseEntry[] {
+    const entries = new Map<string, KnowledgeBaseEntry & { chunks: KnowledgeBaseChunk[] }>();
+
+    for (const row of rows) {
+      const metadata = this.parseMetadata(row);
+      const entry = this.mapEntryRow(row);
+      const parentId = metadata.parent_id || entry.id || row.chunk_id || '';
+      const chunk: KnowledgeBaseChunk = {
+        chunk_index: Number(metadata.chunk_index ?? 0),
+        content: row.chunk_content ?? entry.content ?? '',
+        heading: metadata.heading || undefined,
+        overlap: Number(metadata.chunk_overlap ?? 0),
+        separator: metadata.chunk_separator ?? undefined,
+        relevance: row.relevance ?? 0,
+        distance: row.distance ?? 1
+      };
+
+      const existing = entries.get(parentId);
+      if (existing) {
+        existing.chunks.push(chunk);
+      } else {
+        entries.set(parentId, {
+          ...entry,
+          id: parentId,
+          title: entry.title || `${chunk.content.substring(0, 50)}...`,
+          chunks: [chunk]
+        });
+      }
+    }
+
+    return [...entries.values()].map(entry => {
+      const chunks = [...entry.chunks].sort((a, b) => a.chunk_index - b.chunk_index);
+      const content = joinChunks(chunks);
+
+      return {
+        ...entry,
+        content,
+        chunk_content: content,
+        chunks,
+        relevance: Math.max(...chunks.map(chunk => chunk.relevance ?? 0)),
+        distance: Math.min(...chunks.map(chunk => chunk.distance ?? 1))
+      };
+    });
+  }
+}
@@ -0,0 +1,303 @@
+import type { ChatMessage, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
+import {
+  executeQuery,
+  buildKnowledgeBaseSearch,
+  buildModelPrediction,
+  buildInsert,
+  buildUpdate,
+  buildDelete,
+  buildSelect,
+  escapeIdentifier
+} from '../config/database.js';
+import type {
+  BackendKind,
+  KnowledgeBaseChunkRow,
+  KnowledgeBaseDocument,
+  KnowledgeBaseRowFields,
+  KnowledgeBaseStats,
+  ListOptions,
+  SearchFilters,
+  SupportBackend,
+  UpsertOptions
+} from './types.js';
+import { formatEntryContext, formatHistory, generateFallbackResponseWithContext, rewriteQueryFromHistory } from './rules.js';
+
+/**
+ * MindsDB over its MySQL protocol: AI table predictions for the models and the
+ * support_knowledge_base table for entries.
+ */
+export class MindsDBSqlBackend implements SupportBackend {
+  readonly name: BackendKind = 'mindsdb-sql';
+
+  constructor(protected table: string = 'support_knowledge_base') {}
+
+  async rewrite(query: string, history: ChatMessage[]): Promise<string> {
+    try {
+      const sql = buildModelPrediction(
+        'query_rewriter_model',
+        ['standalone_query'],
+        {
+          query,
+          history: formatHistory(history)
+        }
+      );
+
+      const result = await executeQuery(sql);
+      const standaloneQuery = result.rows[0]?.standalone_query;
+
+      return standaloneQuery || rewriteQueryFromHistory(query, history);
+    } catch (error) {
+      console.error('Query rewriting failed:', error);
+      return rewriteQueryFromHistory(query, history);
+    }
+  }
+
+  async classify(query: string): Promise<QueryClassification> {
+    try {
+      const sql = buildModelPrediction(
+        'query_classifier_model',
+        ['category', 'intent', 'confidence', 'entities'],
+        { query }
+      );
+
+      const result = await executeQuery(sql);
+
+      if (result.rows.length === 0) {
+        // Fallback classification
+        return {
+          category: 'general',
+          intent: 'unknown',
+          confidence: 0.5,
+          entities: []
+        };
+      }
+
+      const row = result.rows[0];
+      return {
+        category: row.category || 'general',
+        intent: row.intent || 'unknown',
+        confidence: parseFloat(row.confidence) || 0.5,
+        entities: JSON.parse(row.entities || '[]')
+      };
+    } catch (error) {
+      console.error('Query classification failed:', error);
+      // Return fallback classification
+      return {
+        category: 'general',
+        intent: 'unknown',
+        confidence: 0.3,
+        entities: []
+      };
+    }
+  }
+
+  async generate(
+    query: string,
+    knowledgeBaseResults: KnowledgeBaseEntry[],
+    classification: QueryClassification,
+    history: ChatMessage[]
+  ): Promise<ResponseGeneration> {
+    try {
+      // Prepare context from knowledge base results
+      const context = knowledgeBaseResults
+        .map(entry => `${entry.title}: ${formatEntryContext(entry)}`)
+        .join('\n\n');
+
+      const sql = buildModelPrediction(
+        'response_generator_model',
+        ['response', 'confidence', 'reasoning', 'requires_escalation'],
+        {
+          query,
+          context,
+          history: formatHistory(history),
+          category: classification.category,
+          intent: classification.intent
+        }
+      );
+
+      const result = await executeQuery(sql);
+
+      if (result.rows.length === 0) {
+        // Generate fallback response
+        const hasKnowledgeBase = knowledgeBaseResults.length > 0;
+        const confidence = hasKnowledgeBase ? 0.7 : 0.4;
+
+        const response = hasKnowledgeBase
+          ? generateFallbackResponseWithContext(query, knowledgeBaseResults)
+          : "I understand your question, but I don't have specific information about that topic. Would you like me to connect you with a human agent?";
+
+        return {
+          response,
+          confidence,
+          reasoning: hasKnowledgeBase
+            ? 'Generated response using knowledge base context'
+            : 'No specific knowledge found, suggesting escalation',
+          requires_escalation: !hasKnowledgeBase || confidence < 0.6
+        };
+      }
+
+      const row = result.rows[0];
+      return {
+        response: row.response,
+        confidence: parseFloat(row.confidence) || 0.5,
+        reasoning: row.reasoning || 'AI generated response',
+        requires_escalation: row.requires_escalation === 'true' || row.requires_escalation === true
+      };
+    } catch (error) {
+      console.error('Response generation failed:', error);
+      return {
+        response: "I'm sorry, I'm having trouble processing your request right now. Please try again or contact our support team.",
+        confidence: 0.1,
+        reasoning: 'Error in response generation',
+        requires_escalation: true
+      };
+    }
+  }
+
+  async search(query: string, filters: SearchFilters): Promise<KnowledgeBaseEntry[]> {
+    const {
+      category,
+      priority,
+      product_type,
+      limit = 10,
+      relevance_threshold = 0.7
+    } = filters;
+
+    const sql = buildKnowledgeBaseSearch(this.table, {
+      columns: ['id', 'chunk_content', 'metadata', 'relevance', 'distance'],
+      content: query,
+      relevanceThreshold: relevance_threshold,
+      // Add metadata filters
+      filters: { category, priority, product_type },
+      limit
+    });
+
+    const result = await executeQuery(sql);
+    return (result.rows as KnowledgeBaseChunkRow[]).map(row => this.mapEntryRow(row));
+  }
+
+  async list(options: ListOptions): Promise<KnowledgeBaseEntry[]> {
+    const { category, priority, product_type, tag, limit, knowledgeBase = this.table } = options;
+
+    const sql = buildSelect(knowledgeBase, ['*'], { category, priority, product_type }, { limit });
+    const result = await executeQuery(sql);
+    const entries = (result.rows as KnowledgeBaseChunkRow[]).map(row => this.mapEntryRow(row));
+
+    // Tags are stored as a JSON list, so they are matched after loading
+    return tag ? entries.filter(entry => entry.tags.includes(tag)) : entries;
+  }
+
+  /**
+   * Entries are written whole, one row each, to the table or the one named by
+   * knowledgeBase. Rows have no chunk columns, so chunking is refused.
+   */
+  async upsert(documents: KnowledgeBaseDocument[], options: UpsertOptions = {}): Promise<number> {
+    const { knowledgeBase = this.table, chunking = {} } = options;
+    if (chunking.chunkSize !== undefined || chunking.chunkOverlap !== undefined) {
+      throw new Error(`The ${this.name} backend stores entries whole; chunking needs the mindsdb-sdk backend`);
+    }
+    if (documents.length === 0) return 0;
+
+    const rows = documents.map(({ content, metadata = {} }) => ({
+      id: metadata.id || `kb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title: metadata.title || '',
+      content,
+      category: metadata.category || 'general',
+      priority: metadata.priority || 'medium',
+      product_type: metadata.product_type || '',
+      tags: JSON.stringify(metadata.tags || []),
+      last_updated: metadata.last_updated || new Date().toISOString()
+    }));
+
+    const result = await executeQuery(buildInsert(knowledgeBase, rows));
+    return result.affectedRows;
+  }
+
+  async update(id: string, updates: Partial<Omit<KnowledgeBaseEntry, 'id'>>): Promise<boolean> {
+    const sql = buildUpdate(this.table, {
+      title: updates.title || undefined,
+      content: updates.content || undefined,
+      category: updates.category || undefined,
+      priority: updates.priority || undefined,
+      product_type: updates.product_type || undefined,
+      tags: updates.tags ? JSON.stringify(updates.tags) : undefined,
+      last_updated: new Date().toISOString()
+    }, { id });
+
+    const result = await executeQuery(sql);
+    return result.affectedRows > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await executeQuery(buildDelete(this.table, { id }));
+    return result.affectedRows > 0;
+  }
+
+  async categories(): Promise<string[]> {
+    const result = await executeQuery(`SELECT DISTINCT category FROM ${escapeIdentifier(this.table)} ORDER BY category`);
+    return (result.rows as Array<{ category: string }>).map(row => row.category);
+  }
+
+  async stats(): Promise<KnowledgeBaseStats> {
+    const table = escapeIdentifier(this.table);
+    const totalSql = `SELECT COUNT(*) as total FROM ${table}`;
+    const categorySql = `SELECT category, COUNT(*) as count FROM ${table} GROUP BY category`;
+    const prioritySql = `SELECT priority, COUNT(*) as count FROM ${table} GROUP BY priority`;
+
+    const [totalResult, categoryResult, priorityResult] = await Promise.all([
+      executeQuery(totalSql),
+      executeQuery(categorySql),
+      executeQuery(prioritySql)
+    ]);
+
+    const by_category: Record<string, number> = {};
+    (categoryResult.rows as Array<{ category: string; count: number }>).forEach(row => {
+      by_category[row.category] = row.count;
+    });
+
+    const by_priority: Record<string, number> = {};
+    (priorityResult.rows as Array<{ priority: string; count: number }>).forEach(row => {
+      by_priority[row.priority] = row.count;
+    });
+
+    return {
+      total_entries: totalResult.rows[0].total,
+      by_category,
+      by_priority
+    };
+  }
+
+  /**
+   * The table is created with the MindsDB project, so there is nothing to set up
+   */
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  protected parseMetadata(row: KnowledgeBaseChunkRow): KnowledgeBaseRowFields {
+    return typeof row.metadata === 'string' ? JSON.parse(row.metadata || '{}') : row.metadata || {};
+  }
+
+  /**
+   * Map a knowledge base row to an entry. Fields come from the JSON metadata
+   * column when present, otherwise from plain columns.
+   */
+  protected mapEntryRow(row: KnowledgeBaseChunkRow): KnowledgeBaseEntry {
+    const metadata = this.parseMetadata(row);
+    const tags = metadata.tags ?? row.tags ?? [];
+
+    return {
+      id: row.id,
+      title: metadata.title || row.title || '',
+      content: metadata.content || row.content || row.chunk_content || '',
+      category: metadata.category || row.category || 'general',
+      priority: metadata.priority || row.priority || 'medium',
+      product_type: metadata.product_type || row.product_type || undefined,
+      tags: typeof tags === 'string' ? JSON.parse(tags) : tags,
+      last_updated: new Date(metadata.last_updated || row.last_updated || Date.now()),
+      chunk_content: row.chunk_content,
+      relevance: row.relevance,
+      distance: row.distance
+    };
+  }
+}
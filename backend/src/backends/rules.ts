@@ -0,0 +1,137 @@
+import type { ChatMessage, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
+
+/*
+ * Rule-based query handling. The in-memory backend answers with these; the
+ * MindsDB backends fall back to them when a model returns nothing.
+ */
+
+// Words that make a message depend on an earlier turn ("how long does that take?")
+const FOLLOW_UP_START = /^(and|but|also|so|then|what about|how about)\b/;
+const FOLLOW_UP_REFERENCE = /\b(it|its|that|this|those|these|they|them|there)\b/;
+
+/**
+ * Prefix follow-ups with the previous user question
+ */
+export function rewriteQueryFromHistory(query: string, history: ChatMessage[]): string {
+  const queryLower = query.toLowerCase().trim();
+  const isFollowUp = FOLLOW_UP_START.test(queryLower) ||
+    (FOLLOW_UP_REFERENCE.test(queryLower) && queryLower.split(/\s+/).length <= 12);
+
+  if (!isFollowUp) return query;
+
+  const previousQuestion = [...history].reverse().find(msg => msg.role === 'user');
+  return previousQuestion ? `${previousQuestion.content} ${query}` : query;
+}
+
+function isGreeting(queryLower: string): boolean {
+  return queryLower.includes('hi') || queryLower.includes('hello') || queryLower.includes('hey');
+}
+
+/**
+ * Keyword classification
+ */
+export function classifyByKeywords(query: string): QueryClassification {
+  const queryLower = query.toLowerCase();
+  let category = 'general';
+  let intent = 'help';
+  let confidence = 0.8;
+
+  if (queryLower.includes('password') || queryLower.includes('login') || queryLower.includes('reset')) {
+    category = 'technical';
+    intent = 'password_reset';
+    confidence = 0.95;
+  } else if (queryLower.includes('billing') || queryLower.includes('payment') || queryLower.includes('charge')) {
+    category = 'billing';
+    intent = 'billing_inquiry';
+    confidence = 0.90;
+  } else if (isGreeting(queryLower)) {
+    category = 'general';
+    intent = 'greeting';
+    confidence = 0.85;
+  }
+
+  return {
+    category,
+    intent,
+    confidence,
+    entities: []
+  };
+}
+
+/**
+ * Greet, quote the best knowledge base match, or offer a human agent
+ */
+export function generateFromKnowledgeBase(query: string, knowledgeBaseResults: KnowledgeBaseEntry[]): ResponseGeneration {
+  const reasoning = 'Generated from knowledge base rules';
+
+  if (isGreeting(query.toLowerCase())) {
+    return {
+      response: "Hello! I'm here to help you with any questions or issues you might have. How can I assist you today?",
+      confidence: 0.95,
+      reasoning,
+      requires_escalation: false
+    };
+  }
+
+  if (knowledgeBaseResults.length > 0) {
+    return {
+      response: `Based on our knowledge base, here's what I found: ${knowledgeBaseResults[0].content}`,
+      confidence: 0.85,
+      reasoning,
+      requires_escalation: false
+    };
+  }
+
+  return {
+    response: "I understand your question, but I don't have specific information about that topic right now. Would you like me to connect you with a human agent who can better assist you?",
+    confidence: 0.6,
+    reasoning,
+    requires_escalation: true
+  };
+}
+
+/**
+ * Phrase the top knowledge base match after the kind of question asked
+ */
+export function generateFallbackResponseWithContext(
+  query: string,
+  knowledgeBaseResults: KnowledgeBaseEntry[]
+): string {
+  if (knowledgeBaseResults.length === 0) {
+    return "I don't have specific information about that topic.";
+  }
+
+  const topResult = knowledgeBaseResults[0];
+
+  if (query.toLowerCase().includes('how')) {
+    return `Based on our documentation: ${topResult.chunk_content}`;
+  } else if (query.toLowerCase().includes('what')) {
+    return `Here's what I found: ${topResult.chunk_content}`;
+  } else if (query.toLowerCase().includes('can i') || query.toLowerCase().includes('can you')) {
+    return `According to our guidelines: ${topResult.chunk_content}`;
+  } else {
+    return `I found this relevant information: ${topResult.chunk_content}`;
+  }
+}
+
+/**
+ * Format prior turns as a transcript for model prompts
+ */
+export function formatHistory(history: ChatMessage[]): string {
+  return history
+    .map(msg => `${{ user: 'User', assistant: 'Assistant', agent: 'Support agent' }[msg.role]}: ${msg.content}`)
+    .join('\n');
+}
+
+/**
+ * Context for one article: its matching chunks labelled with their section, or its whole content
+ */
+export function formatEntryContext(entry: KnowledgeBaseEntry): string {
+  if (!entry.chunks || entry.chunks.length === 0) {
+    return entry.chunk_content ?? entry.content;
+  }
+
+  return entry.chunks
+    .map(chunk => chunk.heading ? `[${chunk.heading}] ${chunk.content}` : chunk.content)
+    .join('\n');
+}
@@ -0,0 +1,115 @@
+import type { ChatMessage, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
+import type { ChunkingOptions } from '../services/chunking.js';
+
+export type BackendKind = 'memory' | 'mindsdb-sql' | 'mindsdb-sdk';
+
+export interface SearchFilters {
+  category?: string;
+  priority?: string;
+  product_type?: string;
+  limit?: number;
+  relevance_threshold?: number;
+}
+
+export interface EntryListFilters {
+  category?: string;
+  priority?: string;
+  product_type?: string;
+  tag?: string;
+  limit?: number;
+}
+
+/** The entry fields stored alongside a document's content */
+export interface KnowledgeBaseDocumentMetadata {
+  id?: string;
+  title?: string;
+  category?: string;
+  priority?: KnowledgeBaseEntry['priority'];
+  product_type?: string;
+  tags?: string[];
+  /** ISO timestamp; the time of writing when missing */
+  last_updated?: string;
+}
+
+export interface KnowledgeBaseDocument {
+  content: string;
+  metadata?: KnowledgeBaseDocumentMetadata;
+}
+
+/** Entry and chunk fields of a stored row, as plain columns or in its JSON metadata */
+export interface KnowledgeBaseRowFields {
+  title?: string;
+  content?: string;
+  category?: string;
+  priority?: KnowledgeBaseEntry['priority'];
+  product_type?: string;
+  /** A JSON list when read from a column */
+  tags?: string | string[];
+  last_updated?: string | Date;
+  parent_id?: string;
+  chunk_index?: number | string;
+  chunk_count?: number | string;
+  heading?: string;
+  chunk_overlap?: number | string;
+  chunk_separator?: string | null;
+}
+
+/** A row of the entries table or of a knowledge base, where each row is one chunk of an article */
+export interface KnowledgeBaseChunkRow extends KnowledgeBaseRowFields {
+  id: string;
+  chunk_id?: string;
+  chunk_content?: string;
+  /** JSON text or an object, depending on the MindsDB version */
+  metadata?: string | KnowledgeBaseRowFields | null;
+  relevance?: number;
+  distance?: number;
+}
+
+export interface KnowledgeBaseStats {
+  total_entries: number;
+  by_category: Record<string, number>;
+  by_priority: Record<string, number>;
+}
+
+export interface KnowledgeBaseTarget {
+  /** Knowledge base to use instead of the backend's own, for backends that hold several */
+  knowledgeBase?: string;
+}
+
+export interface ListOptions extends EntryListFilters, KnowledgeBaseTarget {}
+
+export interface UpsertOptions extends KnowledgeBaseTarget {
+  chunking?: ChunkingOptions;
+}
+
+/**
+ * Where the support pipeline gets its models and knowledge base from.
+ * Services talk to this interface only; createSupportBackend picks the
+ * implementation from configuration.
+ */
+export interface SupportBackend {
+  readonly name: BackendKind;
+
+  /** Turn a follow-up question into a standalone query, given non-empty history */
+  rewrite(query: string, history: ChatMessage[]): Promise<string>;
+  classify(query: string): Promise<QueryClassification>;
+  generate(
+    query: string,
+    knowledgeBaseResults: KnowledgeBaseEntry[],
+    classification: QueryClassification,
+    history: ChatMessage[]
+  ): Promise<ResponseGeneration>;
+
+  /** Ranked entries; defaults are a limit of 10 and a relevance threshold of 0.7 */
+  search(query: string, filters: SearchFilters): Promise<KnowledgeBaseEntry[]>;
+  /** Entries without ranking; every matching entry when no limit is given */
+  list(options: ListOptions): Promise<KnowledgeBaseEntry[]>;
+  /** Write documents, generating ids for those without metadata.id. Returns the number written. */
+  upsert(documents: KnowledgeBaseDocument[], options: UpsertOptions): Promise<number>;
+  update(id: string, updates: Partial<Omit<KnowledgeBaseEntry, 'id'>>): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+  categories(): Promise<string[]>;
+  stats(): Promise<KnowledgeBaseStats>;
+  /** Create the knowledge base if needed; false when the backend could not */
+  initialize(knowledgeBase?: string): Promise<boolean>;
+}
@@ -2,12 +2,14 @@ import mysql from 'mysql2/promise';
 import MindsDB from 'mindsdb-js-sdk';
 import type { MindsDBConfig } from '../types/index.js';
 import dotenv from 'dotenv';
+import { FixtureRecorder, FixtureReplayer, parseFixtureMode } from './fixtures.js';
 
 // Load environment variables
 dotenv.config();
 
 let connection: mysql.Connection | null = null;
 let mindsdbClient: any = null;
+let fixtures: FixtureRecorder | FixtureReplayer | null = null;
 
 export const config: MindsDBConfig = {
   host: process.env.MINDSDB_HOST || 'localhost',
@@ -19,75 +21,27 @@ export const config: MindsDBConfig = {
   mindsdbCloudEmail: process.env.MINDSDB_CLOUD_EMAIL,
   mindsdbCloudPassword: process.env.MINDSDB_CLOUD_PASSWORD,
   useCloud: process.env.MINDSDB_USE_CLOUD === 'true',
-  httpUrl: process.env.MINDSDB_HTTP_URL || 'http://localhost:47334'
+  httpUrl: process.env.MINDSDB_HTTP_URL || 'http://localhost:47334',
+  // Record or replay MindsDB interactions (see fixtures.ts)
+  fixturesMode: parseFixtureMode(process.env.MINDSDB_FIXTURES),
+  fixturesPath: process.env.MINDSDB_FIXTURES_PATH || 'fixtures/mindsdb.jsonl'
 };
 
-const isMockMode = process.env.MOCK_MODE === 'true';
-
-// Mock data for development
-const mockKnowledgeBase = [
-  {
-    id: 'kb_1',
-    title: 'Password Reset Guide',
-    content: 'To reset your password: 1. Go to the login page 2. Click "Forgot Password" 3. Enter your email 4. Check your email for reset instructions 5. Follow the link and create a new password',
-    category: 'technical',
-    priority: 'high',
-    product_type: 'web_app',
-    tags: ['password', 'reset', 'login'],
-    last_updated: new Date('2025-06-24T10:00:00Z'),
-    chunk_content: 'Password reset instructions for users who forgot their login credentials',
-    relevance: 0.95,
-    distance: 0.05
-  },
-  {
-    id: 'kb_2', 
-    title: 'Account Billing Information',
-    content: 'Your billing information can be found in Account Settings > Billing. Here you can view current plans, payment history, and update payment methods.',
-    category: 'billing',
-    priority: 'medium',
-    product_type: 'web_app',
-    tags: ['billing', 'account', 'payment'],
-    last_updated: new Date('2025-06-23T15:30:00Z'),
-    chunk_content: 'Information about accessing billing details and payment management',
-    relevance: 0.88,
-    distance: 0.12
-  },
-  {
-    id: 'kb_3',
-    title: 'Getting Started Guide',
-    content: 'Welcome! To get started: 1. Complete your profile 2. Explore the dashboard 3. Connect your first data source 4. Create your first project 5. Invite team members',
-    category: 'general',
-    priority: 'low',
-    product_type: 'web_app', 
-    tags: ['getting-started', 'onboarding'],
-    last_updated: new Date('2025-06-22T09:15:00Z'),
-    chunk_content: 'Step-by-step guide for new users to get started with the platform',
-    relevance: 0.75,
-    distance: 0.25
-  }
-];
-
-function generateMockResponse(query: string): any[] {
-  // Simple keyword matching for demo purposes
-  const queryLower = query.toLowerCase();
-  
-  if (queryLower.includes('password') || queryLower.includes('reset') || queryLower.includes('login')) {
-    return [mockKnowledgeBase[0]];
-  } else if (queryLower.includes('billing') || queryLower.includes('payment') || queryLower.includes('account')) {
-    return [mockKnowledgeBase[1]];
-  } else if (queryLower.includes('start') || queryLower.includes('help') || queryLower.includes('how')) {
-    return [mockKnowledgeBase[2]];
-  } else {
-    // Return a general helpful response for any other query
-    return [mockKnowledgeBase[2]];
+/**
+ * Recorder or replayer for the configured fixtures mode, null when off
+ */
+export function getFixtures(): FixtureRecorder | FixtureReplayer | null {
+  if (!fixtures && config.fixturesMode === 'record') {
+    fixtures = new FixtureRecorder(config.fixturesPath!);
+    console.log(`Recording MindsDB interactions to ${config.fixturesPath}`);
+  } else if (!fixtures && config.fixturesMode === 'replay') {
+    fixtures = FixtureReplayer.fromFile(config.fixturesPath!);
+    console.log(`Replaying MindsDB interactions from ${config.fixturesPath}`);
   }
+  return fixtures;
 }
 
 export async function getConnection(): Promise<mysql.Connection> {
-  if (isMockMode) {
-    throw new Error('Mock mode enabled - no real database connection needed');
-  }
-  
   if (!connection) {
     try {
       connection = await mysql.createConnection({
@@ -109,11 +63,11 @@ export async function getConnection(): Promise<mysql.Connection> {
 
 // Initialize MindsDB SDK connection
 export async function getMindsDBClient(): Promise<any> {
-  if (isMockMode) {
-    console.log('Mock mode: MindsDB SDK not initialized');
-    return null;
+  const session = getFixtures();
+  if (session instanceof FixtureReplayer) {
+    return { SQL: { runQuery: async (sql: string) => session.replay('sdk', sql) } };
   }
-  
+
   if (!mindsdbClient) {
     try {
       console.log('Attempting to connect to MindsDB...', typeof MindsDB, typeof MindsDB.connect);
@@ -136,7 +90,7 @@ export async function getMindsDBClient(): Promise<any> {
       }
       
       // Return MindsDB instance directly - it has query methods
-      mindsdbClient = MindsDB;
+      mindsdbClient = session ? recordingClient(MindsDB, session) : MindsDB;
       
     } catch (error) {
       console.error('Failed to connect to MindsDB via SDK:', error);
@@ -148,51 +102,36 @@ export async function getMindsDBClient(): Promise<any> {
   return mindsdbClient;
 }
 
-export async function executeQuery(sql: string): Promise<any> {
-  if (isMockMode) {
-    console.log('Mock mode: Simulating query execution:', sql);
-    
-    // Parse the query to determine what kind of response to return
-    const sqlLower = sql.toLowerCase();
-    
-    if (sqlLower.includes('select') && sqlLower.includes('knowledge_base')) {
-      // Extract search term from query (basic parsing)
-      const match = sql.match(/'([^']+)'/);
-      const searchTerm = match ? match[1] : 'help';
-      
-      return {
-        rows: generateMockResponse(searchTerm),
-        affectedRows: 0
-      };
-    } else if (sqlLower.includes('insert')) {
-      return {
-        rows: [],
-        affectedRows: 1
-      };
-    } else if (sqlLower.includes('categories')) {
-      return {
-        rows: [
-          { category: 'technical' },
-          { category: 'billing' }, 
-          { category: 'general' },
-          { category: 'shipping' },
-          { category: 'returns' }
-        ],
-        affectedRows: 0
-      };
-    } else {
-      // Default response
-      return {
-        rows: [],
-        affectedRows: 0
-      };
+/**
+ * The SDK client with SQL.runQuery going through the recorder
+ */
+function recordingClient<T extends { SQL: { runQuery: (sql: string) => Promise<unknown> } }>(
+  client: T,
+  recorder: FixtureRecorder
+): T {
+  return {
+    ...client,
+    SQL: {
+      ...client.SQL,
+      runQuery: (sql: string) => recorder.record('sdk', sql, () => client.SQL.runQuery(sql))
     }
-  }
-  
-  try {
+  };
+}
+
+export async function executeQuery(sql: string): Promise<any> {
+  const run = async () => {
     const conn = await getConnection();
-    const [rows] = await conn.execute(sql);
+    // Text protocol: statements are fully escaped, and MindsDB has no prepared statements
+    const [rows] = await conn.query(sql);
     return { rows, affectedRows: (rows as any).affectedRows || 0 };
+  };
+
+  try {
+    const session = getFixtures();
+    if (session instanceof FixtureReplayer) {
+      return session.replay('sql', sql);
+    }
+    return session ? await session.record('sql', sql, run) : await run();
   } catch (error) {
     console.error('Query execution failed:', error);
     throw new Error(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -211,4 +150,216 @@ export async function closeConnection(): Promise<void> {
     mindsdbClient = null;
     console.log('MindsDB SDK connection cleared');
   }
+
+  fixtures = null;
+}
+
+/*
+ * SQL building
+ *
+ * MindsDB does not support server-side prepared statements for knowledge base
+ * and model queries, so every value that reaches SQL goes through these
+ * helpers: literals are escaped, identifiers are validated.
+ */
+
+export type SqlValue = string | number | boolean | null | Date;
+
+export type SqlParam = SqlValue | SqlValue[];
+
+export type SqlConditions = Record<string, SqlValue | undefined>;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Validate a table, column, model or knowledge base name
+ */
+export function escapeIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid SQL identifier: "${name}"`);
+  }
+  return name;
+}
+
+/**
+ * Render a value as a SQL literal. Arrays become MindsDB list literals.
+ */
+export function escapeLiteral(value: SqlParam): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => escapeLiteral(item)).join(', ')}]`;
+  }
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid SQL number: ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (value instanceof Date) {
+    return escapeLiteral(value.toISOString());
+  }
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\0/g, '\\0')
+    .replace(/'/g, "''");
+  return `'${escaped}'`;
+}
+
+function buildConditions(conditions: SqlConditions): string[] {
+  return Object.entries(conditions)
+    .filter(([, value]) => value !== undefined)
+    .map(([column, value]) => `${escapeIdentifier(column)} = ${escapeLiteral(value as SqlValue)}`);
+}
+
+function buildLimit(limit: number): string {
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid SQL limit: ${limit}`);
+  }
+  return `LIMIT ${limit}`;
+}
+
+export interface KnowledgeBaseSearchQuery {
+  columns: string[];
+  content: string;
+  relevanceThreshold?: number;
+  /** Plain column equality filters */
+  filters?: SqlConditions;
+  /** Filters on keys of the JSON metadata column */
+  metadataFilters?: SqlConditions;
+  limit?: number;
+}
+
+/**
+ * SELECT ... FROM <kb> WHERE content = '...' semantic search
+ */
+export function buildKnowledgeBaseSearch(table: string, query: KnowledgeBaseSearchQuery): string {
+  const where = [`content = ${escapeLiteral(query.content)}`];
+
+  if (query.relevanceThreshold !== undefined) {
+    where.push(`relevance >= ${escapeLiteral(query.relevanceThreshold)}`);
+  }
+
+  where.push(...buildConditions(query.filters || {}));
+
+  for (const [key, value] of Object.entries(query.metadataFilters || {})) {
+    if (value === undefined) continue;
+    where.push(`JSON_EXTRACT(metadata, '$.${escapeIdentifier(key)}') = ${escapeLiteral(value)}`);
+  }
+
+  let sql = `SELECT ${query.columns.map(escapeIdentifier).join(', ')} FROM ${escapeIdentifier(table)} WHERE ${where.join(' AND ')} ORDER BY relevance DESC`;
+  if (query.limit !== undefined) {
+    sql += ` ${buildLimit(query.limit)}`;
+  }
+  return sql;
+}
+
+/**
+ * SELECT <columns> FROM <model> WHERE <input> = '...' model prediction
+ */
+export function buildModelPrediction(model: string, columns: string[], inputs: SqlConditions): string {
+  const where = buildConditions(inputs);
+  return `SELECT ${columns.map(escapeIdentifier).join(', ')} FROM ${escapeIdentifier(model)}` +
+    (where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '');
+}
+
+export function buildSelect(
+  table: string,
+  columns: string[],
+  conditions: SqlConditions = {},
+  options: { limit?: number } = {}
+): string {
+  const where = buildConditions(conditions);
+  let sql = `SELECT ${columns.map(column => column === '*' ? column : escapeIdentifier(column)).join(', ')} FROM ${escapeIdentifier(table)}`;
+  if (where.length > 0) {
+    sql += ` WHERE ${where.join(' AND ')}`;
+  }
+  if (options.limit !== undefined) {
+    sql += ` ${buildLimit(options.limit)}`;
+  }
+  return sql;
+}
+
+/**
+ * INSERT one row, or several rows sharing the first row's columns
+ */
+export function buildInsert(table: string, rows: Record<string, SqlParam> | Record<string, SqlParam>[]): string {
+  const rowList = Array.isArray(rows) ? rows : [rows];
+  if (rowList.length === 0) {
+    throw new Error('INSERT requires at least one row');
+  }
+
+  const columnNames = Object.keys(rowList[0]);
+  const values = rowList.map(row =>
+    `(${columnNames.map(column => escapeLiteral(row[column] ?? null)).join(', ')})`
+  );
+  return `INSERT INTO ${escapeIdentifier(table)} (${columnNames.map(escapeIdentifier).join(', ')}) VALUES ${values.join(', ')}`;
+}
+
+export function buildUpdate(table: string, updates: Record<string, SqlValue | undefined>, conditions: SqlConditions): string {
+  const assignments = buildConditions(updates);
+  const where = buildConditions(conditions);
+
+  if (assignments.length === 0) {
+    throw new Error('UPDATE requires at least one column');
+  }
+  if (where.length === 0) {
+    throw new Error('UPDATE requires a WHERE condition');
+  }
+  return `UPDATE ${escapeIdentifier(table)} SET ${assignments.join(', ')} WHERE ${where.join(' AND ')}`;
+}
+
+export function buildDelete(table: string, conditions: SqlConditions): string {
+  const where = buildConditions(conditions);
+
+  if (where.length === 0) {
+    throw new Error('DELETE requires a WHERE condition');
+  }
+  return `DELETE FROM ${escapeIdentifier(table)} WHERE ${where.join(' AND ')}`;
+}
+
+export interface CreateKnowledgeBaseOptions {
+  embeddingModel: Record<string, string>;
+  metadataColumns: string[];
+  contentColumns: string[];
+  idColumn: string;
+}
+
+/**
+ * CREATE KNOWLEDGE_BASE <name> USING embedding_model = {...}, ...
+ */
+export function buildCreateKnowledgeBase(name: string, options: CreateKnowledgeBaseOptions): string {
+  return [
+    `CREATE KNOWLEDGE_BASE ${escapeIdentifier(name)}`,
+    'USING',
+    `  embedding_model = ${JSON.stringify(options.embeddingModel)},`,
+    `  metadata_columns = ${escapeLiteral(options.metadataColumns.map(escapeIdentifier))},`,
+    `  content_columns = ${escapeLiteral(options.contentColumns.map(escapeIdentifier))},`,
+    `  id_column = ${escapeLiteral(escapeIdentifier(options.idColumn))}`
+  ].join('\n');
+}
+
+/**
+ * CREATE <kind> <name> [PREDICT <column>] USING key = value, ...
+ */
+export function buildCreateWithParams(
+  kind: 'MODEL' | 'AGENT',
+  name: string,
+  params: Record<string, SqlParam | undefined>,
+  predict?: string
+): string {
+  const using = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `  ${escapeIdentifier(key)} = ${escapeLiteral(value as SqlParam)}`);
+
+  return [
+    `CREATE ${kind} ${escapeIdentifier(name)}`,
+    ...(predict ? [`PREDICT ${escapeIdentifier(predict)}`] : []),
+    'USING',
+    using.join(',\n')
+  ].join('\n');
 }
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+
+/*
+ * MindsDB fixtures
+ *
+ * In record mode every statement sent to MindsDB, over the MySQL connection
+ * or the SDK, is appended to a JSONL file together with its result or error.
+ * In replay mode the same file answers those statements without connecting,
+ * so a captured trace reproduces what MindsDB returned.
+ *
+ * API keys in statements are redacted before they are written. Statements
+ * are matched with their generated ids and timestamps normalized, so writes
+ * replay too; their results are the recorded ones, ids included.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/** executeQuery or client.SQL.runQuery */
+export type FixtureChannel = 'sql' | 'sdk';
+
+export interface MindsDBInteraction {
+  channel: FixtureChannel;
+  sql: string;
+  result?: unknown;
+  error?: string;
+}
+
+/** What a statement returned: rows for queries, affectedRows for executeQuery writes */
+export interface FixtureResult {
+  rows?: unknown[];
+  affectedRows?: number;
+  [key: string]: unknown;
+}
+
+export class FixtureMissError extends Error {
+  constructor(channel: FixtureChannel, sql: string) {
+    super(`No recorded ${channel} result for: ${sql}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+// `openai_api_key = '...'` in USING clauses and `"api_key":"..."` in JSON parameters
+const SQL_SECRET_PATTERN = /\b(\w*api_key\w*)(\s*=\s*)'(?:[^']|'')*'/gi;
+const JSON_SECRET_PATTERN = /"(\w*api_key\w*)"(\s*:\s*)"(?:[^"\\]|\\.)*"/gi;
+
+// Ids made as `<prefix>_<Date.now()>_<random or role>` and ISO timestamps
+const GENERATED_ID_PATTERN = /\b([a-z]+)_\d{13}_[a-z0-9]{1,9}/g;
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+
+/**
+ * Replace API key values in a statement, or an error that quotes one
+ */
+export function redactSecrets(text: string): string {
+  return text
+    .replace(SQL_SECRET_PATTERN, "$1$2'[REDACTED]'")
+    .replace(JSON_SECRET_PATTERN, '"$1"$2"[REDACTED]"');
+}
+
+/**
+ * The form statements are matched in: redacted, with values that differ
+ * between runs replaced by placeholders
+ */
+export function normalizeStatement(sql: string): string {
+  return redactSecrets(sql.trim())
+    .replace(GENERATED_ID_PATTERN, '$1_<id>')
+    .replace(TIMESTAMP_PATTERN, '<timestamp>');
+}
+
+export function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (value === undefined || value === '' || value === 'off') return 'off';
+  if (value === 'record' || value === 'replay') return value;
+
+  throw new Error(`Unknown MINDSDB_FIXTURES "${value}", expected one of: off, record, replay`);
+}
+
+export class FixtureRecorder {
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  /**
+   * Run a statement and append it with its outcome. Errors are recorded and
+   * then rethrown unchanged.
+   */
+  async record<T>(channel: FixtureChannel, sql: string, run: () => Promise<T>): Promise<T> {
+    try {
+      const result = await run();
+      this.append({ channel, sql: redactSecrets(sql), result });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.append({ channel, sql: redactSecrets(sql), error: redactSecrets(message) });
+      throw error;
+    }
+  }
+
+  private append(interaction: MindsDBInteraction): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(interaction) + '\n');
+  }
+}
+
+export class FixtureReplayer {
+  // Recordings not yet served, per channel and statement
+  private pending = new Map<string, MindsDBInteraction[]>();
+  private last = new Map<string, MindsDBInteraction>();
+
+  constructor(interactions: MindsDBInteraction[]) {
+    for (const interaction of interactions) {
+      const key = this.key(interaction.channel, interaction.sql);
+      this.pending.set(key, [...(this.pending.get(key) || []), interaction]);
+    }
+  }
+
+  static fromFile(filePath: string): FixtureReplayer {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim());
+    return new FixtureReplayer(lines.map(line => JSON.parse(line)));
+  }
+
+  /**
+   * Answer a statement from the recordings. A statement recorded several
+   * times gets its results in recorded order, then the last one again.
+   */
+  replay(channel: FixtureChannel, sql: string): FixtureResult {
+    const key = this.key(channel, sql);
+    const interaction = this.pending.get(key)?.shift() || this.last.get(key);
+    if (!interaction) {
+      throw new FixtureMissError(channel, sql);
+    }
+
+    this.last.set(key, interaction);
+    if (interaction.error !== undefined) {
+      throw new Error(interaction.error);
+    }
+    // Callers get their own copy, as they would from a real query
+    return structuredClone(interaction.result) as FixtureResult;
+  }
+
+  private key(channel: FixtureChannel, sql: string): string {
+    return `${channel}\n${normalizeStatement(sql)}`;
+  }
+}
@@ -4,6 +4,27 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { createChatRouter } from './routes/chat.js';
 import { createKnowledgeBaseRouter } from './routes/knowledgeBase.js';
+import { createAgentsRouter } from './routes/agents.js';
+import { createEscalationsRouter } from './routes/escalations.js';
+import { createEscalationRulesRouter } from './routes/escalationRules.js';
+import { createTaxonomyRouter } from './routes/taxonomy.js';
+import { createFeedbackRouter } from './routes/feedback.js';
+import { createCsatRouter } from './routes/csat.js';
+import { createAnalyticsRouter } from './routes/analytics.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createDocsRouter } from './routes/docs.js';
+import { attachChatSocket } from './routes/chatSocket.js';
+import { ChatService } from './services/chat.js';
+import { EscalationService } from './services/escalation.js';
+import { FeedbackService } from './services/feedback.js';
+import { CsatService } from './services/csat.js';
+import { AnalyticsService } from './services/analytics.js';
+import { AIService } from './services/ai.js';
+import { getAuthService } from './services/auth.js';
+import { createEscalationRulesService } from './services/escalationRules.js';
+import { createConversationRepository } from './repositories/conversationRepository.js';
+import { ObservedConversationRepository } from './services/conversationEvents.js';
+import { getSupportBackend } from './backends/index.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -23,18 +44,47 @@ app.use((req, res, next) => {
   next();
 });
 
+// Shared services: chat, feedback, surveys, analytics and the escalation queue must see the same conversations,
+// and rules edited through the admin API apply to the next chat message.
+// Changes to conversations are pushed to chat socket clients, whichever service made them.
+const conversationRepository = new ObservedConversationRepository(createConversationRepository());
+const escalationService = new EscalationService(conversationRepository);
+const feedbackService = new FeedbackService(conversationRepository);
+const csatService = new CsatService(conversationRepository, escalationService);
+const analyticsService = new AnalyticsService(conversationRepository, escalationService);
+const escalationRulesService = createEscalationRulesService();
+// Every router checks API keys and session tokens against the same keys and signing secret
+const authService = getAuthService();
+const chatService = new ChatService(
+  undefined,
+  new AIService(undefined, escalationRulesService),
+  conversationRepository,
+  escalationService,
+  feedbackService
+);
+
 // Routes
-app.use('/api/chat', createChatRouter());
-app.use('/api/kb', createKnowledgeBaseRouter());
+app.use('/api/auth', createAuthRouter(authService));
+app.use('/api/chat', createChatRouter(chatService, authService));
+app.use('/api/kb', createKnowledgeBaseRouter(undefined, authService));
 // Alias for more descriptive endpoint name
-app.use('/api/knowledge-base', createKnowledgeBaseRouter());
+app.use('/api/knowledge-base', createKnowledgeBaseRouter(undefined, authService));
+app.use('/api/agents', createAgentsRouter(undefined, authService));
+app.use('/api/escalations', createEscalationsRouter(escalationService, authService));
+app.use('/api/escalation-rules', createEscalationRulesRouter(escalationRulesService, authService));
+app.use('/api/taxonomy', createTaxonomyRouter(undefined, authService));
+app.use('/api/feedback', createFeedbackRouter(feedbackService, authService));
+app.use('/api/csat', createCsatRouter(csatService, authService));
+app.use('/api/analytics', createAnalyticsRouter(analyticsService, authService));
+app.use('/api/docs', createDocsRouter());
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    environment: process.env.NODE_ENV || 'development'
+    environment: process.env.NODE_ENV || 'development',
+    backend: getSupportBackend().name
   });
 });
 
@@ -61,8 +111,12 @@ const server = app.listen(PORT, () => {
   console.log(`🚀 Customer Support Chatbot API running on port ${PORT}`);
   console.log(`📚 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+  console.log(`📖 API docs: http://localhost:${PORT}/api/docs`);
 });
 
+// Two-way chat for web clients: agent replies, status changes, typing and read receipts
+attachChatSocket(server, { chatService, events: conversationRepository.events, authService });
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
@@ -0,0 +1,73 @@
+import type { Request, RequestHandler, Response } from 'express';
+import type { Principal, Role } from '../types/index.js';
+import type { AuthService } from '../services/auth.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by authenticate() when the request carries valid credentials */
+    principal?: Principal;
+  }
+}
+
+function unauthorized(res: Response, message: string) {
+  return res.status(401).json({
+    success: false,
+    error: message
+  });
+}
+
+/**
+ * Identify the caller from an X-API-Key header or an `Authorization: Bearer <session token>` header.
+ * Requests without credentials continue anonymously; requests with invalid ones are rejected.
+ */
+export function authenticate(auth: AuthService): RequestHandler {
+  return (req, res, next) => {
+    if (!auth.enabled) {
+      req.principal = auth.getDisabledPrincipal();
+      return next();
+    }
+
+    const apiKey = req.get('x-api-key');
+    if (apiKey) {
+      const principal = auth.authenticateApiKey(apiKey);
+      if (!principal) return unauthorized(res, 'Invalid API key');
+      req.principal = principal;
+      return next();
+    }
+
+    const [scheme, token] = (req.get('authorization') || '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      const principal = auth.verifySession(token);
+      if (!principal) return unauthorized(res, 'Invalid or expired session token');
+      req.principal = principal;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Only let signed-in callers with one of the roles through; admins are always allowed.
+ * Without roles any signed-in caller is allowed.
+ */
+export function requireRole(...roles: Role[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.principal) return unauthorized(res, 'Authentication required');
+
+    if (roles.length > 0 && req.principal.role !== 'admin' && !roles.includes(req.principal.role)) {
+      return res.status(403).json({
+        success: false,
+        error: `This action requires one of the roles: ${[...roles, 'admin'].join(', ')}`
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * The caller's user id when they are a customer, who may only act on their own conversations
+ */
+export function customerIdOf(req: Request): string | undefined {
+  return req.principal?.role === 'customer' ? req.principal.id : undefined;
+}
@@ -0,0 +1,345 @@
+import type Database from 'better-sqlite3';
+import { openDatabase, getStoreConfig } from './sqlite.js';
+import type { ChatMessage, Conversation, ConversationStatus } from '../types/index.js';
+
+export interface ConversationUpdate {
+  /** Only recorded when the conversation has no owner yet */
+  user_id?: string;
+  status?: ConversationStatus;
+  title?: string;
+}
+
+export interface ConversationQuery {
+  user_id?: string;
+  /** Timestamp to sort by (default: updated_at) */
+  sort?: 'created_at' | 'updated_at';
+  /** Sort direction (default: desc) */
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export interface ConversationStoreStats {
+  total_conversations: number;
+  total_messages: number;
+  escalated_conversations: number;
+}
+
+/**
+ * Storage for conversations and their messages
+ */
+export interface ConversationRepository {
+  getConversation(conversationId: string): Promise<Conversation | null>;
+  listConversations(query?: ConversationQuery): Promise<Conversation[]>;
+  countConversations(query?: Pick<ConversationQuery, 'user_id'>): Promise<number>;
+  upsertConversation(conversationId: string, updates?: ConversationUpdate): Promise<Conversation>;
+  getMessages(conversationId: string): Promise<ChatMessage[]>;
+  addMessage(conversationId: string, message: ChatMessage): Promise<void>;
+  deleteConversation(conversationId: string): Promise<boolean>;
+  getStats(): Promise<ConversationStoreStats>;
+}
+
+/**
+ * Process-local storage; history is lost on restart
+ */
+export class InMemoryConversationRepository implements ConversationRepository {
+  private conversations: Map<string, Conversation>;
+  private messages: Map<string, ChatMessage[]>;
+
+  constructor() {
+    this.conversations = new Map();
+    this.messages = new Map();
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    return conversation ? { ...conversation } : null;
+  }
+
+  async listConversations(query: ConversationQuery = {}): Promise<Conversation[]> {
+    const { sort = 'updated_at', order = 'desc', offset = 0, limit } = query;
+    const direction = order === 'asc' ? 1 : -1;
+
+    return Array.from(this.conversations.values())
+      .filter(conversation => query.user_id === undefined || conversation.user_id === query.user_id)
+      .map(conversation => ({ ...conversation }))
+      .sort((a, b) => direction * (a[sort].getTime() - b[sort].getTime()))
+      .slice(offset, limit !== undefined ? offset + limit : undefined);
+  }
+
+  async countConversations(query: Pick<ConversationQuery, 'user_id'> = {}): Promise<number> {
+    return (await this.listConversations({ user_id: query.user_id })).length;
+  }
+
+  async upsertConversation(conversationId: string, updates: ConversationUpdate = {}): Promise<Conversation> {
+    const now = new Date();
+    const existing = this.conversations.get(conversationId);
+
+    const conversation: Conversation = existing
+      ? {
+          ...existing,
+          user_id: existing.user_id ?? updates.user_id,
+          status: updates.status ?? existing.status,
+          title: updates.title ?? existing.title,
+          updated_at: now
+        }
+      : {
+          id: conversationId,
+          user_id: updates.user_id,
+          status: updates.status ?? 'active',
+          title: updates.title,
+          created_at: now,
+          updated_at: now
+        };
+
+    this.conversations.set(conversationId, conversation);
+    return { ...conversation };
+  }
+
+  async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    return [...(this.messages.get(conversationId) || [])];
+  }
+
+  async addMessage(conversationId: string, message: ChatMessage): Promise<void> {
+    await this.upsertConversation(conversationId);
+
+    const messages = this.messages.get(conversationId) || [];
+    messages.push(message);
+    this.messages.set(conversationId, messages);
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    this.messages.delete(conversationId);
+    return this.conversations.delete(conversationId);
+  }
+
+  async getStats(): Promise<ConversationStoreStats> {
+    let totalMessages = 0;
+    for (const messages of this.messages.values()) {
+      totalMessages += messages.length;
+    }
+
+    let escalatedConversations = 0;
+    for (const conversation of this.conversations.values()) {
+      if (conversation.status === 'escalated') escalatedConversations++;
+    }
+
+    return {
+      total_conversations: this.conversations.size,
+      total_messages: totalMessages,
+      escalated_conversations: escalatedConversations
+    };
+  }
+}
+
+interface ConversationRow {
+  id: string;
+  user_id: string | null;
+  status: ConversationStatus;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  id: string;
+  role: ChatMessage['role'];
+  content: string;
+  metadata: string | null;
+  timestamp: string;
+}
+
+/**
+ * File-based storage shared by every backend process pointing at the same file
+ */
+export class SqliteConversationRepository implements ConversationRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        status TEXT NOT NULL DEFAULT 'active',
+        title TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        metadata TEXT,
+        timestamp TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, seq);
+      CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id);
+    `);
+
+    // Stores created before conversations had titles
+    const columns = this.db.prepare('PRAGMA table_info(conversations)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'title')) {
+      this.db.exec('ALTER TABLE conversations ADD COLUMN title TEXT');
+    }
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    const row = this.db
+      .prepare('SELECT * FROM conversations WHERE id = ?')
+      .get(conversationId) as ConversationRow | undefined;
+
+    return row ? this.mapConversationRow(row) : null;
+  }
+
+  async listConversations(query: ConversationQuery = {}): Promise<Conversation[]> {
+    // Column and direction come from fixed choices, never from the caller's strings
+    const sort = query.sort === 'created_at' ? 'created_at' : 'updated_at';
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const rows = this.db.prepare(`
+      SELECT * FROM conversations
+      WHERE @user_id IS NULL OR user_id = @user_id
+      ORDER BY ${sort} ${order}, id ${order}
+      LIMIT @limit OFFSET @offset
+    `).all({
+      user_id: query.user_id ?? null,
+      limit: query.limit ?? -1,
+      offset: query.offset ?? 0
+    }) as ConversationRow[];
+
+    return rows.map(row => this.mapConversationRow(row));
+  }
+
+  async countConversations(query: Pick<ConversationQuery, 'user_id'> = {}): Promise<number> {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS total FROM conversations WHERE @user_id IS NULL OR user_id = @user_id')
+      .get({ user_id: query.user_id ?? null }) as { total: number };
+
+    return row.total;
+  }
+
+  async upsertConversation(conversationId: string, updates: ConversationUpdate = {}): Promise<Conversation> {
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO conversations (id, user_id, status, title, created_at, updated_at)
+      VALUES (@id, @user_id, @status, @title, @now, @now)
+      ON CONFLICT(id) DO UPDATE SET
+        user_id = COALESCE(user_id, @user_id),
+        status = COALESCE(@status_update, status),
+        title = COALESCE(@title, title),
+        updated_at = @now
+    `).run({
+      id: conversationId,
+      user_id: updates.user_id ?? null,
+      status: updates.status ?? 'active',
+      status_update: updates.status ?? null,
+      title: updates.title ?? null,
+      now
+    });
+
+    return (await this.getConversation(conversationId))!;
+  }
+
+  async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    const rows = this.db
+      .prepare('SELECT id, role, content, metadata, timestamp FROM messages WHERE conversation_id = ? ORDER BY seq')
+      .all(conversationId) as MessageRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(row.timestamp),
+      ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {})
+    }));
+  }
+
+  async addMessage(conversationId: string, message: ChatMessage): Promise<void> {
+    const insert = this.db.transaction(() => {
+      this.upsertConversationSync(conversationId);
+      this.db.prepare(`
+        INSERT INTO messages (id, conversation_id, role, content, metadata, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        message.id,
+        conversationId,
+        message.role,
+        message.content,
+        message.metadata ? JSON.stringify(message.metadata) : null,
+        message.timestamp.toISOString()
+      );
+    });
+
+    insert();
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+    return result.changes > 0;
+  }
+
+  async getStats(): Promise<ConversationStoreStats> {
+    const row = this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM conversations) AS total_conversations,
+        (SELECT COUNT(*) FROM messages) AS total_messages,
+        (SELECT COUNT(*) FROM conversations WHERE status = 'escalated') AS escalated_conversations
+    `).get() as ConversationStoreStats;
+
+    return {
+      total_conversations: row.total_conversations,
+      total_messages: row.total_messages,
+      escalated_conversations: row.escalated_conversations
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private upsertConversationSync(conversationId: string): void {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO conversations (id, status, created_at, updated_at)
+      VALUES (?, 'active', ?, ?)
+      ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at
+    `).run(conversationId, now, now);
+  }
+
+  private mapConversationRow(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      user_id: row.user_id ?? undefined,
+      status: row.status,
+      title: row.title ?? undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
+
+/**
+ * Create the repository selected by CONVERSATION_STORE ('sqlite' or 'memory').
+ * Falls back to in-memory storage if the SQLite file cannot be opened.
+ */
+export function createConversationRepository(): ConversationRepository {
+  const { store, filename } = getStoreConfig();
+
+  if (store === 'memory') {
+    return new InMemoryConversationRepository();
+  }
+
+  try {
+    return new SqliteConversationRepository(filename);
+  } catch (error) {
+    console.error('Failed to open SQLite conversation store:', error);
+    console.log('Falling back to in-memory conversation storage...');
+    return new InMemoryConversationRepository();
+  }
+}
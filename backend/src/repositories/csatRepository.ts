@@ -0,0 +1,184 @@
+import type Database from 'better-sqlite3';
+import { openDatabase, getStoreConfig } from './sqlite.js';
+import type { CsatResponse } from '../types/index.js';
+
+export interface CsatFilters {
+  category?: string;
+  escalated?: boolean;
+}
+
+/**
+ * Storage for end-of-conversation satisfaction surveys
+ */
+export interface CsatRepository {
+  getResponse(conversationId: string): Promise<CsatResponse | null>;
+  listResponses(filters?: CsatFilters): Promise<CsatResponse[]>;
+  saveResponse(response: CsatResponse): Promise<void>;
+}
+
+/**
+ * Newest responses first
+ */
+function compareResponses(a: CsatResponse, b: CsatResponse): number {
+  return b.updated_at.getTime() - a.updated_at.getTime();
+}
+
+/**
+ * Process-local storage; responses are lost on restart
+ */
+export class InMemoryCsatRepository implements CsatRepository {
+  private responses: Map<string, CsatResponse>;
+
+  constructor() {
+    this.responses = new Map();
+  }
+
+  async getResponse(conversationId: string): Promise<CsatResponse | null> {
+    const response = this.responses.get(conversationId);
+    return response ? { ...response } : null;
+  }
+
+  async listResponses(filters: CsatFilters = {}): Promise<CsatResponse[]> {
+    return Array.from(this.responses.values())
+      .filter(response => !filters.category || response.category === filters.category)
+      .filter(response => filters.escalated === undefined || response.escalated === filters.escalated)
+      .map(response => ({ ...response }))
+      .sort(compareResponses);
+  }
+
+  async saveResponse(response: CsatResponse): Promise<void> {
+    this.responses.set(response.conversation_id, { ...response });
+  }
+}
+
+interface CsatRow {
+  id: string;
+  conversation_id: string;
+  user_id: string | null;
+  rating: number;
+  comment: string | null;
+  category: string;
+  escalated: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * File-based storage, kept alongside the conversation store
+ */
+export class SqliteCsatRepository implements CsatRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS csat_responses (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL UNIQUE,
+        user_id TEXT,
+        rating INTEGER NOT NULL,
+        comment TEXT,
+        category TEXT NOT NULL,
+        escalated INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_csat_responses_category ON csat_responses(category);
+    `);
+  }
+
+  async getResponse(conversationId: string): Promise<CsatResponse | null> {
+    const row = this.db
+      .prepare('SELECT * FROM csat_responses WHERE conversation_id = ?')
+      .get(conversationId) as CsatRow | undefined;
+
+    return row ? this.mapResponseRow(row) : null;
+  }
+
+  async listResponses(filters: CsatFilters = {}): Promise<CsatResponse[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filters.category) {
+      conditions.push('category = ?');
+      params.push(filters.category);
+    }
+    if (filters.escalated !== undefined) {
+      conditions.push('escalated = ?');
+      params.push(filters.escalated ? 1 : 0);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM csat_responses ${where}`)
+      .all(...params) as CsatRow[];
+
+    return rows.map(row => this.mapResponseRow(row)).sort(compareResponses);
+  }
+
+  async saveResponse(response: CsatResponse): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO csat_responses (
+        id, conversation_id, user_id, rating, comment, category, escalated, created_at, updated_at
+      ) VALUES (
+        @id, @conversation_id, @user_id, @rating, @comment, @category, @escalated, @created_at, @updated_at
+      )
+      ON CONFLICT(conversation_id) DO UPDATE SET
+        user_id = excluded.user_id,
+        rating = excluded.rating,
+        comment = excluded.comment,
+        category = excluded.category,
+        escalated = excluded.escalated,
+        updated_at = excluded.updated_at
+    `).run({
+      id: response.id,
+      conversation_id: response.conversation_id,
+      user_id: response.user_id ?? null,
+      rating: response.rating,
+      comment: response.comment ?? null,
+      category: response.category,
+      escalated: response.escalated ? 1 : 0,
+      created_at: response.created_at.toISOString(),
+      updated_at: response.updated_at.toISOString()
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapResponseRow(row: CsatRow): CsatResponse {
+    return {
+      id: row.id,
+      conversation_id: row.conversation_id,
+      user_id: row.user_id ?? undefined,
+      rating: row.rating,
+      comment: row.comment ?? undefined,
+      category: row.category,
+      escalated: row.escalated === 1,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
+
+/**
+ * Create the repository selected by CONVERSATION_STORE, matching the conversation store.
+ * Falls back to in-memory storage if the SQLite file cannot be opened.
+ */
+export function createCsatRepository(): CsatRepository {
+  const { store, filename } = getStoreConfig();
+
+  if (store === 'memory') {
+    return new InMemoryCsatRepository();
+  }
+
+  try {
+    return new SqliteCsatRepository(filename);
+  } catch (error) {
+    console.error('Failed to open SQLite CSAT store:', error);
+    console.log('Falling back to in-memory CSAT storage...');
+    return new InMemoryCsatRepository();
+  }
+}
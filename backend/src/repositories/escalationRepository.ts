@@ -0,0 +1,239 @@
+import type Database from 'better-sqlite3';
+import { openDatabase, getStoreConfig } from './sqlite.js';
+import type { EscalationStatus, EscalationTicket } from '../types/index.js';
+
+export interface EscalationTicketFilters {
+  conversation_id?: string;
+  status?: EscalationStatus;
+  priority?: EscalationTicket['priority'];
+  assigned_agent?: string;
+}
+
+/**
+ * Storage for the human handoff queue
+ */
+export interface EscalationRepository {
+  getTicket(ticketId: string): Promise<EscalationTicket | null>;
+  getActiveTicketForConversation(conversationId: string): Promise<EscalationTicket | null>;
+  listTickets(filters?: EscalationTicketFilters): Promise<EscalationTicket[]>;
+  saveTicket(ticket: EscalationTicket): Promise<void>;
+}
+
+const PRIORITY_RANK: Record<EscalationTicket['priority'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+/**
+ * Queue order: highest priority first, then oldest first
+ */
+function compareTickets(a: EscalationTicket, b: EscalationTicket): number {
+  return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    a.created_at.getTime() - b.created_at.getTime();
+}
+
+/**
+ * Process-local storage; the queue is lost on restart
+ */
+export class InMemoryEscalationRepository implements EscalationRepository {
+  private tickets: Map<string, EscalationTicket>;
+
+  constructor() {
+    this.tickets = new Map();
+  }
+
+  async getTicket(ticketId: string): Promise<EscalationTicket | null> {
+    const ticket = this.tickets.get(ticketId);
+    return ticket ? { ...ticket } : null;
+  }
+
+  async getActiveTicketForConversation(conversationId: string): Promise<EscalationTicket | null> {
+    for (const ticket of this.tickets.values()) {
+      if (ticket.conversation_id === conversationId && ticket.status !== 'resolved') {
+        return { ...ticket };
+      }
+    }
+    return null;
+  }
+
+  async listTickets(filters: EscalationTicketFilters = {}): Promise<EscalationTicket[]> {
+    return Array.from(this.tickets.values())
+      .filter(ticket => !filters.conversation_id || ticket.conversation_id === filters.conversation_id)
+      .filter(ticket => !filters.status || ticket.status === filters.status)
+      .filter(ticket => !filters.priority || ticket.priority === filters.priority)
+      .filter(ticket => !filters.assigned_agent || ticket.assigned_agent === filters.assigned_agent)
+      .map(ticket => ({ ...ticket }))
+      .sort(compareTickets);
+  }
+
+  async saveTicket(ticket: EscalationTicket): Promise<void> {
+    this.tickets.set(ticket.id, { ...ticket });
+  }
+}
+
+interface TicketRow {
+  id: string;
+  conversation_id: string;
+  user_id: string | null;
+  status: EscalationStatus;
+  priority: EscalationTicket['priority'];
+  category: string;
+  reason: string;
+  assigned_agent: string | null;
+  resolution_note: string | null;
+  created_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * File-based storage, kept alongside the conversation store
+ */
+export class SqliteEscalationRepository implements EscalationRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS escalation_tickets (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        user_id TEXT,
+        status TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        category TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        assigned_agent TEXT,
+        resolution_note TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        resolved_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_escalation_tickets_conversation ON escalation_tickets(conversation_id, status);
+      CREATE INDEX IF NOT EXISTS idx_escalation_tickets_status ON escalation_tickets(status);
+    `);
+  }
+
+  async getTicket(ticketId: string): Promise<EscalationTicket | null> {
+    const row = this.db
+      .prepare('SELECT * FROM escalation_tickets WHERE id = ?')
+      .get(ticketId) as TicketRow | undefined;
+
+    return row ? this.mapTicketRow(row) : null;
+  }
+
+  async getActiveTicketForConversation(conversationId: string): Promise<EscalationTicket | null> {
+    const row = this.db
+      .prepare("SELECT * FROM escalation_tickets WHERE conversation_id = ? AND status != 'resolved' ORDER BY created_at LIMIT 1")
+      .get(conversationId) as TicketRow | undefined;
+
+    return row ? this.mapTicketRow(row) : null;
+  }
+
+  async listTickets(filters: EscalationTicketFilters = {}): Promise<EscalationTicket[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.conversation_id) {
+      conditions.push('conversation_id = ?');
+      params.push(filters.conversation_id);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.priority) {
+      conditions.push('priority = ?');
+      params.push(filters.priority);
+    }
+    if (filters.assigned_agent) {
+      conditions.push('assigned_agent = ?');
+      params.push(filters.assigned_agent);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM escalation_tickets ${where}`)
+      .all(...params) as TicketRow[];
+
+    return rows.map(row => this.mapTicketRow(row)).sort(compareTickets);
+  }
+
+  async saveTicket(ticket: EscalationTicket): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO escalation_tickets (
+        id, conversation_id, user_id, status, priority, category, reason,
+        assigned_agent, resolution_note, created_at, updated_at, resolved_at
+      ) VALUES (
+        @id, @conversation_id, @user_id, @status, @priority, @category, @reason,
+        @assigned_agent, @resolution_note, @created_at, @updated_at, @resolved_at
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        user_id = excluded.user_id,
+        status = excluded.status,
+        priority = excluded.priority,
+        category = excluded.category,
+        reason = excluded.reason,
+        assigned_agent = excluded.assigned_agent,
+        resolution_note = excluded.resolution_note,
+        updated_at = excluded.updated_at,
+        resolved_at = excluded.resolved_at
+    `).run({
+      id: ticket.id,
+      conversation_id: ticket.conversation_id,
+      user_id: ticket.user_id ?? null,
+      status: ticket.status,
+      priority: ticket.priority,
+      category: ticket.category,
+      reason: ticket.reason,
+      assigned_agent: ticket.assigned_agent ?? null,
+      resolution_note: ticket.resolution_note ?? null,
+      created_at: ticket.created_at.toISOString(),
+      updated_at: ticket.updated_at.toISOString(),
+      resolved_at: ticket.resolved_at ? ticket.resolved_at.toISOString() : null
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapTicketRow(row: TicketRow): EscalationTicket {
+    return {
+      id: row.id,
+      conversation_id: row.conversation_id,
+      user_id: row.user_id ?? undefined,
+      status: row.status,
+      priority: row.priority,
+      category: row.category,
+      reason: row.reason,
+      assigned_agent: row.assigned_agent ?? undefined,
+      resolution_note: row.resolution_note ?? undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : undefined
+    };
+  }
+}
+
+/**
+ * Create the repository selected by CONVERSATION_STORE, matching the conversation store.
+ * Falls back to in-memory storage if the SQLite file cannot be opened.
+ */
+export function createEscalationRepository(): EscalationRepository {
+  const { store, filename } = getStoreConfig();
+
+  if (store === 'memory') {
+    return new InMemoryEscalationRepository();
+  }
+
+  try {
+    return new SqliteEscalationRepository(filename);
+  } catch (error) {
+    console.error('Failed to open SQLite escalation store:', error);
+    console.log('Falling back to in-memory escalation storage...');
+    return new InMemoryEscalationRepository();
+  }
+}
@@ -0,0 +1,205 @@
+import type Database from 'better-sqlite3';
+import { openDatabase, getStoreConfig } from './sqlite.js';
+import type { FeedbackRating, FeedbackReason, MessageFeedback } from '../types/index.js';
+
+export interface FeedbackFilters {
+  conversation_id?: string;
+  rating?: FeedbackRating;
+  /** Only feedback on answers based on this knowledge base entry */
+  source_id?: string;
+}
+
+/**
+ * Storage for customer feedback on assistant answers
+ */
+export interface FeedbackRepository {
+  getFeedback(conversationId: string, messageId: string): Promise<MessageFeedback | null>;
+  listFeedback(filters?: FeedbackFilters): Promise<MessageFeedback[]>;
+  saveFeedback(feedback: MessageFeedback): Promise<void>;
+}
+
+/**
+ * Newest feedback first
+ */
+function compareFeedback(a: MessageFeedback, b: MessageFeedback): number {
+  return b.updated_at.getTime() - a.updated_at.getTime();
+}
+
+/**
+ * Process-local storage; feedback is lost on restart
+ */
+export class InMemoryFeedbackRepository implements FeedbackRepository {
+  private feedback: Map<string, MessageFeedback>;
+
+  constructor() {
+    this.feedback = new Map();
+  }
+
+  async getFeedback(conversationId: string, messageId: string): Promise<MessageFeedback | null> {
+    const feedback = this.feedback.get(this.key(conversationId, messageId));
+    return feedback ? { ...feedback, source_ids: [...feedback.source_ids] } : null;
+  }
+
+  async listFeedback(filters: FeedbackFilters = {}): Promise<MessageFeedback[]> {
+    return Array.from(this.feedback.values())
+      .filter(feedback => !filters.conversation_id || feedback.conversation_id === filters.conversation_id)
+      .filter(feedback => !filters.rating || feedback.rating === filters.rating)
+      .filter(feedback => !filters.source_id || feedback.source_ids.includes(filters.source_id))
+      .map(feedback => ({ ...feedback, source_ids: [...feedback.source_ids] }))
+      .sort(compareFeedback);
+  }
+
+  async saveFeedback(feedback: MessageFeedback): Promise<void> {
+    this.feedback.set(this.key(feedback.conversation_id, feedback.message_id), {
+      ...feedback,
+      source_ids: [...feedback.source_ids]
+    });
+  }
+
+  private key(conversationId: string, messageId: string): string {
+    return `${conversationId}\u0000${messageId}`;
+  }
+}
+
+interface FeedbackRow {
+  id: string;
+  conversation_id: string;
+  message_id: string;
+  user_id: string | null;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  source_ids: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * File-based storage, kept alongside the conversation store
+ */
+export class SqliteFeedbackRepository implements FeedbackRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openDatabase(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS message_feedback (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        user_id TEXT,
+        rating TEXT NOT NULL,
+        reason TEXT,
+        comment TEXT,
+        source_ids TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (conversation_id, message_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_feedback_rating ON message_feedback(rating);
+    `);
+  }
+
+  async getFeedback(conversationId: string, messageId: string): Promise<MessageFeedback | null> {
+    const row = this.db
+      .prepare('SELECT * FROM message_feedback WHERE conversation_id = ? AND message_id = ?')
+      .get(conversationId, messageId) as FeedbackRow | undefined;
+
+    return row ? this.mapFeedbackRow(row) : null;
+  }
+
+  async listFeedback(filters: FeedbackFilters = {}): Promise<MessageFeedback[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.conversation_id) {
+      conditions.push('conversation_id = ?');
+      params.push(filters.conversation_id);
+    }
+    if (filters.rating) {
+      conditions.push('rating = ?');
+      params.push(filters.rating);
+    }
+    if (filters.source_id) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(source_ids) WHERE value = ?)');
+      params.push(filters.source_id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM message_feedback ${where}`)
+      .all(...params) as FeedbackRow[];
+
+    return rows.map(row => this.mapFeedbackRow(row)).sort(compareFeedback);
+  }
+
+  async saveFeedback(feedback: MessageFeedback): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO message_feedback (
+        id, conversation_id, message_id, user_id, rating, reason, comment,
+        source_ids, created_at, updated_at
+      ) VALUES (
+        @id, @conversation_id, @message_id, @user_id, @rating, @reason, @comment,
+        @source_ids, @created_at, @updated_at
+      )
+      ON CONFLICT(conversation_id, message_id) DO UPDATE SET
+        user_id = excluded.user_id,
+        rating = excluded.rating,
+        reason = excluded.reason,
+        comment = excluded.comment,
+        source_ids = excluded.source_ids,
+        updated_at = excluded.updated_at
+    `).run({
+      id: feedback.id,
+      conversation_id: feedback.conversation_id,
+      message_id: feedback.message_id,
+      user_id: feedback.user_id ?? null,
+      rating: feedback.rating,
+      reason: feedback.reason ?? null,
+      comment: feedback.comment ?? null,
+      source_ids: JSON.stringify(feedback.source_ids),
+      created_at: feedback.created_at.toISOString(),
+      updated_at: feedback.updated_at.toISOString()
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapFeedbackRow(row: FeedbackRow): MessageFeedback {
+    return {
+      id: row.id,
+      conversation_id: row.conversation_id,
+      message_id: row.message_id,
+      user_id: row.user_id ?? undefined,
+      rating: row.rating,
+      reason: row.reason ?? undefined,
+      comment: row.comment ?? undefined,
+      source_ids: JSON.parse(row.source_ids),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
+
+/**
+ * Create the repository selected by CONVERSATION_STORE, matching the conversation store.
+ * Falls back to in-memory storage if the SQLite file cannot be opened.
+ */
+export function createFeedbackRepository(): FeedbackRepository {
+  const { store, filename } = getStoreConfig();
+
+  if (store === 'memory') {
+    return new InMemoryFeedbackRepository();
+  }
+
+  try {
+    return new SqliteFeedbackRepository(filename);
+  } catch (error) {
+    console.error('Failed to open SQLite feedback store:', error);
+    console.log('Falling back to in-memory feedback storage...');
+    return new InMemoryFeedbackRepository();
+  }
+}
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export interface StoreConfig {
+  store: 'sqlite' | 'memory';
+  filename: string;
+}
+
+/**
+ * Storage settings shared by every repository.
+ * CONVERSATION_STORE selects 'sqlite' (default) or 'memory'.
+ */
+export function getStoreConfig(): StoreConfig {
+  return {
+    store: process.env.CONVERSATION_STORE === 'memory' ? 'memory' : 'sqlite',
+    filename: process.env.CONVERSATION_DB_PATH || path.join(process.cwd(), 'data', 'conversations.db')
+  };
+}
+
+/**
+ * Open a SQLite database, creating its directory if needed
+ */
+export function openDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AgentsService } from '../services/agents.js';
+import type { AgentConfig } from '../types/index.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+export function createAgentsRouter(agentsService?: AgentsService, authService?: AuthService): Router {
+  const router = Router();
+  const service = agentsService || new AgentsService();
+  router.use(authenticate(authService || getAuthService()));
+
+// Validation schemas
+const createAgentSchema = z.object({
+  name: z.string({ required_error: 'name is required' })
+    .min(1, 'Name is required')
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Name may only contain letters, numbers and underscores'),
+  model: z.string({ required_error: 'model is required' }).min(1, 'Model is required'),
+  provider: z.enum(['openai', 'google', 'anthropic', 'ollama', 'nvidia_nim', 'writer'], { required_error: 'provider is required' }),
+  api_key: z.string({ required_error: 'api_key is required' }).min(1, 'API key is required'),
+  knowledge_bases: z.array(z.string()).optional(),
+  tables: z.array(z.string()).optional(),
+  prompt_template: z.string().optional()
+});
+
+const queryAgentSchema = z.object({
+  question: z.string({ required_error: 'question is required' }).min(1, 'Question is required'),
+  agent_name: z.string({ required_error: 'agent_name is required' }).min(1, 'Agent name is required'),
+  context: z.record(z.any()).optional()
+});
+
+  /**
+   * POST /api/agents
+   * Create a new MindsDB agent
+   */
+  router.post('/', requireRole('admin'), async (req, res) => {
+    try {
+      const validatedRequest = createAgentSchema.parse(req.body);
+
+      const agentConfig: AgentConfig = {
+        name: validatedRequest.name,
+        model: validatedRequest.model,
+        provider: validatedRequest.provider,
+        api_key: validatedRequest.api_key,
+        include_knowledge_bases: validatedRequest.knowledge_bases,
+        include_tables: validatedRequest.tables,
+        prompt_template: validatedRequest.prompt_template
+      };
+
+      const agent = await service.createAgent(agentConfig);
+
+      res.status(201).json({
+        success: true,
+        data: agent,
+        message: 'Agent created successfully'
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
+      console.error('Create agent error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create agent',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * POST /api/agents/query
+   * Ask an agent a question
+   */
+  router.post('/query', requireRole('agent'), async (req, res) => {
+    try {
+      const validatedQuery = queryAgentSchema.parse(req.body);
+
+      const response = await service.queryAgent(validatedQuery);
+
+      res.json({
+        success: true,
+        data: response
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
+      console.error('Query agent error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to query agent'
+      });
+    }
+  });
+
+  /**
+   * GET /api/agents
+   * List all agents
+   */
+  router.get('/', requireRole('agent'), async (req, res) => {
+    try {
+      const agents = await service.listAgents();
+
+      res.json({
+        success: true,
+        data: agents,
+        total: agents.length
+      });
+    } catch (error) {
+      console.error('List agents error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list agents',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /api/agents/:name
+   * Get a specific agent
+   */
+  router.get('/:name', requireRole('agent'), async (req, res) => {
+    try {
+      const agent = await service.getAgent(req.params.name);
+
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: `Agent "${req.params.name}" not found`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: agent
+      });
+    } catch (error) {
+      console.error('Get agent error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve agent',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /api/agents/:name/status
+   * Get the status of a specific agent
+   */
+  router.get('/:name/status', requireRole('agent'), async (req, res) => {
+    try {
+      const status = await service.getAgentStatus(req.params.name);
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: `Agent "${req.params.name}" not found`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      console.error('Get agent status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve agent status',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/agents/:name
+   * Delete an agent
+   */
+  router.delete('/:name', requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await service.deleteAgent(req.params.name);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: `Agent "${req.params.name}" not found`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Agent deleted successfully'
+      });
+    } catch (error) {
+      console.error('Delete agent error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete agent',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
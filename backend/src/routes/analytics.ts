@@ -0,0 +1,79 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { AnalyticsService, BUCKET_MS } from '../services/analytics.js';
+import { createConversationRepository } from '../repositories/conversationRepository.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+// Range reported when no start is given: one day of hours, a month of days or a quarter of weeks
+const DEFAULT_BUCKETS = { hour: 24, day: 30, week: 13 };
+
+// Keep a report to a size the dashboard can draw
+const MAX_BUCKETS = 500;
+
+export function createAnalyticsRouter(analyticsService?: AnalyticsService, authService?: AuthService): Router {
+  const router = Router();
+  const service = analyticsService || new AnalyticsService(createConversationRepository());
+  router.use(authenticate(authService || getAuthService()));
+
+// Validation schemas
+const reportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.enum(['hour', 'day', 'week']).default('day'),
+  top: z.coerce.number().int().min(1).max(100).default(10)
+}).transform(query => {
+  const to = query.to || new Date();
+  const from = query.from || new Date(to.getTime() - DEFAULT_BUCKETS[query.bucket] * BUCKET_MS[query.bucket]);
+  return { ...query, from, to };
+}).superRefine((query, ctx) => {
+  if (query.from >= query.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: 'from must be before to' });
+  } else if ((query.to.getTime() - query.from.getTime()) / BUCKET_MS[query.bucket] > MAX_BUCKETS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['bucket'],
+      message: `The range spans more than ${MAX_BUCKETS} buckets; use a larger bucket or a shorter range`
+    });
+  }
+});
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+  /**
+   * GET /api/analytics
+   * Get support metrics per hour, day or week, with totals and top unanswered queries
+   */
+  router.get('/', requireRole('agent', 'kb_editor'), async (req, res) => {
+    try {
+      const query = reportQuerySchema.parse(req.query);
+      const report = await service.getReport(query);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to build analytics report');
+    }
+  });
+
+  return router;
+}
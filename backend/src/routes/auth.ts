@@ -0,0 +1,81 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+export function createAuthRouter(authService?: AuthService): Router {
+  const router = Router();
+  const auth = authService || getAuthService();
+  router.use(authenticate(auth));
+
+// Validation schemas
+const sessionSchema = z.object({
+  api_key: z.string().min(1, 'API key is required').optional()
+});
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+  /**
+   * POST /api/auth/session
+   * Start a web app session: staff sign in with their API key, customers without one.
+   * A customer who already has a session gets a fresh token for the same user id.
+   */
+  router.post('/session', (req, res) => {
+    try {
+      const { api_key } = sessionSchema.parse(req.body);
+
+      let session;
+      if (api_key) {
+        const principal = auth.authenticateApiKey(api_key);
+        if (!principal) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid API key'
+          });
+        }
+        session = auth.issueSession(principal);
+      } else if (req.principal?.method === 'session' && req.principal.role === 'customer') {
+        session = auth.issueSession(req.principal);
+      } else {
+        session = auth.startCustomerSession();
+      }
+
+      res.status(201).json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to start session');
+    }
+  });
+
+  /**
+   * GET /api/auth/me
+   * Get the user or integration the request is made by
+   */
+  router.get('/me', requireRole(), (req, res) => {
+    res.json({
+      success: true,
+      data: req.principal
+    });
+  });
+
+  return router;
+}
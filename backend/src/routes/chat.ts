@@ -1,37 +1,70 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
-import { ChatService } from '../services/chat.js';
-import type { ChatRequest } from '../types/index.js';
+import { ChatService, ConversationStateError } from '../services/chat.js';
+import { ConversationAccessError, assertConversationOwner } from '../services/conversationAccess.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, customerIdOf, requireRole } from '../middleware/auth.js';
+import { chatRequestSchema, listConversationsQuerySchema, renameConversationSchema } from '../schemas/chat.js';
+import type { ChatRequest, ChatStreamEvent } from '../types/index.js';
 
-export function createChatRouter(chatService?: ChatService): Router {
+export function createChatRouter(chatService?: ChatService, authService?: AuthService): Router {
   const router = Router();
   const service = chatService || new ChatService();
+  router.use(authenticate(authService || getAuthService()));
 
-// Validation schemas
-const chatMessageSchema = z.object({
-  message: z.string({ required_error: 'message is required' }).min(1, 'Message is required'),
-  conversation_id: z.string().optional(),
-  user_id: z.string().optional(),
-  context: z.object({
-    previous_messages: z.array(z.any()).optional(),
-    user_preferences: z.record(z.any()).optional()
-  }).optional()
-});
+function conversationNotFound(res: Response, conversationId: string) {
+  return res.status(404).json({
+    success: false,
+    error: `Conversation "${conversationId}" not found`
+  });
+}
+
+function forbidden(res: Response, error: ConversationAccessError) {
+  return res.status(403).json({
+    success: false,
+    error: error.message
+  });
+}
+
+// Customers may only use their own conversations; a conversation that does not exist yet is theirs to start
+async function checkConversationAccess(req: Request, conversationId: string) {
+  const conversation = await service.getConversation(conversationId);
+  if (conversation) assertConversationOwner(conversation, customerIdOf(req));
+}
+
+function handleLifecycleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof ConversationAccessError) return forbidden(res, error);
+
+  if (error instanceof ConversationStateError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
 
 /**
  * POST /api/chat/message
  * Process a chat message and return AI response
  */
-  router.post('/message', async (req, res) => {
+  router.post('/message', requireRole(), async (req, res) => {
     try {
-      const validatedRequest = chatMessageSchema.parse(req.body);
+      const validatedRequest = chatRequestSchema.parse(req.body);
       
       const chatRequest: ChatRequest = {
         message: validatedRequest.message,
         conversation_id: validatedRequest.conversation_id,
-        user_id: validatedRequest.user_id,
+        user_id: customerIdOf(req) ?? validatedRequest.user_id,
         context: validatedRequest.context
       };
+      if (chatRequest.conversation_id) await checkConversationAccess(req, chatRequest.conversation_id);
       
       const response = await service.processMessage(chatRequest);
       
@@ -49,6 +82,7 @@ const chatMessageSchema = z.object({
           details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
         });
       }
+      if (error instanceof ConversationAccessError) return forbidden(res, error);
       
       console.error('Chat message processing error:', error);
       res.status(500).json({
@@ -59,11 +93,79 @@ const chatMessageSchema = z.object({
     }
   });
 
+  /**
+   * POST /api/chat/stream
+   * Process a chat message, streaming pipeline stages as Server-Sent Events
+   */
+  router.post('/stream', requireRole(), async (req, res) => {
+    let chatRequest: ChatRequest;
+
+    try {
+      const validatedRequest = chatRequestSchema.parse(req.body);
+
+      chatRequest = {
+        message: validatedRequest.message,
+        conversation_id: validatedRequest.conversation_id,
+        user_id: customerIdOf(req) ?? validatedRequest.user_id,
+        context: validatedRequest.context
+      };
+      if (chatRequest.conversation_id) await checkConversationAccess(req, chatRequest.conversation_id);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+      if (error instanceof ConversationAccessError) return forbidden(res, error);
+
+      console.error('Chat stream setup error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: ChatStreamEvent) => {
+      if (closed) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    try {
+      const response = await service.processMessage(chatRequest, send);
+      send({ type: 'done', data: response });
+    } catch (error) {
+      console.error('Chat stream processing error:', error);
+      send({
+        type: 'error',
+        data: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    } finally {
+      res.end();
+    }
+  });
+
   /**
    * GET /api/chat/conversations/:conversationId/history
    * Get conversation history for a specific conversation
    */
-  router.get('/conversations/:conversationId/history', async (req, res) => {
+  router.get('/conversations/:conversationId/history', requireRole(), async (req, res) => {
     try {
       const conversationId = req.params.conversationId;
       
@@ -74,6 +176,7 @@ const chatMessageSchema = z.object({
         });
       }
       
+      await checkConversationAccess(req, conversationId);
       const messages = await service.getConversationHistory(conversationId);
       
       res.json({
@@ -81,6 +184,32 @@ const chatMessageSchema = z.object({
         data: messages
       });
     } catch (error) {
+      if (error instanceof ConversationAccessError) return forbidden(res, error);
+      console.error('Get conversation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve conversation',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /api/chat/conversations/:conversationId
+   * Get a conversation's status and timestamps
+   */
+  router.get('/conversations/:conversationId', requireRole(), async (req, res) => {
+    try {
+      const conversation = await service.getConversation(req.params.conversationId);
+      if (!conversation) return conversationNotFound(res, req.params.conversationId);
+      assertConversationOwner(conversation, customerIdOf(req));
+
+      res.json({
+        success: true,
+        data: conversation
+      });
+    } catch (error) {
+      if (error instanceof ConversationAccessError) return forbidden(res, error);
       console.error('Get conversation error:', error);
       res.status(500).json({
         success: false,
@@ -90,11 +219,82 @@ const chatMessageSchema = z.object({
     }
   });
 
+  /**
+   * PATCH /api/chat/conversations/:conversationId
+   * Rename a conversation
+   */
+  router.patch('/conversations/:conversationId', requireRole(), async (req, res) => {
+    try {
+      const { title } = renameConversationSchema.parse(req.body);
+      await checkConversationAccess(req, req.params.conversationId);
+      const conversation = await service.renameConversation(req.params.conversationId, title);
+      if (!conversation) return conversationNotFound(res, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversation renamed'
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+      handleLifecycleError(res, error, 'Failed to rename conversation');
+    }
+  });
+
+  /**
+   * POST /api/chat/conversations/:conversationId/resolve
+   * End a conversation whose issue is solved
+   */
+  router.post('/conversations/:conversationId/resolve', requireRole(), async (req, res) => {
+    try {
+      await checkConversationAccess(req, req.params.conversationId);
+      const conversation = await service.resolveConversation(req.params.conversationId);
+      if (!conversation) return conversationNotFound(res, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversation resolved'
+      });
+    } catch (error) {
+      handleLifecycleError(res, error, 'Failed to resolve conversation');
+    }
+  });
+
+  /**
+   * POST /api/chat/conversations/:conversationId/close
+   * End a conversation without confirming the issue is solved
+   */
+  router.post('/conversations/:conversationId/close', requireRole(), async (req, res) => {
+    try {
+      await checkConversationAccess(req, req.params.conversationId);
+      const conversation = await service.closeConversation(req.params.conversationId);
+      if (!conversation) return conversationNotFound(res, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversation closed'
+      });
+    } catch (error) {
+      handleLifecycleError(res, error, 'Failed to close conversation');
+    }
+  });
+
   /**
    * GET /api/chat/users/:userId/conversations
-   * Get all conversations for a specific user
+   * Get a page of a user's conversations with titles and last message previews.
+   * Query: limit (1-100, default 20), offset, sort (updated_at | created_at) and order (asc | desc)
    */
-  router.get('/users/:userId/conversations', async (req, res) => {
+  router.get('/users/:userId/conversations', requireRole(), async (req, res) => {
     try {
       const userId = req.params.userId;
       
@@ -105,13 +305,32 @@ const chatMessageSchema = z.object({
         });
       }
       
-      const conversations = await service.getUserConversations(userId);
+      const customerId = customerIdOf(req);
+      if (customerId !== undefined && customerId !== userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Customers can only list their own conversations'
+        });
+      }
+      
+      const options = listConversationsQuerySchema.parse(req.query);
+      const page = await service.getUserConversations(userId, options);
       
       res.json({
         success: true,
-        data: conversations
+        data: page
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
       console.error('Get user conversations error:', error);
       res.status(500).json({
         success: false,
@@ -125,7 +344,7 @@ const chatMessageSchema = z.object({
  * DELETE /api/chat/conversation/:id
  * Clear/delete a conversation
  */
-router.delete('/conversation/:id', async (req, res) => {
+router.delete('/conversation/:id', requireRole(), async (req, res) => {
   try {
     const conversationId = req.params.id;
     
@@ -133,6 +352,7 @@ router.delete('/conversation/:id', async (req, res) => {
       return res.status(400).json({ error: 'Conversation ID is required' });
     }
     
+    await checkConversationAccess(req, conversationId);
     const success = await service.clearConversation(conversationId);
     
     if (success) {
@@ -146,6 +366,7 @@ router.delete('/conversation/:id', async (req, res) => {
       });
     }
   } catch (error) {
+    if (error instanceof ConversationAccessError) return forbidden(res, error);
     console.error('Clear conversation error:', error);
     res.status(500).json({
       error: 'Failed to clear conversation',
@@ -158,7 +379,7 @@ router.delete('/conversation/:id', async (req, res) => {
    * GET /api/chat/stats
    * Get chat service statistics
    */
-  router.get('/stats', async (req, res) => {
+  router.get('/stats', requireRole('agent'), async (req, res) => {
     try {
       const stats = await service.getStats();
       res.json({
@@ -189,3 +410,4 @@ router.delete('/conversation/:id', async (req, res) => {
 
   return router;
 }
+
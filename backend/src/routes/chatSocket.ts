@@ -0,0 +1,258 @@
+import type { IncomingMessage, Server } from 'http';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { z } from 'zod';
+import { ChatService } from '../services/chat.js';
+import type { ConversationEvents } from '../services/conversationEvents.js';
+import { ConversationAccessError, assertConversationOwner } from '../services/conversationAccess.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import {
+  chatSocketClientFrameSchema,
+  type ChatParticipantRole,
+  type ChatSocketClientFrame,
+  type ChatSocketServerFrame
+} from '../schemas/chatSocket.js';
+import type { ChatMessage, ChatResponse, ConversationStatus, Principal } from '../types/index.js';
+
+export interface ChatSocketOptions {
+  chatService: ChatService;
+  /** Where the chat service's conversation repository announces changes */
+  events: ConversationEvents;
+  authService?: AuthService;
+  path?: string;
+  /** How often to ping clients and drop those that stopped answering, in ms (default: 30000) */
+  heartbeatInterval?: number;
+}
+
+// Answers kept for resent messages, so a reconnecting client is not answered twice
+const MAX_REMEMBERED_MESSAGES = 500;
+
+interface ChatClient {
+  socket: WebSocket;
+  principal: Principal;
+  conversations: Set<string>;
+  alive: boolean;
+}
+
+// Customers may only use their own conversations
+function customerIdOf(client: ChatClient): string | undefined {
+  return client.principal.role === 'customer' ? client.principal.id : undefined;
+}
+
+function participantRole(principal: Principal): ChatParticipantRole {
+  return principal.role === 'customer' ? 'customer' : 'agent';
+}
+
+function generateConversationId(): string {
+  return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Serve two-way chat over a WebSocket: customers ask the assistant, and everyone
+ * subscribed to a conversation is pushed its new messages, status changes,
+ * typing indicators and read receipts.
+ * Clients sign in with ?token=<session token> or the headers the REST API accepts.
+ */
+export function attachChatSocket(server: Server, options: ChatSocketOptions): WebSocketServer {
+  const { chatService, events, path = '/api/chat/socket', heartbeatInterval = 30000 } = options;
+  const auth = options.authService || getAuthService();
+  const principals = new WeakMap<IncomingMessage, Principal>();
+  const clients = new Set<ChatClient>();
+  const answers = new Map<string, Promise<ChatResponse>>();
+
+  function authenticateUpgrade(req: IncomingMessage): Principal | null {
+    if (!auth.enabled) return auth.getDisabledPrincipal();
+
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string') return auth.authenticateApiKey(apiKey);
+
+    const [scheme, headerToken] = (req.headers.authorization || '').split(' ');
+    const token = scheme?.toLowerCase() === 'bearer' && headerToken
+      ? headerToken
+      : new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+    return token ? auth.verifySession(token) : null;
+  }
+
+  const wss = new WebSocketServer({
+    server,
+    path,
+    verifyClient: ({ req }, done) => {
+      const principal = authenticateUpgrade(req);
+      if (!principal) return done(false, 401, 'Authentication required');
+      principals.set(req, principal);
+      done(true);
+    }
+  });
+
+  function send(client: ChatClient, frame: ChatSocketServerFrame) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(frame));
+    }
+  }
+
+  // Send to everyone subscribed to the conversation, except the client the frame came from
+  function broadcast(conversationId: string, frame: ChatSocketServerFrame, except?: ChatClient) {
+    for (const client of clients) {
+      if (client !== except && client.conversations.has(conversationId)) send(client, frame);
+    }
+  }
+
+  // Only conversations that exist can be followed
+  async function subscribe(client: ChatClient, conversationId: string) {
+    const conversation = await chatService.getConversation(conversationId);
+    if (!conversation) throw new Error(`Conversation "${conversationId}" not found`);
+    assertConversationOwner(conversation, customerIdOf(client));
+    client.conversations.add(conversationId);
+  }
+
+  function requireSubscription(client: ChatClient, conversationId: string) {
+    if (!client.conversations.has(conversationId)) {
+      throw new Error(`Subscribe to conversation "${conversationId}" first`);
+    }
+  }
+
+  function answer(client: ChatClient, frame: Extract<ChatSocketClientFrame, { type: 'message' }>, conversationId: string) {
+    const key = `${client.principal.id}:${frame.client_id}`;
+    let pending = answers.get(key);
+
+    if (!pending) {
+      pending = chatService.processMessage({
+        message: frame.message,
+        conversation_id: conversationId,
+        user_id: customerIdOf(client)
+      });
+      // Let a failed message be tried again
+      pending.catch(() => answers.delete(key));
+
+      answers.set(key, pending);
+      if (answers.size > MAX_REMEMBERED_MESSAGES) {
+        answers.delete(answers.keys().next().value as string);
+      }
+    }
+    return pending;
+  }
+
+  async function handleMessage(client: ChatClient, frame: Extract<ChatSocketClientFrame, { type: 'message' }>) {
+    // Staff answer customers through escalation replies; with authentication off, the one local principal plays every role
+    if (auth.enabled && client.principal.role !== 'customer') {
+      return send(client, {
+        type: 'error',
+        client_id: frame.client_id,
+        error: 'Only customers can message the assistant; agents reply through escalation tickets'
+      });
+    }
+
+    try {
+      const existing = frame.conversation_id ? await chatService.getConversation(frame.conversation_id) : null;
+      if (existing) {
+        assertConversationOwner(existing, customerIdOf(client));
+      }
+
+      const conversationId = frame.conversation_id || generateConversationId();
+      client.conversations.add(conversationId);
+      send(client, { type: 'ack', client_id: frame.client_id, conversation_id: conversationId });
+
+      const response = await answer(client, frame, conversationId);
+      send(client, { type: 'reply', client_id: frame.client_id, data: response });
+    } catch (error) {
+      if (!(error instanceof ConversationAccessError)) console.error('Chat socket message error:', error);
+      send(client, {
+        type: 'error',
+        client_id: frame.client_id,
+        error: error instanceof Error ? error.message : 'Failed to process message'
+      });
+    }
+  }
+
+  async function handleFrame(client: ChatClient, data: RawData) {
+    let frame: ChatSocketClientFrame;
+    try {
+      frame = chatSocketClientFrameSchema.parse(JSON.parse(data.toString()));
+    } catch (error) {
+      const firstError = error instanceof z.ZodError ? error.errors[0] : null;
+      return send(client, {
+        type: 'error',
+        error: firstError ? `${firstError.path.join('.')}: ${firstError.message}` : 'Frames must be JSON'
+      });
+    }
+
+    try {
+      switch (frame.type) {
+        case 'message':
+          return await handleMessage(client, frame);
+        case 'subscribe':
+          return await subscribe(client, frame.conversation_id);
+        case 'unsubscribe':
+          client.conversations.delete(frame.conversation_id);
+          return;
+        case 'typing':
+          requireSubscription(client, frame.conversation_id);
+          return broadcast(frame.conversation_id, {
+            type: 'typing',
+            conversation_id: frame.conversation_id,
+            role: participantRole(client.principal),
+            is_typing: frame.is_typing
+          }, client);
+        case 'read':
+          requireSubscription(client, frame.conversation_id);
+          return broadcast(frame.conversation_id, {
+            type: 'read',
+            conversation_id: frame.conversation_id,
+            role: participantRole(client.principal),
+            message_id: frame.message_id,
+            read_at: new Date()
+          }, client);
+      }
+    } catch (error) {
+      send(client, { type: 'error', error: error instanceof Error ? error.message : 'Failed to handle frame' });
+    }
+  }
+
+  const onMessage = (conversationId: string, message: ChatMessage) => {
+    broadcast(conversationId, { type: 'message', conversation_id: conversationId, data: message });
+  };
+  const onStatus = (conversationId: string, status: ConversationStatus) => {
+    broadcast(conversationId, { type: 'status', conversation_id: conversationId, status });
+  };
+  events.on('message', onMessage);
+  events.on('status', onStatus);
+
+  wss.on('connection', (socket, req) => {
+    const client: ChatClient = { socket, principal: principals.get(req)!, conversations: new Set(), alive: true };
+    clients.add(client);
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('message', data => {
+      handleFrame(client, data);
+    });
+    socket.on('close', () => {
+      clients.delete(client);
+    });
+    // Malformed frames surface here; unhandled, they would take the whole server down
+    socket.on('error', error => {
+      console.error('Chat socket connection error:', error);
+      socket.terminate();
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, heartbeatInterval);
+  heartbeat.unref();
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    events.off('message', onMessage);
+    events.off('status', onStatus);
+  });
+
+  return wss;
+}
@@ -0,0 +1,126 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { CsatService, CsatStateError } from '../services/csat.js';
+import { ConversationAccessError } from '../services/conversationAccess.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { createConversationRepository } from '../repositories/conversationRepository.js';
+import { authenticate, customerIdOf, requireRole } from '../middleware/auth.js';
+
+export function createCsatRouter(csatService?: CsatService, authService?: AuthService): Router {
+  const router = Router();
+  const service = csatService || new CsatService(createConversationRepository());
+  router.use(authenticate(authService || getAuthService()));
+
+// Validation schemas
+const submitCsatSchema = z.object({
+  conversation_id: z.string({ required_error: 'conversation_id is required' }).min(1, 'Conversation ID is required'),
+  user_id: z.string().optional(),
+  rating: z.number({ required_error: 'rating is required' })
+    .int('Rating must be a whole number')
+    .min(1, 'Rating must be between 1 and 5')
+    .max(5, 'Rating must be between 1 and 5'),
+  comment: z.string().max(2000, 'Comment must be at most 2000 characters').optional()
+});
+
+const listResponsesSchema = z.object({
+  category: z.string().optional(),
+  escalated: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  if (error instanceof CsatStateError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  if (error instanceof ConversationAccessError) {
+    return res.status(403).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+  /**
+   * POST /api/csat
+   * Answer the satisfaction survey for a conversation that has ended
+   */
+  router.post('/', requireRole(), async (req, res) => {
+    try {
+      const request = submitCsatSchema.parse(req.body);
+      const customerId = customerIdOf(req);
+      const response = await service.submitResponse({ ...request, user_id: customerId ?? request.user_id }, customerId);
+      if (!response) {
+        return res.status(404).json({
+          success: false,
+          error: `Conversation "${request.conversation_id}" not found`
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: response,
+        message: 'Survey response recorded'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to record survey response');
+    }
+  });
+
+  /**
+   * GET /api/csat
+   * List survey responses, newest first
+   */
+  router.get('/', requireRole('agent'), async (req, res) => {
+    try {
+      const filters = listResponsesSchema.parse(req.query);
+      const responses = await service.listResponses(filters);
+
+      res.json({
+        success: true,
+        data: responses,
+        total: responses.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list survey responses');
+    }
+  });
+
+  /**
+   * GET /api/csat/stats
+   * Get satisfaction overall, by category and by whether the conversation was escalated
+   */
+  router.get('/stats', requireRole('agent'), async (req, res) => {
+    try {
+      const stats = await service.getStats();
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve satisfaction statistics');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { buildOpenApiDocument } from '../schemas/openapi.js';
+
+export function createDocsRouter(): Router {
+  const router = Router();
+  const document = buildOpenApiDocument();
+
+  /**
+   * GET /api/docs
+   * The OpenAPI document of the chat API; open to everyone, like /health
+   */
+  router.get('/', (req, res) => {
+    res.json(document);
+  });
+
+  return router;
+}
@@ -0,0 +1,142 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import {
+  createEscalationRulesService,
+  EscalationRuleConflictError,
+  EscalationRulesService
+} from '../services/escalationRules.js';
+import { escalationRuleBodySchema, escalationRuleSchema } from '../schemas/escalationRules.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+export function createEscalationRulesRouter(escalationRulesService?: EscalationRulesService, authService?: AuthService): Router {
+  const router = Router();
+  const service = escalationRulesService || createEscalationRulesService();
+  router.use(authenticate(authService || getAuthService()));
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  if (error instanceof EscalationRuleConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+function ruleNotFound(res: Response, ruleId: string) {
+  return res.status(404).json({
+    success: false,
+    error: `Escalation rule "${ruleId}" not found`
+  });
+}
+
+  /**
+   * GET /api/escalation-rules
+   * List escalation rules in evaluation order
+   */
+  router.get('/', requireRole('agent'), async (req, res) => {
+    try {
+      const rules = await service.listRules();
+
+      res.json({
+        success: true,
+        data: rules,
+        total: rules.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list escalation rules');
+    }
+  });
+
+  /**
+   * GET /api/escalation-rules/:id
+   * Get a single escalation rule
+   */
+  router.get('/:id', requireRole('agent'), async (req, res) => {
+    try {
+      const rule = await service.getRule(req.params.id);
+      if (!rule) return ruleNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve escalation rule');
+    }
+  });
+
+  /**
+   * POST /api/escalation-rules
+   * Add a rule after the existing ones
+   */
+  router.post('/', requireRole('admin'), async (req, res) => {
+    try {
+      const rule = await service.createRule(escalationRuleSchema.parse(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Escalation rule created successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to create escalation rule');
+    }
+  });
+
+  /**
+   * PUT /api/escalation-rules/:id
+   * Replace a rule's name, conditions and enabled flag
+   */
+  router.put('/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const rule = await service.updateRule(req.params.id, escalationRuleBodySchema.parse(req.body));
+      if (!rule) return ruleNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Escalation rule updated successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to update escalation rule');
+    }
+  });
+
+  /**
+   * DELETE /api/escalation-rules/:id
+   * Remove a rule
+   */
+  router.delete('/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await service.deleteRule(req.params.id);
+      if (!deleted) return ruleNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Escalation rule deleted successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete escalation rule');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,251 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { EscalationService, EscalationStateError } from '../services/escalation.js';
+import { createConversationRepository } from '../repositories/conversationRepository.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+export function createEscalationsRouter(escalationService?: EscalationService, authService?: AuthService): Router {
+  const router = Router();
+  const service = escalationService || new EscalationService(createConversationRepository());
+  // The queue and transcripts are only for agents
+  router.use(authenticate(authService || getAuthService()), requireRole('agent'));
+
+// Validation schemas
+const listTicketsSchema = z.object({
+  conversation_id: z.string().optional(),
+  status: z.enum(['open', 'claimed', 'resolved']).optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  assigned_agent: z.string().optional()
+});
+
+const listConversationsSchema = z.object({
+  status: z.enum(['active', 'resolved', 'escalated', 'closed']).optional()
+});
+
+const replySchema = z.object({
+  message: z.string({ required_error: 'message is required' }).min(1, 'Message is required')
+});
+
+const resolveTicketSchema = z.object({
+  resolution_note: z.string().optional()
+});
+
+// Agents always act as themselves; requireRole() guarantees a principal
+function agentIdOf(req: Request): string {
+  return req.principal!.id;
+}
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  if (error instanceof EscalationStateError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+function ticketNotFound(res: Response, ticketId: string) {
+  return res.status(404).json({
+    success: false,
+    error: `Escalation ticket "${ticketId}" not found`
+  });
+}
+
+function conversationNotFound(res: Response, conversationId: string) {
+  return res.status(404).json({
+    success: false,
+    error: `Conversation "${conversationId}" not found`
+  });
+}
+
+  /**
+   * GET /api/escalations
+   * List escalation tickets in queue order
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const filters = listTicketsSchema.parse(req.query);
+      const tickets = await service.listTickets(filters);
+
+      res.json({
+        success: true,
+        data: tickets,
+        total: tickets.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list escalation tickets');
+    }
+  });
+
+  /**
+   * GET /api/escalations/conversations
+   * List conversations for the agent console, queued tickets first
+   */
+  router.get('/conversations', async (req, res) => {
+    try {
+      const { status } = listConversationsSchema.parse(req.query);
+      const conversations = await service.listConversations(status);
+
+      res.json({
+        success: true,
+        data: conversations,
+        total: conversations.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list conversations');
+    }
+  });
+
+  /**
+   * GET /api/escalations/conversations/:conversationId
+   * Get the full transcript of a conversation
+   */
+  router.get('/conversations/:conversationId', async (req, res) => {
+    try {
+      const transcript = await service.getTranscript(req.params.conversationId);
+      if (!transcript) return conversationNotFound(res, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: transcript
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve conversation');
+    }
+  });
+
+  /**
+   * POST /api/escalations/conversations/:conversationId/takeover
+   * Take a conversation over from the assistant
+   */
+  router.post('/conversations/:conversationId/takeover', async (req, res) => {
+    try {
+      const ticket = await service.takeOverConversation(req.params.conversationId, agentIdOf(req));
+      if (!ticket) return conversationNotFound(res, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: ticket,
+        message: 'Conversation taken over successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to take over conversation');
+    }
+  });
+
+  /**
+   * GET /api/escalations/:id
+   * Get a single escalation ticket
+   */
+  router.get('/:id', async (req, res) => {
+    try {
+      const ticket = await service.getTicket(req.params.id);
+      if (!ticket) return ticketNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: ticket
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve escalation ticket');
+    }
+  });
+
+  /**
+   * POST /api/escalations/:id/claim
+   * Assign a ticket to a human agent
+   */
+  router.post('/:id/claim', async (req, res) => {
+    try {
+      const ticket = await service.claimTicket(req.params.id, agentIdOf(req));
+      if (!ticket) return ticketNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: ticket,
+        message: 'Ticket claimed successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to claim escalation ticket');
+    }
+  });
+
+  /**
+   * POST /api/escalations/:id/reply
+   * Send a human reply into the customer's conversation
+   */
+  router.post('/:id/reply', async (req, res) => {
+    try {
+      const { message } = replySchema.parse(req.body);
+      const reply = await service.replyToTicket(req.params.id, agentIdOf(req), message);
+      if (!reply) return ticketNotFound(res, req.params.id);
+
+      res.status(201).json({
+        success: true,
+        data: reply,
+        message: 'Reply delivered to conversation'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to reply to escalation ticket');
+    }
+  });
+
+  /**
+   * POST /api/escalations/:id/handback
+   * Return the conversation to the assistant
+   */
+  router.post('/:id/handback', async (req, res) => {
+    try {
+      const ticket = await service.handBackTicket(req.params.id, agentIdOf(req));
+      if (!ticket) return ticketNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: ticket,
+        message: 'Conversation handed back to the assistant'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to hand back conversation');
+    }
+  });
+
+  /**
+   * POST /api/escalations/:id/resolve
+   * Close a ticket
+   */
+  router.post('/:id/resolve', async (req, res) => {
+    try {
+      const { resolution_note } = resolveTicketSchema.parse(req.body);
+      const ticket = await service.resolveTicket(req.params.id, agentIdOf(req), resolution_note);
+      if (!ticket) return ticketNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: ticket,
+        message: 'Ticket resolved successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to resolve escalation ticket');
+    }
+  });
+
+  return router;
+}
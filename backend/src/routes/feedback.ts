@@ -0,0 +1,149 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { FeedbackService, FeedbackTargetError } from '../services/feedback.js';
+import { ConversationAccessError } from '../services/conversationAccess.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { createConversationRepository } from '../repositories/conversationRepository.js';
+import { authenticate, customerIdOf, requireRole } from '../middleware/auth.js';
+
+export function createFeedbackRouter(feedbackService?: FeedbackService, authService?: AuthService): Router {
+  const router = Router();
+  const service = feedbackService || new FeedbackService(createConversationRepository());
+  router.use(authenticate(authService || getAuthService()));
+
+// Validation schemas
+const ratingSchema = z.enum(['helpful', 'not_helpful']);
+
+const submitFeedbackSchema = z.object({
+  conversation_id: z.string({ required_error: 'conversation_id is required' }).min(1, 'Conversation ID is required'),
+  message_id: z.string({ required_error: 'message_id is required' }).min(1, 'Message ID is required'),
+  user_id: z.string().optional(),
+  rating: ratingSchema,
+  reason: z.enum(['incorrect', 'incomplete', 'irrelevant', 'unclear', 'other']).optional(),
+  comment: z.string().max(2000, 'Comment must be at most 2000 characters').optional()
+}).refine(feedback => !feedback.reason || feedback.rating === 'not_helpful', {
+  message: 'A reason can only be given for answers that were not helpful',
+  path: ['reason']
+});
+
+const listFeedbackSchema = z.object({
+  conversation_id: z.string().optional(),
+  rating: ratingSchema.optional(),
+  source_id: z.string().optional()
+});
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  if (error instanceof FeedbackTargetError) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  if (error instanceof ConversationAccessError) {
+    return res.status(403).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+  /**
+   * POST /api/feedback
+   * Rate an assistant answer as helpful or not
+   */
+  router.post('/', requireRole(), async (req, res) => {
+    try {
+      const request = submitFeedbackSchema.parse(req.body);
+      const customerId = customerIdOf(req);
+      const feedback = await service.submitFeedback({ ...request, user_id: customerId ?? request.user_id }, customerId);
+      if (!feedback) {
+        return res.status(404).json({
+          success: false,
+          error: `Message "${request.message_id}" not found in conversation "${request.conversation_id}"`
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: feedback,
+        message: 'Feedback recorded'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to record feedback');
+    }
+  });
+
+  /**
+   * GET /api/feedback
+   * List feedback, newest first
+   */
+  router.get('/', requireRole('agent', 'kb_editor'), async (req, res) => {
+    try {
+      const filters = listFeedbackSchema.parse(req.query);
+      const feedback = await service.listFeedback(filters);
+
+      res.json({
+        success: true,
+        data: feedback,
+        total: feedback.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list feedback');
+    }
+  });
+
+  /**
+   * GET /api/feedback/stats
+   * Get helpful and not helpful counts with the reasons given
+   */
+  router.get('/stats', requireRole('agent', 'kb_editor'), async (req, res) => {
+    try {
+      const stats = await service.getStats();
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve feedback statistics');
+    }
+  });
+
+  /**
+   * GET /api/feedback/articles
+   * Get helpfulness scores per knowledge base entry, least helpful first
+   */
+  router.get('/articles', requireRole('agent', 'kb_editor'), async (req, res) => {
+    try {
+      const articles = await service.getArticleHelpfulness();
+
+      res.json({
+        success: true,
+        data: articles,
+        total: articles.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve article helpfulness');
+    }
+  });
+
+  return router;
+}
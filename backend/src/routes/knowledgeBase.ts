@@ -1,11 +1,25 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import {
+  KnowledgeBaseImportService,
+  parseCsv,
+  parseJsonl,
+  parseMarkdown,
+  type ImportRecord
+} from '../services/knowledgeBaseImport.js';
+import { KnowledgeBaseExportService } from '../services/knowledgeBaseExport.js';
+import { categorySchema, knowledgeBaseEntrySchema } from '../schemas/knowledgeBase.js';
 import type { KnowledgeBaseEntry } from '../types/index.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
 
-export function createKnowledgeBaseRouter(knowledgeBaseService?: KnowledgeBaseService): Router {
+export function createKnowledgeBaseRouter(knowledgeBaseService?: KnowledgeBaseService, authService?: AuthService): Router {
   const router = Router();
   const service = knowledgeBaseService || new KnowledgeBaseService();
+  router.use(authenticate(authService || getAuthService()));
+  const importService = new KnowledgeBaseImportService(service);
+  const exportService = new KnowledgeBaseExportService(service);
 
 // Validation schemas
 const searchQuerySchema = z.object({
@@ -17,19 +31,52 @@ const searchQuerySchema = z.object({
   relevance_threshold: z.string().transform(val => parseFloat(val)).optional()
 });
 
-const addEntrySchema = z.object({
-  title: z.string({ required_error: 'Title is required' }).min(1, 'Title is required'),
-  content: z.string({ required_error: 'Content is required' }).min(1, 'Content is required'),
-  category: z.enum(['billing', 'technical', 'general', 'shipping', 'returns'], { required_error: 'Category is required' }),
-  priority: z.enum(['low', 'medium', 'high'], { required_error: 'Priority is required' }),
+const listEntriesSchema = z.object({
+  category: categorySchema.optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
   product_type: z.string().optional(),
-  tags: z.array(z.string()).default([])
+  tag: z.string().optional(),
+  limit: z.string().transform(val => parseInt(val)).optional()
+});
+
+const addEntrySchema = knowledgeBaseEntrySchema;
+
+const exportSchema = z.object({
+  format: z.enum(['jsonl', 'csv', 'markdown']).default('jsonl'),
+  kb_name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid knowledge base name').optional()
 });
 
+const importOptionsShape = {
+  kb_name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid knowledge base name').optional(),
+  batch_size: z.number().int().min(1).max(500).optional(),
+  dry_run: z.boolean().optional()
+};
+
+const importSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('csv'),
+    content: z.string({ required_error: 'Content is required' }).min(1, 'Content is required'),
+    ...importOptionsShape
+  }),
+  z.object({
+    format: z.literal('jsonl'),
+    content: z.string({ required_error: 'Content is required' }).min(1, 'Content is required'),
+    ...importOptionsShape
+  }),
+  z.object({
+    format: z.literal('markdown'),
+    files: z.array(z.object({
+      name: z.string().min(1, 'File name is required'),
+      content: z.string()
+    })).min(1, 'At least one file is required'),
+    ...importOptionsShape
+  })
+]);
+
 const updateEntrySchema = z.object({
   title: z.string().optional(),
   content: z.string().optional(),
-  category: z.enum(['billing', 'technical', 'general', 'shipping', 'returns']).optional(),
+  category: categorySchema.optional(),
   priority: z.enum(['low', 'medium', 'high']).optional(),
   product_type: z.string().optional(),
   tags: z.array(z.string()).optional()
@@ -39,7 +86,7 @@ const updateEntrySchema = z.object({
    * GET /api/kb/search
    * Search the knowledge base using semantic search
    */
-  router.get('/search', async (req, res) => {
+  router.get('/search', requireRole(), async (req, res) => {
     try {
       const validatedQuery = searchQuerySchema.parse(req.query);
       
@@ -81,11 +128,47 @@ const updateEntrySchema = z.object({
     }
   });
 
+  /**
+   * GET /api/kb/entries
+   * List knowledge base entries, optionally filtered
+   */
+  router.get('/entries', requireRole(), async (req, res) => {
+    try {
+      const filters = listEntriesSchema.parse(req.query);
+      const entries = await service.listKnowledgeBaseEntries(filters);
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          total: entries.length
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
+      console.error('List knowledge base entries error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list knowledge base entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   /**
    * POST /api/kb/entries
    * Add a new entry to the knowledge base
    */
-  router.post('/entries', async (req, res) => {
+  router.post('/entries', requireRole('kb_editor'), async (req, res) => {
     try {
       const validatedEntry = addEntrySchema.parse(req.body);
       
@@ -122,11 +205,99 @@ const updateEntrySchema = z.object({
     }
   });
 
+  /**
+   * POST /api/kb/import
+   * Bulk import articles from CSV, JSONL or Markdown files with front-matter
+   */
+  router.post('/import', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const request = importSchema.parse(req.body);
+
+      let records: ImportRecord[];
+      if (request.format === 'csv') {
+        records = parseCsv(request.content);
+      } else if (request.format === 'jsonl') {
+        records = parseJsonl(request.content);
+      } else {
+        records = request.files.map(file => parseMarkdown(file.name, file.content));
+      }
+
+      const report = await importService.importRecords(records, {
+        kbName: request.kb_name,
+        batchSize: request.batch_size,
+        dryRun: request.dry_run
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: report.dry_run
+          ? `Validated ${report.valid} of ${report.total} entries`
+          : `Imported ${report.inserted} of ${report.total} entries`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
+      console.error('Knowledge base import error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to import knowledge base entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * GET /api/kb/export
+   * Export every entry as a JSONL or CSV download, or as a bundle of Markdown files
+   */
+  router.get('/export', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const { format, kb_name } = exportSchema.parse(req.query);
+      const bundle = await exportService.exportKnowledgeBase(format, { kbName: kb_name });
+
+      if (format === 'markdown') {
+        return res.json({ success: true, data: bundle });
+      }
+
+      const [file] = bundle.files;
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${file.name}"`);
+      res.setHeader('X-Exported-At', bundle.exported_at);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+        return res.status(400).json({
+          success: false,
+          error: errorMessage,
+          details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        });
+      }
+
+      console.error('Knowledge base export error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export knowledge base',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
 /**
  * PUT /api/kb/entries/:id
  * Update an existing knowledge base entry
  */
-router.put('/entries/:id', async (req, res) => {
+router.put('/entries/:id', requireRole('kb_editor'), async (req, res) => {
   try {
     const entryId = req.params.id;
     const validatedUpdates = updateEntrySchema.parse(req.body);
@@ -167,7 +338,7 @@ router.put('/entries/:id', async (req, res) => {
  * DELETE /api/kb/entries/:id
  * Delete a knowledge base entry
  */
-router.delete('/entries/:id', async (req, res) => {
+router.delete('/entries/:id', requireRole('kb_editor'), async (req, res) => {
   try {
     const entryId = req.params.id;
     
@@ -200,7 +371,7 @@ router.delete('/entries/:id', async (req, res) => {
    * GET /api/kb/categories
    * Get all available categories in the knowledge base
    */
-  router.get('/categories', async (req, res) => {
+  router.get('/categories', requireRole(), async (req, res) => {
     try {
       const categories = await service.getCategories();
       
@@ -222,7 +393,7 @@ router.delete('/entries/:id', async (req, res) => {
    * GET /api/kb/stats
    * Get knowledge base statistics
    */
-  router.get('/stats', async (req, res) => {
+  router.get('/stats', requireRole(), async (req, res) => {
     try {
       const stats = await service.getStats();
       res.json({
@@ -0,0 +1,138 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { getTaxonomyService, TaxonomyConflictError, TaxonomyService } from '../services/taxonomy.js';
+import { taxonomyCategoryBodySchema, taxonomyCategorySchema } from '../schemas/taxonomy.js';
+import { getAuthService, type AuthService } from '../services/auth.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+export function createTaxonomyRouter(taxonomyService?: TaxonomyService, authService?: AuthService): Router {
+  const router = Router();
+  const service = taxonomyService || getTaxonomyService();
+  router.use(authenticate(authService || getAuthService()));
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    const errorMessage = `${firstError.path.join('.')}: ${firstError.message}`;
+    return res.status(400).json({
+      success: false,
+      error: errorMessage,
+      details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+    });
+  }
+
+  if (error instanceof TaxonomyConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+function categoryNotFound(res: Response, categoryId: string) {
+  return res.status(404).json({
+    success: false,
+    error: `Category "${categoryId}" not found`
+  });
+}
+
+  /**
+   * GET /api/taxonomy/categories
+   * List categories with their subcategories and policies
+   */
+  router.get('/categories', requireRole(), async (req, res) => {
+    try {
+      const categories = service.listCategories();
+
+      res.json({
+        success: true,
+        data: categories,
+        total: categories.length
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to list categories');
+    }
+  });
+
+  /**
+   * GET /api/taxonomy/categories/:id
+   * Get a single category
+   */
+  router.get('/categories/:id', requireRole(), async (req, res) => {
+    try {
+      const category = service.getCategory(req.params.id);
+      if (!category) return categoryNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: category
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to retrieve category');
+    }
+  });
+
+  /**
+   * POST /api/taxonomy/categories
+   * Add a category
+   */
+  router.post('/categories', requireRole('admin'), async (req, res) => {
+    try {
+      const category = await service.createCategory(taxonomyCategorySchema.parse(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: category,
+        message: 'Category created successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to create category');
+    }
+  });
+
+  /**
+   * PUT /api/taxonomy/categories/:id
+   * Replace a category's name, subcategories and policies
+   */
+  router.put('/categories/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const category = await service.updateCategory(req.params.id, taxonomyCategoryBodySchema.parse(req.body));
+      if (!category) return categoryNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        data: category,
+        message: 'Category updated successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to update category');
+    }
+  });
+
+  /**
+   * DELETE /api/taxonomy/categories/:id
+   * Remove a category; entries keep their category id
+   */
+  router.delete('/categories/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await service.deleteCategory(req.params.id);
+      if (!deleted) return categoryNotFound(res, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Category deleted successfully'
+      });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete category');
+    }
+  });
+
+  return router;
+}
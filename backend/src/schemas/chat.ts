@@ -0,0 +1,169 @@
+import { z } from 'zod';
+
+/*
+ * The chat REST contract, shared by the backend and the web app: request bodies
+ * are validated with these schemas, both sides derive their types from them and
+ * the OpenAPI document at /api/docs is generated from them. Only zod may be
+ * imported here, so the web app can use the file as is.
+ */
+
+const prioritySchema = z.enum(['low', 'medium', 'high']);
+
+// Timestamps travel as ISO strings and are read back as dates
+const timestampSchema = z.coerce.date();
+
+/**
+ * 'resolved' and 'closed' end a conversation, with and without the issue solved;
+ * a new customer message reopens it
+ */
+export const conversationStatusSchema = z.enum(['active', 'resolved', 'escalated', 'closed']);
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  role: z.enum(['user', 'assistant', 'agent']),
+  timestamp: timestampSchema,
+  metadata: z.object({
+    confidence: z.number().optional(),
+    sources: z.array(z.string()).optional(),
+    source_ids: z.array(z.string()).optional()
+      .describe('Knowledge base entry ids behind sources, in the same order'),
+    category: z.string().optional(),
+    priority: prioritySchema.optional(),
+    agent_id: z.string().optional(),
+    processing_time: z.number().optional().describe('How long the assistant took to answer, in ms')
+  }).optional()
+});
+
+export const conversationSchema = z.object({
+  id: z.string(),
+  user_id: z.string().optional().describe('The customer who started the conversation'),
+  status: conversationStatusSchema,
+  title: z.string().optional(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema
+});
+
+/**
+ * A conversation as listed in its customer's history
+ */
+export const conversationPreviewSchema = conversationSchema.extend({
+  title: z.string(),
+  message_count: z.number().int(),
+  last_message: chatMessageSchema.pick({ role: true, content: true, timestamp: true }).optional()
+    .describe('The latest message, with its content shortened')
+});
+
+export const conversationPageSchema = z.object({
+  user_id: z.string(),
+  conversations: z.array(conversationPreviewSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int()
+});
+
+/**
+ * One stored piece of a chunked knowledge base article
+ */
+export const knowledgeBaseChunkSchema = z.object({
+  chunk_index: z.number().int(),
+  content: z.string(),
+  heading: z.string().optional().describe('Heading trail of the section the chunk belongs to'),
+  overlap: z.number().int().optional().describe('Length of the prefix repeated from the previous chunk'),
+  separator: z.string().optional().describe('Whitespace between the previous chunk and this one in the article'),
+  relevance: z.number().optional(),
+  distance: z.number().optional()
+});
+
+/**
+ * A stored knowledge base entry, as returned by searches and used as an answer's source
+ */
+export const knowledgeBaseArticleSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  category: z.string().describe('A category id from the taxonomy'),
+  priority: prioritySchema,
+  product_type: z.string().optional(),
+  tags: z.array(z.string()),
+  last_updated: timestampSchema,
+  chunk_content: z.string().optional(),
+  relevance: z.number().optional(),
+  distance: z.number().optional(),
+  chunks: z.array(knowledgeBaseChunkSchema).optional()
+    .describe('Matching chunks of this article, in article order, when the article was stored in chunks')
+});
+
+export const firedEscalationRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  reasons: z.array(z.string()).describe("The conditions that held, e.g. 'category is billing'")
+});
+
+export const escalationEvaluationSchema = z.object({
+  requires_escalation: z.boolean(),
+  fired_rules: z.array(firedEscalationRuleSchema),
+  sentiment: z.number()
+});
+
+/**
+ * Body of POST /api/chat/message and POST /api/chat/stream
+ */
+export const chatRequestSchema = z.object({
+  message: z.string({ required_error: 'message is required' }).min(1, 'Message is required'),
+  conversation_id: z.string().optional(),
+  user_id: z.string().optional().describe("Ignored for customers, whose own id is used"),
+  context: z.object({
+    previous_messages: z.array(chatMessageSchema).optional(),
+    user_preferences: z.record(z.any()).optional()
+  }).optional()
+});
+
+export const chatResponseSchema = z.object({
+  message: z.string(),
+  confidence: z.number(),
+  sources: z.array(knowledgeBaseArticleSchema),
+  suggested_actions: z.array(z.string()).optional(),
+  requires_escalation: z.boolean(),
+  conversation_id: z.string(),
+  message_id: z.string().optional().describe('Id of the stored assistant message, for leaving feedback on it'),
+  escalation_ticket_id: z.string().optional(),
+  escalation: escalationEvaluationSchema.optional().describe('Which escalation rules fired, when the assistant answered'),
+  metadata: z.object({
+    processing_time: z.number(),
+    category: z.string(),
+    priority: prioritySchema.optional()
+  })
+});
+
+/**
+ * Query of GET /api/chat/users/:userId/conversations
+ */
+export const listConversationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1, 'limit must be between 1 and 100').max(100, 'limit must be between 1 and 100').default(20),
+  offset: z.coerce.number().int().min(0, 'offset cannot be negative').default(0),
+  sort: z.enum(['updated_at', 'created_at']).default('updated_at'),
+  order: z.enum(['asc', 'desc']).default('desc')
+});
+
+/**
+ * Body of PATCH /api/chat/conversations/:conversationId
+ */
+export const renameConversationSchema = z.object({
+  title: z.string({ required_error: 'title is required' }).trim().min(1, 'Title is required').max(60, 'Title must be at most 60 characters')
+});
+
+export type ConversationStatus = z.infer<typeof conversationStatusSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type Conversation = z.infer<typeof conversationSchema>;
+export type ConversationPreview = z.infer<typeof conversationPreviewSchema>;
+export type ConversationPage = z.infer<typeof conversationPageSchema>;
+export type KnowledgeBaseChunk = z.infer<typeof knowledgeBaseChunkSchema>;
+export type KnowledgeBaseEntry = z.infer<typeof knowledgeBaseArticleSchema>;
+export type FiredEscalationRule = z.infer<typeof firedEscalationRuleSchema>;
+export type EscalationEvaluation = z.infer<typeof escalationEvaluationSchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+// Sent by clients, who may leave out any option
+export type ConversationListOptions = Partial<z.infer<typeof listConversationsQuerySchema>>;
+export type RenameConversationRequest = z.infer<typeof renameConversationSchema>;
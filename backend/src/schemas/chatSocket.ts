@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { chatMessageSchema, chatResponseSchema, conversationStatusSchema } from './chat.js';
+
+/*
+ * Frames of the chat WebSocket at /api/chat/socket, shared with the web app like
+ * the REST contract. Connect with ?token=<session token>; every frame is one
+ * JSON object with a type.
+ */
+
+/**
+ * Frames sent by clients
+ */
+export const chatSocketClientFrameSchema = z.discriminatedUnion('type', [
+  // Ask the assistant (customers only); answered with ack, then reply. A frame resent with the
+  // same client_id after a reconnect is not answered twice.
+  z.object({
+    type: z.literal('message'),
+    client_id: z.string().min(1, 'client_id is required'),
+    conversation_id: z.string().optional(),
+    message: z.string().min(1, 'Message is required')
+  }),
+  // Receive the conversation's messages, status changes, typing and read events
+  z.object({
+    type: z.literal('subscribe'),
+    conversation_id: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    conversation_id: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal('typing'),
+    conversation_id: z.string().min(1),
+    is_typing: z.boolean()
+  }),
+  // The sender has seen the conversation up to this message
+  z.object({
+    type: z.literal('read'),
+    conversation_id: z.string().min(1),
+    message_id: z.string().min(1)
+  })
+]);
+
+const participantRoleSchema = z.enum(['customer', 'agent']);
+
+/**
+ * Frames sent by the server
+ */
+export const chatSocketServerFrameSchema = z.discriminatedUnion('type', [
+  // The message was received and is being answered in this conversation
+  z.object({
+    type: z.literal('ack'),
+    client_id: z.string(),
+    conversation_id: z.string()
+  }),
+  z.object({
+    type: z.literal('reply'),
+    client_id: z.string(),
+    data: chatResponseSchema
+  }),
+  // A message stored in a subscribed conversation, e.g. a human agent's reply
+  z.object({
+    type: z.literal('message'),
+    conversation_id: z.string(),
+    data: chatMessageSchema
+  }),
+  z.object({
+    type: z.literal('status'),
+    conversation_id: z.string(),
+    status: conversationStatusSchema
+  }),
+  z.object({
+    type: z.literal('typing'),
+    conversation_id: z.string(),
+    role: participantRoleSchema,
+    is_typing: z.boolean()
+  }),
+  z.object({
+    type: z.literal('read'),
+    conversation_id: z.string(),
+    role: participantRoleSchema,
+    message_id: z.string(),
+    read_at: z.coerce.date()
+  }),
+  // A frame could not be handled; client_id is set when a message failed
+  z.object({
+    type: z.literal('error'),
+    client_id: z.string().optional(),
+    error: z.string()
+  })
+]);
+
+export type ChatSocketClientFrame = z.infer<typeof chatSocketClientFrameSchema>;
+export type ChatSocketServerFrame = z.infer<typeof chatSocketServerFrameSchema>;
+export type ChatParticipantRole = z.infer<typeof participantRoleSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+const termListSchema = z.array(z.string().min(1, 'Terms cannot be empty')).min(1, 'List at least one term');
+
+/**
+ * What a rule looks at. Every condition given must hold for the rule to fire.
+ */
+export const escalationRuleConditionsSchema = z.object({
+  /** Classified category is one of these */
+  categories: termListSchema.optional(),
+  /** Classified intent is one of these */
+  intents: termListSchema.optional(),
+  classification_confidence_below: z.number().min(0).max(1).optional(),
+  response_confidence_below: z.number().min(0).max(1).optional(),
+  /** The response model asked for a human */
+  model_requested: z.boolean().optional(),
+  /** Message sentiment, from -1 to 1 */
+  sentiment_below: z.number().min(-1).max(1).optional(),
+  /** The message contains any of these */
+  keywords: termListSchema.optional(),
+  /** Customer messages in the conversation, including this one */
+  min_conversation_length: z.number().int().positive().optional(),
+  /** Answers in a row, including this one, that found nothing in the knowledge base */
+  min_repeated_failures: z.number().int().positive().optional()
+}).strict().refine(
+  conditions => Object.values(conditions).some(value => value !== undefined),
+  'At least one condition is required'
+);
+
+export type EscalationRuleConditions = z.infer<typeof escalationRuleConditionsSchema>;
+
+/**
+ * A rule as accepted by PUT /api/escalation-rules/:id, where the id comes from the path
+ */
+export const escalationRuleBodySchema = z.object({
+  name: z.string({ required_error: 'Name is required' }).min(1, 'Name is required'),
+  description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  conditions: escalationRuleConditionsSchema
+});
+
+/**
+ * A rule as stored in the rules file and accepted by POST /api/escalation-rules
+ */
+export const escalationRuleSchema = escalationRuleBodySchema.extend({
+  id: z.string({ required_error: 'ID is required' }).regex(/^[\w-]+$/, 'Invalid rule id')
+});
+
+export type EscalationRule = z.infer<typeof escalationRuleSchema>;
+
+export const escalationRulesFileSchema = z.object({
+  rules: z.array(escalationRuleSchema)
+});
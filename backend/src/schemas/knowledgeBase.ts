@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { getTaxonomyService } from '../services/taxonomy.js';
+
+/**
+ * A category id from the taxonomy
+ */
+export const categorySchema = z.string({ required_error: 'Category is required' })
+  .min(1, 'Category is required')
+  .refine(category => getTaxonomyService().hasCategory(category), category => ({
+    message: `Unknown category "${category}"`
+  }));
+
+/**
+ * A knowledge base entry as accepted by POST /api/kb/entries and the bulk importer
+ */
+export const knowledgeBaseEntrySchema = z.object({
+  title: z.string({ required_error: 'Title is required' }).min(1, 'Title is required'),
+  content: z.string({ required_error: 'Content is required' }).min(1, 'Content is required'),
+  category: categorySchema,
+  priority: z.enum(['low', 'medium', 'high'], { required_error: 'Priority is required' }),
+  product_type: z.string().optional(),
+  tags: z.array(z.string()).default([])
+});
+
+export type KnowledgeBaseEntryInput = z.infer<typeof knowledgeBaseEntrySchema>;
+
+/**
+ * An exported entry being restored: the original id and timestamp are kept when present
+ */
+export const knowledgeBaseRestoreSchema = knowledgeBaseEntrySchema.extend({
+  id: z.string().regex(/^[\w.:-]+$/, 'Invalid entry id').optional(),
+  last_updated: z.coerce.date({ invalid_type_error: 'Invalid timestamp' }).optional()
+});
+
+export type KnowledgeBaseRestoreInput = z.infer<typeof knowledgeBaseRestoreSchema>;
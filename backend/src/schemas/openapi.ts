@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  chatMessageSchema,
+  chatRequestSchema,
+  chatResponseSchema,
+  conversationPageSchema,
+  conversationSchema,
+  listConversationsQuerySchema,
+  renameConversationSchema
+} from './chat.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// Reusable schemas of the chat contract, listed under components.schemas
+const components = {
+  ChatMessage: chatMessageSchema,
+  ChatRequest: chatRequestSchema,
+  ChatResponse: chatResponseSchema,
+  Conversation: conversationSchema,
+  ConversationPage: conversationPageSchema,
+  RenameConversationRequest: renameConversationSchema
+} satisfies Record<string, z.ZodTypeAny>;
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function ref(name: keyof typeof components): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+// Successful responses are wrapped as { success: true, data }
+function success(description: string, data: JsonSchema) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', enum: [true] },
+            data,
+            message: { type: 'string' }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  };
+}
+
+function failure(description: string) {
+  return { description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } };
+}
+
+function jsonBody(name: keyof typeof components) {
+  return { required: true, content: { 'application/json': { schema: ref(name) } } };
+}
+
+function pathParameter(name: string) {
+  return { name, in: 'path', required: true, schema: { type: 'string' } };
+}
+
+// Query parameters, one per field of an object schema
+function queryParameters(schema: z.AnyZodObject) {
+  const { properties } = toJsonSchema(schema) as { properties: Record<string, JsonSchema> };
+  return Object.entries(properties).map(([name, property]) => ({ name, in: 'query', required: false, schema: property }));
+}
+
+const accessErrors = {
+  '401': failure('Missing or invalid credentials'),
+  '403': failure('The conversation belongs to another customer')
+};
+
+const conversationParameter = pathParameter('conversationId');
+
+/**
+ * The OpenAPI document of the chat API, generated from the shared chat schemas
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Customer Support Chatbot API',
+      version: '1.0.0',
+      description: 'Chat endpoints of the support assistant. Customers only see their own conversations. '
+        + 'Real-time chat runs over the WebSocket at /api/chat/socket, whose frames are not described here.'
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    paths: {
+      '/api/chat/message': {
+        post: {
+          summary: 'Send a message and get the assistant\'s answer',
+          requestBody: jsonBody('ChatRequest'),
+          responses: {
+            '200': success('The answer', ref('ChatResponse')),
+            '400': failure('Invalid request body'),
+            ...accessErrors
+          }
+        }
+      },
+      '/api/chat/stream': {
+        post: {
+          summary: 'Send a message and stream the answer as Server-Sent Events',
+          description: 'Emits classified, sources and token events while answering, then done with the ChatResponse, or error.',
+          requestBody: jsonBody('ChatRequest'),
+          responses: {
+            '200': { description: 'An event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+            '400': failure('Invalid request body'),
+            ...accessErrors
+          }
+        }
+      },
+      '/api/chat/conversations/{conversationId}': {
+        parameters: [conversationParameter],
+        get: {
+          summary: 'Get a conversation\'s owner, title, status and timestamps',
+          responses: {
+            '200': success('The conversation', ref('Conversation')),
+            ...accessErrors,
+            '404': failure('No such conversation')
+          }
+        },
+        patch: {
+          summary: 'Rename a conversation',
+          requestBody: jsonBody('RenameConversationRequest'),
+          responses: {
+            '200': success('The renamed conversation', ref('Conversation')),
+            '400': failure('Invalid title'),
+            ...accessErrors,
+            '404': failure('No such conversation')
+          }
+        }
+      },
+      '/api/chat/conversations/{conversationId}/history': {
+        parameters: [conversationParameter],
+        get: {
+          summary: 'Get the stored messages of a conversation, including human agent replies',
+          responses: {
+            '200': success('Messages, oldest first', { type: 'array', items: ref('ChatMessage') }),
+            ...accessErrors
+          }
+        }
+      },
+      '/api/chat/conversations/{conversationId}/resolve': {
+        parameters: [conversationParameter],
+        post: {
+          summary: 'End a conversation whose issue is solved',
+          responses: {
+            '200': success('The resolved conversation', ref('Conversation')),
+            ...accessErrors,
+            '404': failure('No such conversation'),
+            '409': failure('The conversation has already ended')
+          }
+        }
+      },
+      '/api/chat/conversations/{conversationId}/close': {
+        parameters: [conversationParameter],
+        post: {
+          summary: 'End a conversation without confirming the issue is solved',
+          responses: {
+            '200': success('The closed conversation', ref('Conversation')),
+            ...accessErrors,
+            '404': failure('No such conversation'),
+            '409': failure('The conversation has already ended')
+          }
+        }
+      },
+      '/api/chat/conversation/{conversationId}': {
+        parameters: [conversationParameter],
+        delete: {
+          summary: 'Delete a conversation and its messages',
+          responses: {
+            '200': { description: 'The conversation was deleted' },
+            ...accessErrors,
+            '404': failure('No such conversation')
+          }
+        }
+      },
+      '/api/chat/users/{userId}/conversations': {
+        parameters: [pathParameter('userId')],
+        get: {
+          summary: 'Get a page of a user\'s conversations with titles and last message previews',
+          parameters: queryParameters(listConversationsQuerySchema),
+          responses: {
+            '200': success('A page of conversations', ref('ConversationPage')),
+            '400': failure('Invalid paging options'),
+            '401': accessErrors['401'],
+            '403': failure('Customers can only list their own conversations')
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        ...Object.fromEntries(Object.entries(components).map(([name, schema]) => [name, toJsonSchema(schema)])),
+        Error: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', enum: [false] },
+            error: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['error']
+        }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'A session token from POST /api/auth/session' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'A staff or integration API key' }
+      }
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const slugSchema = z.string({ required_error: 'ID is required' })
+  .regex(/^[a-z0-9_-]+$/, 'Use lowercase letters, digits, "-" and "_"');
+
+export const subcategorySchema = z.object({
+  id: slugSchema,
+  name: z.string({ required_error: 'Name is required' }).min(1, 'Name is required')
+});
+
+/**
+ * A category as accepted by PUT /api/taxonomy/categories/:id, where the id comes from the path
+ */
+export const taxonomyCategoryBodySchema = z.object({
+  name: z.string({ required_error: 'Name is required' }).min(1, 'Name is required'),
+  description: z.string().optional(),
+  subcategories: z.array(subcategorySchema).default([]),
+  /** Priority of conversations in this category that are not escalated */
+  default_priority: z.enum(['low', 'medium', 'high']).default('low'),
+  suggested_actions: z.array(z.string().min(1, 'Actions cannot be empty')).default([]),
+  /** "always" hands every conversation to a person; "rules" leaves it to the escalation rules */
+  escalation_policy: z.enum(['always', 'rules']).default('rules')
+});
+
+/**
+ * A category as stored in the taxonomy file and accepted by POST /api/taxonomy/categories
+ */
+export const taxonomyCategorySchema = taxonomyCategoryBodySchema.extend({
+  id: slugSchema
+});
+
+export type TaxonomyCategory = z.infer<typeof taxonomyCategorySchema>;
+
+export const taxonomyFileSchema = z.object({
+  categories: z.array(taxonomyCategorySchema).min(1, 'At least one category is required')
+});
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Knowledge Base Export
+ *
+ * Usage: npm run export:kb -- <output> [--format jsonl|csv|markdown] [--kb support_kb]
+ *
+ * JSONL and CSV exports are written to the <output> file; Markdown exports are
+ * written as one file per entry under the <output> directory. Without --kb the
+ * support_knowledge_base table is exported.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { KnowledgeBaseExportService, type ExportFormat } from '../services/knowledgeBaseExport.js';
+
+// Load environment variables
+dotenv.config();
+
+const FORMATS: ExportFormat[] = ['jsonl', 'csv', 'markdown'];
+
+function parseArgs(args: string[]): { output?: string; format: string; kbName?: string } {
+  let output: string | undefined;
+  let format = 'jsonl';
+  let kbName: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--format') {
+      format = args[++i];
+    } else if (arg === '--kb') {
+      kbName = args[++i];
+    } else {
+      output = arg;
+    }
+  }
+
+  return { output, format, kbName };
+}
+
+async function main() {
+  const { output, format, kbName } = parseArgs(process.argv.slice(2));
+
+  if (!output) {
+    console.error('Usage: npm run export:kb -- <output> [--format jsonl|csv|markdown] [--kb support_kb]');
+    process.exit(1);
+  }
+  if (!FORMATS.includes(format as ExportFormat)) {
+    console.error(`❌ --format must be one of ${FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(`📤 Exporting ${kbName || 'support_knowledge_base'} as ${format}...\n`);
+
+  try {
+    const bundle = await new KnowledgeBaseExportService().exportKnowledgeBase(format as ExportFormat, { kbName });
+
+    if (bundle.format === 'markdown') {
+      for (const file of bundle.files) {
+        const target = path.join(output, file.name);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, file.content);
+      }
+    } else {
+      await fs.writeFile(output, bundle.files[0].content);
+    }
+
+    console.log(`✅ Exported ${bundle.count} entries to ${output}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Export failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run the export if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Knowledge Base Bulk Import
+ *
+ * Usage: npm run import:kb -- <path> [--kb support_kb] [--batch-size 50] [--dry-run]
+ *                            [--chunk-size 1000] [--chunk-overlap 150]
+ *
+ * <path> is a .csv file, a .jsonl file, a Markdown file, or a directory of
+ * Markdown files with front-matter (title, category, priority, tags, product_type).
+ */
+
+import dotenv from 'dotenv';
+import { KnowledgeBaseImportService, type ImportOptions } from '../services/knowledgeBaseImport.js';
+import { resolveChunkingOptions, type ChunkingOptions } from '../services/chunking.js';
+
+// Load environment variables
+dotenv.config();
+
+function parseArgs(args: string[]): { source?: string; options: ImportOptions } {
+  const chunking: ChunkingOptions = {};
+  const options: ImportOptions = { chunking };
+  let source: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--kb') {
+      options.kbName = args[++i];
+    } else if (arg === '--batch-size') {
+      options.batchSize = parseInt(args[++i]);
+    } else if (arg === '--chunk-size') {
+      chunking.chunkSize = parseInt(args[++i]);
+    } else if (arg === '--chunk-overlap') {
+      chunking.chunkOverlap = parseInt(args[++i]);
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else {
+      source = arg;
+    }
+  }
+
+  return { source, options };
+}
+
+async function main() {
+  const { source, options } = parseArgs(process.argv.slice(2));
+
+  if (!source) {
+    console.error('Usage: npm run import:kb -- <path> [--kb support_kb] [--batch-size 50] [--dry-run] [--chunk-size 1000] [--chunk-overlap 150]');
+    process.exit(1);
+  }
+  if (options.batchSize !== undefined && !(options.batchSize > 0)) {
+    console.error('❌ --batch-size must be a positive number');
+    process.exit(1);
+  }
+  try {
+    resolveChunkingOptions(options.chunking);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : 'Invalid chunking options'}`);
+    process.exit(1);
+  }
+
+  console.log(`📥 Importing knowledge base entries from ${source}${options.dryRun ? ' (dry run)' : ''}...\n`);
+
+  try {
+    const report = await new KnowledgeBaseImportService().importPath(source, options);
+
+    for (const rowError of report.errors) {
+      console.log(`❌ ${rowError.source}: ${rowError.errors.join('; ')}`);
+    }
+
+    console.log(`\n📊 ${report.valid}/${report.total} entries valid`);
+    if (!report.dry_run) {
+      console.log(`✅ Inserted ${report.inserted}/${report.total} entries`);
+    }
+
+    process.exit(report.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Import failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run the import if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+/**
+ * MindsDB Stand-in
+ *
+ * Usage: npm run mindsdb:stand-in
+ *
+ * Serves the seed knowledge base over the MySQL protocol on MINDSDB_HOST and
+ * MINDSDB_PORT, so the backend can run with SUPPORT_BACKEND=mindsdb-sql
+ * without a MindsDB instance. Entries are kept in memory until it stops.
+ */
+
+import dotenv from 'dotenv';
+import { MindsDBStandIn } from '../testing/mindsdbStandIn.js';
+
+// Load environment variables
+dotenv.config();
+
+async function main() {
+  const host = process.env.MINDSDB_HOST || '127.0.0.1';
+  const standIn = new MindsDBStandIn();
+
+  try {
+    const port = await standIn.start(parseInt(process.env.MINDSDB_PORT || '47334'), host);
+    console.log(`🧪 MindsDB stand-in listening on ${host}:${port}`);
+  } catch (error) {
+    console.error('❌ Could not start the stand-in:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+
+  process.on('SIGINT', async () => {
+    await standIn.stop();
+    console.log('\n👋 MindsDB stand-in stopped');
+    process.exit(0);
+  });
+}
+
+// Start the stand-in if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
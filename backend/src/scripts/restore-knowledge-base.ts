@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Knowledge Base Restore
+ *
+ * Usage: npm run restore:kb -- <path> [--kb support_kb] [--batch-size 50]
+ *
+ * Rebuilds a MindsDB knowledge base from an export: the knowledge base is
+ * created with initializeKnowledgeBase if it does not exist, then every entry
+ * is inserted with its original id and last_updated timestamp. <path> is a
+ * JSONL or CSV export, or a directory of Markdown files written by export:kb.
+ */
+
+import dotenv from 'dotenv';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { KnowledgeBaseImportService } from '../services/knowledgeBaseImport.js';
+
+// Load environment variables
+dotenv.config();
+
+function parseArgs(args: string[]): { source?: string; kbName: string; batchSize?: number } {
+  let source: string | undefined;
+  let kbName = 'support_kb';
+  let batchSize: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--kb') {
+      kbName = args[++i];
+    } else if (arg === '--batch-size') {
+      batchSize = parseInt(args[++i]);
+    } else {
+      source = arg;
+    }
+  }
+
+  return { source, kbName, batchSize };
+}
+
+async function main() {
+  const { source, kbName, batchSize } = parseArgs(process.argv.slice(2));
+
+  if (!source) {
+    console.error('Usage: npm run restore:kb -- <path> [--kb support_kb] [--batch-size 50]');
+    process.exit(1);
+  }
+  if (batchSize !== undefined && !(batchSize > 0)) {
+    console.error('❌ --batch-size must be a positive number');
+    process.exit(1);
+  }
+
+  console.log(`♻️  Restoring knowledge base "${kbName}" from ${source}...\n`);
+
+  try {
+    const knowledgeBaseService = new KnowledgeBaseService();
+
+    if (!(await knowledgeBaseService.initializeKnowledgeBase(kbName))) {
+      console.error(`❌ Could not initialize knowledge base "${kbName}"`);
+      process.exit(1);
+    }
+
+    const report = await new KnowledgeBaseImportService(knowledgeBaseService).importPath(source, {
+      kbName,
+      batchSize,
+      preserveIds: true
+    });
+
+    for (const rowError of report.errors) {
+      console.log(`❌ ${rowError.source}: ${rowError.errors.join('; ')}`);
+    }
+
+    console.log(`\n✅ Restored ${report.inserted}/${report.total} entries`);
+    process.exit(report.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Restore failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run the restore if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
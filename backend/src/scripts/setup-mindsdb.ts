@@ -10,13 +10,15 @@
  */
 
 import dotenv from 'dotenv';
-import { getMindsDBClient } from '../config/database.js';
-import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { getMindsDBClient, buildCreateWithParams } from '../config/database.js';
+import { KnowledgeBaseService, type KnowledgeBaseDocument } from '../services/knowledgeBase.js';
+import { MindsDBSdkBackend } from '../backends/index.js';
+import { getTaxonomyService } from '../services/taxonomy.js';
 
 // Load environment variables
 dotenv.config();
 
-const sampleKnowledgeBaseData = [
+const sampleKnowledgeBaseData: KnowledgeBaseDocument[] = [
   {
     content: 'To reset your password: 1. Go to the login page 2. Click "Forgot Password" 3. Enter your email 4. Check your email for reset instructions 5. Follow the link and create a new password',
     metadata: {
@@ -73,7 +75,7 @@ async function setupKnowledgeBase() {
   console.log('🚀 Starting MindsDB Knowledge Base setup...\n');
   
   try {
-    const kbService = new KnowledgeBaseService();
+    const kbService = new KnowledgeBaseService(new MindsDBSdkBackend());
     
     // Step 1: Initialize Knowledge Base
     console.log('📚 Initializing Knowledge Base...');
@@ -91,17 +93,13 @@ async function setupKnowledgeBase() {
     let successCount = 0;
     for (const [index, data] of sampleKnowledgeBaseData.entries()) {
       try {
-        const success = await kbService.addToKnowledgeBaseWithSDK(
-          data.content,
-          data.metadata,
-          'support_kb'
-        );
+        const success = await kbService.addKnowledgeBaseDocuments([data], 'support_kb');
         
         if (success) {
           successCount++;
-          console.log(`✅ Added entry ${index + 1}/${sampleKnowledgeBaseData.length}: ${data.metadata.title}`);
+          console.log(`✅ Added entry ${index + 1}/${sampleKnowledgeBaseData.length}: ${data.metadata?.title}`);
         } else {
-          console.log(`⚠️  Skipped entry ${index + 1}/${sampleKnowledgeBaseData.length}: ${data.metadata.title} (SDK not available)`);
+          console.log(`⚠️  Skipped entry ${index + 1}/${sampleKnowledgeBaseData.length}: ${data.metadata?.title} (SDK not available)`);
         }
       } catch (error) {
         console.log(`❌ Failed to add entry ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -127,18 +125,19 @@ async function createAITables() {
       return;
     }
     
-    // Create query classification model using proper MindsDB syntax
+    // Create query classification model using proper MindsDB syntax.
+    // The categories come from the taxonomy; run setup again after changing it.
     console.log('🔍 Creating query classification model...');
     try {
-      const classifierSql = `
-        CREATE MODEL query_classifier
-        PREDICT category
-        USING
-          engine = 'openai',
-          model_name = 'gpt-3.5-turbo',
-          api_key = '${process.env.OPENAI_API_KEY || 'your-api-key'}',
-          prompt_template = 'Classify the following customer support query into one of these categories: technical, billing, shipping, general. Query: {{query}} Category:';
-      `;
+      const categories = getTaxonomyService().listCategories()
+        .map(category => category.description ? `${category.id} (${category.description})` : category.id)
+        .join(', ');
+      const classifierSql = buildCreateWithParams('MODEL', 'query_classifier', {
+        engine: 'openai',
+        model_name: 'gpt-3.5-turbo',
+        api_key: process.env.OPENAI_API_KEY || 'your-api-key',
+        prompt_template: `Classify the following customer support query into one of these categories: ${categories}. Query: {{query}} Category:`
+      }, 'category');
       
       await client.SQL.runQuery(classifierSql);
       console.log('✅ Query classifier created');
@@ -149,21 +148,34 @@ async function createAITables() {
     // Create response generation model using proper MindsDB syntax
     console.log('💬 Creating response generation model...');
     try {
-      const responseSql = `
-        CREATE MODEL response_generator
-        PREDICT response
-        USING
-          engine = 'openai',
-          model_name = 'gpt-3.5-turbo',
-          api_key = '${process.env.OPENAI_API_KEY || 'your-api-key'}',
-          prompt_template = 'You are a helpful customer support assistant. Based on the knowledge base information provided, generate a helpful and accurate response. Query: {{query}} Context: {{context}} Response:';
-      `;
+      const responseSql = buildCreateWithParams('MODEL', 'response_generator', {
+        engine: 'openai',
+        model_name: 'gpt-3.5-turbo',
+        api_key: process.env.OPENAI_API_KEY || 'your-api-key',
+        prompt_template: 'You are a helpful customer support assistant. Based on the knowledge base information and the conversation so far, generate a helpful and accurate response. Conversation: {{history}} Query: {{query}} Context: {{context}} Response:'
+      }, 'response');
       
       await client.SQL.runQuery(responseSql);
       console.log('✅ Response generator created');
     } catch (error) {
       console.log('⚠️  Response generator might already exist');
     }
+
+    // Create follow-up query rewriting model
+    console.log('🔁 Creating query rewriting model...');
+    try {
+      const rewriterSql = buildCreateWithParams('MODEL', 'query_rewriter_model', {
+        engine: 'openai',
+        model_name: 'gpt-3.5-turbo',
+        api_key: process.env.OPENAI_API_KEY || 'your-api-key',
+        prompt_template: 'Rewrite the latest customer message as a standalone question that can be understood without the conversation. Conversation: {{history}} Latest message: {{query}} Standalone question:'
+      }, 'standalone_query');
+
+      await client.SQL.runQuery(rewriterSql);
+      console.log('✅ Query rewriter created');
+    } catch (error) {
+      console.log('⚠️  Query rewriter might already exist');
+    }
     
   } catch (error) {
     console.error('❌ AI Tables setup failed:', error instanceof Error ? error.message : 'Unknown error');
@@ -180,7 +192,7 @@ async function main() {
   console.log('\n🎉 Setup completed!');
   console.log('\nNext steps:');
   console.log('1. Update your .env file with MindsDB credentials');
-  console.log('2. Set MOCK_MODE=false to use MindsDB');
+  console.log('2. Set SUPPORT_BACKEND=mindsdb-sdk (or mindsdb-sql) to use MindsDB');
   console.log('3. Start your development server: npm run dev');
   console.log('4. Test the knowledge base search functionality');
   
@@ -0,0 +1,254 @@
+import type { Agent, AgentConfig, AgentQuery, AgentResponse } from '../types/index.js';
+import {
+  executeQuery,
+  escapeIdentifier,
+  buildSelect,
+  buildModelPrediction,
+  buildCreateWithParams
+} from '../config/database.js';
+import { resolveBackendKind } from '../backends/index.js';
+
+// Agents live in MindsDB, so they are kept in memory alongside the in-memory backend
+const isMockMode = resolveBackendKind() === 'memory';
+
+export interface AgentStatus {
+  name: string;
+  status: Agent['status'];
+  model: string;
+  provider: string;
+  knowledge_bases: string[];
+  tables: string[];
+  last_checked: Date;
+}
+
+/** The USING parameters an agent was created with */
+interface AgentParams {
+  model?: string;
+  provider?: string;
+  include_knowledge_bases?: string[];
+  include_tables?: string[];
+  prompt_template?: string;
+}
+
+/** A row of information_schema.agents; column case depends on the MindsDB version */
+interface AgentRow {
+  ID?: string | number;
+  NAME?: string;
+  name?: string;
+  MODEL_NAME?: string;
+  model_name?: string;
+  PARAMS?: string | AgentParams | null;
+  params?: AgentParams;
+  CREATED_AT?: string | Date;
+  created_at?: string | Date;
+  UPDATED_AT?: string | Date;
+  updated_at?: string | Date;
+}
+
+export class AgentsService {
+  private mockAgents: Map<string, Agent>;
+
+  constructor() {
+    this.mockAgents = new Map();
+  }
+
+  /**
+   * Create a MindsDB agent backed by an LLM and optional knowledge bases/tables
+   */
+  async createAgent(config: AgentConfig): Promise<Agent> {
+    this.assertValidName(config.name);
+
+    const now = new Date();
+    const agent: Agent = {
+      id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: config.name,
+      model: config.model,
+      provider: config.provider,
+      knowledge_bases: config.include_knowledge_bases || [],
+      tables: config.include_tables || [],
+      prompt_template: config.prompt_template || '',
+      created_at: now,
+      updated_at: now,
+      status: 'active'
+    };
+
+    if (isMockMode) {
+      console.log('Mock mode: Creating agent:', config.name);
+
+      if (this.mockAgents.has(config.name)) {
+        throw new Error(`Agent "${config.name}" already exists`);
+      }
+
+      this.mockAgents.set(config.name, agent);
+      return agent;
+    }
+
+    try {
+      const sql = buildCreateWithParams('AGENT', config.name, {
+        model: config.model,
+        provider: config.provider,
+        [`${config.provider}_api_key`]: config.api_key,
+        include_knowledge_bases: agent.knowledge_bases.length > 0 ? agent.knowledge_bases : undefined,
+        include_tables: agent.tables.length > 0 ? agent.tables : undefined,
+        prompt_template: agent.prompt_template || undefined
+      });
+
+      await executeQuery(sql);
+      return agent;
+    } catch (error) {
+      throw new Error(`Failed to create agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Ask an agent a question and return its answer
+   */
+  async queryAgent(query: AgentQuery): Promise<AgentResponse> {
+    const agent = await this.getAgent(query.agent_name);
+
+    if (!agent) {
+      throw new Error(`Agent "${query.agent_name}" not found`);
+    }
+
+    if (isMockMode) {
+      console.log('Mock mode: Querying agent:', query.agent_name);
+
+      const sources = agent.knowledge_bases.length > 0 ? agent.knowledge_bases : [];
+      return {
+        answer: sources.length > 0
+          ? `Based on ${sources.join(', ')}, here is what I found about "${query.question}".`
+          : `I received your question: "${query.question}". How else can I help?`,
+        confidence: sources.length > 0 ? 0.85 : 0.7,
+        sources,
+        agent_name: agent.name,
+        model_used: agent.model,
+        reasoning: 'Generated by mock agent service',
+        timestamp: new Date()
+      };
+    }
+
+    try {
+      const sql = buildModelPrediction(agent.name, ['answer'], { question: query.question });
+
+      const result = await executeQuery(sql);
+      const answer = result.rows[0]?.answer || '';
+
+      return {
+        answer,
+        confidence: answer ? 0.8 : 0.3,
+        sources: agent.knowledge_bases,
+        agent_name: agent.name,
+        model_used: agent.model,
+        reasoning: answer ? 'Answered by MindsDB agent' : 'Agent returned no answer',
+        timestamp: new Date()
+      };
+    } catch (error) {
+      throw new Error(`Failed to query agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List all agents in the MindsDB project
+   */
+  async listAgents(): Promise<Agent[]> {
+    if (isMockMode) {
+      return Array.from(this.mockAgents.values());
+    }
+
+    try {
+      const result = await executeQuery(buildSelect('information_schema.agents', ['*']));
+      return (result.rows as AgentRow[]).map(row => this.mapAgentRow(row));
+    } catch (error) {
+      throw new Error(`Failed to list agents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a single agent by name, or null if it does not exist
+   */
+  async getAgent(name: string): Promise<Agent | null> {
+    if (isMockMode) {
+      return this.mockAgents.get(name) || null;
+    }
+
+    try {
+      const sql = buildSelect('information_schema.agents', ['*'], { name });
+      const result = await executeQuery(sql);
+
+      if (result.rows.length === 0) return null;
+      return this.mapAgentRow(result.rows[0]);
+    } catch (error) {
+      throw new Error(`Failed to get agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Report whether an agent exists and is usable
+   */
+  async getAgentStatus(name: string): Promise<AgentStatus | null> {
+    const agent = await this.getAgent(name);
+
+    if (!agent) return null;
+
+    return {
+      name: agent.name,
+      status: agent.status,
+      model: agent.model,
+      provider: agent.provider,
+      knowledge_bases: agent.knowledge_bases,
+      tables: agent.tables,
+      last_checked: new Date()
+    };
+  }
+
+  /**
+   * Drop an agent
+   */
+  async deleteAgent(name: string): Promise<boolean> {
+    if (isMockMode) {
+      return this.mockAgents.delete(name);
+    }
+
+    const agent = await this.getAgent(name);
+    if (!agent) return false;
+
+    try {
+      await executeQuery(`DROP AGENT ${escapeIdentifier(agent.name)}`);
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to delete agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Map an information_schema.agents row to our Agent shape
+   */
+  private mapAgentRow(row: AgentRow): Agent {
+    const params: AgentParams = typeof row.PARAMS === 'string'
+      ? JSON.parse(row.PARAMS || '{}')
+      : row.PARAMS || row.params || {};
+    const name = row.NAME || row.name || '';
+
+    return {
+      id: row.ID ? String(row.ID) : `agent_${name}`,
+      name,
+      model: params.model || row.MODEL_NAME || row.model_name || '',
+      provider: params.provider || 'openai',
+      knowledge_bases: params.include_knowledge_bases || [],
+      tables: params.include_tables || [],
+      prompt_template: params.prompt_template || '',
+      created_at: new Date(row.CREATED_AT || row.created_at || Date.now()),
+      updated_at: new Date(row.UPDATED_AT || row.updated_at || Date.now()),
+      status: 'active'
+    };
+  }
+
+  /**
+   * Agent names are used as SQL identifiers, so only allow plain identifiers
+   */
+  private assertValidName(name: string): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid agent name "${name}": use letters, numbers and underscores only`);
+    }
+  }
+}
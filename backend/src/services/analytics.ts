@@ -0,0 +1,204 @@
+import type {
+  AnalyticsBucket,
+  AnalyticsBucketSize,
+  AnalyticsMetrics,
+  AnalyticsReport,
+  ChatMessage,
+  Conversation,
+  ProcessingTimePercentiles,
+  UnansweredQuery
+} from '../types/index.js';
+import type { ConversationRepository } from '../repositories/conversationRepository.js';
+import { EscalationService } from './escalation.js';
+
+export interface AnalyticsQuery {
+  from: Date;
+  to: Date;
+  bucket: AnalyticsBucketSize;
+  /** Number of unanswered queries to report (default: 10) */
+  top?: number;
+}
+
+// Answers below this confidence, or without knowledge base sources, leave the question unanswered
+const UNANSWERED_CONFIDENCE = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const BUCKET_MS: Record<AnalyticsBucketSize, number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS
+};
+
+/**
+ * Start of the UTC hour, day or week (from Monday) containing the date
+ */
+export function bucketStart(date: Date, bucket: AnalyticsBucketSize): Date {
+  const start = new Date(date);
+  start.setUTCMinutes(0, 0, 0);
+  if (bucket === 'hour') return start;
+
+  start.setUTCHours(0);
+  if (bucket === 'day') return start;
+
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+interface TimedMessage {
+  conversation_id: string;
+  message: ChatMessage;
+}
+
+/**
+ * Support metrics computed from stored conversations and escalation tickets
+ */
+export class AnalyticsService {
+  private conversations: ConversationRepository;
+  private escalationService: EscalationService;
+
+  constructor(conversationRepository: ConversationRepository, escalationService?: EscalationService) {
+    this.conversations = conversationRepository;
+    this.escalationService = escalationService || new EscalationService(conversationRepository);
+  }
+
+  /**
+   * Metrics for [from, to) in UTC buckets, with totals for the whole range
+   */
+  async getReport(query: AnalyticsQuery): Promise<AnalyticsReport> {
+    const { from, to, bucket, top = 10 } = query;
+    const inRange = (date: Date) => date >= from && date < to;
+
+    const conversations = await this.conversations.listConversations();
+    const tickets = await this.escalationService.listTickets();
+    const escalated = new Set([
+      ...tickets.map(ticket => ticket.conversation_id),
+      ...conversations.filter(conversation => conversation.status === 'escalated').map(conversation => conversation.id)
+    ]);
+
+    const started = conversations.filter(conversation => inRange(conversation.created_at));
+    const messages: TimedMessage[] = [];
+    // Conversations last active before the range have no messages in it
+    for (const conversation of conversations.filter(conversation => conversation.updated_at >= from)) {
+      for (const message of await this.conversations.getMessages(conversation.id)) {
+        if (inRange(message.timestamp)) messages.push({ conversation_id: conversation.id, message });
+      }
+    }
+
+    const buckets: AnalyticsBucket[] = [];
+    for (let start = bucketStart(from, bucket); start < to; start = new Date(start.getTime() + BUCKET_MS[bucket])) {
+      const end = new Date(start.getTime() + BUCKET_MS[bucket]);
+      const within = (date: Date) => date >= start && date < end;
+
+      buckets.push({
+        start,
+        end,
+        ...this.measure(
+          started.filter(conversation => within(conversation.created_at)),
+          messages.filter(({ message }) => within(message.timestamp)),
+          escalated
+        )
+      });
+    }
+
+    return {
+      from,
+      to,
+      bucket,
+      totals: this.measure(started, messages, escalated),
+      buckets,
+      top_unanswered_queries: this.findUnansweredQueries(messages, top)
+    };
+  }
+
+  private measure(conversations: Conversation[], messages: TimedMessage[], escalated: Set<string>): AnalyticsMetrics {
+    const answers = messages.map(({ message }) => message).filter(message => message.role === 'assistant');
+    const confidences = answers
+      .map(message => message.metadata?.confidence)
+      .filter((confidence): confidence is number => confidence !== undefined);
+    const processingTimes = answers
+      .map(message => message.metadata?.processing_time)
+      .filter((time): time is number => time !== undefined);
+
+    const categoryMix: Record<string, number> = {};
+    for (const answer of answers) {
+      const category = answer.metadata?.category;
+      if (category) categoryMix[category] = (categoryMix[category] || 0) + 1;
+    }
+
+    const escalatedCount = conversations.filter(conversation => escalated.has(conversation.id)).length;
+    const deflectedCount = conversations
+      .filter(conversation => conversation.status === 'resolved' && !escalated.has(conversation.id)).length;
+
+    return {
+      conversations: conversations.length,
+      messages: messages.length,
+      escalation_rate: this.rate(escalatedCount, conversations.length),
+      deflection_rate: this.rate(deflectedCount, conversations.length),
+      mean_confidence: confidences.length > 0
+        ? Math.round((confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length) * 100) / 100
+        : null,
+      processing_time: this.percentiles(processingTimes),
+      category_mix: categoryMix
+    };
+  }
+
+  /**
+   * Customer questions answered without sources or with low confidence, most frequent first.
+   * Questions are grouped case- and whitespace-insensitively.
+   */
+  private findUnansweredQueries(messages: TimedMessage[], top: number): UnansweredQuery[] {
+    const queries = new Map<string, UnansweredQuery>();
+
+    messages.forEach(({ conversation_id, message }, index) => {
+      if (message.role !== 'user') return;
+
+      // Messages of a conversation are contiguous; agent replies do not answer for the assistant
+      let answer: ChatMessage | undefined;
+      for (let next = index + 1; next < messages.length && messages[next].conversation_id === conversation_id; next++) {
+        if (messages[next].message.role !== 'agent') {
+          answer = messages[next].message;
+          break;
+        }
+      }
+      if (answer?.role !== 'assistant' || !this.isUnanswered(answer)) return;
+
+      const key = message.content.trim().toLowerCase().replace(/\s+/g, ' ');
+      const existing = queries.get(key);
+      if (!existing) {
+        queries.set(key, { query: message.content.trim(), count: 1, last_asked: message.timestamp });
+      } else {
+        existing.count++;
+        if (message.timestamp > existing.last_asked) {
+          existing.query = message.content.trim();
+          existing.last_asked = message.timestamp;
+        }
+      }
+    });
+
+    return Array.from(queries.values())
+      .sort((a, b) => b.count - a.count || b.last_asked.getTime() - a.last_asked.getTime())
+      .slice(0, top);
+  }
+
+  private isUnanswered(answer: ChatMessage): boolean {
+    const sources = answer.metadata?.source_ids || answer.metadata?.sources || [];
+    return sources.length === 0 || (answer.metadata?.confidence ?? 0) < UNANSWERED_CONFIDENCE;
+  }
+
+  /**
+   * Nearest-rank percentiles, in whole ms
+   */
+  private percentiles(values: number[]): ProcessingTimePercentiles | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (percentile: number) => Math.round(sorted[Math.ceil((percentile / 100) * sorted.length) - 1]);
+
+    return { p50: at(50), p90: at(90), p99: at(99) };
+  }
+
+  private rate(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 100) / 100 : 0;
+  }
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import type { AuthSession, Principal, Role } from '../types/index.js';
+
+export const ROLES: Role[] = ['customer', 'agent', 'kb_editor', 'admin'];
+
+export interface ApiKey {
+  key: string;
+  role: Role;
+  /** Integration the key was issued to */
+  name: string;
+}
+
+export interface AuthOptions {
+  /** Secret session tokens are signed with */
+  secret?: string;
+  apiKeys?: ApiKey[];
+  /** How long a session token is valid, in seconds (default: 12 hours) */
+  sessionTtl?: number;
+  /** When false, every request acts as an admin */
+  enabled?: boolean;
+}
+
+interface SessionClaims {
+  sub: string;
+  role: Role;
+  name?: string;
+  iat: number;
+  exp: number;
+}
+
+const DEFAULT_SESSION_TTL = 12 * 60 * 60;
+
+// Acts for every request when authentication is disabled
+const DISABLED_PRINCIPAL: Principal = { id: 'local', role: 'admin', name: 'Authentication disabled', method: 'disabled' };
+
+const TOKEN_HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * Parse API_KEYS: comma-separated key:role:name entries
+ */
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  if (!value) return [];
+
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const [key, role, ...name] = entry.split(':');
+    if (!key || !ROLES.includes(role as Role)) {
+      console.warn(`Ignoring API key entry with invalid role "${role}"; expected one of ${ROLES.join(', ')}`);
+      return [];
+    }
+    return [{ key, role: role as Role, name: name.join(':') || role }];
+  });
+}
+
+/**
+ * Checks API keys and issues and verifies the signed session tokens (HS256 JWTs) used by the web app
+ */
+export class AuthService {
+  readonly enabled: boolean;
+  private secret: string;
+  private apiKeys: Array<ApiKey & { digest: Buffer }>;
+  private sessionTtl: number;
+
+  constructor(options: AuthOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.sessionTtl = options.sessionTtl ?? DEFAULT_SESSION_TTL;
+    this.apiKeys = (options.apiKeys || []).map(apiKey => ({ ...apiKey, digest: digest(apiKey.key) }));
+
+    if (options.secret) {
+      this.secret = options.secret;
+    } else {
+      if (this.enabled) console.warn('JWT_SECRET is not set; sessions will not survive a restart');
+      this.secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  /**
+   * The principal an integration's API key acts as, or null for an unknown key
+   */
+  authenticateApiKey(key: string): Principal | null {
+    // Compare digests so the comparison takes the same time whatever the key's length
+    const candidate = digest(key);
+    const apiKey = this.apiKeys.find(apiKey => crypto.timingSafeEqual(apiKey.digest, candidate));
+    return apiKey ? { id: `key_${apiKey.name}`, role: apiKey.role, name: apiKey.name, method: 'api_key' } : null;
+  }
+
+  /**
+   * The principal a session token was issued to, or null if it is malformed, tampered with or expired
+   */
+  verifySession(token: string): Principal | null {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature || header !== TOKEN_HEADER) return null;
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    let claims: SessionClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+    if (!ROLES.includes(claims.role) || claims.exp * 1000 <= Date.now()) return null;
+
+    return { id: claims.sub, role: claims.role, name: claims.name, method: 'session' };
+  }
+
+  /**
+   * Sign a session token for a principal
+   */
+  issueSession(principal: Pick<Principal, 'id' | 'role' | 'name'>): AuthSession {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const claims: SessionClaims = {
+      sub: principal.id,
+      role: principal.role,
+      name: principal.name,
+      iat: issuedAt,
+      exp: issuedAt + this.sessionTtl
+    };
+    const unsigned = `${TOKEN_HEADER}.${base64url(JSON.stringify(claims))}`;
+
+    return {
+      token: `${unsigned}.${this.sign(unsigned)}`,
+      expires_at: new Date(claims.exp * 1000),
+      user: { id: principal.id, role: principal.role, name: principal.name }
+    };
+  }
+
+  /**
+   * A session for a new anonymous customer
+   */
+  startCustomerSession(): AuthSession {
+    return this.issueSession({
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      role: 'customer'
+    });
+  }
+
+  /**
+   * The principal every request acts as while authentication is disabled
+   */
+  getDisabledPrincipal(): Principal {
+    return DISABLED_PRINCIPAL;
+  }
+
+  private sign(value: string): string {
+    return crypto.createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+}
+
+let sharedAuth: AuthService | null = null;
+
+/**
+ * The auth service shared by all routers, configured from JWT_SECRET, API_KEYS,
+ * SESSION_TTL_HOURS and AUTH_ENABLED
+ */
+export function getAuthService(): AuthService {
+  if (!sharedAuth) {
+    const ttlHours = parseFloat(process.env.SESSION_TTL_HOURS || '');
+    sharedAuth = new AuthService({
+      secret: process.env.JWT_SECRET || undefined,
+      apiKeys: parseApiKeys(process.env.API_KEYS),
+      sessionTtl: ttlHours > 0 ? Math.round(ttlHours * 60 * 60) : undefined,
+      enabled: process.env.AUTH_ENABLED !== 'false'
+    });
+  }
+  return sharedAuth;
+}
+
+/**
+ * Replace the shared auth service, or reset it with null
+ */
+export function setAuthService(auth: AuthService | null): void {
+  sharedAuth = auth;
+}
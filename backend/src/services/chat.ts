@@ -1,59 +1,133 @@
-import type { ChatRequest, ChatResponse, ChatMessage } from '../types/index.js';
+import type {
+  ChatRequest,
+  ChatResponse,
+  ChatMessage,
+  ChatStreamEvent,
+  Conversation,
+  ConversationPage,
+  ConversationPreview,
+  EscalationTicket
+} from '../types/index.js';
 import { KnowledgeBaseService } from './knowledgeBase.js';
 import { AIService } from './ai.js';
+import { EscalationService } from './escalation.js';
+import { FeedbackService } from './feedback.js';
+import {
+  createConversationRepository,
+  type ConversationRepository
+} from '../repositories/conversationRepository.js';
+import type { ConversationListOptions } from '../schemas/chat.js';
+import { getTaxonomyService } from './taxonomy.js';
+
+// Number of stored messages (user + assistant) included as conversation context
+const HISTORY_CONTEXT_MESSAGES = 6;
+
+// Characters kept of the first message as a conversation's title, and of the last one as its preview
+const TITLE_LENGTH = 60;
+const PREVIEW_LENGTH = 120;
+
+function shorten(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+}
+
+/**
+ * Raised when a conversation cannot move to the requested status
+ */
+export class ConversationStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationStateError';
+  }
+}
 
 export class ChatService {
   private knowledgeBaseService: KnowledgeBaseService;
   private aiService: AIService;
-  private conversations: Map<string, ChatMessage[]>;
+  private conversations: ConversationRepository;
+  private escalationService: EscalationService;
+  private feedbackService: FeedbackService;
 
   constructor(
     knowledgeBaseService?: KnowledgeBaseService,
-    aiService?: AIService
+    aiService?: AIService,
+    conversationRepository?: ConversationRepository,
+    escalationService?: EscalationService,
+    feedbackService?: FeedbackService
   ) {
     this.knowledgeBaseService = knowledgeBaseService || new KnowledgeBaseService();
     this.aiService = aiService || new AIService();
-    this.conversations = new Map();
+    this.conversations = conversationRepository || createConversationRepository();
+    this.escalationService = escalationService || new EscalationService(this.conversations);
+    this.feedbackService = feedbackService || new FeedbackService(this.conversations);
   }
 
   /**
-   * Process a user message and generate an appropriate response
+   * Process a user message and generate an appropriate response.
+   * When onEvent is given, pipeline stages are reported as they complete.
    */
-  async processMessage(request: ChatRequest): Promise<ChatResponse> {
+  async processMessage(
+    request: ChatRequest,
+    onEvent?: (event: ChatStreamEvent) => void
+  ): Promise<ChatResponse> {
     const startTime = Date.now();
     
     try {
       // Generate conversation ID if not provided
       const conversationId = request.conversation_id || this.generateConversationId();
+
+      // A human agent has taken over: record the message for them instead of answering
+      const activeTicket = await this.escalationService.getActiveTicketForConversation(conversationId);
+      if (activeTicket?.status === 'claimed') {
+        return this.deferToAgent(request, conversationId, activeTicket, startTime, onEvent);
+      }
+
+      // Writing again after the conversation ended reopens it
+      const conversation = await this.conversations.getConversation(conversationId);
+      const reopening = conversation?.status === 'resolved' || conversation?.status === 'closed';
+
+      // Use the stored history rather than client-supplied previous_messages
+      const conversationHistory = await this.getConversationHistory(conversationId);
+      const history = conversationHistory.slice(-HISTORY_CONTEXT_MESSAGES);
+
+      // Rewrite follow-up questions into standalone queries
+      const standaloneQuery = await this.aiService.rewriteQuery(request.message, history);
       
       // Step 1: Classify the query
-      const classification = await this.aiService.classifyQuery(request.message);
+      const classification = await this.aiService.classifyQuery(standaloneQuery);
+      onEvent?.({ type: 'classified', data: classification });
       
-      // Step 2: Search knowledge base (using SDK if available)
+      // Step 2: Search knowledge base
       const searchFilters = {
         category: classification.category !== 'general' ? classification.category : undefined,
         limit: 5,
         relevance_threshold: 0.7
       };
       
-      const knowledgeBaseResults = await this.knowledgeBaseService.searchKnowledgeBaseWithSDK(
-        request.message,
+      const knowledgeBaseResults = await this.knowledgeBaseService.searchKnowledgeBase(
+        standaloneQuery,
         searchFilters
       );
+      onEvent?.({ type: 'sources', data: knowledgeBaseResults });
       
       // Step 3: Generate response using AI
       const generationResult = await this.aiService.generateResponse(
         request.message,
         knowledgeBaseResults,
-        classification
+        classification,
+        history
       );
+      if (onEvent) this.emitTokens(generationResult.response, onEvent);
       
       // Step 4: Determine if escalation is needed
-      const requiresEscalation = await this.aiService.shouldEscalate(
-        request.message,
+      const escalation = await this.aiService.evaluateEscalation({
+        query: request.message,
         classification,
-        generationResult
-      );
+        generation: generationResult,
+        sources: knowledgeBaseResults,
+        history: conversationHistory
+      });
+      const requiresEscalation = escalation.requires_escalation;
       
       // Step 5: Get suggested actions
       const suggestedActions = this.aiService.getSuggestedActions(
@@ -64,6 +138,7 @@ export class ChatService {
       
       // Step 6: Build response
       const processingTime = Date.now() - startTime;
+      const assistantMessageId = `msg_${Date.now()}_assistant`;
       const response: ChatResponse = {
         message: generationResult.response,
         confidence: generationResult.confidence,
@@ -71,6 +146,8 @@ export class ChatService {
         suggested_actions: suggestedActions,
         requires_escalation: requiresEscalation,
         conversation_id: conversationId,
+        message_id: assistantMessageId,
+        escalation,
         metadata: {
           processing_time: processingTime,
           category: classification.category,
@@ -78,7 +155,14 @@ export class ChatService {
         }
       };
       
-      // Step 7: Save messages to conversation history
+      // Step 7: Save conversation metadata and messages to conversation history
+      await this.conversations.upsertConversation(conversationId, {
+        user_id: request.user_id,
+        status: requiresEscalation ? 'escalated' : reopening ? 'active' : undefined,
+        // A new conversation is named after its first question
+        title: conversation ? undefined : shorten(request.message, TITLE_LENGTH)
+      });
+
       await this.saveMessage(conversationId, {
         id: `msg_${Date.now()}_user`,
         content: request.message,
@@ -87,17 +171,31 @@ export class ChatService {
       });
       
       await this.saveMessage(conversationId, {
-        id: `msg_${Date.now()}_assistant`,
+        id: assistantMessageId,
         content: response.message,
         role: 'assistant',
         timestamp: new Date(),
         metadata: {
           confidence: response.confidence,
           sources: response.sources.map(s => s.title),
+          source_ids: response.sources.map(s => s.id),
           category: classification.category,
-          priority: this.determinePriority(classification, response.requires_escalation) as 'low' | 'medium' | 'high'
+          priority: this.determinePriority(classification, response.requires_escalation) as 'low' | 'medium' | 'high',
+          processing_time: processingTime
         }
       });
+
+      // Step 8: Queue escalated conversations for human support
+      if (requiresEscalation) {
+        const ticket = await this.escalationService.createTicket({
+          conversation_id: conversationId,
+          user_id: request.user_id,
+          priority: response.metadata.priority || 'high',
+          category: classification.category,
+          reason: request.message
+        });
+        response.escalation_ticket_id = ticket.id;
+      }
       
       return response;
     } catch (error) {
@@ -111,7 +209,7 @@ export class ChatService {
    */
   async getConversationHistory(conversationId: string): Promise<ChatMessage[]> {
     try {
-      return this.conversations.get(conversationId) || [];
+      return await this.conversations.getMessages(conversationId);
     } catch (error) {
       console.error('Failed to get conversation history:', error);
       return [];
@@ -123,13 +221,7 @@ export class ChatService {
    */
   async saveMessage(conversationId: string, message: ChatMessage): Promise<boolean> {
     try {
-      const messages = this.conversations.get(conversationId) || [];
-      messages.push(message);
-      this.conversations.set(conversationId, messages);
-      
-      // In a real implementation, you would save to a persistent database
-      // For now, we're using in-memory storage
-      
+      await this.conversations.addMessage(conversationId, message);
       return true;
     } catch (error) {
       console.error('Failed to save message:', error);
@@ -138,30 +230,72 @@ export class ChatService {
   }
 
   /**
-   * Get active conversations for a user
+   * Get a page of the conversations a user started, most recently active first by default
    */
-  async getUserConversations(userId: string): Promise<string[]> {
-    try {
-      // In a real implementation, you would query a database
-      // For now, return conversation IDs that contain the user's messages
-      const userConversations: string[] = [];
-      
-      for (const [conversationId, messages] of this.conversations.entries()) {
-        // Check if any message in this conversation is from this user
-        const hasUserMessage = messages.some(msg => 
-          msg.role === 'user' // In a real app, you'd check user_id
-        );
-        
-        if (hasUserMessage) {
-          userConversations.push(conversationId);
-        }
+  async getUserConversations(userId: string, options: ConversationListOptions = {}): Promise<ConversationPage> {
+    const { limit = 20, offset = 0, sort, order } = options;
+
+    const [conversations, total] = await Promise.all([
+      this.conversations.listConversations({ user_id: userId, sort, order, limit, offset }),
+      this.conversations.countConversations({ user_id: userId })
+    ]);
+
+    return {
+      user_id: userId,
+      conversations: await Promise.all(conversations.map(conversation => this.previewConversation(conversation))),
+      total,
+      limit,
+      offset
+    };
+  }
+
+  private async previewConversation(conversation: Conversation): Promise<ConversationPreview> {
+    const messages = await this.conversations.getMessages(conversation.id);
+    const firstQuestion = messages.find(message => message.role === 'user');
+    const lastMessage = messages[messages.length - 1];
+
+    return {
+      ...conversation,
+      // Conversations stored before titles were recorded are named on the fly
+      title: conversation.title || (firstQuestion ? shorten(firstQuestion.content, TITLE_LENGTH) : 'New conversation'),
+      message_count: messages.length,
+      last_message: lastMessage && {
+        role: lastMessage.role,
+        content: shorten(lastMessage.content, PREVIEW_LENGTH),
+        timestamp: lastMessage.timestamp
       }
-      
-      return userConversations;
-    } catch (error) {
-      console.error('Failed to get user conversations:', error);
-      return [];
-    }
+    };
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    return this.conversations.getConversation(conversationId);
+  }
+
+  /**
+   * End a conversation because the customer's issue is solved, closing any open ticket.
+   * Returns null when the conversation does not exist.
+   */
+  async resolveConversation(conversationId: string): Promise<Conversation | null> {
+    return this.endConversation(conversationId, 'resolved', 'Resolved by the customer');
+  }
+
+  /**
+   * End a conversation without the issue being confirmed as solved, closing any open ticket.
+   * Returns null when the conversation does not exist.
+   */
+  async closeConversation(conversationId: string): Promise<Conversation | null> {
+    return this.endConversation(conversationId, 'closed', 'Closed by the customer');
+  }
+
+  /**
+   * Give a conversation the title its customer chose.
+   * Returns null when the conversation does not exist.
+   */
+  async renameConversation(conversationId: string, title: string): Promise<Conversation | null> {
+    const conversation = await this.conversations.getConversation(conversationId);
+    if (!conversation) return null;
+
+    return this.conversations.upsertConversation(conversationId, { title });
   }
 
   /**
@@ -169,14 +303,81 @@ export class ChatService {
    */
   async clearConversation(conversationId: string): Promise<boolean> {
     try {
-      this.conversations.delete(conversationId);
-      return true;
+      return await this.conversations.deleteConversation(conversationId);
     } catch (error) {
       console.error('Failed to clear conversation:', error);
       return false;
     }
   }
 
+  private async endConversation(
+    conversationId: string,
+    status: 'resolved' | 'closed',
+    note: string
+  ): Promise<Conversation | null> {
+    const conversation = await this.conversations.getConversation(conversationId);
+    if (!conversation) return null;
+
+    if (conversation.status === 'resolved' || conversation.status === 'closed') {
+      throw new ConversationStateError(`Conversation "${conversationId}" is already ${conversation.status}`);
+    }
+
+    const ticket = await this.escalationService.getActiveTicketForConversation(conversationId);
+    if (ticket) {
+      await this.escalationService.resolveTicket(ticket.id, undefined, note);
+    }
+
+    return this.conversations.upsertConversation(conversationId, { status });
+  }
+
+  /**
+   * Store a customer message for the human agent handling the conversation.
+   * The assistant does not answer; the reply only acknowledges the handoff.
+   */
+  private async deferToAgent(
+    request: ChatRequest,
+    conversationId: string,
+    ticket: EscalationTicket,
+    startTime: number,
+    onEvent?: (event: ChatStreamEvent) => void
+  ): Promise<ChatResponse> {
+    await this.conversations.upsertConversation(conversationId, { user_id: request.user_id });
+    await this.saveMessage(conversationId, {
+      id: `msg_${Date.now()}_user`,
+      content: request.message,
+      role: 'user',
+      timestamp: new Date()
+    });
+
+    const message = 'Your message has been passed to the support agent handling this conversation.';
+    if (onEvent) this.emitTokens(message, onEvent);
+
+    return {
+      message,
+      confidence: 1,
+      sources: [],
+      suggested_actions: [],
+      requires_escalation: true,
+      escalation_ticket_id: ticket.id,
+      conversation_id: conversationId,
+      metadata: {
+        processing_time: Date.now() - startTime,
+        category: ticket.category,
+        priority: ticket.priority
+      }
+    };
+  }
+
+  /**
+   * Replay a finished reply word by word. The backends' models answer in one
+   * piece, so these events arrive together once generation is done, not as it runs.
+   */
+  private emitTokens(text: string, onEvent: (event: ChatStreamEvent) => void): void {
+    for (const token of text.match(/\S+\s*/g) || []) {
+      onEvent({ type: 'token', data: { text: token } });
+    }
+  }
+
   /**
    * Generate a unique conversation ID
    */
@@ -194,41 +395,28 @@ export class ChatService {
     requiresEscalation: boolean
   ): string {
     if (requiresEscalation) return 'high';
-    
-    const highPriorityCategories = ['billing', 'refund', 'complaint'];
-    if (highPriorityCategories.includes(classification.category)) return 'high';
-    
-    const mediumPriorityCategories = ['technical', 'shipping', 'returns'];
-    if (mediumPriorityCategories.includes(classification.category)) return 'medium';
-    
-    return 'low';
+
+    return getTaxonomyService().getCategory(classification.category)?.default_priority || 'low';
   }
 
   /**
-   * Get conversation statistics
+   * Get conversation statistics, including how customers rated the answers
    */
   async getStats(): Promise<{
     total_conversations: number;
     total_messages: number;
     average_messages_per_conversation: number;
     escalation_rate: number;
+    rated_answers: number;
+    helpful_rate: number;
   }> {
     try {
-      const totalConversations = this.conversations.size;
-      let totalMessages = 0;
-      let escalatedConversations = 0;
-      
-      for (const messages of this.conversations.values()) {
-        totalMessages += messages.length;
-        
-        // Check if any assistant message in this conversation suggested escalation
-        const hasEscalation = messages.some(msg => 
-          msg.role === 'assistant' && 
-          msg.metadata?.category === 'escalation'
-        );
-        
-        if (hasEscalation) escalatedConversations++;
-      }
+      const {
+        total_conversations: totalConversations,
+        total_messages: totalMessages,
+        escalated_conversations: escalatedConversations
+      } = await this.conversations.getStats();
+      const feedback = await this.feedbackService.getStats();
       
       return {
         total_conversations: totalConversations,
@@ -238,7 +426,9 @@ export class ChatService {
           : 0,
         escalation_rate: totalConversations > 0 
           ? Math.round((escalatedConversations / totalConversations) * 100) / 100 
-          : 0
+          : 0,
+        rated_answers: feedback.total,
+        helpful_rate: feedback.helpful_rate
       };
     } catch (error) {
       console.error('Failed to get chat stats:', error);
@@ -246,7 +436,9 @@ export class ChatService {
         total_conversations: 0,
         total_messages: 0,
         average_messages_per_conversation: 0,
-        escalation_rate: 0
+        escalation_rate: 0,
+        rated_answers: 0,
+        helpful_rate: 0
       };
     }
   }
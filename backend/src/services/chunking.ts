@@ -0,0 +1,215 @@
+import type { KnowledgeBaseChunk } from '../types/index.js';
+
+export interface ChunkingOptions {
+  /** Maximum characters of new text per chunk; the overlap is added on top */
+  chunkSize?: number;
+  /** Characters repeated from the end of the previous chunk of the same section */
+  chunkOverlap?: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  content: string;
+  /** Heading trail of the section the chunk starts in, e.g. "Setup > Install" */
+  heading?: string;
+  /** Length of the prefix copied from the previous chunk */
+  overlap: number;
+  /** Whitespace between the previous chunk and this one in the article */
+  separator: string;
+}
+
+// A range of the article, [start, end)
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Section extends Span {
+  heading?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 150;
+
+/**
+ * Chunk size and overlap from KB_CHUNK_SIZE / KB_CHUNK_OVERLAP, with explicit options taking precedence
+ */
+export function resolveChunkingOptions(options: ChunkingOptions = {}): Required<ChunkingOptions> {
+  const chunkSize = options.chunkSize ?? (parseInt(process.env.KB_CHUNK_SIZE || '') || DEFAULT_CHUNK_SIZE);
+  const chunkOverlap = options.chunkOverlap ?? (parseInt(process.env.KB_CHUNK_OVERLAP || '') || DEFAULT_CHUNK_OVERLAP);
+
+  if (chunkSize < 1) {
+    throw new Error('Chunk size must be at least 1');
+  }
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error('Chunk overlap must be between 0 and the chunk size');
+  }
+
+  return { chunkSize, chunkOverlap };
+}
+
+/**
+ * Narrow a span to exclude surrounding whitespace
+ */
+function trimSpan(text: string, { start, end }: Span): Span {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/**
+ * Split Markdown into sections at headings, ignoring "#" lines inside fenced code blocks
+ */
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const trail: string[] = [];
+  let heading: string | undefined;
+  let sectionStart = 0;
+  let inFence = false;
+
+  const flush = (end: number) => {
+    const span = trimSpan(markdown, { start: sectionStart, end });
+    if (span.end > span.start) sections.push({ heading, ...span });
+  };
+
+  let lineStart = 0;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush(lineStart);
+      sectionStart = lineStart;
+      trail.length = match[1].length - 1;
+      trail[match[1].length - 1] = match[2];
+      heading = trail.filter(Boolean).join(' > ');
+    }
+    lineStart += line.length + 1;
+  }
+  flush(markdown.length);
+
+  return sections;
+}
+
+/**
+ * Break a span of text into spans no longer than size: by paragraph, then by sentence, then by word
+ */
+function splitText(text: string, span: Span, size: number): Span[] {
+  if (span.end - span.start <= size) return [span];
+
+  const slice = text.slice(span.start, span.end);
+  const separators = [/\n{2,}/g, /(?<=[.!?])\s+/g, /\s+/g];
+  for (const separator of separators) {
+    const parts: Span[] = [];
+    let from = 0;
+    for (const match of slice.matchAll(separator)) {
+      parts.push(trimSpan(text, { start: span.start + from, end: span.start + match.index }));
+      from = match.index + match[0].length;
+    }
+    parts.push(trimSpan(text, { start: span.start + from, end: span.end }));
+
+    const pieces = parts.filter(part => part.end > part.start);
+    if (pieces.length > 1) {
+      return pieces.flatMap(piece => splitText(text, piece, size));
+    }
+  }
+
+  // A single word longer than the chunk size
+  const pieces: Span[] = [];
+  for (let start = span.start; start < span.end; start += size) {
+    pieces.push({ start, end: Math.min(start + size, span.end) });
+  }
+  return pieces;
+}
+
+/**
+ * The last overlap characters of text, starting at a word boundary where possible
+ */
+function tail(text: string, overlap: number): string {
+  if (overlap === 0) return '';
+  if (text.length <= overlap) return text;
+
+  const slice = text.slice(-overlap);
+  const boundary = slice.search(/\s\S/);
+  return boundary >= 0 ? slice.slice(boundary + 1) : slice;
+}
+
+/**
+ * Split a Markdown article into chunks. Chunks start at a heading where
+ * possible and are labelled with the section they start in; short
+ * neighbouring sections are packed together up to the chunk size. A chunk
+ * that continues the previous chunk's section starts with the tail of that
+ * chunk for context. Chunks are cut from the article as written, and each
+ * records the whitespace before it, so joinChunks() restores the article.
+ */
+export function chunkMarkdown(content: string, options: ChunkingOptions = {}): DocumentChunk[] {
+  const { chunkSize, chunkOverlap } = resolveChunkingOptions(options);
+
+  const pieces = splitSections(content).flatMap(section =>
+    splitText(content, section, chunkSize).map(span => ({ ...span, heading: section.heading, sectionStart: false }))
+  );
+  pieces.forEach((piece, index) => {
+    piece.sectionStart = index === 0 || pieces[index - 1].heading !== piece.heading;
+  });
+
+  // A heading line is kept together with the text that follows it
+  const isHeadingOnly = (span: Span) => /^#{1,6}\s[^\n]*$/.test(content.slice(span.start, span.end));
+  const keptTogetherEnd = (start: number) => {
+    let i = start;
+    while (i + 1 < pieces.length && isHeadingOnly(pieces[i])) i++;
+    return pieces[i].end;
+  };
+
+  const groups: Array<Span & { heading?: string; continuesSection: boolean }> = [];
+  pieces.forEach((piece, index) => {
+    const current = groups[groups.length - 1];
+    if (current && keptTogetherEnd(index) - current.start <= chunkSize) {
+      current.end = piece.end;
+    } else {
+      groups.push({
+        start: piece.start,
+        end: piece.end,
+        heading: piece.heading,
+        continuesSection: !piece.sectionStart
+      });
+    }
+  });
+
+  return groups.map((group, index) => {
+    const previous = groups[index - 1];
+    const text = content.slice(group.start, group.end);
+    const prefix = previous && group.continuesSection
+      ? `${tail(content.slice(previous.start, previous.end), chunkOverlap)}\n`
+      : '';
+    // The article's leading and trailing whitespace belong to its first and last chunks
+    const separator = previous ? content.slice(previous.end, group.start) : '';
+    const leading = previous ? '' : content.slice(0, group.start);
+    const trailing = index === groups.length - 1 ? content.slice(group.end) : '';
+
+    return {
+      index,
+      content: prefix.trim() ? `${prefix}${leading}${text}${trailing}` : `${leading}${text}${trailing}`,
+      heading: group.heading,
+      overlap: prefix.trim() ? prefix.length : 0,
+      separator
+    };
+  });
+}
+
+/**
+ * Join chunks of one article in order, dropping the overlap between consecutive
+ * chunks and restoring the whitespace between them. Chunks that were not
+ * consecutive in the article are set apart as paragraphs.
+ */
+export function joinChunks(chunks: KnowledgeBaseChunk[]): string {
+  return [...chunks]
+    .sort((a, b) => a.chunk_index - b.chunk_index)
+    .map((chunk, index, sorted) => {
+      const previous = sorted[index - 1];
+      if (!previous) return chunk.content;
+      return previous.chunk_index === chunk.chunk_index - 1
+        ? `${chunk.separator ?? '\n\n'}${chunk.content.slice(chunk.overlap || 0)}`
+        : `\n\n${chunk.content}`;
+    })
+    .join('');
+}
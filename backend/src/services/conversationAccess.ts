@@ -0,0 +1,20 @@
+import type { Conversation } from '../types/index.js';
+
+/**
+ * Raised when a customer acts on a conversation that belongs to someone else
+ */
+export class ConversationAccessError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation "${conversationId}" belongs to another user`);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+/**
+ * Throw unless the customer started the conversation. Without a customer (staff, integrations) any conversation is allowed.
+ */
+export function assertConversationOwner(conversation: Pick<Conversation, 'id' | 'user_id'>, customerId?: string): void {
+  if (customerId !== undefined && conversation.user_id !== customerId) {
+    throw new ConversationAccessError(conversation.id);
+  }
+}
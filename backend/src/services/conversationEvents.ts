@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+import type {
+  ConversationQuery,
+  ConversationRepository,
+  ConversationStoreStats,
+  ConversationUpdate
+} from '../repositories/conversationRepository.js';
+import type { ChatMessage, Conversation, ConversationStatus } from '../types/index.js';
+
+export interface ConversationEventMap {
+  message: [conversationId: string, message: ChatMessage];
+  status: [conversationId: string, status: ConversationStatus];
+}
+
+/**
+ * Changes to stored conversations, for pushing them to connected clients
+ */
+export class ConversationEvents extends EventEmitter<ConversationEventMap> {}
+
+/**
+ * A conversation repository that announces stored messages and status changes,
+ * whichever service made them
+ */
+export class ObservedConversationRepository implements ConversationRepository {
+  constructor(
+    private repository: ConversationRepository,
+    readonly events: ConversationEvents = new ConversationEvents()
+  ) {}
+
+  getConversation(conversationId: string): Promise<Conversation | null> {
+    return this.repository.getConversation(conversationId);
+  }
+
+  listConversations(query?: ConversationQuery): Promise<Conversation[]> {
+    return this.repository.listConversations(query);
+  }
+
+  countConversations(query?: Pick<ConversationQuery, 'user_id'>): Promise<number> {
+    return this.repository.countConversations(query);
+  }
+
+  async upsertConversation(conversationId: string, updates?: ConversationUpdate): Promise<Conversation> {
+    const previous = updates?.status ? await this.repository.getConversation(conversationId) : null;
+    const conversation = await this.repository.upsertConversation(conversationId, updates);
+
+    if (updates?.status && previous?.status !== conversation.status) {
+      this.events.emit('status', conversationId, conversation.status);
+    }
+    return conversation;
+  }
+
+  getMessages(conversationId: string): Promise<ChatMessage[]> {
+    return this.repository.getMessages(conversationId);
+  }
+
+  async addMessage(conversationId: string, message: ChatMessage): Promise<void> {
+    await this.repository.addMessage(conversationId, message);
+    this.events.emit('message', conversationId, message);
+  }
+
+  deleteConversation(conversationId: string): Promise<boolean> {
+    return this.repository.deleteConversation(conversationId);
+  }
+
+  getStats(): Promise<ConversationStoreStats> {
+    return this.repository.getStats();
+  }
+}
@@ -0,0 +1,118 @@
+import type { CsatResponse, CsatStats, CsatSummary } from '../types/index.js';
+import type { ConversationRepository } from '../repositories/conversationRepository.js';
+import { createCsatRepository, type CsatFilters, type CsatRepository } from '../repositories/csatRepository.js';
+import { EscalationService } from './escalation.js';
+import { assertConversationOwner } from './conversationAccess.js';
+
+export interface SubmitCsatRequest {
+  conversation_id: string;
+  user_id?: string;
+  rating: number;
+  comment?: string;
+}
+
+/**
+ * Raised when a survey is answered for a conversation that has not ended
+ */
+export class CsatStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsatStateError';
+  }
+}
+
+export class CsatService {
+  private conversations: ConversationRepository;
+  private escalationService: EscalationService;
+  private responses: CsatRepository;
+
+  constructor(
+    conversationRepository: ConversationRepository,
+    escalationService?: EscalationService,
+    csatRepository?: CsatRepository
+  ) {
+    this.conversations = conversationRepository;
+    this.escalationService = escalationService || new EscalationService(conversationRepository);
+    this.responses = csatRepository || createCsatRepository();
+  }
+
+  /**
+   * Record the survey for a resolved or closed conversation, replacing any earlier answer.
+   * Returns null when the conversation does not exist. With a customer id, only that customer's conversations may be rated.
+   */
+  async submitResponse(request: SubmitCsatRequest, customerId?: string): Promise<CsatResponse | null> {
+    const conversation = await this.conversations.getConversation(request.conversation_id);
+    if (!conversation) return null;
+    assertConversationOwner(conversation, customerId);
+
+    if (conversation.status !== 'resolved' && conversation.status !== 'closed') {
+      throw new CsatStateError(`Conversation "${request.conversation_id}" has not ended`);
+    }
+
+    const messages = await this.conversations.getMessages(request.conversation_id);
+    const tickets = await this.escalationService.listTickets({ conversation_id: request.conversation_id });
+    const lastCategorised = [...messages].reverse().find(msg => msg.metadata?.category);
+
+    const existing = await this.responses.getResponse(request.conversation_id);
+    const now = new Date();
+    const response: CsatResponse = {
+      id: existing?.id || `csat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversation_id: request.conversation_id,
+      user_id: request.user_id ?? conversation.user_id,
+      rating: request.rating,
+      comment: request.comment,
+      category: lastCategorised?.metadata?.category || tickets[0]?.category || 'general',
+      escalated: tickets.length > 0,
+      created_at: existing?.created_at || now,
+      updated_at: now
+    };
+
+    await this.responses.saveResponse(response);
+    return response;
+  }
+
+  /**
+   * List survey responses, newest first
+   */
+  async listResponses(filters: CsatFilters = {}): Promise<CsatResponse[]> {
+    return this.responses.listResponses(filters);
+  }
+
+  /**
+   * Average ratings overall, per category and for escalated versus assistant-only conversations
+   */
+  async getStats(): Promise<CsatStats> {
+    const responses = await this.responses.listResponses();
+
+    const byCategory: Record<string, CsatResponse[]> = {};
+    for (const response of responses) {
+      (byCategory[response.category] ||= []).push(response);
+    }
+
+    return {
+      ...this.summarise(responses),
+      by_category: Object.fromEntries(
+        Object.entries(byCategory).map(([category, group]) => [category, this.summarise(group)])
+      ),
+      by_escalation: {
+        escalated: this.summarise(responses.filter(response => response.escalated)),
+        not_escalated: this.summarise(responses.filter(response => !response.escalated))
+      }
+    };
+  }
+
+  private summarise(responses: CsatResponse[]): CsatSummary {
+    if (responses.length === 0) {
+      return { responses: 0, average_rating: 0, satisfaction_rate: 0 };
+    }
+
+    const total = responses.reduce((sum, response) => sum + response.rating, 0);
+    const satisfied = responses.filter(response => response.rating >= 4).length;
+
+    return {
+      responses: responses.length,
+      average_rating: Math.round((total / responses.length) * 100) / 100,
+      satisfaction_rate: Math.round((satisfied / responses.length) * 100) / 100
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import type {
+  ChatMessage,
+  ConversationStatus,
+  ConversationSummary,
+  ConversationTranscript,
+  EscalationTicket
+} from '../types/index.js';
+import type { ConversationRepository } from '../repositories/conversationRepository.js';
+import {
+  createEscalationRepository,
+  type EscalationRepository,
+  type EscalationTicketFilters
+} from '../repositories/escalationRepository.js';
+
+export interface CreateTicketRequest {
+  conversation_id: string;
+  user_id?: string;
+  priority: EscalationTicket['priority'];
+  category: string;
+  reason: string;
+}
+
+/**
+ * Raised when a ticket action is not allowed in the ticket's current state
+ */
+export class EscalationStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationStateError';
+  }
+}
+
+export class EscalationService {
+  private conversations: ConversationRepository;
+  private tickets: EscalationRepository;
+
+  constructor(
+    conversationRepository: ConversationRepository,
+    escalationRepository?: EscalationRepository
+  ) {
+    this.conversations = conversationRepository;
+    this.tickets = escalationRepository || createEscalationRepository();
+  }
+
+  /**
+   * Queue a conversation for human support.
+   * A conversation has at most one unresolved ticket; repeated escalations reuse it.
+   */
+  async createTicket(request: CreateTicketRequest): Promise<EscalationTicket> {
+    const existing = await this.tickets.getActiveTicketForConversation(request.conversation_id);
+
+    if (existing) {
+      // Raise the priority if the conversation has become more urgent
+      if (this.priorityRank(request.priority) > this.priorityRank(existing.priority)) {
+        existing.priority = request.priority;
+        existing.updated_at = new Date();
+        await this.tickets.saveTicket(existing);
+      }
+      return existing;
+    }
+
+    const now = new Date();
+    const ticket: EscalationTicket = {
+      id: `esc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversation_id: request.conversation_id,
+      user_id: request.user_id,
+      status: 'open',
+      priority: request.priority,
+      category: request.category,
+      reason: request.reason,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.tickets.saveTicket(ticket);
+    await this.conversations.upsertConversation(request.conversation_id, { status: 'escalated' });
+    return ticket;
+  }
+
+  /**
+   * List tickets in queue order (highest priority, then oldest first)
+   */
+  async listTickets(filters: EscalationTicketFilters = {}): Promise<EscalationTicket[]> {
+    return this.tickets.listTickets(filters);
+  }
+
+  async getTicket(ticketId: string): Promise<EscalationTicket | null> {
+    return this.tickets.getTicket(ticketId);
+  }
+
+  /**
+   * Get the unresolved ticket for a conversation, if any
+   */
+  async getActiveTicketForConversation(conversationId: string): Promise<EscalationTicket | null> {
+    return this.tickets.getActiveTicketForConversation(conversationId);
+  }
+
+  /**
+   * List conversations for the agent console: queued tickets first, then most recently active
+   */
+  async listConversations(status?: ConversationStatus): Promise<ConversationSummary[]> {
+    const conversations = (await this.conversations.listConversations())
+      .filter(conversation => !status || conversation.status === status);
+    const activeTickets = (await this.tickets.listTickets())
+      .filter(ticket => ticket.status !== 'resolved');
+
+    const summaries = await Promise.all(conversations.map(async (conversation): Promise<ConversationSummary> => {
+      const messages = await this.conversations.getMessages(conversation.id);
+      return {
+        ...conversation,
+        ticket: activeTickets.find(ticket => ticket.conversation_id === conversation.id),
+        message_count: messages.length,
+        last_message: messages[messages.length - 1]
+      };
+    }));
+
+    // Sort is stable, so conversations without a ticket keep their recency order
+    const queueRank = (summary: ConversationSummary) =>
+      summary.ticket ? activeTickets.indexOf(summary.ticket) : activeTickets.length;
+    return summaries.sort((a, b) => queueRank(a) - queueRank(b));
+  }
+
+  /**
+   * Get the full transcript of a conversation with its unresolved ticket, if any
+   */
+  async getTranscript(conversationId: string): Promise<ConversationTranscript | null> {
+    const conversation = await this.conversations.getConversation(conversationId);
+    if (!conversation) return null;
+
+    const messages = await this.conversations.getMessages(conversationId);
+    const ticket = await this.tickets.getActiveTicketForConversation(conversationId);
+
+    return {
+      conversation,
+      messages,
+      ticket: ticket || undefined
+    };
+  }
+
+  /**
+   * Let a human agent take over a conversation the assistant is still handling.
+   * While the ticket is claimed the assistant no longer answers the customer.
+   */
+  async takeOverConversation(conversationId: string, agentId: string): Promise<EscalationTicket | null> {
+    const conversation = await this.conversations.getConversation(conversationId);
+    if (!conversation) return null;
+
+    const messages = await this.conversations.getMessages(conversationId);
+    const lastAssistantMessage = [...messages].reverse().find(msg => msg.role === 'assistant');
+    const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+
+    const ticket = await this.createTicket({
+      conversation_id: conversationId,
+      user_id: conversation.user_id,
+      priority: lastAssistantMessage?.metadata?.priority || 'medium',
+      category: lastAssistantMessage?.metadata?.category || 'general',
+      reason: lastUserMessage?.content || `Taken over by ${agentId}`
+    });
+
+    return this.claimTicket(ticket.id, agentId);
+  }
+
+  /**
+   * Assign a ticket to a human agent
+   */
+  async claimTicket(ticketId: string, agentId: string): Promise<EscalationTicket | null> {
+    const ticket = await this.tickets.getTicket(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.status === 'resolved') {
+      throw new EscalationStateError(`Ticket "${ticketId}" is already resolved`);
+    }
+    if (ticket.status === 'claimed' && ticket.assigned_agent !== agentId) {
+      throw new EscalationStateError(`Ticket "${ticketId}" is already claimed by ${ticket.assigned_agent}`);
+    }
+
+    ticket.status = 'claimed';
+    ticket.assigned_agent = agentId;
+    ticket.updated_at = new Date();
+
+    await this.tickets.saveTicket(ticket);
+    return ticket;
+  }
+
+  /**
+   * Deliver a human agent's reply into the customer's conversation
+   */
+  async replyToTicket(ticketId: string, agentId: string, content: string): Promise<ChatMessage | null> {
+    const ticket = await this.tickets.getTicket(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.status === 'resolved') {
+      throw new EscalationStateError(`Ticket "${ticketId}" is already resolved`);
+    }
+    if (ticket.status === 'claimed' && ticket.assigned_agent !== agentId) {
+      throw new EscalationStateError(`Ticket "${ticketId}" is claimed by ${ticket.assigned_agent}`);
+    }
+
+    // Replying to an open ticket implicitly claims it
+    if (ticket.status === 'open') {
+      ticket.status = 'claimed';
+      ticket.assigned_agent = agentId;
+    }
+    ticket.updated_at = new Date();
+    await this.tickets.saveTicket(ticket);
+
+    const message: ChatMessage = {
+      id: `msg_${Date.now()}_agent`,
+      content,
+      role: 'agent',
+      timestamp: new Date(),
+      metadata: {
+        agent_id: agentId,
+        category: ticket.category,
+        priority: ticket.priority
+      }
+    };
+
+    await this.conversations.addMessage(ticket.conversation_id, message);
+    return message;
+  }
+
+  /**
+   * Close a ticket and mark its conversation resolved
+   */
+  async resolveTicket(ticketId: string, agentId?: string, resolutionNote?: string): Promise<EscalationTicket | null> {
+    return this.closeTicket(ticketId, 'resolved', agentId, resolutionNote);
+  }
+
+  /**
+   * Close a ticket and let the assistant answer the conversation again
+   */
+  async handBackTicket(ticketId: string, agentId?: string): Promise<EscalationTicket | null> {
+    const ticket = await this.tickets.getTicket(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.status === 'claimed' && agentId && ticket.assigned_agent !== agentId) {
+      throw new EscalationStateError(`Ticket "${ticketId}" is claimed by ${ticket.assigned_agent}`);
+    }
+
+    return this.closeTicket(ticketId, 'active', agentId, 'Handed back to the assistant');
+  }
+
+  private async closeTicket(
+    ticketId: string,
+    conversationStatus: ConversationStatus,
+    agentId?: string,
+    resolutionNote?: string
+  ): Promise<EscalationTicket | null> {
+    const ticket = await this.tickets.getTicket(ticketId);
+    if (!ticket) return null;
+
+    if (ticket.status === 'resolved') {
+      throw new EscalationStateError(`Ticket "${ticketId}" is already resolved`);
+    }
+
+    const now = new Date();
+    ticket.status = 'resolved';
+    ticket.assigned_agent = ticket.assigned_agent || agentId;
+    ticket.resolution_note = resolutionNote;
+    ticket.resolved_at = now;
+    ticket.updated_at = now;
+
+    await this.tickets.saveTicket(ticket);
+    await this.conversations.upsertConversation(ticket.conversation_id, { status: conversationStatus });
+    return ticket;
+  }
+
+  private priorityRank(priority: EscalationTicket['priority']): number {
+    return { low: 0, medium: 1, high: 2 }[priority];
+  }
+}
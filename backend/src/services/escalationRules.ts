@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  ChatMessage,
+  EscalationEvaluation,
+  FiredEscalationRule,
+  KnowledgeBaseEntry,
+  QueryClassification,
+  ResponseGeneration
+} from '../types/index.js';
+import { escalationRulesFileSchema, type EscalationRule } from '../schemas/escalationRules.js';
+import { scoreSentiment } from './sentiment.js';
+import { getTaxonomyService } from './taxonomy.js';
+
+/**
+ * Everything a rule can look at for one message
+ */
+export interface EscalationContext {
+  query: string;
+  classification: QueryClassification;
+  generation: ResponseGeneration;
+  /** Knowledge base entries the answer was based on */
+  sources: KnowledgeBaseEntry[];
+  /** The conversation before this message */
+  history: ChatMessage[];
+}
+
+export interface EscalationRulesOptions {
+  /** Rules to start with instead of the file or the defaults */
+  rules?: EscalationRule[];
+  /** JSON file the rules are read from and saved to */
+  filePath?: string;
+}
+
+/**
+ * The rules used when no rules file exists
+ */
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  {
+    id: 'model_requested',
+    name: 'Model requested a human',
+    enabled: true,
+    conditions: { model_requested: true }
+  },
+  {
+    id: 'low_classification_confidence',
+    name: 'Unsure what the customer wants',
+    enabled: true,
+    conditions: { classification_confidence_below: 0.6 }
+  },
+  {
+    id: 'low_response_confidence',
+    name: 'Unsure of the answer',
+    enabled: true,
+    conditions: { response_confidence_below: 0.6 }
+  },
+  {
+    id: 'escalation_keywords',
+    name: 'Customer asked for a person or is upset',
+    enabled: true,
+    conditions: {
+      keywords: [
+        'speak to manager', 'human agent', 'representative', 'supervisor',
+        'complaint', 'frustrated', 'angry', 'disappointed', 'lawsuit', 'legal'
+      ]
+    }
+  }
+];
+
+export class EscalationRuleConflictError extends Error {
+  constructor(ruleId: string) {
+    super(`Escalation rule "${ruleId}" already exists`);
+    this.name = 'EscalationRuleConflictError';
+  }
+}
+
+export class EscalationRulesService {
+  private rules: EscalationRule[];
+  private filePath?: string;
+
+  constructor(options: EscalationRulesOptions = {}) {
+    this.filePath = options.filePath;
+    this.rules = options.rules || this.loadRules() || DEFAULT_ESCALATION_RULES;
+  }
+
+  async listRules(): Promise<EscalationRule[]> {
+    return this.rules.map(rule => structuredClone(rule));
+  }
+
+  async getRule(ruleId: string): Promise<EscalationRule | null> {
+    const rule = this.rules.find(rule => rule.id === ruleId);
+    return rule ? structuredClone(rule) : null;
+  }
+
+  async createRule(rule: EscalationRule): Promise<EscalationRule> {
+    if (this.rules.some(existing => existing.id === rule.id)) {
+      throw new EscalationRuleConflictError(rule.id);
+    }
+
+    this.rules = [...this.rules, rule];
+    await this.saveRules();
+    return structuredClone(rule);
+  }
+
+  /**
+   * Replace a rule, keeping its position in the list
+   */
+  async updateRule(ruleId: string, rule: Omit<EscalationRule, 'id'>): Promise<EscalationRule | null> {
+    if (!this.rules.some(existing => existing.id === ruleId)) return null;
+
+    const updated = { ...rule, id: ruleId };
+    this.rules = this.rules.map(existing => existing.id === ruleId ? updated : existing);
+    await this.saveRules();
+    return structuredClone(updated);
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    const remaining = this.rules.filter(rule => rule.id !== ruleId);
+    if (remaining.length === this.rules.length) return false;
+
+    this.rules = remaining;
+    await this.saveRules();
+    return true;
+  }
+
+  /**
+   * Check the category's escalation policy, then every enabled rule;
+   * escalation is needed when any of them fires
+   */
+  evaluate(context: EscalationContext): EscalationEvaluation {
+    const sentiment = scoreSentiment(context.query);
+    const fired_rules: FiredEscalationRule[] = [];
+
+    const category = getTaxonomyService().getCategory(context.classification.category);
+    if (category?.escalation_policy === 'always') {
+      fired_rules.push({
+        id: 'category_policy',
+        name: 'Category escalation policy',
+        reasons: [`${category.name} conversations always go to a person`]
+      });
+    }
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+
+      const reasons = this.matchConditions(rule, context, sentiment);
+      if (reasons) {
+        fired_rules.push({ id: rule.id, name: rule.name, reasons });
+      }
+    }
+
+    return { requires_escalation: fired_rules.length > 0, fired_rules, sentiment };
+  }
+
+  /**
+   * Reasons for each condition of the rule, or null as soon as one does not hold
+   */
+  private matchConditions(rule: EscalationRule, context: EscalationContext, sentiment: number): string[] | null {
+    const { query, classification, generation, sources, history } = context;
+    const conditions = rule.conditions;
+    const reasons: string[] = [];
+
+    if (conditions.categories) {
+      if (!conditions.categories.includes(classification.category)) return null;
+      reasons.push(`category is ${classification.category}`);
+    }
+
+    if (conditions.intents) {
+      if (!conditions.intents.includes(classification.intent)) return null;
+      reasons.push(`intent is ${classification.intent}`);
+    }
+
+    if (conditions.classification_confidence_below !== undefined) {
+      if (classification.confidence >= conditions.classification_confidence_below) return null;
+      reasons.push(`classification confidence ${classification.confidence} is below ${conditions.classification_confidence_below}`);
+    }
+
+    if (conditions.response_confidence_below !== undefined) {
+      if (generation.confidence >= conditions.response_confidence_below) return null;
+      reasons.push(`response confidence ${generation.confidence} is below ${conditions.response_confidence_below}`);
+    }
+
+    if (conditions.model_requested !== undefined) {
+      if (generation.requires_escalation !== conditions.model_requested) return null;
+      reasons.push(generation.requires_escalation ? 'model requested escalation' : 'model did not request escalation');
+    }
+
+    if (conditions.sentiment_below !== undefined) {
+      if (sentiment >= conditions.sentiment_below) return null;
+      reasons.push(`sentiment ${sentiment.toFixed(2)} is below ${conditions.sentiment_below}`);
+    }
+
+    if (conditions.keywords) {
+      const queryLower = query.toLowerCase();
+      const keyword = conditions.keywords.find(keyword => queryLower.includes(keyword.toLowerCase()));
+      if (!keyword) return null;
+      reasons.push(`message mentions "${keyword}"`);
+    }
+
+    if (conditions.min_conversation_length !== undefined) {
+      const length = history.filter(message => message.role === 'user').length + 1;
+      if (length < conditions.min_conversation_length) return null;
+      reasons.push(`${length} customer messages`);
+    }
+
+    if (conditions.min_repeated_failures !== undefined) {
+      const failures = this.countRepeatedFailures(sources, history);
+      if (failures < conditions.min_repeated_failures) return null;
+      reasons.push(`${failures} answers in a row without knowledge base sources`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Consecutive answers, ending with this one, that cited no knowledge base entry
+   */
+  private countRepeatedFailures(sources: KnowledgeBaseEntry[], history: ChatMessage[]): number {
+    if (sources.length > 0) return 0;
+
+    let failures = 1;
+    const answers = history.filter(message => message.role === 'assistant').reverse();
+    for (const answer of answers) {
+      if (answer.metadata?.sources && answer.metadata.sources.length > 0) break;
+      failures++;
+    }
+    return failures;
+  }
+
+  private loadRules(): EscalationRule[] | null {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return null;
+
+    const parsed = escalationRulesFileSchema.safeParse(JSON.parse(fs.readFileSync(this.filePath, 'utf8')));
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Invalid escalation rules in ${this.filePath}: ${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    console.log(`Loaded ${parsed.data.rules.length} escalation rule(s) from ${this.filePath}`);
+    return parsed.data.rules;
+  }
+
+  private async saveRules(): Promise<void> {
+    if (!this.filePath) return;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, JSON.stringify({ rules: this.rules }, null, 2) + '\n');
+  }
+}
+
+/**
+ * Rules from ESCALATION_RULES_PATH, or the defaults kept in memory when unset
+ */
+export function createEscalationRulesService(): EscalationRulesService {
+  return new EscalationRulesService({ filePath: process.env.ESCALATION_RULES_PATH || undefined });
+}
@@ -0,0 +1,132 @@
+import type {
+  ArticleHelpfulness,
+  FeedbackRating,
+  FeedbackReason,
+  FeedbackStats,
+  MessageFeedback
+} from '../types/index.js';
+import type { ConversationRepository } from '../repositories/conversationRepository.js';
+import {
+  createFeedbackRepository,
+  type FeedbackFilters,
+  type FeedbackRepository
+} from '../repositories/feedbackRepository.js';
+import { assertConversationOwner } from './conversationAccess.js';
+
+export interface SubmitFeedbackRequest {
+  conversation_id: string;
+  message_id: string;
+  user_id?: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+}
+
+/**
+ * Raised when feedback is left on a message that is not an assistant answer
+ */
+export class FeedbackTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedbackTargetError';
+  }
+}
+
+export class FeedbackService {
+  private conversations: ConversationRepository;
+  private feedback: FeedbackRepository;
+
+  constructor(
+    conversationRepository: ConversationRepository,
+    feedbackRepository?: FeedbackRepository
+  ) {
+    this.conversations = conversationRepository;
+    this.feedback = feedbackRepository || createFeedbackRepository();
+  }
+
+  /**
+   * Record the customer's verdict on an assistant answer, replacing any earlier one.
+   * Returns null when the conversation has no such message. With a customer id, only that customer's answers may be rated.
+   */
+  async submitFeedback(request: SubmitFeedbackRequest, customerId?: string): Promise<MessageFeedback | null> {
+    if (customerId !== undefined) {
+      const conversation = await this.conversations.getConversation(request.conversation_id);
+      if (!conversation) return null;
+      assertConversationOwner(conversation, customerId);
+    }
+
+    const messages = await this.conversations.getMessages(request.conversation_id);
+    const message = messages.find(msg => msg.id === request.message_id);
+    if (!message) return null;
+
+    if (message.role !== 'assistant') {
+      throw new FeedbackTargetError(`Message "${request.message_id}" is not an assistant answer`);
+    }
+
+    const existing = await this.feedback.getFeedback(request.conversation_id, request.message_id);
+    const now = new Date();
+    const feedback: MessageFeedback = {
+      id: existing?.id || `fb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversation_id: request.conversation_id,
+      message_id: request.message_id,
+      user_id: request.user_id,
+      rating: request.rating,
+      reason: request.reason,
+      comment: request.comment,
+      source_ids: message.metadata?.source_ids || [],
+      created_at: existing?.created_at || now,
+      updated_at: now
+    };
+
+    await this.feedback.saveFeedback(feedback);
+    return feedback;
+  }
+
+  /**
+   * List feedback, newest first
+   */
+  async listFeedback(filters: FeedbackFilters = {}): Promise<MessageFeedback[]> {
+    return this.feedback.listFeedback(filters);
+  }
+
+  async getStats(): Promise<FeedbackStats> {
+    const feedback = await this.feedback.listFeedback();
+    const helpful = feedback.filter(item => item.rating === 'helpful').length;
+
+    const byReason: FeedbackStats['by_reason'] = {};
+    for (const item of feedback) {
+      if (item.reason) byReason[item.reason] = (byReason[item.reason] || 0) + 1;
+    }
+
+    return {
+      total: feedback.length,
+      helpful,
+      not_helpful: feedback.length - helpful,
+      helpful_rate: this.rate(helpful, feedback.length),
+      by_reason: byReason
+    };
+  }
+
+  /**
+   * Ratings per knowledge base entry, least helpful first
+   */
+  async getArticleHelpfulness(): Promise<ArticleHelpfulness[]> {
+    const articles = new Map<string, ArticleHelpfulness>();
+
+    for (const item of await this.feedback.listFeedback()) {
+      for (const entryId of new Set(item.source_ids)) {
+        const article = articles.get(entryId) || { entry_id: entryId, helpful: 0, not_helpful: 0, score: 0 };
+        article[item.rating]++;
+        articles.set(entryId, article);
+      }
+    }
+
+    return Array.from(articles.values())
+      .map(article => ({ ...article, score: this.rate(article.helpful, article.helpful + article.not_helpful) }))
+      .sort((a, b) => a.score - b.score || b.not_helpful - a.not_helpful);
+  }
+
+  private rate(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 100) / 100 : 0;
+  }
+}
@@ -0,0 +1,121 @@
+import type { KnowledgeBaseEntry } from '../types/index.js';
+import { KnowledgeBaseService } from './knowledgeBase.js';
+
+export type ExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+export interface ExportFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * An export in one of the formats the importer reads back. JSONL and CSV
+ * exports hold a single file; Markdown exports hold one file per entry.
+ */
+export interface ExportBundle {
+  format: ExportFormat;
+  exported_at: string;
+  source: string;
+  count: number;
+  files: ExportFile[];
+}
+
+export interface ExportOptions {
+  /** Export from this MindsDB knowledge base instead of the support_knowledge_base table */
+  kbName?: string;
+}
+
+const CSV_COLUMNS = ['id', 'title', 'content', 'category', 'priority', 'product_type', 'tags', 'last_updated'] as const;
+
+function toRecord(entry: KnowledgeBaseEntry) {
+  return {
+    id: entry.id,
+    title: entry.title,
+    content: entry.content,
+    category: entry.category,
+    priority: entry.priority,
+    product_type: entry.product_type || '',
+    tags: entry.tags,
+    last_updated: new Date(entry.last_updated).toISOString()
+  };
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One JSON object per line
+ */
+export function toJsonl(entries: KnowledgeBaseEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(toRecord(entry))}\n`).join('');
+}
+
+/**
+ * CSV with a header row; tags are joined with ";"
+ */
+export function toCsv(entries: KnowledgeBaseEntry[]): string {
+  const rows = entries.map(entry => {
+    const record = toRecord(entry);
+    return CSV_COLUMNS.map(column =>
+      escapeCsvField(column === 'tags' ? record.tags.join(';') : record[column])
+    ).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].map(row => `${row}\r\n`).join('');
+}
+
+/**
+ * One Markdown file per entry, grouped in a folder per category, with metadata in front-matter
+ */
+export function toMarkdownFiles(entries: KnowledgeBaseEntry[]): ExportFile[] {
+  return entries.map(entry => {
+    const record = toRecord(entry);
+    const frontMatter = [
+      '---',
+      `id: ${JSON.stringify(record.id)}`,
+      `title: ${JSON.stringify(record.title)}`,
+      `category: ${record.category}`,
+      `priority: ${record.priority}`,
+      ...(record.product_type ? [`product_type: ${JSON.stringify(record.product_type)}`] : []),
+      'tags:',
+      ...record.tags.map(tag => `  - ${JSON.stringify(tag)}`),
+      `last_updated: ${record.last_updated}`,
+      '---'
+    ];
+
+    return {
+      name: `${record.category}/${record.id.replace(/[^\w.-]/g, '_')}.md`,
+      content: `${frontMatter.join('\n')}\n${record.content}\n`
+    };
+  });
+}
+
+export class KnowledgeBaseExportService {
+  private knowledgeBaseService: KnowledgeBaseService;
+
+  constructor(knowledgeBaseService?: KnowledgeBaseService) {
+    this.knowledgeBaseService = knowledgeBaseService || new KnowledgeBaseService();
+  }
+
+  async exportKnowledgeBase(format: ExportFormat, options: ExportOptions = {}): Promise<ExportBundle> {
+    const entries = await this.knowledgeBaseService.exportKnowledgeBaseEntries(options.kbName);
+
+    let files: ExportFile[];
+    if (format === 'jsonl') {
+      files = [{ name: 'knowledge-base.jsonl', content: toJsonl(entries) }];
+    } else if (format === 'csv') {
+      files = [{ name: 'knowledge-base.csv', content: toCsv(entries) }];
+    } else {
+      files = toMarkdownFiles(entries);
+    }
+
+    return {
+      format,
+      exported_at: new Date().toISOString(),
+      source: options.kbName || 'support_knowledge_base',
+      count: entries.length,
+      files
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { knowledgeBaseEntrySchema, knowledgeBaseRestoreSchema, type KnowledgeBaseRestoreInput } from '../schemas/knowledgeBase.js';
+import { KnowledgeBaseService } from './knowledgeBase.js';
+import type { ChunkingOptions } from './chunking.js';
+
+/**
+ * One article read from an import source, before validation
+ */
+export interface ImportRecord {
+  /** Where the record came from, e.g. "line 3" or "billing/refunds.md" */
+  source: string;
+  data: Record<string, unknown>;
+  /** Set when the source could not be parsed at all */
+  error?: string;
+}
+
+export interface ImportRowError {
+  source: string;
+  errors: string[];
+}
+
+export interface ImportReport {
+  total: number;
+  valid: number;
+  inserted: number;
+  failed: number;
+  dry_run: boolean;
+  errors: ImportRowError[];
+}
+
+export interface ImportOptions {
+  /** Knowledge base to write to; the backend's own by default */
+  kbName?: string;
+  batchSize?: number;
+  /** Validate and report without inserting anything */
+  dryRun?: boolean;
+  /** Keep the id and last_updated of exported entries instead of assigning new ones */
+  preserveIds?: boolean;
+  /** Chunk size and overlap; defaults come from KB_CHUNK_SIZE / KB_CHUNK_OVERLAP */
+  chunking?: ChunkingOptions;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * Parse CSV with a header row. Quoted fields may contain commas, quotes ("") and newlines.
+ */
+export function parseCsv(text: string): ImportRecord[] {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  const [header, ...body] = rows.filter(row => row.fields.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.fields.map(column => column.trim());
+  return body.map(row => ({
+    source: `line ${row.line}`,
+    data: Object.fromEntries(columns.map((column, index) => [column, row.fields[index] ?? '']))
+  }));
+}
+
+/**
+ * Parse one JSON object per line
+ */
+export function parseJsonl(text: string): ImportRecord[] {
+  const records: ImportRecord[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const source = `line ${index + 1}`;
+    try {
+      const data = JSON.parse(line);
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        records.push({ source, data: {}, error: 'Expected a JSON object' });
+      } else {
+        records.push({ source, data });
+      }
+    } catch (error) {
+      records.push({ source, data: {}, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  return records;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  // Double-quoted values may carry JSON escapes, as written by the exporter
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Not valid JSON, strip the quotes below
+    }
+  }
+  return trimmed.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Parse the "key: value" front-matter subset we support: scalars, [a, b] lists and "- item" lists
+ */
+function parseFrontMatter(block: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^(\w+):\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, value] = pair;
+    listKey = null;
+
+    if (value.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (value.trim().startsWith('[') && value.trim().endsWith(']')) {
+      data[key] = value.trim().slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Parse a Markdown article. Metadata comes from front-matter; the title falls back to the first heading.
+ */
+export function parseMarkdown(source: string, text: string): ImportRecord {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const data = match ? parseFrontMatter(match[1]) : {};
+  const body = (match ? match[2] : text).trim();
+
+  if (!data.title) {
+    const heading = body.match(/^#\s+(.+)$/m);
+    if (heading) data.title = heading[1].trim();
+  }
+  data.content = body;
+
+  return { source, data };
+}
+
+/**
+ * Read every Markdown file under a directory, recursively
+ */
+export async function readMarkdownDirectory(directory: string): Promise<ImportRecord[]> {
+  const files = (await fs.readdir(directory, { recursive: true, withFileTypes: true }))
+    .filter(entry => entry.isFile() && MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort();
+
+  return Promise.all(files.map(async file =>
+    parseMarkdown(path.relative(directory, file), await fs.readFile(file, 'utf8'))
+  ));
+}
+
+/**
+ * Empty cells become missing fields; tags given as text become a list
+ */
+function normalizeRecord(data: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === 'string') {
+      if (value.trim() !== '') normalized[key] = value.trim();
+    } else if (value !== null && value !== undefined) {
+      normalized[key] = value;
+    }
+  }
+
+  if (typeof normalized.tags === 'string') {
+    const tags = normalized.tags;
+    normalized.tags = tags.startsWith('[')
+      ? JSON.parse(tags)
+      : tags.split(/[;,|]/).map(tag => tag.trim()).filter(Boolean);
+  }
+
+  return normalized;
+}
+
+export class KnowledgeBaseImportService {
+  private knowledgeBaseService: KnowledgeBaseService;
+
+  constructor(knowledgeBaseService?: KnowledgeBaseService) {
+    this.knowledgeBaseService = knowledgeBaseService || new KnowledgeBaseService();
+  }
+
+  /**
+   * Validate records against the entry schema and insert the valid ones in batches.
+   * Invalid rows and rows from failed batches are reported, not thrown.
+   */
+  async importRecords(records: ImportRecord[], options: ImportOptions = {}): Promise<ImportReport> {
+    const {
+      kbName,
+      batchSize = DEFAULT_BATCH_SIZE,
+      dryRun = false,
+      preserveIds = false,
+      chunking = {}
+    } = options;
+    const schema = preserveIds ? knowledgeBaseRestoreSchema : knowledgeBaseEntrySchema;
+
+    const errors: ImportRowError[] = [];
+    const valid: Array<{ source: string; entry: KnowledgeBaseRestoreInput }> = [];
+
+    for (const record of records) {
+      if (record.error) {
+        errors.push({ source: record.source, errors: [record.error] });
+        continue;
+      }
+
+      try {
+        const result = schema.safeParse(normalizeRecord(record.data));
+        if (result.success) {
+          valid.push({ source: record.source, entry: result.data });
+        } else {
+          errors.push({
+            source: record.source,
+            errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+          });
+        }
+      } catch (error) {
+        errors.push({ source: record.source, errors: [error instanceof Error ? error.message : 'Invalid record'] });
+      }
+    }
+
+    let inserted = 0;
+    if (!dryRun) {
+      for (let start = 0; start < valid.length; start += batchSize) {
+        const batch = valid.slice(start, start + batchSize);
+        const success = await this.knowledgeBaseService.addKnowledgeBaseDocuments(
+          batch.map(({ entry }) => ({
+            content: entry.content,
+            metadata: {
+              id: entry.id,
+              last_updated: entry.last_updated?.toISOString(),
+              title: entry.title,
+              category: entry.category,
+              priority: entry.priority,
+              product_type: entry.product_type,
+              tags: entry.tags
+            }
+          })),
+          kbName,
+          chunking
+        );
+
+        if (success) {
+          inserted += batch.length;
+        } else {
+          errors.push(...batch.map(({ source }) => ({ source, errors: ['Knowledge base insert failed'] })));
+        }
+      }
+    }
+
+    return {
+      total: records.length,
+      valid: valid.length,
+      inserted,
+      failed: errors.length,
+      dry_run: dryRun,
+      errors
+    };
+  }
+
+  /**
+   * Import a .csv or .jsonl file, a single Markdown file, or a directory of Markdown files
+   */
+  async importPath(source: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const stats = await fs.stat(source);
+    if (stats.isDirectory()) {
+      return this.importRecords(await readMarkdownDirectory(source), options);
+    }
+
+    const text = await fs.readFile(source, 'utf8');
+    const extension = path.extname(source).toLowerCase();
+
+    if (extension === '.csv') {
+      return this.importRecords(parseCsv(text), options);
+    }
+    if (extension === '.jsonl' || extension === '.ndjson') {
+      return this.importRecords(parseJsonl(text), options);
+    }
+    if (MARKDOWN_EXTENSIONS.includes(extension)) {
+      return this.importRecords([parseMarkdown(path.basename(source), text)], options);
+    }
+
+    throw new Error(`Unsupported import file type "${extension}"; expected .csv, .jsonl, .md or a directory`);
+  }
+}
@@ -0,0 +1,251 @@
+import type { KnowledgeBaseEntry } from '../types/index.js';
+import type { SearchFilters } from './knowledgeBase.js';
+
+/**
+ * Turns texts into vectors for similarity search. Implementations may run a
+ * local model; HashingEmbedder needs nothing beyond this file.
+ */
+export interface Embedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LocalSearchOptions {
+  embedder?: Embedder;
+  /** Share of the BM25 score in the hybrid relevance; the rest is vector similarity */
+  lexicalWeight?: number;
+  /** BM25 term frequency saturation */
+  k1?: number;
+  /** BM25 document length normalization */
+  b?: number;
+}
+
+interface IndexedDocument {
+  entry: KnowledgeBaseEntry;
+  text: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'our', 'please', 'should', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'this', 'to',
+  'us', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+/**
+ * Strip common English suffixes so "shipping", "ships" and "shipped" share a term
+ */
+function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let stemmed = token;
+  if (stemmed.endsWith('ies')) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (/(ss|ch|sh|x|z)es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith('s') && !/(ss|us)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  const base = stemmed.replace(/(ing|ed)$/, '');
+  if (base !== stemmed && base.length >= 3) {
+    // "shipp" -> "ship", but keep "ll", "ss" and "zz" as in "billing"
+    stemmed = /([^lsz])\1$/.test(base) ? base.slice(0, -1) : base;
+  }
+
+  // "update" and "updated" both become "updat"
+  return stemmed.length > 3 ? stemmed.replace(/e$/, '') : stemmed;
+}
+
+/**
+ * Lowercased, stemmed terms without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => (token.length > 1 || /\d/.test(token)) && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Feature-hashed character trigrams of each term. Catches spelling variants
+ * and shared word parts without a model download.
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(private dimensions: number = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const term of tokenize(text)) {
+      const padded = ` ${term} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        vector[this.hash(padded.slice(i, i + 3)) % this.dimensions] += 1;
+      }
+    }
+
+    return vector;
+  }
+
+  // FNV-1a
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * In-process hybrid search over knowledge base entries: a BM25 inverted index,
+ * optionally blended with vector similarity from an embedder.
+ *
+ * Relevance is in [0, 1]. The BM25 part is the document's score divided by the
+ * score of a document containing every query term once, so a query whose terms
+ * are all absent from the corpus scores 0 however the corpus looks. Distance is
+ * the cosine distance when an embedder is configured, otherwise 1 - relevance.
+ */
+export class LocalSearchEngine {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, IndexedDocument[]>();
+  private averageLength = 0;
+  private embeddings = new Map<string, { text: string; vector: number[] }>();
+  private embedder?: Embedder;
+  private lexicalWeight: number;
+  private k1: number;
+  private b: number;
+
+  constructor(options: LocalSearchOptions = {}) {
+    this.embedder = options.embedder;
+    this.lexicalWeight = options.embedder ? options.lexicalWeight ?? 0.6 : 1;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * Replace the indexed entries
+   */
+  index(entries: KnowledgeBaseEntry[]): void {
+    this.documents = entries.map(entry => {
+      // The title counts twice so title matches outrank passing mentions
+      const text = [entry.title, entry.title, entry.content, entry.tags.join(' ')].join('\n');
+      const terms = tokenize(text);
+      const termFrequencies = new Map<string, number>();
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+      }
+      return { entry, text, length: terms.length, termFrequencies };
+    });
+
+    this.postings.clear();
+    for (const document of this.documents) {
+      for (const term of document.termFrequencies.keys()) {
+        const list = this.postings.get(term) || [];
+        list.push(document);
+        this.postings.set(term, list);
+      }
+    }
+
+    this.averageLength = this.documents.reduce((sum, document) => sum + document.length, 0) /
+      Math.max(1, this.documents.length);
+
+    const ids = new Set(entries.map(entry => entry.id));
+    for (const id of this.embeddings.keys()) {
+      if (!ids.has(id)) this.embeddings.delete(id);
+    }
+  }
+
+  async search(query: string, filters: SearchFilters = {}): Promise<KnowledgeBaseEntry[]> {
+    const { category, priority, product_type, limit = 10, relevance_threshold = 0 } = filters;
+
+    const candidates = this.documents.filter(({ entry }) =>
+      (!category || entry.category === category) &&
+      (!priority || entry.priority === priority) &&
+      (!product_type || entry.product_type === product_type)
+    );
+    if (candidates.length === 0) return [];
+
+    const lexical = this.lexicalScores(tokenize(query));
+    const similarities = this.embedder ? await this.similarities(query, candidates) : null;
+
+    return candidates
+      .map((document, index) => {
+        const lexicalScore = lexical.get(document) || 0;
+        const similarity = similarities ? similarities[index] : 0;
+        const relevance = this.lexicalWeight * lexicalScore + (1 - this.lexicalWeight) * similarity;
+
+        return {
+          ...document.entry,
+          chunk_content: document.entry.chunk_content ?? document.entry.content,
+          relevance,
+          distance: similarities ? 1 - similarity : 1 - relevance
+        };
+      })
+      .filter(result => result.relevance > 0 && result.relevance >= relevance_threshold)
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, limit);
+  }
+
+  /**
+   * Normalized BM25 score for every document containing a query term
+   */
+  private lexicalScores(terms: string[]): Map<IndexedDocument, number> {
+    const scores = new Map<IndexedDocument, number>();
+    const total = this.documents.length;
+    let ideal = 0;
+
+    for (const term of terms) {
+      const postings = this.postings.get(term) || [];
+      const idf = Math.log(1 + (total - postings.length + 0.5) / (postings.length + 0.5));
+      ideal += idf;
+
+      for (const document of postings) {
+        const frequency = document.termFrequencies.get(term) || 0;
+        const lengthNorm = 1 - this.b + this.b * (document.length / (this.averageLength || 1));
+        const score = idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * lengthNorm);
+        scores.set(document, (scores.get(document) || 0) + score);
+      }
+    }
+
+    for (const [document, score] of scores) {
+      scores.set(document, Math.min(1, score / ideal));
+    }
+    return scores;
+  }
+
+  /**
+   * Cosine similarity of the query to each document, embedding documents whose text changed
+   */
+  private async similarities(query: string, documents: IndexedDocument[]): Promise<number[]> {
+    const stale = documents.filter(document => this.embeddings.get(document.entry.id)?.text !== document.text);
+    const [queryVector, ...vectors] = await this.embedder!.embed([query, ...stale.map(document => document.text)]);
+
+    stale.forEach((document, index) => {
+      this.embeddings.set(document.entry.id, { text: document.text, vector: vectors[index] });
+    });
+
+    return documents.map(document =>
+      Math.max(0, cosineSimilarity(queryVector, this.embeddings.get(document.entry.id)!.vector))
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/*
+ * Lexicon sentiment scoring for escalation rules: enough to tell an upset
+ * customer from a neutral one, not a general-purpose sentiment model.
+ */
+
+const POSITIVE_WORDS = new Set([
+  'thanks', 'thank', 'great', 'good', 'helpful', 'perfect', 'love', 'excellent',
+  'awesome', 'happy', 'appreciate', 'resolved', 'works', 'nice', 'glad'
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'angry', 'annoyed', 'frustrated', 'frustrating', 'disappointed', 'terrible', 'awful',
+  'horrible', 'useless', 'worst', 'ridiculous', 'unacceptable', 'hate', 'bad', 'broken',
+  'wrong', 'scam', 'upset', 'furious', 'waste', 'still', 'again', 'fail', 'failed'
+]);
+
+const NEGATIONS = new Set(['not', 'no', "don't", "doesn't", "didn't", "isn't", "wasn't", "can't", 'cannot', 'never']);
+
+/**
+ * Score text from -1 (negative) to 1 (positive); 0 when no sentiment words are found.
+ * A negation just before a word flips it ("not helpful").
+ */
+export function scoreSentiment(text: string): number {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  let score = 0;
+  let hits = 0;
+
+  words.forEach((word, index) => {
+    const polarity = POSITIVE_WORDS.has(word) ? 1 : NEGATIVE_WORDS.has(word) ? -1 : 0;
+    if (polarity === 0) return;
+
+    const negated = index > 0 && NEGATIONS.has(words[index - 1]);
+    score += negated ? -polarity : polarity;
+    hits++;
+  });
+
+  // Shouting reads as frustration
+  const exclamations = (text.match(/!/g) || []).length;
+  if (score < 0 && exclamations > 1) {
+    score -= 1;
+    hits++;
+  }
+
+  return hits === 0 ? 0 : Math.max(-1, Math.min(1, score / hits));
+}
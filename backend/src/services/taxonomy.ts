@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { taxonomyFileSchema, type TaxonomyCategory } from '../schemas/taxonomy.js';
+
+export interface TaxonomyOptions {
+  /** Categories to start with instead of the file or the defaults */
+  categories?: TaxonomyCategory[];
+  /** JSON file the taxonomy is read from and saved to */
+  filePath?: string;
+}
+
+/**
+ * The taxonomy used when no taxonomy file exists
+ */
+export const DEFAULT_TAXONOMY: TaxonomyCategory[] = [
+  {
+    id: 'technical',
+    name: 'Technical',
+    description: 'Login problems, errors and how the product works',
+    subcategories: [
+      { id: 'login', name: 'Login & passwords' },
+      { id: 'errors', name: 'Errors & bugs' }
+    ],
+    default_priority: 'medium',
+    suggested_actions: ['Check system status', 'View troubleshooting guides'],
+    escalation_policy: 'rules'
+  },
+  {
+    id: 'billing',
+    name: 'Billing',
+    description: 'Payments, invoices and subscriptions',
+    subcategories: [
+      { id: 'payments', name: 'Payments' },
+      { id: 'invoices', name: 'Invoices' },
+      { id: 'subscriptions', name: 'Subscriptions' }
+    ],
+    default_priority: 'high',
+    suggested_actions: ['View billing history', 'Download invoice'],
+    escalation_policy: 'always'
+  },
+  {
+    id: 'shipping',
+    name: 'Shipping',
+    description: 'Delivery times and tracking',
+    subcategories: [
+      { id: 'tracking', name: 'Tracking' },
+      { id: 'delivery', name: 'Delivery times' }
+    ],
+    default_priority: 'medium',
+    suggested_actions: ['Track package', 'Update shipping address'],
+    escalation_policy: 'rules'
+  },
+  {
+    id: 'returns',
+    name: 'Returns',
+    description: 'Returns, exchanges and refunds',
+    subcategories: [
+      { id: 'refunds', name: 'Refunds' },
+      { id: 'exchanges', name: 'Exchanges' }
+    ],
+    default_priority: 'medium',
+    suggested_actions: ['Start return process', 'Check return policy'],
+    escalation_policy: 'rules'
+  },
+  {
+    id: 'general',
+    name: 'General',
+    description: 'Anything else',
+    subcategories: [],
+    default_priority: 'low',
+    suggested_actions: ['Browse help center', 'Contact support'],
+    escalation_policy: 'rules'
+  }
+];
+
+export class TaxonomyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxonomyConflictError';
+  }
+}
+
+/**
+ * Support categories and what each implies. Reads are synchronous so request
+ * validation and per-message lookups can use them; changes are saved to the
+ * taxonomy file when there is one.
+ */
+export class TaxonomyService {
+  private categories: TaxonomyCategory[];
+  private filePath?: string;
+
+  constructor(options: TaxonomyOptions = {}) {
+    this.filePath = options.filePath;
+    this.categories = options.categories || this.loadCategories() || DEFAULT_TAXONOMY;
+  }
+
+  listCategories(): TaxonomyCategory[] {
+    return this.categories.map(category => structuredClone(category));
+  }
+
+  getCategory(categoryId: string): TaxonomyCategory | null {
+    const category = this.categories.find(category => category.id === categoryId);
+    return category ? structuredClone(category) : null;
+  }
+
+  hasCategory(categoryId: string): boolean {
+    return this.categories.some(category => category.id === categoryId);
+  }
+
+  async createCategory(category: TaxonomyCategory): Promise<TaxonomyCategory> {
+    if (this.hasCategory(category.id)) {
+      throw new TaxonomyConflictError(`Category "${category.id}" already exists`);
+    }
+
+    this.categories = [...this.categories, category];
+    await this.saveCategories();
+    return structuredClone(category);
+  }
+
+  /**
+   * Replace a category, keeping its position in the list
+   */
+  async updateCategory(categoryId: string, category: Omit<TaxonomyCategory, 'id'>): Promise<TaxonomyCategory | null> {
+    if (!this.hasCategory(categoryId)) return null;
+
+    const updated = { ...category, id: categoryId };
+    this.categories = this.categories.map(existing => existing.id === categoryId ? updated : existing);
+    await this.saveCategories();
+    return structuredClone(updated);
+  }
+
+  async deleteCategory(categoryId: string): Promise<boolean> {
+    if (!this.hasCategory(categoryId)) return false;
+    if (this.categories.length === 1) {
+      throw new TaxonomyConflictError('The taxonomy needs at least one category');
+    }
+
+    this.categories = this.categories.filter(category => category.id !== categoryId);
+    await this.saveCategories();
+    return true;
+  }
+
+  private loadCategories(): TaxonomyCategory[] | null {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return null;
+
+    const parsed = taxonomyFileSchema.safeParse(JSON.parse(fs.readFileSync(this.filePath, 'utf8')));
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Invalid taxonomy in ${this.filePath}: ${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    console.log(`Loaded ${parsed.data.categories.length} categories from ${this.filePath}`);
+    return parsed.data.categories;
+  }
+
+  private async saveCategories(): Promise<void> {
+    if (!this.filePath) return;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, JSON.stringify({ categories: this.categories }, null, 2) + '\n');
+  }
+}
+
+let sharedTaxonomy: TaxonomyService | null = null;
+
+/**
+ * The taxonomy shared by validation, chat and the admin API, read from
+ * TAXONOMY_PATH or the defaults kept in memory when unset
+ */
+export function getTaxonomyService(): TaxonomyService {
+  if (!sharedTaxonomy) {
+    sharedTaxonomy = new TaxonomyService({ filePath: process.env.TAXONOMY_PATH || undefined });
+  }
+  return sharedTaxonomy;
+}
+
+/**
+ * Replace the shared taxonomy, or reset it with null
+ */
+export function setTaxonomyService(taxonomy: TaxonomyService | null): void {
+  sharedTaxonomy = taxonomy;
+}
@@ -0,0 +1,393 @@
+import net from 'net';
+import mysql from 'mysql2';
+import type { ChatMessage, KnowledgeBaseEntry } from '../types/index.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { classifyByKeywords, generateFromKnowledgeBase, rewriteQueryFromHistory } from '../backends/rules.js';
+import { readAssignments, readInsertRows, splitAt, type SqlLiteral } from './sqlStatements.js';
+
+/*
+ * MindsDB stand-in
+ *
+ * A local server speaking enough of the MySQL wire protocol to answer the
+ * statements MindsDBSqlBackend sends through executeQuery: semantic searches
+ * and CRUD on the knowledge base table, model predictions and
+ * information_schema.knowledge_bases. Entries live in an InMemoryBackend
+ * and predictions come from the same keyword rules, so the real SQL path can
+ * run end to end without MindsDB or a network.
+ */
+
+export type StandInRow = Record<string, string | number | null>;
+
+export interface StandInResult {
+  rows?: StandInRow[];
+  /** Columns of SELECT * results, needed when there are no rows */
+  columns?: string[];
+  affectedRows?: number;
+}
+
+export interface MindsDBStandInOptions {
+  /** Holds the knowledge base entries, the seed entries by default */
+  backend?: InMemoryBackend;
+  /** Name of the knowledge base table, as passed to MindsDBSqlBackend */
+  table?: string;
+}
+
+// The server half of a mysql2 connection, which its typings leave out
+interface ServerConnection {
+  stream: net.Socket;
+  serverHandshake(args: Record<string, unknown>): void;
+  writeColumns(columns: Record<string, unknown>[]): void;
+  writeTextRow(values: Array<string | number | null>): void;
+  writeEof(): void;
+  writeOk(args?: { affectedRows: number }): void;
+  writeError(args: { message: string; code: number }): void;
+  _resetSequenceId(): void;
+  on(event: 'query', listener: (sql: string) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+}
+
+const ER_PARSE_ERROR = 1064;
+const UTF8_GENERAL_CI = 33;
+const BINARY = 63;
+
+const TABLE_COLUMNS = ['id', 'title', 'content', 'category', 'priority', 'product_type', 'tags', 'last_updated'];
+
+const MODEL_PATTERN = /^SELECT (.+?) FROM (query_rewriter_model|query_classifier_model|response_generator_model)\b/;
+
+export class MindsDBStandIn {
+  /** Every statement received, in order */
+  readonly queries: string[] = [];
+  private backend: InMemoryBackend;
+  private table: string;
+  private knowledgeBases: Set<string>;
+  private server: net.Server | null = null;
+  private sockets = new Set<net.Socket>();
+
+  constructor(options: MindsDBStandInOptions = {}) {
+    this.backend = options.backend || new InMemoryBackend();
+    this.table = options.table || 'support_knowledge_base';
+    this.knowledgeBases = new Set([this.table]);
+  }
+
+  /**
+   * Listen on port (0 picks a free one) and resolve with the port in use
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    const mysqlServer = mysql.createServer(connection => {
+      this.handleConnection(connection as unknown as ServerConnection);
+    });
+    // mysql2 keeps the net.Server private, and it is needed for the bound port
+    const server = (mysqlServer as unknown as { _server: net.Server })._server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    return (server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Answer one statement. Statements the stand-in does not know are rejected
+   * so unexpected SQL fails tests instead of passing silently.
+   */
+  async execute(sql: string): Promise<StandInResult> {
+    this.queries.push(sql);
+    const statement = sql.trim();
+
+    const createKnowledgeBase = statement.match(/^CREATE KNOWLEDGE_BASE (\w+)/);
+    if (createKnowledgeBase) {
+      this.knowledgeBases.add(createKnowledgeBase[1]);
+      return { affectedRows: 0 };
+    }
+    if (/^CREATE (MODEL|AGENT) /.test(statement)) {
+      return { affectedRows: 0 };
+    }
+
+    if (/^SELECT \* FROM information_schema\.knowledge_bases\b/.test(statement)) {
+      const name = this.conditions(statement).name;
+      return {
+        rows: [...this.knowledgeBases]
+          .filter(kb => name === undefined || kb === name)
+          .map(kb => ({ name: kb, project: 'mindsdb' })),
+        columns: ['name', 'project']
+      };
+    }
+
+    const model = statement.match(MODEL_PATTERN);
+    if (model) {
+      return { rows: [this.predict(model[2], this.conditions(statement))] };
+    }
+
+    if (new RegExp(`^(SELECT .+ FROM|INSERT INTO|UPDATE|DELETE FROM) ${this.table}\\b`).test(statement)) {
+      return this.executeOnTable(statement);
+    }
+
+    throw new Error(`Unsupported statement: ${statement.slice(0, 60)}`);
+  }
+
+  private handleConnection(connection: ServerConnection): void {
+    this.sockets.add(connection.stream);
+    connection.stream.on('close', () => this.sockets.delete(connection.stream));
+    // Clients that disconnect without QUIT are not an error for the stand-in
+    connection.on('error', () => {});
+
+    connection.serverHandshake({
+      protocolVersion: 10,
+      serverVersion: '8.0.0-mindsdb-stand-in',
+      connectionId: this.sockets.size,
+      statusFlags: 2,
+      characterSet: UTF8_GENERAL_CI,
+      capabilityFlags: 0xffffff,
+      authCallback: (_params: unknown, callback: (error: Error | null) => void) => {
+        callback(null);
+        connection._resetSequenceId();
+      }
+    });
+
+    // Answer statements one at a time, in the order they arrived
+    let pending = Promise.resolve();
+    connection.on('query', sql => {
+      pending = pending.then(() => this.respond(connection, sql));
+    });
+  }
+
+  private async respond(connection: ServerConnection, sql: string): Promise<void> {
+    try {
+      const result = await this.execute(sql);
+
+      if (result.rows) {
+        this.writeRows(connection, result.rows, this.selectedColumns(sql, result));
+      } else {
+        connection.writeOk({ affectedRows: result.affectedRows || 0 });
+      }
+    } catch (error) {
+      connection.writeError({
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: ER_PARSE_ERROR
+      });
+    }
+    // The next command from the client starts a new packet sequence
+    connection._resetSequenceId();
+  }
+
+  private writeRows(connection: ServerConnection, rows: StandInRow[], columns: string[]): void {
+    connection.writeColumns(columns.map(name => {
+      const sample = rows.map(row => row[name]).find(value => value !== null && value !== undefined);
+      const numeric = typeof sample === 'number';
+
+      return {
+        catalog: 'def',
+        schema: 'mindsdb',
+        table: this.table,
+        orgTable: this.table,
+        name,
+        orgName: name,
+        characterSet: numeric ? BINARY : UTF8_GENERAL_CI,
+        columnLength: numeric ? 22 : 65535,
+        columnType: numeric
+          ? Number.isInteger(sample) ? mysql.Types.LONGLONG : mysql.Types.DOUBLE
+          : mysql.Types.VAR_STRING,
+        flags: 0,
+        decimals: numeric && !Number.isInteger(sample) ? 31 : 0
+      };
+    }));
+
+    for (const row of rows) {
+      connection.writeTextRow(columns.map(name => row[name] ?? null));
+    }
+    connection.writeEof();
+  }
+
+  /**
+   * Column names of a SELECT, or the result's own columns for SELECT *
+   */
+  private selectedColumns(sql: string, result: StandInResult): string[] {
+    const list = sql.match(/^\s*SELECT (?:DISTINCT )?(.+?) FROM /);
+    if (!list || list[1] === '*') {
+      return result.columns || [...new Set(result.rows!.flatMap(row => Object.keys(row)))];
+    }
+
+    return list[1].split(',').map(column => {
+      const alias = column.match(/ as (\w+)$/i);
+      return alias ? alias[1] : column.trim();
+    });
+  }
+
+  private conditions(sql: string): Record<string, SqlLiteral> {
+    const where = splitAt(splitAt(sql, ' WHERE ')[1], ' ORDER BY ')[0];
+    return Object.fromEntries(readAssignments(where));
+  }
+
+  private predict(model: string, inputs: Record<string, SqlLiteral>): StandInRow {
+    const query = String(inputs.query ?? '');
+
+    if (model === 'query_rewriter_model') {
+      return { standalone_query: rewriteQueryFromHistory(query, this.readHistory(String(inputs.history ?? ''))) };
+    }
+
+    if (model === 'query_classifier_model') {
+      const classification = classifyByKeywords(query);
+      return {
+        category: classification.category,
+        intent: classification.intent,
+        confidence: classification.confidence,
+        entities: JSON.stringify(classification.entities)
+      };
+    }
+
+    const generation = generateFromKnowledgeBase(query, this.readContext(String(inputs.context ?? '')));
+    return {
+      response: generation.response,
+      confidence: generation.confidence,
+      reasoning: generation.reasoning,
+      // Models answer in text
+      requires_escalation: String(generation.requires_escalation)
+    };
+  }
+
+  /**
+   * Turn the "User: ..." transcript sent to the rewriter back into messages
+   */
+  private readHistory(transcript: string): ChatMessage[] {
+    return transcript
+      .split('\n')
+      .map((line, index) => {
+        const [, speaker, content] = line.match(/^(User|Assistant|Support agent): (.*)$/) || [];
+        const role: ChatMessage['role'] = speaker === 'User' ? 'user' : speaker === 'Assistant' ? 'assistant' : 'agent';
+        return { id: `msg_${index}`, role, content, timestamp: new Date() };
+      })
+      .filter(message => message.content !== undefined);
+  }
+
+  /**
+   * Turn the "Title: text" blocks sent to the generator back into entries
+   */
+  private readContext(context: string): KnowledgeBaseEntry[] {
+    if (!context) return [];
+
+    return context.split('\n\n').map((block, index) => {
+      const separator = block.indexOf(': ');
+      return {
+        id: `context_${index}`,
+        title: separator === -1 ? '' : block.slice(0, separator),
+        content: separator === -1 ? block : block.slice(separator + 2),
+        category: 'general',
+        priority: 'medium',
+        tags: [],
+        last_updated: new Date()
+      };
+    });
+  }
+
+  private async executeOnTable(sql: string): Promise<StandInResult> {
+    if (sql.startsWith('INSERT')) {
+      const rows = readInsertRows(sql);
+      const written = await this.backend.upsert(rows.map(row => ({
+        content: String(row.content ?? ''),
+        metadata: { ...row, tags: JSON.parse(String(row.tags ?? '[]')) }
+      })));
+      return { affectedRows: written };
+    }
+
+    if (sql.startsWith('UPDATE')) {
+      const [set, where] = splitAt(sql, ' WHERE ');
+      const updates: Record<string, SqlLiteral> = Object.fromEntries(readAssignments(set));
+      const { id } = Object.fromEntries(readAssignments(where));
+      const updated = await this.backend.update(String(id), {
+        ...updates,
+        tags: typeof updates.tags === 'string' ? JSON.parse(updates.tags) : undefined
+      } as Partial<KnowledgeBaseEntry>);
+      return { affectedRows: updated ? 1 : 0 };
+    }
+
+    if (sql.startsWith('DELETE')) {
+      const { id } = this.conditions(sql);
+      return { affectedRows: (await this.backend.delete(String(id))) ? 1 : 0 };
+    }
+
+    if (/^SELECT DISTINCT category /.test(sql)) {
+      return { rows: (await this.backend.categories()).map(category => ({ category })) };
+    }
+
+    if (/COUNT\(\*\)/.test(sql)) {
+      const stats = await this.backend.stats();
+      const groupBy = sql.match(/ GROUP BY (category|priority)$/);
+      if (!groupBy) {
+        return { rows: [{ total: stats.total_entries }] };
+      }
+
+      const counts = groupBy[1] === 'category' ? stats.by_category : stats.by_priority;
+      return { rows: Object.entries(counts).map(([value, count]) => ({ [groupBy[1]]: value, count })) };
+    }
+
+    const { content, ...filters } = this.conditions(sql);
+    const limit = sql.match(/ LIMIT (\d+)$/);
+
+    if (content !== undefined) {
+      const threshold = sql.match(/ relevance >= (-?\d+(?:\.\d+)?)/);
+      const results = await this.backend.search(String(content), {
+        ...this.entryFilters(filters),
+        relevance_threshold: threshold ? parseFloat(threshold[1]) : 0,
+        limit: limit ? parseInt(limit[1]) : undefined
+      });
+
+      // MindsDB knowledge bases return entry fields in a JSON metadata column
+      return {
+        rows: results.map(entry => ({
+          id: entry.id,
+          chunk_content: entry.chunk_content ?? entry.content,
+          metadata: JSON.stringify({
+            title: entry.title,
+            category: entry.category,
+            priority: entry.priority,
+            product_type: entry.product_type,
+            tags: entry.tags,
+            last_updated: entry.last_updated.toISOString()
+          }),
+          relevance: entry.relevance ?? 0,
+          distance: entry.distance ?? 1
+        }))
+      };
+    }
+
+    const entries = await this.backend.list({
+      ...this.entryFilters(filters),
+      limit: limit ? parseInt(limit[1]) : undefined
+    });
+    return { rows: entries.map(entry => this.toRow(entry)), columns: TABLE_COLUMNS };
+  }
+
+  private entryFilters(conditions: Record<string, SqlLiteral>): { category?: string; priority?: string; product_type?: string } {
+    const { category, priority, product_type } = conditions;
+    return {
+      category: category === undefined ? undefined : String(category),
+      priority: priority === undefined ? undefined : String(priority),
+      product_type: product_type === undefined ? undefined : String(product_type)
+    };
+  }
+
+  private toRow(entry: KnowledgeBaseEntry): StandInRow {
+    return {
+      id: entry.id,
+      title: entry.title,
+      content: entry.content,
+      category: entry.category,
+      priority: entry.priority,
+      product_type: entry.product_type || '',
+      tags: JSON.stringify(entry.tags),
+      last_updated: entry.last_updated.toISOString()
+    };
+  }
+}
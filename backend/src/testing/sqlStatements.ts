@@ -0,0 +1,116 @@
+/*
+ * Reading back the SQL written by the helpers in config/database.ts. Only
+ * the shapes those helpers produce are understood: literals escaped by
+ * escapeLiteral, "column = literal" conditions joined with AND, and
+ * multi-row INSERT ... VALUES.
+ */
+
+export type SqlLiteral = string | number | boolean | null;
+
+/**
+ * Read the SQL literal starting at position: a quoted string (with '' and
+ * backslash escapes), a number, NULL or a boolean
+ */
+export function readLiteral(sql: string, position: number): { value: SqlLiteral; end: number } {
+  if (sql[position] === "'") {
+    let value = '';
+    let i = position + 1;
+    while (i < sql.length) {
+      const char = sql[i];
+      if (char === "'" && sql[i + 1] === "'") {
+        value += "'";
+        i += 2;
+      } else if (char === "'") {
+        return { value, end: i + 1 };
+      } else if (char === '\\' && i + 1 < sql.length) {
+        value += sql[i + 1] === '0' ? '\0' : sql[i + 1];
+        i += 2;
+      } else {
+        value += char;
+        i++;
+      }
+    }
+    throw new Error('Unterminated string literal');
+  }
+
+  const token = sql.slice(position).match(/^(-?\d+(?:\.\d+)?|NULL|true|false)/i);
+  if (!token) {
+    throw new Error(`Unsupported SQL literal at: ${sql.slice(position, position + 20)}`);
+  }
+
+  const text = token[1].toLowerCase();
+  const value = text === 'null' ? null : text === 'true' ? true : text === 'false' ? false : Number(text);
+  return { value, end: position + token[1].length };
+}
+
+/**
+ * Split at the first keyword (e.g. " WHERE ") that is outside string literals
+ */
+export function splitAt(sql: string, keyword: string): [string, string] {
+  let inString = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === "'" && sql[i + 1] === "'") {
+        i++;
+      } else if (char === "'") {
+        inString = false;
+      }
+    } else if (char === "'") {
+      inString = true;
+    } else if (sql.startsWith(keyword, i)) {
+      return [sql.slice(0, i), sql.slice(i + keyword.length)];
+    }
+  }
+
+  return [sql, ''];
+}
+
+/**
+ * "column = literal" pairs in order, skipping anything that is not one
+ */
+export function readAssignments(sql: string): Array<[string, SqlLiteral]> {
+  const pairs: Array<[string, SqlLiteral]> = [];
+  const pattern = /(\w+) = /g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(sql)) !== null) {
+    const start = match.index + match[0].length;
+    if (!/^('|-?\d|NULL\b|true\b|false\b)/i.test(sql.slice(start))) continue;
+
+    const { value, end } = readLiteral(sql, start);
+    pairs.push([match[1], value]);
+    pattern.lastIndex = end;
+  }
+
+  return pairs;
+}
+
+/**
+ * Row values of INSERT INTO <table> (...) VALUES (...), (...)
+ */
+export function readInsertRows(sql: string): Array<Record<string, SqlLiteral>> {
+  const header = sql.match(/^INSERT INTO \S+ \(([^)]*)\) VALUES /i);
+  if (!header) return [];
+
+  const columns = header[1].split(',').map(column => column.trim());
+  const rows: Array<Record<string, SqlLiteral>> = [];
+  let position = header[0].length;
+
+  while (sql[position] === '(') {
+    const row: Record<string, SqlLiteral> = {};
+    position++;
+    for (const column of columns) {
+      const { value, end } = readLiteral(sql, position);
+      row[column] = value;
+      position = sql.startsWith(', ', end) ? end + 2 : end;
+    }
+    rows.push(row);
+    position = sql.startsWith('), ', position) ? position + 3 : position + 1;
+  }
+
+  return rows;
+}
@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import type { AgentConfig } from '../types/index.js';
+import { AgentsService } from '../services/agents.js';
+
+describe('AgentsService (mock mode)', () => {
+  let service: AgentsService;
+
+  const agentConfig: AgentConfig = {
+    name: 'support_agent',
+    model: 'gpt-4',
+    provider: 'openai',
+    api_key: 'test-key',
+    include_knowledge_bases: ['support_kb'],
+    prompt_template: 'You are a helpful support assistant.'
+  };
+
+  beforeEach(() => {
+    service = new AgentsService();
+  });
+
+  describe('createAgent', () => {
+    test('should create an active agent with its knowledge bases', async () => {
+      // Act
+      const agent = await service.createAgent(agentConfig);
+
+      // Assert
+      expect(agent.name).toBe('support_agent');
+      expect(agent.model).toBe('gpt-4');
+      expect(agent.status).toBe('active');
+      expect(agent.knowledge_bases).toEqual(['support_kb']);
+      expect(agent.tables).toEqual([]);
+    });
+
+    test('should reject duplicate agent names', async () => {
+      // Arrange
+      await service.createAgent(agentConfig);
+
+      // Act & Assert
+      await expect(service.createAgent(agentConfig)).rejects.toThrow('already exists');
+    });
+
+    test('should reject names that are not plain identifiers', async () => {
+      // Act & Assert
+      await expect(service.createAgent({ ...agentConfig, name: 'bad; DROP AGENT x' }))
+        .rejects.toThrow('Invalid agent name');
+    });
+  });
+
+  describe('queryAgent', () => {
+    test('should answer using the agent knowledge bases as sources', async () => {
+      // Arrange
+      await service.createAgent(agentConfig);
+
+      // Act
+      const response = await service.queryAgent({
+        question: 'How do I reset my password?',
+        agent_name: 'support_agent'
+      });
+
+      // Assert
+      expect(response.answer).toContain('support_kb');
+      expect(response.sources).toEqual(['support_kb']);
+      expect(response.model_used).toBe('gpt-4');
+      expect(response.confidence).toBeGreaterThan(0);
+    });
+
+    test('should throw when the agent does not exist', async () => {
+      // Act & Assert
+      await expect(service.queryAgent({ question: 'Hello', agent_name: 'missing_agent' }))
+        .rejects.toThrow('not found');
+    });
+  });
+
+  describe('listAgents, getAgentStatus and deleteAgent', () => {
+    test('should list, report status and delete agents', async () => {
+      // Arrange
+      await service.createAgent(agentConfig);
+
+      // Act
+      const agents = await service.listAgents();
+      const status = await service.getAgentStatus('support_agent');
+      const deleted = await service.deleteAgent('support_agent');
+
+      // Assert
+      expect(agents).toHaveLength(1);
+      expect(status?.status).toBe('active');
+      expect(status?.knowledge_bases).toEqual(['support_kb']);
+      expect(deleted).toBe(true);
+      expect(await service.getAgent('support_agent')).toBeNull();
+      expect(await service.getAgentStatus('support_agent')).toBeNull();
+    });
+
+    test('should return false when deleting an unknown agent', async () => {
+      // Act & Assert
+      expect(await service.deleteAgent('missing_agent')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import type { ChatMessage } from '../types/index.js';
+import { AIService } from '../services/ai.js';
+
+const history: ChatMessage[] = [
+  { id: 'msg_1', content: 'Do you ship to Canada?', role: 'user', timestamp: new Date() },
+  { id: 'msg_2', content: 'Yes, we ship to Canada.', role: 'assistant', timestamp: new Date() }
+];
+
+describe('AIService (mock mode)', () => {
+  let service: AIService;
+
+  beforeEach(() => {
+    service = new AIService();
+  });
+
+  describe('rewriteQuery', () => {
+    test('should leave the query unchanged without history', async () => {
+      expect(await service.rewriteQuery('and how long does that take?', [])).toBe('and how long does that take?');
+    });
+
+    test('should prefix follow-up questions with the previous user question', async () => {
+      expect(await service.rewriteQuery('and how long does that take?', history))
+        .toBe('Do you ship to Canada? and how long does that take?');
+      expect(await service.rewriteQuery('How much does it cost?', history))
+        .toBe('Do you ship to Canada? How much does it cost?');
+    });
+
+    test('should leave standalone questions unchanged', async () => {
+      expect(await service.rewriteQuery('How do I reset my password?', history))
+        .toBe('How do I reset my password?');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { AnalyticsService, bucketStart } from '../services/analytics.js';
+import { createAnalyticsRouter } from '../routes/analytics.js';
+import { EscalationService } from '../services/escalation.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
+import type { ChatMessage } from '../types/index.js';
+
+interface Exchange {
+  at: string;
+  question: string;
+  category: string;
+  confidence: number;
+  processing_time: number;
+  source_ids: string[];
+}
+
+describe('AnalyticsService', () => {
+  let conversations: InMemoryConversationRepository;
+  let escalationService: EscalationService;
+  let service: AnalyticsService;
+
+  // Store a question and its answer as if they happened at the given time
+  async function converse(conversationId: string, exchange: Exchange) {
+    jest.setSystemTime(new Date(exchange.at));
+    const timestamp = new Date(exchange.at);
+    const answer: ChatMessage = {
+      id: `${conversationId}_assistant`,
+      content: 'Answer',
+      role: 'assistant',
+      timestamp,
+      metadata: {
+        confidence: exchange.confidence,
+        category: exchange.category,
+        processing_time: exchange.processing_time,
+        source_ids: exchange.source_ids
+      }
+    };
+
+    await conversations.addMessage(conversationId, { id: `${conversationId}_user`, content: exchange.question, role: 'user', timestamp });
+    await conversations.addMessage(conversationId, answer);
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    conversations = new InMemoryConversationRepository();
+    escalationService = new EscalationService(conversations, new InMemoryEscalationRepository());
+    service = new AnalyticsService(conversations, escalationService);
+
+    await converse('conv_1', {
+      at: '2025-06-23T10:00:00Z', question: 'How do I reset my password?',
+      category: 'technical', confidence: 0.9, processing_time: 100, source_ids: ['kb_1']
+    });
+    await conversations.upsertConversation('conv_1', { status: 'resolved' });
+
+    await converse('conv_2', {
+      at: '2025-06-24T09:00:00Z', question: 'Where is my refund?',
+      category: 'returns', confidence: 0.3, processing_time: 300, source_ids: []
+    });
+    await escalationService.createTicket({ conversation_id: 'conv_2', priority: 'high', category: 'returns', reason: 'Refund' });
+
+    await converse('conv_3', {
+      at: '2025-06-24T11:00:00Z', question: 'where is my  REFUND? ',
+      category: 'returns', confidence: 0.4, processing_time: 200, source_ids: []
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should bucket conversation and answer metrics by day', async () => {
+    // Act
+    const report = await service.getReport({
+      from: new Date('2025-06-23T00:00:00Z'),
+      to: new Date('2025-06-25T00:00:00Z'),
+      bucket: 'day'
+    });
+
+    // Assert
+    expect(report.buckets.map(bucket => bucket.start.toISOString())).toEqual(['2025-06-23T00:00:00.000Z', '2025-06-24T00:00:00.000Z']);
+    expect(report.buckets[0]).toMatchObject({
+      conversations: 1,
+      messages: 2,
+      escalation_rate: 0,
+      deflection_rate: 1,
+      mean_confidence: 0.9,
+      processing_time: { p50: 100, p90: 100, p99: 100 },
+      category_mix: { technical: 1 }
+    });
+    expect(report.buckets[1]).toMatchObject({
+      conversations: 2,
+      messages: 4,
+      escalation_rate: 0.5,
+      deflection_rate: 0,
+      mean_confidence: 0.35,
+      processing_time: { p50: 200, p90: 300, p99: 300 },
+      category_mix: { returns: 2 }
+    });
+    expect(report.totals).toEqual({
+      conversations: 3,
+      messages: 6,
+      escalation_rate: 0.33,
+      deflection_rate: 0.33,
+      mean_confidence: 0.53,
+      processing_time: { p50: 200, p90: 300, p99: 300 },
+      category_mix: { technical: 1, returns: 2 }
+    });
+  });
+
+  test('should group unanswered queries regardless of case and spacing', async () => {
+    // Act
+    const report = await service.getReport({
+      from: new Date('2025-06-23T00:00:00Z'),
+      to: new Date('2025-06-25T00:00:00Z'),
+      bucket: 'week'
+    });
+
+    // Assert
+    expect(report.buckets).toHaveLength(1);
+    expect(report.top_unanswered_queries).toEqual([
+      { query: 'where is my  REFUND?', count: 2, last_asked: new Date('2025-06-24T11:00:00Z') }
+    ]);
+  });
+
+  test('should report empty buckets without answers as null metrics', async () => {
+    // Act
+    const report = await service.getReport({
+      from: new Date('2025-06-25T00:00:00Z'),
+      to: new Date('2025-06-25T02:00:00Z'),
+      bucket: 'hour'
+    });
+
+    // Assert
+    expect(report.buckets).toHaveLength(2);
+    expect(report.totals).toMatchObject({ conversations: 0, mean_confidence: null, processing_time: null });
+  });
+});
+
+describe('bucketStart', () => {
+  test('should start weeks on Monday in UTC', () => {
+    // Act & Assert
+    expect(bucketStart(new Date('2025-06-29T23:30:00Z'), 'week').toISOString()).toBe('2025-06-23T00:00:00.000Z');
+    expect(bucketStart(new Date('2025-06-29T23:30:00Z'), 'hour').toISOString()).toBe('2025-06-29T23:00:00.000Z');
+  });
+});
+
+describe('Analytics Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    const conversations = new InMemoryConversationRepository();
+    app = express();
+    app.use(express.json());
+    app.use('/api/analytics', createAnalyticsRouter(new AnalyticsService(conversations, new EscalationService(conversations, new InMemoryEscalationRepository()))));
+  });
+
+  test('GET /api/analytics should default to the last 30 days', async () => {
+    const response = await request(app).get('/api/analytics').expect(200);
+
+    expect(response.body.data.bucket).toBe('day');
+    expect(response.body.data.buckets.length).toBeGreaterThanOrEqual(30);
+    expect(response.body.data.top_unanswered_queries).toEqual([]);
+  });
+
+  test('GET /api/analytics should validate the range', async () => {
+    const reversed = await request(app).get('/api/analytics?from=2025-06-24&to=2025-06-23');
+    const tooMany = await request(app).get('/api/analytics?from=2025-01-01&to=2025-06-01&bucket=hour');
+
+    expect(reversed.status).toBe(400);
+    expect(reversed.body.error).toBe('from: from must be before to');
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body.error).toContain('bucket: The range spans more than 500 buckets');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { AuthService, parseApiKeys } from '../services/auth.js';
+import { createAuthRouter } from '../routes/auth.js';
+import { createChatRouter } from '../routes/chat.js';
+import { createKnowledgeBaseRouter } from '../routes/knowledgeBase.js';
+import { ChatService } from '../services/chat.js';
+import { AIService } from '../services/ai.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { EscalationService } from '../services/escalation.js';
+import { EscalationRulesService } from '../services/escalationRules.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
+
+const apiKeys = parseApiKeys('agent-key:agent:helpdesk,editor-key:kb_editor:docs team');
+
+describe('AuthService', () => {
+  let auth: AuthService;
+
+  beforeEach(() => {
+    auth = new AuthService({ secret: 'test-secret', apiKeys });
+  });
+
+  test('should verify the session tokens it issues and reject tampered or foreign ones', () => {
+    // Arrange
+    const session = auth.startCustomerSession();
+    const [header, , signature] = session.token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: session.user.id, role: 'admin', iat: 0, exp: 9999999999 })).toString('base64url');
+
+    // Act & Assert
+    expect(auth.verifySession(session.token)).toEqual({ id: session.user.id, role: 'customer', method: 'session' });
+    expect(auth.verifySession(`${header}.${forged}.${signature}`)).toBeNull();
+    expect(new AuthService({ secret: 'other-secret' }).verifySession(session.token)).toBeNull();
+    expect(auth.verifySession('not-a-token')).toBeNull();
+  });
+
+  test('should reject expired session tokens', () => {
+    // Arrange
+    const expiring = new AuthService({ secret: 'test-secret', sessionTtl: 0 });
+
+    // Act
+    const session = expiring.issueSession({ id: 'user_1', role: 'customer' });
+
+    // Assert
+    expect(expiring.verifySession(session.token)).toBeNull();
+  });
+
+  test('should look up API keys and skip entries with unknown roles', () => {
+    // Act & Assert
+    expect(auth.authenticateApiKey('editor-key')).toEqual({
+      id: 'key_docs team', role: 'kb_editor', name: 'docs team', method: 'api_key'
+    });
+    expect(auth.authenticateApiKey('agent-key-2')).toBeNull();
+    expect(parseApiKeys('a:superuser:x, b:admin')).toEqual([{ key: 'b', role: 'admin', name: 'admin' }]);
+  });
+});
+
+describe('Route access', () => {
+  let app: express.Application;
+
+  async function startSession(body: Record<string, string> = {}): Promise<string> {
+    const response = await request(app).post('/api/auth/session').send(body).expect(201);
+    return response.body.data.token;
+  }
+
+  beforeEach(() => {
+    const auth = new AuthService({ secret: 'test-secret', apiKeys });
+    const backend = new InMemoryBackend();
+    const conversations = new InMemoryConversationRepository();
+    const chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend, new EscalationRulesService({ rules: [] })),
+      conversations,
+      new EscalationService(conversations, new InMemoryEscalationRepository())
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/auth', createAuthRouter(auth));
+    app.use('/api/chat', createChatRouter(chatService, auth));
+    app.use('/api/kb', createKnowledgeBaseRouter(new KnowledgeBaseService(backend), auth));
+  });
+
+  test('should only let knowledge base editors change entries', async () => {
+    const entry = { title: 'Gift cards', content: 'Gift cards never expire.', category: 'billing', priority: 'low' };
+    const customerToken = await startSession();
+
+    await request(app).post('/api/kb/entries').send(entry).expect(401);
+    const forbidden = await request(app).post('/api/kb/entries').set('Authorization', `Bearer ${customerToken}`).send(entry);
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.body.error).toBe('This action requires one of the roles: kb_editor, admin');
+    await request(app).post('/api/kb/entries').set('X-API-Key', 'agent-key').send(entry).expect(403);
+
+    await request(app).post('/api/kb/entries').set('X-API-Key', 'editor-key').send(entry).expect(201);
+    await request(app).get('/api/kb/search?q=gift').set('Authorization', `Bearer ${customerToken}`).expect(200);
+  });
+
+  test('should keep customers to their own conversations', async () => {
+    const alice = await startSession();
+    const bob = await startSession();
+    const { body: me } = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${alice}`).expect(200);
+
+    // The user id in the body is replaced with the signed-in customer's
+    await request(app).post('/api/chat/message').set('Authorization', `Bearer ${alice}`)
+      .send({ message: 'How do I reset my password?', conversation_id: 'conv_alice', user_id: 'someone_else' })
+      .expect(200);
+
+    await request(app).get('/api/chat/conversations/conv_alice/history').set('Authorization', `Bearer ${bob}`).expect(403);
+    await request(app).post('/api/chat/message').set('Authorization', `Bearer ${bob}`)
+      .send({ message: 'Hello', conversation_id: 'conv_alice' })
+      .expect(403);
+    await request(app).get(`/api/chat/users/${me.data.id}/conversations`).set('Authorization', `Bearer ${bob}`).expect(403);
+    await request(app).patch('/api/chat/conversations/conv_alice').set('Authorization', `Bearer ${bob}`)
+      .send({ title: 'Mine now' })
+      .expect(403);
+
+    const own = await request(app).get(`/api/chat/users/${me.data.id}/conversations`).set('Authorization', `Bearer ${alice}`).expect(200);
+    expect(own.body.data.conversations.map((conversation: { id: string }) => conversation.id)).toEqual(['conv_alice']);
+    await request(app).get('/api/chat/conversations/conv_alice').set('X-API-Key', 'agent-key').expect(200);
+    await request(app).get('/api/chat/stats').set('Authorization', `Bearer ${alice}`).expect(403);
+  });
+
+  test('POST /api/auth/session should sign staff in with an API key and refresh customer sessions', async () => {
+    const customerToken = await startSession();
+    const refreshed = await request(app).post('/api/auth/session').set('Authorization', `Bearer ${customerToken}`).expect(201);
+    const staff = await request(app).post('/api/auth/session').send({ api_key: 'agent-key' }).expect(201);
+
+    expect(refreshed.body.data.user.id).toBe((await request(app).get('/api/auth/me').set('Authorization', `Bearer ${customerToken}`)).body.data.id);
+    expect(staff.body.data.user).toEqual({ id: 'key_helpdesk', role: 'agent', name: 'helpdesk' });
+    await request(app).post('/api/auth/session').send({ api_key: 'wrong' }).expect(401);
+    await request(app).get('/api/auth/me').set('Authorization', 'Bearer not-a-token').expect(401);
+  });
+});
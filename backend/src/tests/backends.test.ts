@@ -0,0 +1,306 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { KnowledgeBaseEntry } from '../types/index.js';
+
+// Keep the real SQL builders, only stub out MindsDB access
+jest.mock('../config/database.js', () => ({
+  ...(jest.requireActual('../config/database.js') as object),
+  executeQuery: jest.fn(),
+  getMindsDBClient: jest.fn()
+}));
+
+import { executeQuery, getMindsDBClient } from '../config/database.js';
+import {
+  InMemoryBackend,
+  MindsDBSdkBackend,
+  MindsDBSqlBackend,
+  getSupportBackend,
+  resolveBackendKind,
+  setSupportBackend
+} from '../backends/index.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { chunkMarkdown } from '../services/chunking.js';
+import { AIService } from '../services/ai.js';
+
+const mockExecuteQuery = executeQuery as jest.MockedFunction<typeof executeQuery>;
+const mockGetMindsDBClient = getMindsDBClient as jest.MockedFunction<typeof getMindsDBClient>;
+
+const entry = (id: string, title: string, content: string, overrides: Partial<KnowledgeBaseEntry> = {}): KnowledgeBaseEntry => ({
+  id,
+  title,
+  content,
+  category: 'general',
+  priority: 'medium',
+  tags: [],
+  last_updated: new Date('2025-06-24T10:00:00Z'),
+  ...overrides
+});
+
+const entries = [
+  entry('kb_password', 'Password Reset', 'Click "Forgot password" on the login page to reset your password.', { category: 'technical', priority: 'high' }),
+  entry('kb_billing', 'Billing', 'Update payment methods and view invoices under Account Settings.', { category: 'billing' }),
+  entry('kb_shipping', 'Shipping Times', 'Orders ship within two days. Express shipping is available.', { category: 'shipping', product_type: 'physical' })
+];
+
+describe('Backend selection', () => {
+  afterEach(() => {
+    delete process.env.SUPPORT_BACKEND;
+    setSupportBackend(null);
+  });
+
+  test('should select the backend from SUPPORT_BACKEND, falling back to MOCK_MODE', () => {
+    // Act & Assert
+    expect(resolveBackendKind()).toBe('memory');
+
+    process.env.SUPPORT_BACKEND = 'mindsdb-sql';
+    expect(resolveBackendKind()).toBe('mindsdb-sql');
+
+    process.env.SUPPORT_BACKEND = 'postgres';
+    expect(() => resolveBackendKind())
+      .toThrow('Unknown SUPPORT_BACKEND "postgres", expected one of: memory, mindsdb-sql, mindsdb-sdk');
+  });
+
+  test('should share one backend between services that are not given one', async () => {
+    // Arrange
+    setSupportBackend(new InMemoryBackend({ entries }));
+    const knowledgeBaseService = new KnowledgeBaseService();
+
+    // Act
+    await knowledgeBaseService.addKnowledgeBaseEntry({
+      title: 'Returns',
+      content: 'Returns are accepted within 30 days.',
+      category: 'returns',
+      priority: 'medium',
+      tags: []
+    });
+
+    // Assert
+    expect(getSupportBackend().name).toBe('memory');
+    expect((await new KnowledgeBaseService().getStats()).total_entries).toBe(4);
+  });
+});
+
+describe('InMemoryBackend', () => {
+  let service: KnowledgeBaseService;
+
+  beforeEach(() => {
+    service = new KnowledgeBaseService(new InMemoryBackend({ entries }));
+  });
+
+  test('should search with filters on the local engine', async () => {
+    // Act
+    const results = await service.searchKnowledgeBase("what's the express shipping time?", {
+      category: 'shipping',
+      relevance_threshold: 0.5,
+      limit: 5
+    });
+
+    // Assert
+    expect(results.map(result => result.id)).toEqual(['kb_shipping']);
+    expect(await service.searchKnowledgeBase('express shipping', { category: 'billing' })).toEqual([]);
+  });
+
+  test('should search entries added, updated and deleted through the service', async () => {
+    // Act
+    await service.addKnowledgeBaseEntry({
+      title: 'Return Policy',
+      content: "Returns are accepted within 30 days. Items can't be used.",
+      category: 'returns',
+      priority: 'high',
+      tags: ['returns']
+    });
+    const [added] = await service.searchKnowledgeBase('return policy', { relevance_threshold: 0.5 });
+
+    // Assert
+    expect(added).toMatchObject({ title: 'Return Policy', tags: ['returns'], category: 'returns' });
+
+    // Act
+    expect(await service.updateKnowledgeBaseEntry(added.id, { title: 'Refund Rules' })).toBe(true);
+    const [updated] = await service.searchKnowledgeBase('refund rules', { relevance_threshold: 0.5 });
+
+    // Assert
+    expect(updated.id).toBe(added.id);
+
+    // Act
+    expect(await service.deleteKnowledgeBaseEntry(added.id)).toBe(true);
+
+    // Assert
+    expect(await service.searchKnowledgeBase('refund rules', { relevance_threshold: 0.5 })).toEqual([]);
+    expect(await service.deleteKnowledgeBaseEntry(added.id)).toBe(false);
+    expect(await service.updateKnowledgeBaseEntry(added.id, { title: 'Gone' })).toBe(false);
+  });
+
+  test('should replace entries restored with an existing id', async () => {
+    // Act
+    await service.addKnowledgeBaseDocuments([{
+      content: 'Orders ship within one day.',
+      metadata: { id: 'kb_shipping', title: 'Shipping Times', category: 'shipping', last_updated: '2025-07-01T00:00:00.000Z' }
+    }]);
+
+    // Assert
+    const shipping = await service.listKnowledgeBaseEntries({ category: 'shipping' });
+    expect(shipping).toHaveLength(1);
+    expect(shipping[0]).toMatchObject({ content: 'Orders ship within one day.', last_updated: new Date('2025-07-01T00:00:00Z') });
+  });
+
+  test('should list, count and categorize entries', async () => {
+    // Act & Assert
+    expect((await service.listKnowledgeBaseEntries({ priority: 'medium', limit: 1 })).map(e => e.id)).toEqual(['kb_billing']);
+    expect(await service.getCategories()).toEqual(['billing', 'shipping', 'technical']);
+    expect(await service.getStats()).toEqual({
+      total_entries: 3,
+      by_category: { technical: 1, billing: 1, shipping: 1 },
+      by_priority: { high: 1, medium: 2 }
+    });
+  });
+
+  test('should classify and answer with keyword rules', async () => {
+    // Arrange
+    const aiService = new AIService(new InMemoryBackend({ entries }));
+
+    // Act
+    const classification = await aiService.classifyQuery('I forgot my password');
+    const answer = await aiService.generateResponse('I forgot my password', entries.slice(0, 1), classification);
+    const fallback = await aiService.generateResponse('Where is my parcel?', [], classification);
+
+    // Assert
+    expect(classification).toMatchObject({ category: 'technical', intent: 'password_reset' });
+    expect(answer.response).toContain('Forgot password');
+    expect(fallback.requires_escalation).toBe(true);
+  });
+});
+
+describe('MindsDBSdkBackend', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should fall back to the SQL table search without the SDK', async () => {
+    // Arrange
+    mockGetMindsDBClient.mockResolvedValue(null);
+    mockExecuteQuery.mockResolvedValue({ rows: [] });
+
+    // Act
+    await new MindsDBSdkBackend().search('reset password', {});
+
+    // Assert
+    expect(mockExecuteQuery).toHaveBeenCalledWith(expect.stringContaining('FROM support_knowledge_base WHERE content ='));
+  });
+
+  test('should rewrite an article under the same id when it is updated', async () => {
+    // Arrange
+    const row = {
+      id: 'kb_1_chunk_0',
+      chunk_content: 'Old text.',
+      metadata: { title: 'Guide', category: 'technical', priority: 'low', parent_id: 'kb_1', chunk_index: 0 }
+    };
+    const runQuery = jest.fn(async (sql: string) => ({ rows: sql.startsWith('SELECT') ? [row] : [] }));
+    mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+    // Act
+    const updated = await new MindsDBSdkBackend().update('kb_1', { content: 'New text.' });
+
+    // Assert
+    expect(updated).toBe(true);
+    expect(runQuery.mock.calls.map(call => call[0].split(' (')[0])).toEqual([
+      "SELECT * FROM support_kb WHERE parent_id = 'kb_1'",
+      'INSERT INTO support_kb'
+    ]);
+    expect(runQuery.mock.calls[1][0]).toContain("('kb_1_chunk_0', 'New text.', 'Guide', 'technical', 'low'");
+  });
+
+  test('should keep the stored chunks when only the metadata is updated', async () => {
+    // Arrange
+    const article = '# Reset\n\n- Unplug the router.\n- Wait thirty seconds.\n- Plug it back in.\n\nThe light turns green. Then it blinks.';
+    const rows = chunkMarkdown(article, { chunkSize: 40, chunkOverlap: 10 }).map(chunk => ({
+      id: `kb_1_chunk_${chunk.index}`,
+      chunk_content: chunk.content,
+      metadata: {
+        title: 'Guide',
+        category: 'technical',
+        priority: 'low',
+        parent_id: 'kb_1',
+        chunk_index: chunk.index,
+        chunk_overlap: chunk.overlap,
+        chunk_separator: chunk.separator
+      }
+    }));
+    const runQuery = jest.fn(async (sql: string) => ({ rows: sql.startsWith('SELECT') ? rows : [] }));
+    mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+    const backend = new MindsDBSdkBackend();
+
+    // Act
+    await backend.update('kb_1', { title: 'Router Guide' });
+    const [listed] = await backend.list({});
+
+    // Assert
+    const insert = runQuery.mock.calls[1][0];
+    expect(rows.length).toBeGreaterThan(1);
+    rows.forEach(row => expect(insert).toContain(`('${row.id}', '${row.chunk_content}', 'Router Guide', 'technical', 'low'`));
+    expect(runQuery.mock.calls.some(call => call[0].startsWith('DELETE'))).toBe(false);
+    expect(listed.content).toBe(article);
+  });
+
+  test('should delete chunks left over from a longer text only after writing the new one', async () => {
+    // Arrange
+    const rows = [0, 1].map(index => ({
+      id: `kb_1_chunk_${index}`,
+      chunk_content: `Old part ${index}.`,
+      metadata: { title: 'Guide', category: 'technical', priority: 'low', parent_id: 'kb_1', chunk_index: index }
+    }));
+    const runQuery = jest.fn(async (sql: string) => ({ rows: sql.startsWith('SELECT') ? rows : [] }));
+    mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+    // Act
+    await new MindsDBSdkBackend().update('kb_1', { content: 'Short.' });
+
+    // Assert
+    expect(runQuery.mock.calls.map(call => call[0].split(' (')[0])).toEqual([
+      "SELECT * FROM support_kb WHERE parent_id = 'kb_1'",
+      'INSERT INTO support_kb',
+      "DELETE FROM support_kb WHERE id = 'kb_1_chunk_1'"
+    ]);
+  });
+
+  test('should keep the old article when writing the update fails', async () => {
+    // Arrange
+    const row = {
+      id: 'kb_1_chunk_0',
+      chunk_content: 'Old text.',
+      metadata: { title: 'Guide', category: 'technical', priority: 'low', parent_id: 'kb_1', chunk_index: 0 }
+    };
+    const runQuery = jest.fn(async (sql: string) => {
+      if (sql.startsWith('INSERT')) throw new Error('Embedding service unavailable');
+      return { rows: sql.startsWith('SELECT') ? [row] : [] };
+    });
+    mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+    // Act & Assert
+    await expect(new MindsDBSdkBackend().update('kb_1', { content: 'New text.' })).rejects.toThrow('Embedding service unavailable');
+    expect(runQuery.mock.calls.some(call => call[0].startsWith('DELETE'))).toBe(false);
+  });
+});
+
+describe('MindsDBSqlBackend', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExecuteQuery.mockResolvedValue({ rows: [], affectedRows: 1 });
+  });
+
+  test('should write entries to the requested knowledge base', async () => {
+    // Act
+    const written = await new MindsDBSqlBackend().upsert([{ content: 'Gift cards never expire.', metadata: { title: 'Gift cards' } }], {
+      knowledgeBase: 'docs_kb'
+    });
+
+    // Assert
+    expect(written).toBe(1);
+    expect(mockExecuteQuery).toHaveBeenCalledWith(expect.stringMatching(/^INSERT INTO docs_kb /));
+  });
+
+  test('should refuse to chunk entries', async () => {
+    // Act & Assert
+    await expect(new MindsDBSqlBackend().upsert([{ content: 'Gift cards never expire.' }], { chunking: { chunkSize: 200 } }))
+      .rejects.toThrow('The mindsdb-sql backend stores entries whole; chunking needs the mindsdb-sdk backend');
+    expect(mockExecuteQuery).not.toHaveBeenCalled();
+  });
+});
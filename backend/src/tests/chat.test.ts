@@ -1,19 +1,19 @@
-import { describe, test, expect, beforeEach, jest } from '@jest/globals';
-import type { ChatRequest, ChatResponse, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { ChatRequest, ChatResponse, EscalationEvaluation, KnowledgeBaseEntry, QueryClassification, ResponseGeneration } from '../types/index.js';
 
 // Mock the services
 jest.mock('../services/knowledgeBase.js', () => ({
   KnowledgeBaseService: jest.fn().mockImplementation(() => ({
-    searchKnowledgeBase: jest.fn(),
-    searchKnowledgeBaseWithSDK: jest.fn()
+    searchKnowledgeBase: jest.fn()
   }))
 }));
 
 jest.mock('../services/ai.js', () => ({
   AIService: jest.fn().mockImplementation(() => ({
+    rewriteQuery: jest.fn(),
     classifyQuery: jest.fn(),
     generateResponse: jest.fn(),
-    shouldEscalate: jest.fn(),
+    evaluateEscalation: jest.fn(),
     getSuggestedActions: jest.fn()
   }))
 }));
@@ -21,16 +21,28 @@ jest.mock('../services/ai.js', () => ({
 import { ChatService } from '../services/chat.js';
 import { KnowledgeBaseService } from '../services/knowledgeBase.js';
 import { AIService } from '../services/ai.js';
+import { EscalationService } from '../services/escalation.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
 
 const mockKnowledgeBaseService = new KnowledgeBaseService() as jest.Mocked<KnowledgeBaseService>;
 const mockAIService = new AIService() as jest.Mocked<AIService>;
 
+const escalationResult = (requires_escalation: boolean): EscalationEvaluation => ({
+  requires_escalation,
+  fired_rules: requires_escalation
+    ? [{ id: 'category_policy', name: 'Category escalation policy', reasons: ['Billing conversations always go to a person'] }]
+    : [],
+  sentiment: 0
+});
+
 describe('ChatService', () => {
   let service: ChatService;
 
   beforeEach(() => {
     service = new ChatService(mockKnowledgeBaseService, mockAIService);
     jest.clearAllMocks();
+    mockAIService.rewriteQuery.mockImplementation(async (query) => query);
   });
 
   describe('processMessage', () => {
@@ -75,10 +87,10 @@ describe('ChatService', () => {
         requires_escalation: false
       };
 
-      mockKnowledgeBaseService.searchKnowledgeBaseWithSDK.mockResolvedValue(mockKBResults);
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue(mockKBResults);
       mockAIService.classifyQuery.mockResolvedValue(mockClassification);
       mockAIService.generateResponse.mockResolvedValue(mockGeneration);
-      mockAIService.shouldEscalate.mockResolvedValue(false);
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(false));
       mockAIService.getSuggestedActions.mockReturnValue(['Follow the password reset link']);
 
       // Act
@@ -92,8 +104,12 @@ describe('ChatService', () => {
       expect(response.requires_escalation).toBe(false);
       expect(response.conversation_id).toBe('conv_123');
       expect(response.metadata.category).toBe('technical');
+      expect(await service.getConversation('conv_123')).toMatchObject({
+        user_id: 'user_456',
+        title: 'How do I reset my password?'
+      });
 
-      expect(mockKnowledgeBaseService.searchKnowledgeBaseWithSDK).toHaveBeenCalledWith(
+      expect(mockKnowledgeBaseService.searchKnowledgeBase).toHaveBeenCalledWith(
         request.message,
         expect.objectContaining({ limit: 5, relevance_threshold: 0.7 })
       );
@@ -101,10 +117,96 @@ describe('ChatService', () => {
       expect(mockAIService.generateResponse).toHaveBeenCalledWith(
         request.message,
         mockKBResults,
-        mockClassification
+        mockClassification,
+        []
+      );
+    });
+
+    test('should use stored history to rewrite follow-ups and build the prompt', async () => {
+      // Arrange
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue([]);
+      mockAIService.classifyQuery.mockResolvedValue({
+        category: 'shipping',
+        intent: 'shipping_time',
+        confidence: 0.9,
+        entities: []
+      });
+      mockAIService.generateResponse.mockResolvedValue({
+        response: 'Standard shipping takes 3-5 business days.',
+        confidence: 0.9,
+        reasoning: 'test',
+        requires_escalation: false
+      });
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(false));
+      mockAIService.getSuggestedActions.mockReturnValue([]);
+
+      await service.processMessage({ message: 'Do you ship to Canada?', conversation_id: 'conv_follow' });
+      mockAIService.rewriteQuery.mockResolvedValue('Do you ship to Canada? and how long does that take?');
+
+      // Act
+      await service.processMessage({
+        message: 'and how long does that take?',
+        conversation_id: 'conv_follow',
+        // Client-supplied context is not trusted for history
+        context: { previous_messages: [] }
+      });
+
+      // Assert
+      const history = mockAIService.rewriteQuery.mock.calls[1][1];
+      expect(history.map(msg => msg.content)).toEqual([
+        'Do you ship to Canada?',
+        'Standard shipping takes 3-5 business days.'
+      ]);
+      expect(mockAIService.classifyQuery).toHaveBeenLastCalledWith('Do you ship to Canada? and how long does that take?');
+      expect(mockKnowledgeBaseService.searchKnowledgeBase).toHaveBeenLastCalledWith(
+        'Do you ship to Canada? and how long does that take?',
+        expect.any(Object)
+      );
+      expect(mockAIService.generateResponse).toHaveBeenLastCalledWith(
+        'and how long does that take?',
+        [],
+        expect.any(Object),
+        history
       );
     });
 
+    test('should report pipeline stages to the event callback', async () => {
+      // Arrange
+      const classification: QueryClassification = {
+        category: 'technical',
+        intent: 'password_reset',
+        confidence: 0.9,
+        entities: []
+      };
+
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue([]);
+      mockAIService.classifyQuery.mockResolvedValue(classification);
+      mockAIService.generateResponse.mockResolvedValue({
+        response: 'Use the reset link.',
+        confidence: 0.9,
+        reasoning: 'test',
+        requires_escalation: false
+      });
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(false));
+      mockAIService.getSuggestedActions.mockReturnValue([]);
+
+      const events: string[] = [];
+      let streamedText = '';
+
+      // Act
+      const response = await service.processMessage(
+        { message: 'How do I reset my password?', conversation_id: 'conv_stream' },
+        (event) => {
+          events.push(event.type);
+          if (event.type === 'token') streamedText += event.data.text;
+        }
+      );
+
+      // Assert
+      expect(events).toEqual(['classified', 'sources', 'token', 'token', 'token', 'token']);
+      expect(streamedText).toBe(response.message);
+    });
+
     test('should handle queries with no relevant knowledge base results', async () => {
       // Arrange
       const request: ChatRequest = {
@@ -113,7 +215,7 @@ describe('ChatService', () => {
         user_id: 'user_456'
       };
 
-      mockKnowledgeBaseService.searchKnowledgeBaseWithSDK.mockResolvedValue([]);
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue([]);
       mockAIService.classifyQuery.mockResolvedValue({
         category: 'billing',
         intent: 'billing_inquiry',
@@ -126,7 +228,7 @@ describe('ChatService', () => {
         reasoning: 'No specific knowledge base entries found for this billing query.',
         requires_escalation: true
       });
-      mockAIService.shouldEscalate.mockResolvedValue(true);
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(true));
       mockAIService.getSuggestedActions.mockReturnValue(['Contact billing support']);
 
       // Act
@@ -140,6 +242,71 @@ describe('ChatService', () => {
       expect(response.suggested_actions).toContain('Contact billing support');
     });
 
+    test('should queue escalated conversations for a human agent', async () => {
+      // Arrange
+      const conversations = new InMemoryConversationRepository();
+      const escalations = new EscalationService(conversations, new InMemoryEscalationRepository());
+      service = new ChatService(mockKnowledgeBaseService, mockAIService, conversations, escalations);
+
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue([]);
+      mockAIService.classifyQuery.mockResolvedValue({
+        category: 'billing',
+        intent: 'refund_request',
+        confidence: 0.8,
+        entities: []
+      });
+      mockAIService.generateResponse.mockResolvedValue({
+        response: 'Let me connect you with a billing specialist.',
+        confidence: 0.5,
+        reasoning: 'Refund disputes need a human.',
+        requires_escalation: true
+      });
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(true));
+      mockAIService.getSuggestedActions.mockReturnValue([]);
+
+      // Act
+      const response = await service.processMessage({
+        message: 'I want a refund for a duplicate charge',
+        conversation_id: 'conv_refund',
+        user_id: 'user_456'
+      });
+
+      // Assert
+      const tickets = await escalations.listTickets();
+      expect(tickets).toHaveLength(1);
+      expect(response.escalation_ticket_id).toBe(tickets[0].id);
+      expect(response.escalation?.fired_rules.map(rule => rule.id)).toEqual(['category_policy']);
+      expect(tickets[0]).toMatchObject({
+        conversation_id: 'conv_refund',
+        user_id: 'user_456',
+        status: 'open',
+        priority: response.metadata.priority,
+        category: 'billing'
+      });
+      expect((await conversations.getConversation('conv_refund'))?.status).toBe('escalated');
+    });
+
+    test('should not answer while a human agent has taken over', async () => {
+      // Arrange
+      const conversations = new InMemoryConversationRepository();
+      const escalations = new EscalationService(conversations, new InMemoryEscalationRepository());
+      service = new ChatService(mockKnowledgeBaseService, mockAIService, conversations, escalations);
+
+      await conversations.upsertConversation('conv_taken');
+      const ticket = await escalations.takeOverConversation('conv_taken', 'agent_1');
+
+      // Act
+      const response = await service.processMessage({
+        message: 'Are you still there?',
+        conversation_id: 'conv_taken'
+      });
+
+      // Assert
+      expect(mockAIService.generateResponse).not.toHaveBeenCalled();
+      expect(response.escalation_ticket_id).toBe(ticket?.id);
+      expect((await conversations.getMessages('conv_taken')).map(msg => msg.content)).toEqual(['Are you still there?']);
+    });
+
     test('should handle low-confidence queries appropriately', async () => {
       // Arrange
       const request: ChatRequest = {
@@ -148,7 +315,7 @@ describe('ChatService', () => {
         user_id: 'user_456'
       };
 
-      mockKnowledgeBaseService.searchKnowledgeBaseWithSDK.mockResolvedValue([]);
+      mockKnowledgeBaseService.searchKnowledgeBase.mockResolvedValue([]);
       mockAIService.classifyQuery.mockResolvedValue({
         category: 'general',
         intent: 'unclear',
@@ -161,7 +328,7 @@ describe('ChatService', () => {
         reasoning: 'Query intent unclear, providing general greeting.',
         requires_escalation: false
       });
-      mockAIService.shouldEscalate.mockResolvedValue(false);
+      mockAIService.evaluateEscalation.mockResolvedValue(escalationResult(false));
       mockAIService.getSuggestedActions.mockReturnValue(['Try rephrasing your question']);
 
       // Act
@@ -181,7 +348,7 @@ describe('ChatService', () => {
         user_id: 'user_456'
       };
 
-      mockKnowledgeBaseService.searchKnowledgeBaseWithSDK.mockRejectedValue(new Error('Database error'));
+      mockKnowledgeBaseService.searchKnowledgeBase.mockRejectedValue(new Error('Database error'));
 
       // Act & Assert
       await expect(service.processMessage(request)).rejects.toThrow('Failed to process message');
@@ -205,17 +372,60 @@ describe('ChatService', () => {
   });
 
   describe('getUserConversations', () => {
-    test('should return user conversations for valid user', async () => {
-      // This would require mocking a database or storage service
-      const userId = 'user_456';
-      
-      try {
-        const conversations = await service.getUserConversations(userId);
-        expect(Array.isArray(conversations)).toBe(true);
-      } catch (error) {
-        // Expected since we don't have a real implementation yet
-        expect(error).toBeDefined();
-      }
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should page through only the user\'s conversations with titles and previews', async () => {
+      // Arrange
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      const conversations = new InMemoryConversationRepository();
+      service = new ChatService(mockKnowledgeBaseService, mockAIService, conversations);
+      const answer = 'To request a refund, open your order history, choose the order and select "Request refund". '.repeat(2);
+
+      jest.setSystemTime(new Date('2025-06-24T10:00:00Z'));
+      await conversations.upsertConversation('conv_old', { user_id: 'user_456' });
+      await conversations.addMessage('conv_old', { id: 'msg_1', content: 'How   do I reset\nmy password?', role: 'user', timestamp: new Date() });
+      await conversations.upsertConversation('conv_other', { user_id: 'user_789' });
+
+      jest.setSystemTime(new Date('2025-06-24T11:00:00Z'));
+      await conversations.upsertConversation('conv_new', { user_id: 'user_456', title: 'Refund for order 1234' });
+      await conversations.addMessage('conv_new', { id: 'msg_2', content: 'I want a refund', role: 'user', timestamp: new Date() });
+      await conversations.addMessage('conv_new', { id: 'msg_3', content: answer, role: 'assistant', timestamp: new Date() });
+
+      // Act
+      const first = await service.getUserConversations('user_456', { limit: 1 });
+      const second = await service.getUserConversations('user_456', { limit: 1, offset: 1 });
+      const oldestFirst = await service.getUserConversations('user_456', { sort: 'created_at', order: 'asc' });
+
+      // Assert
+      expect(first).toMatchObject({ user_id: 'user_456', total: 2, limit: 1, offset: 0 });
+      expect(first.conversations).toHaveLength(1);
+      expect(first.conversations[0]).toMatchObject({ id: 'conv_new', title: 'Refund for order 1234', message_count: 2 });
+      expect(first.conversations[0].last_message?.role).toBe('assistant');
+      expect(first.conversations[0].last_message?.content).toHaveLength(120);
+      expect(first.conversations[0].last_message?.content.endsWith('…')).toBe(true);
+
+      expect(second.conversations[0]).toMatchObject({ id: 'conv_old', title: 'How do I reset my password?', message_count: 1 });
+      expect(oldestFirst.conversations.map(conversation => conversation.id)).toEqual(['conv_old', 'conv_new']);
+    });
+  });
+
+  describe('renameConversation', () => {
+    test('should replace the title of an existing conversation only', async () => {
+      // Arrange
+      const conversations = new InMemoryConversationRepository();
+      service = new ChatService(mockKnowledgeBaseService, mockAIService, conversations);
+      await conversations.upsertConversation('conv_123', { user_id: 'user_456', title: 'How do I reset my password?' });
+
+      // Act
+      const renamed = await service.renameConversation('conv_123', 'Password reset');
+      const missing = await service.renameConversation('conv_missing', 'Anything');
+
+      // Assert
+      expect(renamed).toMatchObject({ id: 'conv_123', user_id: 'user_456', title: 'Password reset' });
+      expect(missing).toBeNull();
+      expect(await conversations.getConversation('conv_missing')).toBeNull();
     });
   });
 
@@ -0,0 +1,230 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket, type WebSocketServer } from 'ws';
+import { attachChatSocket } from '../routes/chatSocket.js';
+import { AuthService, parseApiKeys } from '../services/auth.js';
+import { ChatService } from '../services/chat.js';
+import { AIService } from '../services/ai.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { EscalationService } from '../services/escalation.js';
+import { EscalationRulesService } from '../services/escalationRules.js';
+import { ObservedConversationRepository } from '../services/conversationEvents.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
+import type { ChatSocketServerFrame } from '../schemas/chatSocket.js';
+
+interface TestClient {
+  socket: WebSocket;
+  send: (frame: Record<string, unknown>) => void;
+  /** Resolves with the first frame received, or already received, that matches */
+  next: (match: (frame: ChatSocketServerFrame) => boolean) => Promise<ChatSocketServerFrame>;
+  frames: ChatSocketServerFrame[];
+}
+
+describe('Chat socket', () => {
+  let server: Server;
+  let wss: WebSocketServer;
+  let auth: AuthService;
+  let conversations: ObservedConversationRepository;
+  let escalations: EscalationService;
+  let chatService: ChatService;
+  const clients: WebSocket[] = [];
+
+  async function connect(headers: Record<string, string> = {}, query = ''): Promise<TestClient> {
+    const { port } = server.address() as AddressInfo;
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/api/chat/socket${query}`, { headers });
+    clients.push(socket);
+
+    const frames: ChatSocketServerFrame[] = [];
+    const waiting: Array<{ match: (frame: ChatSocketServerFrame) => boolean; resolve: (frame: ChatSocketServerFrame) => void }> = [];
+    socket.on('message', data => {
+      const frame = JSON.parse(data.toString()) as ChatSocketServerFrame;
+      frames.push(frame);
+      waiting.filter(waiter => waiter.match(frame)).forEach(waiter => {
+        waiting.splice(waiting.indexOf(waiter), 1);
+        waiter.resolve(frame);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+    });
+
+    return {
+      socket,
+      frames,
+      send: frame => socket.send(JSON.stringify(frame)),
+      next: match => {
+        const received = frames.find(match);
+        if (received) return Promise.resolve(received);
+        return new Promise(resolve => waiting.push({ match, resolve }));
+      }
+    };
+  }
+
+  async function connectCustomer(): Promise<{ client: TestClient; userId: string }> {
+    const session = auth.startCustomerSession();
+    return { client: await connect({}, `?token=${session.token}`), userId: session.user.id };
+  }
+
+  beforeEach(async () => {
+    auth = new AuthService({ secret: 'test-secret', apiKeys: parseApiKeys('agent-key:agent:helpdesk') });
+    const backend = new InMemoryBackend();
+    conversations = new ObservedConversationRepository(new InMemoryConversationRepository());
+    escalations = new EscalationService(conversations, new InMemoryEscalationRepository());
+    chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend, new EscalationRulesService({ rules: [] })),
+      conversations,
+      escalations
+    );
+
+    server = createServer();
+    wss = attachChatSocket(server, { chatService, events: conversations.events, authService: auth });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(socket => socket.terminate());
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should turn away connections without valid credentials', async () => {
+    await expect(connect()).rejects.toThrow('Unexpected server response: 401');
+    await expect(connect({}, '?token=not-a-token')).rejects.toThrow('Unexpected server response: 401');
+    await expect(connect({ 'X-API-Key': 'agent-key' })).resolves.toBeDefined();
+  });
+
+  test('should acknowledge and answer messages, answering a resent message only once', async () => {
+    // Arrange
+    const { client, userId } = await connectCustomer();
+
+    // Act
+    client.send({ type: 'message', client_id: 'local_1', message: 'How do I reset my password?' });
+    const ack = await client.next(frame => frame.type === 'ack');
+    const reply = await client.next(frame => frame.type === 'reply');
+
+    const reconnected = await connect({}, `?token=${auth.issueSession({ id: userId, role: 'customer' }).token}`);
+    reconnected.send({ type: 'message', client_id: 'local_1', conversation_id: ack.type === 'ack' ? ack.conversation_id : undefined, message: 'How do I reset my password?' });
+    const resentReply = await reconnected.next(frame => frame.type === 'reply');
+
+    // Assert
+    expect(ack).toMatchObject({ type: 'ack', client_id: 'local_1', conversation_id: expect.stringMatching(/^conv_/) });
+    expect(reply).toMatchObject({ type: 'reply', client_id: 'local_1' });
+    expect(resentReply).toEqual(reply);
+
+    const conversationId = ack.type === 'ack' ? ack.conversation_id : '';
+    expect(await conversations.getMessages(conversationId)).toHaveLength(2);
+    expect((await conversations.getConversation(conversationId))?.user_id).toBe(userId);
+  });
+
+  test('should push human agent replies and status changes to subscribers', async () => {
+    // Arrange
+    const { client, userId } = await connectCustomer();
+    await conversations.upsertConversation('conv_billing', { user_id: userId });
+    const ticket = await escalations.createTicket({
+      conversation_id: 'conv_billing',
+      user_id: userId,
+      priority: 'high',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+    client.send({ type: 'subscribe', conversation_id: 'conv_billing' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Act
+    await escalations.replyToTicket(ticket.id, 'agent_1', 'I have refunded the second charge.');
+    await escalations.resolveTicket(ticket.id, 'agent_1');
+
+    // Assert
+    const message = await client.next(frame => frame.type === 'message');
+    expect(message).toMatchObject({
+      conversation_id: 'conv_billing',
+      data: { role: 'agent', content: 'I have refunded the second charge.' }
+    });
+    expect(await client.next(frame => frame.type === 'status' && frame.status === 'resolved')).toEqual({
+      type: 'status',
+      conversation_id: 'conv_billing',
+      status: 'resolved'
+    });
+  });
+
+  test('should relay typing and read receipts, and keep customers out of others\' conversations', async () => {
+    // Arrange
+    const { client: customer, userId } = await connectCustomer();
+    const agent = await connect({ 'X-API-Key': 'agent-key' });
+    const { client: stranger } = await connectCustomer();
+    await conversations.upsertConversation('conv_billing', { user_id: userId });
+
+    customer.send({ type: 'subscribe', conversation_id: 'conv_billing' });
+    agent.send({ type: 'subscribe', conversation_id: 'conv_billing' });
+    stranger.send({ type: 'subscribe', conversation_id: 'conv_billing' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Act
+    agent.send({ type: 'typing', conversation_id: 'conv_billing', is_typing: true });
+    customer.send({ type: 'read', conversation_id: 'conv_billing', message_id: 'msg_1_agent' });
+    stranger.send({ type: 'typing', conversation_id: 'conv_billing', is_typing: true });
+
+    // Assert
+    expect(await customer.next(frame => frame.type === 'typing')).toEqual({
+      type: 'typing', conversation_id: 'conv_billing', role: 'agent', is_typing: true
+    });
+    expect(await agent.next(frame => frame.type === 'read')).toMatchObject({
+      type: 'read', conversation_id: 'conv_billing', role: 'customer', message_id: 'msg_1_agent'
+    });
+    expect(await stranger.next(frame => frame.type === 'error')).toEqual({
+      type: 'error', error: 'Conversation "conv_billing" belongs to another user'
+    });
+    expect(await stranger.next(frame => frame.type === 'error' && frame.error.startsWith('Subscribe'))).toBeDefined();
+    expect(customer.frames.filter(frame => frame.type === 'typing')).toHaveLength(1);
+  });
+
+  test('should not let staff message the assistant', async () => {
+    // Arrange
+    const { userId } = await connectCustomer();
+    const agent = await connect({ 'X-API-Key': 'agent-key' });
+    await conversations.upsertConversation('conv_billing', { user_id: userId });
+
+    // Act
+    agent.send({ type: 'message', client_id: 'local_1', conversation_id: 'conv_billing', message: 'Hello from support' });
+    const error = await agent.next(frame => frame.type === 'error');
+
+    // Assert
+    expect(error).toEqual({
+      type: 'error',
+      client_id: 'local_1',
+      error: 'Only customers can message the assistant; agents reply through escalation tickets'
+    });
+    expect(agent.frames.some(frame => frame.type === 'ack')).toBe(false);
+    expect(await conversations.getMessages('conv_billing')).toHaveLength(0);
+  });
+
+  test('should report invalid frames', async () => {
+    const { client } = await connectCustomer();
+
+    client.send({ type: 'message', client_id: 'local_1' });
+
+    expect(await client.next(frame => frame.type === 'error')).toEqual({ type: 'error', error: 'message: Required' });
+  });
+
+  test('should drop a connection that sends a broken frame and keep serving others', async () => {
+    // Arrange
+    const { client } = await connectCustomer();
+    const closed = new Promise(resolve => client.socket.once('close', resolve));
+
+    // Act: an unmasked text frame, which clients must never send
+    const raw = (client.socket as unknown as { _socket: import('net').Socket })._socket;
+    raw.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+    await closed;
+
+    // Assert
+    const { client: other } = await connectCustomer();
+    other.send({ type: 'message', client_id: 'local_1', message: 'Hello' });
+    expect(await other.next(frame => frame.type === 'reply')).toMatchObject({ type: 'reply', client_id: 'local_1' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { chunkMarkdown, joinChunks, resolveChunkingOptions } from '../services/chunking.js';
+
+const manual = [
+  '# Router Manual',
+  '',
+  'Thanks for buying the router.',
+  '',
+  '## Setup',
+  '',
+  '### Install',
+  '',
+  'Plug the router into power. Wait for the light to turn green. Connect the cable to your modem.',
+  '',
+  '```',
+  '# not a heading',
+  '```',
+  '',
+  '## Troubleshooting',
+  '',
+  'Restart the router if the light blinks red.'
+].join('\n');
+
+describe('Document chunking', () => {
+  afterEach(() => {
+    delete process.env.KB_CHUNK_SIZE;
+    delete process.env.KB_CHUNK_OVERLAP;
+  });
+
+  test('should keep a short article in one chunk', () => {
+    // Act
+    const chunks = chunkMarkdown('Refunds are issued within 14 days.');
+
+    // Assert
+    expect(chunks).toEqual([{ index: 0, content: 'Refunds are issued within 14 days.', heading: undefined, overlap: 0, separator: '' }]);
+  });
+
+  test('should split at headings, keeping headings with their text', () => {
+    // Act
+    const chunks = chunkMarkdown(manual, { chunkSize: 120, chunkOverlap: 0 });
+
+    // Assert
+    expect(chunks.map(chunk => chunk.heading)).toEqual([
+      'Router Manual',
+      'Router Manual > Setup',
+      'Router Manual > Setup > Install'
+    ]);
+    expect(chunks[0].content).toBe('# Router Manual\n\nThanks for buying the router.');
+    expect(chunks[1].content).toMatch(/^## Setup\n\n### Install\n\nPlug the router/);
+    expect(chunks[2].content).toBe('```\n# not a heading\n```\n\n## Troubleshooting\n\nRestart the router if the light blinks red.');
+    expect(chunks.every(chunk => chunk.content.length <= 120)).toBe(true);
+  });
+
+  test('should repeat the end of the previous chunk within a section', () => {
+    // Arrange
+    const paragraph = 'One sentence here. Another sentence follows. A third one ends it.';
+
+    // Act
+    const chunks = chunkMarkdown(paragraph, { chunkSize: 30, chunkOverlap: 10 });
+
+    // Assert
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'One sentence here.',
+      'here.\nAnother sentence follows.',
+      'follows.\nA third one ends it.'
+    ]);
+    expect(chunks.map(chunk => chunk.overlap)).toEqual([0, 6, 9]);
+  });
+
+  test('should not overlap across headings', () => {
+    // Act
+    const chunks = chunkMarkdown('# A\n\nFirst section text.\n\n# B\n\nSecond section text.', { chunkSize: 25, chunkOverlap: 10 });
+
+    // Assert
+    expect(chunks.map(chunk => chunk.overlap)).toEqual([0, 0]);
+  });
+
+  test('should join chunks back together without the overlap', () => {
+    // Arrange
+    const paragraph = 'One sentence here.\n\nAnother sentence follows.\n\nA third one ends it.';
+    const chunks = chunkMarkdown(paragraph, { chunkSize: 30, chunkOverlap: 10 })
+      .map(chunk => ({ chunk_index: chunk.index, content: chunk.content, overlap: chunk.overlap }));
+
+    // Act & Assert
+    expect(joinChunks([...chunks].reverse())).toBe(paragraph);
+    expect(joinChunks([chunks[0], chunks[2]])).toBe('One sentence here.\n\nfollows.\nA third one ends it.');
+  });
+
+  test('should restore long paragraphs, lists and code blocks exactly', () => {
+    // Arrange
+    const paragraph = [
+      'Restart the router first. If the light stays red, check the cable!',
+      'Still red? Call your provider.  They can reset the line remotely.'
+    ].join('\n');
+    const list = [
+      '## Checklist',
+      '',
+      '- Unplug the router.',
+      '- Wait thirty seconds.',
+      '  - Longer if it is hot.',
+      '- Plug it back in.',
+      '- Wait for the green light.'
+    ].join('\n');
+    const code = [
+      '```bash',
+      'curl -X POST https://router.local/api/reset \\',
+      '  -H "Authorization: Bearer $TOKEN"',
+      '',
+      '',
+      'echo done',
+      '```'
+    ].join('\n');
+
+    // Act & Assert
+    for (const article of [paragraph, list, code, `${paragraph}\n\n${list}\r\n\r\n${code}\n`]) {
+      const chunks = chunkMarkdown(article, { chunkSize: 40, chunkOverlap: 10 });
+      const stored = chunks.map(chunk => ({
+        chunk_index: chunk.index,
+        content: chunk.content,
+        overlap: chunk.overlap,
+        separator: chunk.separator
+      }));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(joinChunks(stored)).toBe(article);
+    }
+  });
+
+  test('should read defaults from the environment and reject invalid settings', () => {
+    // Arrange
+    process.env.KB_CHUNK_SIZE = '500';
+    process.env.KB_CHUNK_OVERLAP = '50';
+
+    // Act & Assert
+    expect(resolveChunkingOptions()).toEqual({ chunkSize: 500, chunkOverlap: 50 });
+    expect(resolveChunkingOptions({ chunkOverlap: 0 })).toEqual({ chunkSize: 500, chunkOverlap: 0 });
+    expect(() => resolveChunkingOptions({ chunkSize: 100, chunkOverlap: 100 }))
+      .toThrow('Chunk overlap must be between 0 and the chunk size');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ChatMessage } from '../types/index.js';
+import {
+  InMemoryConversationRepository,
+  SqliteConversationRepository,
+  type ConversationRepository
+} from '../repositories/conversationRepository.js';
+
+const userMessage: ChatMessage = {
+  id: 'msg_1_user',
+  content: 'How do I reset my password?',
+  role: 'user',
+  timestamp: new Date('2025-06-24T12:00:00Z')
+};
+
+const assistantMessage: ChatMessage = {
+  id: 'msg_1_assistant',
+  content: 'Go to the login page and click "Forgot Password".',
+  role: 'assistant',
+  timestamp: new Date('2025-06-24T12:00:01Z'),
+  metadata: {
+    confidence: 0.9,
+    sources: ['Password Reset Guide'],
+    category: 'technical',
+    priority: 'medium'
+  }
+};
+
+const implementations: Array<[string, () => ConversationRepository]> = [
+  ['InMemoryConversationRepository', () => new InMemoryConversationRepository()],
+  ['SqliteConversationRepository', () => new SqliteConversationRepository(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: ConversationRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  test('should store messages in order and create the conversation', async () => {
+    // Act
+    await repository.addMessage('conv_1', userMessage);
+    await repository.addMessage('conv_1', assistantMessage);
+
+    // Assert
+    const messages = await repository.getMessages('conv_1');
+    expect(messages).toEqual([userMessage, assistantMessage]);
+
+    const conversation = await repository.getConversation('conv_1');
+    expect(conversation?.status).toBe('active');
+    expect(conversation?.created_at).toBeInstanceOf(Date);
+  });
+
+  test('should record user and status without overwriting them with undefined', async () => {
+    // Act
+    await repository.upsertConversation('conv_1', { user_id: 'user_1' });
+    await repository.upsertConversation('conv_1', { status: 'escalated' });
+    await repository.upsertConversation('conv_1');
+
+    // Assert
+    const conversation = await repository.getConversation('conv_1');
+    expect(conversation?.user_id).toBe('user_1');
+    expect(conversation?.status).toBe('escalated');
+  });
+
+  test('should keep the first owner and title until the title is changed', async () => {
+    // Act
+    await repository.upsertConversation('conv_1', { user_id: 'user_1', title: 'Password reset' });
+    await repository.upsertConversation('conv_1', { user_id: 'user_2' });
+    const untitled = await repository.getConversation('conv_1');
+    await repository.upsertConversation('conv_1', { title: 'Locked out' });
+
+    // Assert
+    expect(untitled).toMatchObject({ user_id: 'user_1', title: 'Password reset' });
+    expect((await repository.getConversation('conv_1'))?.title).toBe('Locked out');
+  });
+
+  test('should list and count a user\'s conversations in pages', async () => {
+    // Arrange
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      for (const [index, conversationId] of ['conv_1', 'conv_2', 'conv_3'].entries()) {
+        jest.setSystemTime(new Date(Date.UTC(2025, 5, 24, 12, index)));
+        await repository.upsertConversation(conversationId, { user_id: 'user_1' });
+      }
+      await repository.upsertConversation('conv_4', { user_id: 'user_2' });
+      // Touching the first conversation makes it the most recently active
+      jest.setSystemTime(new Date(Date.UTC(2025, 5, 24, 13)));
+      await repository.upsertConversation('conv_1');
+    } finally {
+      jest.useRealTimers();
+    }
+
+    // Act
+    const ids = async (query: Parameters<ConversationRepository['listConversations']>[0]) =>
+      (await repository.listConversations(query)).map(conversation => conversation.id);
+
+    // Assert
+    expect(await ids({ user_id: 'user_1' })).toEqual(['conv_1', 'conv_3', 'conv_2']);
+    expect(await ids({ user_id: 'user_1', limit: 2, offset: 1 })).toEqual(['conv_3', 'conv_2']);
+    expect(await ids({ user_id: 'user_1', sort: 'created_at', order: 'asc', limit: 2 })).toEqual(['conv_1', 'conv_2']);
+    expect(await repository.countConversations({ user_id: 'user_1' })).toBe(3);
+    expect(await repository.countConversations()).toBe(4);
+  });
+
+  test('should delete a conversation with its messages', async () => {
+    // Arrange
+    await repository.addMessage('conv_1', userMessage);
+
+    // Act
+    const deleted = await repository.deleteConversation('conv_1');
+
+    // Assert
+    expect(deleted).toBe(true);
+    expect(await repository.getMessages('conv_1')).toEqual([]);
+    expect(await repository.getConversation('conv_1')).toBeNull();
+    expect(await repository.deleteConversation('conv_1')).toBe(false);
+  });
+
+  test('should report conversation, message and escalation counts', async () => {
+    // Arrange
+    await repository.addMessage('conv_1', userMessage);
+    await repository.addMessage('conv_1', assistantMessage);
+    await repository.addMessage('conv_2', userMessage);
+    await repository.upsertConversation('conv_2', { status: 'escalated' });
+
+    // Act
+    const stats = await repository.getStats();
+
+    // Assert
+    expect(stats).toEqual({
+      total_conversations: 2,
+      total_messages: 3,
+      escalated_conversations: 1
+    });
+  });
+});
+
+describe('SqliteConversationRepository persistence', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should add the title column to stores created before it existed', async () => {
+    // Arrange
+    const filename = path.join(tempDir, 'conversations.db');
+    const legacy = new Database(filename);
+    legacy.exec(`
+      CREATE TABLE conversations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        status TEXT NOT NULL DEFAULT 'active',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      INSERT INTO conversations VALUES ('conv_1', 'user_1', 'active', '2025-06-24T12:00:00.000Z', '2025-06-24T12:00:00.000Z');
+    `);
+    legacy.close();
+
+    // Act
+    const repository = new SqliteConversationRepository(filename);
+    await repository.upsertConversation('conv_1', { title: 'Password reset' });
+    const conversation = await repository.getConversation('conv_1');
+    repository.close();
+
+    // Assert
+    expect(conversation).toMatchObject({ user_id: 'user_1', title: 'Password reset' });
+  });
+
+  test('should keep history across repository instances using the same file', async () => {
+    // Arrange
+    const filename = path.join(tempDir, 'nested', 'conversations.db');
+    const first = new SqliteConversationRepository(filename);
+    await first.upsertConversation('conv_1', { user_id: 'user_1' });
+    await first.addMessage('conv_1', userMessage);
+    first.close();
+
+    // Act
+    const second = new SqliteConversationRepository(filename);
+    const messages = await second.getMessages('conv_1');
+    const conversation = await second.getConversation('conv_1');
+    second.close();
+
+    // Assert
+    expect(messages).toEqual([userMessage]);
+    expect(conversation?.user_id).toBe('user_1');
+  });
+});
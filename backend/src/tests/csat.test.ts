@@ -0,0 +1,185 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { CsatService, CsatStateError } from '../services/csat.js';
+import { createCsatRouter } from '../routes/csat.js';
+import { createChatRouter } from '../routes/chat.js';
+import { ChatService, ConversationStateError } from '../services/chat.js';
+import { AIService } from '../services/ai.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { EscalationService } from '../services/escalation.js';
+import { EscalationRulesService } from '../services/escalationRules.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
+import {
+  InMemoryCsatRepository,
+  SqliteCsatRepository,
+  type CsatRepository
+} from '../repositories/csatRepository.js';
+import type { CsatResponse } from '../types/index.js';
+
+function buildResponse(overrides: Partial<CsatResponse>): CsatResponse {
+  return {
+    id: 'csat_1',
+    conversation_id: 'conv_1',
+    rating: 4,
+    category: 'returns',
+    escalated: false,
+    created_at: new Date('2025-06-24T12:00:00Z'),
+    updated_at: new Date('2025-06-24T12:00:00Z'),
+    ...overrides
+  };
+}
+
+const implementations: Array<[string, () => CsatRepository]> = [
+  ['InMemoryCsatRepository', () => new InMemoryCsatRepository()],
+  ['SqliteCsatRepository', () => new SqliteCsatRepository(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: CsatRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  test('should keep one response per conversation and filter by category and escalation', async () => {
+    // Arrange
+    const changed = buildResponse({ rating: 2, comment: 'Took too long', updated_at: new Date('2025-06-24T12:05:00Z') });
+    const escalated = buildResponse({
+      id: 'csat_2',
+      conversation_id: 'conv_2',
+      category: 'billing',
+      escalated: true,
+      updated_at: new Date('2025-06-24T12:10:00Z')
+    });
+
+    // Act
+    await repository.saveResponse(buildResponse({}));
+    await repository.saveResponse(changed);
+    await repository.saveResponse(escalated);
+
+    // Assert
+    expect(await repository.getResponse('conv_1')).toEqual(changed);
+    expect((await repository.listResponses()).map(response => response.id)).toEqual(['csat_2', 'csat_1']);
+    expect(await repository.listResponses({ escalated: true })).toEqual([escalated]);
+    expect(await repository.listResponses({ category: 'returns', escalated: false })).toEqual([changed]);
+  });
+});
+
+describe('Conversation lifecycle and CSAT', () => {
+  let conversations: InMemoryConversationRepository;
+  let escalationService: EscalationService;
+  let chatService: ChatService;
+  let csatService: CsatService;
+
+  beforeEach(() => {
+    const backend = new InMemoryBackend();
+    conversations = new InMemoryConversationRepository();
+    escalationService = new EscalationService(conversations, new InMemoryEscalationRepository());
+    chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend, new EscalationRulesService({ rules: [] })),
+      conversations,
+      escalationService
+    );
+    csatService = new CsatService(conversations, escalationService, new InMemoryCsatRepository());
+  });
+
+  test('should resolve a conversation, close its ticket and reopen it on the next message', async () => {
+    // Arrange
+    await chatService.processMessage({ message: 'How do I reset my password?', conversation_id: 'conv_1' });
+    const ticket = await escalationService.createTicket({
+      conversation_id: 'conv_1', priority: 'medium', category: 'technical', reason: 'Still locked out'
+    });
+
+    // Act
+    const resolved = await chatService.resolveConversation('conv_1');
+
+    // Assert
+    expect(resolved?.status).toBe('resolved');
+    expect((await escalationService.getTicket(ticket.id))?.resolution_note).toBe('Resolved by the customer');
+    await expect(chatService.closeConversation('conv_1')).rejects.toThrow(ConversationStateError);
+    expect(await chatService.resolveConversation('conv_missing')).toBeNull();
+
+    await chatService.processMessage({ message: 'One more question', conversation_id: 'conv_1' });
+    expect((await chatService.getConversation('conv_1'))?.status).toBe('active');
+  });
+
+  test('should only accept surveys for conversations that have ended', async () => {
+    // Arrange
+    await chatService.processMessage({ message: 'How do I reset my password?', conversation_id: 'conv_1' });
+
+    // Act & Assert
+    await expect(csatService.submitResponse({ conversation_id: 'conv_1', rating: 5 })).rejects.toThrow(CsatStateError);
+    expect(await csatService.submitResponse({ conversation_id: 'conv_missing', rating: 5 })).toBeNull();
+
+    await chatService.closeConversation('conv_1');
+    const response = await csatService.submitResponse({ conversation_id: 'conv_1', rating: 5, comment: 'Quick answer' });
+    expect(response).toMatchObject({ rating: 5, category: 'technical', escalated: false });
+  });
+
+  test('should aggregate ratings by category and escalation', async () => {
+    // Arrange
+    for (const [conversationId, message] of [['conv_1', 'How do I reset my password?'], ['conv_2', 'Can I talk to someone?']]) {
+      await chatService.processMessage({ message, conversation_id: conversationId });
+    }
+    await escalationService.createTicket({ conversation_id: 'conv_2', priority: 'high', category: 'general', reason: 'Wants a person' });
+    await chatService.resolveConversation('conv_1');
+    await chatService.resolveConversation('conv_2');
+
+    // Act
+    await csatService.submitResponse({ conversation_id: 'conv_1', rating: 5 });
+    await csatService.submitResponse({ conversation_id: 'conv_2', rating: 2 });
+    const stats = await csatService.getStats();
+
+    // Assert
+    expect(stats).toEqual({
+      responses: 2,
+      average_rating: 3.5,
+      satisfaction_rate: 0.5,
+      by_category: {
+        technical: { responses: 1, average_rating: 5, satisfaction_rate: 1 },
+        general: { responses: 1, average_rating: 2, satisfaction_rate: 0 }
+      },
+      by_escalation: {
+        escalated: { responses: 1, average_rating: 2, satisfaction_rate: 0 },
+        not_escalated: { responses: 1, average_rating: 5, satisfaction_rate: 1 }
+      }
+    });
+  });
+
+  describe('routes', () => {
+    let app: express.Application;
+
+    beforeEach(async () => {
+      await chatService.processMessage({ message: 'How do I reset my password?', conversation_id: 'conv_1' });
+
+      app = express();
+      app.use(express.json());
+      app.use('/api/chat', createChatRouter(chatService));
+      app.use('/api/csat', createCsatRouter(csatService));
+    });
+
+    test('POST /api/chat/conversations/:id/resolve should end the conversation for the survey', async () => {
+      await request(app).post('/api/csat').send({ conversation_id: 'conv_1', rating: 4 }).expect(409);
+
+      const resolved = await request(app).post('/api/chat/conversations/conv_1/resolve').expect(200);
+      expect(resolved.body.data.status).toBe('resolved');
+      await request(app).post('/api/chat/conversations/conv_1/close').expect(409);
+      await request(app).post('/api/chat/conversations/conv_missing/close').expect(404);
+
+      await request(app).post('/api/csat').send({ conversation_id: 'conv_1', rating: 4 }).expect(201);
+      const stats = await request(app).get('/api/csat/stats').expect(200);
+      expect(stats.body.data.by_category.technical).toEqual({ responses: 1, average_rating: 4, satisfaction_rate: 1 });
+    });
+
+    test('POST /api/csat should validate the rating', async () => {
+      const response = await request(app).post('/api/csat').send({ conversation_id: 'conv_1', rating: 6 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('rating: Rating must be between 1 and 5');
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { EscalationService, EscalationStateError } from '../services/escalation.js';
+import { createEscalationsRouter } from '../routes/escalations.js';
+import { AuthService, parseApiKeys } from '../services/auth.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import {
+  InMemoryEscalationRepository,
+  SqliteEscalationRepository,
+  type EscalationRepository
+} from '../repositories/escalationRepository.js';
+import type { EscalationTicket } from '../types/index.js';
+
+function buildTicket(overrides: Partial<EscalationTicket>): EscalationTicket {
+  return {
+    id: 'esc_1',
+    conversation_id: 'conv_1',
+    status: 'open',
+    priority: 'medium',
+    category: 'billing',
+    reason: 'I was charged twice',
+    created_at: new Date('2025-06-24T12:00:00Z'),
+    updated_at: new Date('2025-06-24T12:00:00Z'),
+    ...overrides
+  };
+}
+
+const implementations: Array<[string, () => EscalationRepository]> = [
+  ['InMemoryEscalationRepository', () => new InMemoryEscalationRepository()],
+  ['SqliteEscalationRepository', () => new SqliteEscalationRepository(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: EscalationRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  test('should list tickets by priority, then oldest first', async () => {
+    // Arrange
+    await repository.saveTicket(buildTicket({ id: 'esc_low', priority: 'low', created_at: new Date('2025-06-24T10:00:00Z') }));
+    await repository.saveTicket(buildTicket({ id: 'esc_high_new', priority: 'high', created_at: new Date('2025-06-24T12:00:00Z') }));
+    await repository.saveTicket(buildTicket({ id: 'esc_high_old', priority: 'high', created_at: new Date('2025-06-24T11:00:00Z') }));
+
+    // Act
+    const tickets = await repository.listTickets();
+
+    // Assert
+    expect(tickets.map(ticket => ticket.id)).toEqual(['esc_high_old', 'esc_high_new', 'esc_low']);
+  });
+
+  test('should filter tickets and find the active ticket for a conversation', async () => {
+    // Arrange
+    await repository.saveTicket(buildTicket({ id: 'esc_done', status: 'resolved', resolved_at: new Date() }));
+    await repository.saveTicket(buildTicket({ id: 'esc_open' }));
+
+    // Act
+    const resolved = await repository.listTickets({ status: 'resolved' });
+    const active = await repository.getActiveTicketForConversation('conv_1');
+
+    // Assert
+    expect(resolved.map(ticket => ticket.id)).toEqual(['esc_done']);
+    expect(resolved[0].resolved_at).toBeInstanceOf(Date);
+    expect(active?.id).toBe('esc_open');
+  });
+});
+
+describe('EscalationService', () => {
+  let conversations: InMemoryConversationRepository;
+  let service: EscalationService;
+
+  beforeEach(() => {
+    conversations = new InMemoryConversationRepository();
+    service = new EscalationService(conversations, new InMemoryEscalationRepository());
+  });
+
+  test('should queue one ticket per conversation and raise its priority', async () => {
+    // Act
+    const first = await service.createTicket({
+      conversation_id: 'conv_1',
+      user_id: 'user_1',
+      priority: 'medium',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+    const second = await service.createTicket({
+      conversation_id: 'conv_1',
+      priority: 'high',
+      category: 'billing',
+      reason: 'Still waiting on my refund'
+    });
+
+    // Assert
+    expect(second.id).toBe(first.id);
+    expect(second.priority).toBe('high');
+    expect(await service.listTickets()).toHaveLength(1);
+    expect((await conversations.getConversation('conv_1'))?.status).toBe('escalated');
+  });
+
+  test('should deliver agent replies into the conversation', async () => {
+    // Arrange
+    const ticket = await service.createTicket({
+      conversation_id: 'conv_1',
+      priority: 'high',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+
+    // Act
+    const reply = await service.replyToTicket(ticket.id, 'agent_1', 'I have refunded the duplicate charge.');
+
+    // Assert
+    expect(reply?.role).toBe('agent');
+    expect(reply?.metadata?.agent_id).toBe('agent_1');
+    expect(await conversations.getMessages('conv_1')).toEqual([reply]);
+
+    const claimed = await service.getTicket(ticket.id);
+    expect(claimed?.status).toBe('claimed');
+    expect(claimed?.assigned_agent).toBe('agent_1');
+  });
+
+  test('should reject actions by other agents and on resolved tickets', async () => {
+    // Arrange
+    const ticket = await service.createTicket({
+      conversation_id: 'conv_1',
+      priority: 'high',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+    await service.claimTicket(ticket.id, 'agent_1');
+
+    // Act & Assert
+    await expect(service.claimTicket(ticket.id, 'agent_2')).rejects.toThrow(EscalationStateError);
+    await expect(service.replyToTicket(ticket.id, 'agent_2', 'Hello')).rejects.toThrow(EscalationStateError);
+
+    const resolved = await service.resolveTicket(ticket.id, 'agent_1', 'Refund issued');
+    expect(resolved?.status).toBe('resolved');
+    expect(resolved?.resolved_at).toBeInstanceOf(Date);
+    expect((await conversations.getConversation('conv_1'))?.status).toBe('resolved');
+    await expect(service.replyToTicket(ticket.id, 'agent_1', 'Hello')).rejects.toThrow(EscalationStateError);
+  });
+
+  test('should take over a conversation and hand it back to the assistant', async () => {
+    // Arrange
+    await conversations.addMessage('conv_1', {
+      id: 'msg_1_user',
+      content: 'Where is my order?',
+      role: 'user',
+      timestamp: new Date()
+    });
+    await conversations.addMessage('conv_1', {
+      id: 'msg_1_assistant',
+      content: 'Orders usually arrive within 5 days.',
+      role: 'assistant',
+      timestamp: new Date(),
+      metadata: { confidence: 0.7, category: 'shipping', priority: 'low' }
+    });
+
+    // Act
+    const ticket = await service.takeOverConversation('conv_1', 'agent_1');
+    const handedBack = await service.handBackTicket(ticket!.id, 'agent_1');
+
+    // Assert
+    expect(ticket).toMatchObject({
+      status: 'claimed',
+      assigned_agent: 'agent_1',
+      category: 'shipping',
+      priority: 'low',
+      reason: 'Where is my order?'
+    });
+    expect(handedBack?.status).toBe('resolved');
+    expect((await conversations.getConversation('conv_1'))?.status).toBe('active');
+    expect(await service.getActiveTicketForConversation('conv_1')).toBeNull();
+    expect(await service.takeOverConversation('conv_missing', 'agent_1')).toBeNull();
+  });
+
+  test('should list queued conversations before the rest', async () => {
+    // Arrange
+    await conversations.addMessage('conv_queued', {
+      id: 'msg_1_user',
+      content: 'I was charged twice',
+      role: 'user',
+      timestamp: new Date()
+    });
+    await service.createTicket({
+      conversation_id: 'conv_queued',
+      priority: 'high',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+    await conversations.upsertConversation('conv_recent');
+
+    // Act
+    const summaries = await service.listConversations();
+    const transcript = await service.getTranscript('conv_queued');
+
+    // Assert
+    expect(summaries.map(summary => summary.id)).toEqual(['conv_queued', 'conv_recent']);
+    expect(summaries[0].ticket?.status).toBe('open');
+    expect(summaries[0].message_count).toBe(1);
+    expect(summaries[0].last_message?.content).toBe('I was charged twice');
+    expect(await service.listConversations('active')).toHaveLength(1);
+    expect(transcript?.messages).toHaveLength(1);
+    expect(transcript?.ticket?.conversation_id).toBe('conv_queued');
+  });
+
+  test('should return null for unknown tickets', async () => {
+    expect(await service.getTicket('esc_missing')).toBeNull();
+    expect(await service.claimTicket('esc_missing', 'agent_1')).toBeNull();
+    expect(await service.replyToTicket('esc_missing', 'agent_1', 'Hello')).toBeNull();
+    expect(await service.resolveTicket('esc_missing')).toBeNull();
+  });
+});
+
+describe('Escalation Routes', () => {
+  let app: express.Application;
+  let service: EscalationService;
+  let ticket: EscalationTicket;
+
+  beforeEach(async () => {
+    service = new EscalationService(new InMemoryConversationRepository(), new InMemoryEscalationRepository());
+    ticket = await service.createTicket({
+      conversation_id: 'conv_1',
+      priority: 'high',
+      category: 'billing',
+      reason: 'I was charged twice'
+    });
+
+    const auth = new AuthService({ secret: 'test-secret', apiKeys: parseApiKeys('alice-key:agent:alice,bob-key:agent:bob') });
+    app = express();
+    app.use(express.json());
+    app.use('/api/escalations', createEscalationsRouter(service, auth));
+  });
+
+  const ALICE = { 'X-API-Key': 'alice-key' };
+  const BOB = { 'X-API-Key': 'bob-key' };
+
+  test('GET /api/escalations should list the queue', async () => {
+    const response = await request(app)
+      .get('/api/escalations?status=open')
+      .set(ALICE)
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.total).toBe(1);
+    expect(response.body.data[0].id).toBe(ticket.id);
+  });
+
+  test('GET /api/escalations should validate filters', async () => {
+    const response = await request(app)
+      .get('/api/escalations?status=pending')
+      .set(ALICE)
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toContain('status');
+  });
+
+  test('POST /api/escalations/:id/reply should add the reply to the conversation', async () => {
+    const response = await request(app)
+      .post(`/api/escalations/${ticket.id}/reply`)
+      .set(ALICE)
+      .send({ message: 'I have refunded the duplicate charge.' })
+      .expect(201);
+
+    expect(response.body.data.role).toBe('agent');
+    expect(response.body.data.content).toBe('I have refunded the duplicate charge.');
+    expect(response.body.data.metadata.agent_id).toBe('key_alice');
+  });
+
+  test('POST /api/escalations/:id/claim should return 409 when claimed by another agent', async () => {
+    await request(app)
+      .post(`/api/escalations/${ticket.id}/claim`)
+      .set(ALICE)
+      .expect(200);
+
+    const response = await request(app)
+      .post(`/api/escalations/${ticket.id}/claim`)
+      .set(BOB)
+      .expect(409);
+
+    expect(response.body.error).toContain('key_alice');
+  });
+
+  test('should not let an agent act as another agent', async () => {
+    await request(app)
+      .post(`/api/escalations/${ticket.id}/claim`)
+      .set(ALICE)
+      .expect(200);
+
+    // The agent_id in the body is ignored in favour of the signed-in agent
+    await request(app)
+      .post(`/api/escalations/${ticket.id}/reply`)
+      .set(BOB)
+      .send({ agent_id: 'key_alice', message: 'Sorry, no refund.' })
+      .expect(409);
+    await request(app)
+      .post(`/api/escalations/${ticket.id}/handback`)
+      .set(BOB)
+      .send({ agent_id: 'key_alice' })
+      .expect(409);
+
+    expect(await service.getTicket(ticket.id)).toMatchObject({ status: 'claimed', assigned_agent: 'key_alice' });
+  });
+
+  test('POST /api/escalations/:id/resolve should close the ticket', async () => {
+    const response = await request(app)
+      .post(`/api/escalations/${ticket.id}/resolve`)
+      .set(ALICE)
+      .send({ resolution_note: 'Refund issued' })
+      .expect(200);
+
+    expect(response.body.data.status).toBe('resolved');
+    expect(response.body.data.assigned_agent).toBe('key_alice');
+    expect(response.body.data.resolution_note).toBe('Refund issued');
+  });
+
+  test('GET /api/escalations/conversations should list the console queue', async () => {
+    const response = await request(app)
+      .get('/api/escalations/conversations')
+      .set(ALICE)
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.data[0].ticket.id).toBe(ticket.id);
+  });
+
+  test('POST /api/escalations/:id/handback should return the conversation to the assistant', async () => {
+    await request(app)
+      .post(`/api/escalations/${ticket.id}/claim`)
+      .set(ALICE)
+      .expect(200);
+
+    const response = await request(app)
+      .post(`/api/escalations/${ticket.id}/handback`)
+      .set(ALICE)
+      .expect(200);
+
+    expect(response.body.data.status).toBe('resolved');
+
+    const transcript = await request(app)
+      .get('/api/escalations/conversations/conv_1')
+      .set(ALICE)
+      .expect(200);
+    expect(transcript.body.data.conversation.status).toBe('active');
+    expect(transcript.body.data.ticket).toBeUndefined();
+  });
+
+  test('should return 404 for unknown tickets', async () => {
+    await request(app).get('/api/escalations/esc_missing').set(ALICE).expect(404);
+    await request(app).get('/api/escalations/conversations/conv_missing').set(ALICE).expect(404);
+    await request(app)
+      .post('/api/escalations/esc_missing/claim')
+      .set(ALICE)
+      .expect(404);
+  });
+});
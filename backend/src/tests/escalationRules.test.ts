@@ -0,0 +1,211 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import express from 'express';
+import type { ChatMessage, QueryClassification, ResponseGeneration } from '../types/index.js';
+import { EscalationRulesService, type EscalationContext } from '../services/escalationRules.js';
+import { scoreSentiment } from '../services/sentiment.js';
+import { createEscalationRulesRouter } from '../routes/escalationRules.js';
+
+const classification = (overrides: Partial<QueryClassification> = {}): QueryClassification => ({
+  category: 'technical',
+  intent: 'password_reset',
+  confidence: 0.9,
+  entities: [],
+  ...overrides
+});
+
+const generation = (overrides: Partial<ResponseGeneration> = {}): ResponseGeneration => ({
+  response: 'Click "Forgot password" on the login page.',
+  confidence: 0.9,
+  reasoning: 'test',
+  requires_escalation: false,
+  ...overrides
+});
+
+const context = (overrides: Partial<EscalationContext> = {}): EscalationContext => ({
+  query: 'How do I reset my password?',
+  classification: classification(),
+  generation: generation(),
+  sources: [],
+  history: [],
+  ...overrides
+});
+
+const message = (role: ChatMessage['role'], sources: string[] = []): ChatMessage => ({
+  id: `msg_${Math.random()}`,
+  role,
+  content: role === 'user' ? 'It still does not work' : 'Sorry, I could not find that.',
+  timestamp: new Date(),
+  metadata: role === 'assistant' ? { sources } : undefined
+});
+
+describe('EscalationRulesService', () => {
+  test('should keep the built-in escalation behaviour by default', () => {
+    // Arrange
+    const service = new EscalationRulesService();
+
+    // Act & Assert
+    expect(service.evaluate(context())).toEqual({ requires_escalation: false, fired_rules: [], sentiment: 0 });
+    expect(service.evaluate(context({ classification: classification({ category: 'billing' }) })).fired_rules)
+      .toEqual([{ id: 'category_policy', name: 'Category escalation policy', reasons: ['Billing conversations always go to a person'] }]);
+    expect(service.evaluate(context({ generation: generation({ confidence: 0.4 }) })).fired_rules.map(rule => rule.id))
+      .toEqual(['low_response_confidence']);
+    expect(service.evaluate(context({ query: 'I want to speak to a human agent' })).fired_rules[0].reasons)
+      .toEqual(['message mentions "human agent"']);
+  });
+
+  test('should fire only when every condition of a rule holds', () => {
+    // Arrange
+    const service = new EscalationRulesService({
+      rules: [{
+        id: 'unhappy_refund',
+        name: 'Unhappy refund customer',
+        enabled: true,
+        conditions: { categories: ['returns'], intents: ['refund_request'], sentiment_below: -0.3 }
+      }]
+    });
+    const refund = classification({ category: 'returns', intent: 'refund_request' });
+
+    // Act
+    const calm = service.evaluate(context({ query: 'Can I get a refund?', classification: refund }));
+    const upset = service.evaluate(context({ query: 'This is ridiculous, I was charged twice!!', classification: refund }));
+
+    // Assert
+    expect(calm.requires_escalation).toBe(false);
+    expect(upset.requires_escalation).toBe(true);
+    expect(upset.fired_rules[0].reasons).toEqual([
+      'category is returns',
+      'intent is refund_request',
+      `sentiment ${upset.sentiment.toFixed(2)} is below -0.3`
+    ]);
+  });
+
+  test('should count conversation length and repeated failures from the history', () => {
+    // Arrange
+    const service = new EscalationRulesService({
+      rules: [
+        { id: 'long', name: 'Long conversation', enabled: true, conditions: { min_conversation_length: 3 } },
+        { id: 'stuck', name: 'Repeated failures', enabled: true, conditions: { min_repeated_failures: 3 } },
+        { id: 'off', name: 'Disabled', enabled: false, conditions: { model_requested: false } }
+      ]
+    });
+    const history = [
+      message('user'), message('assistant', ['Password Reset']),
+      message('user'), message('assistant'),
+      message('user'), message('assistant')
+    ];
+
+    // Act
+    const stuck = service.evaluate(context({ history }));
+    const answered = service.evaluate(context({ history, sources: [{ id: 'kb_1' } as never] }));
+    const early = service.evaluate(context({ history: history.slice(0, 2) }));
+
+    // Assert
+    expect(stuck.fired_rules).toEqual([
+      { id: 'long', name: 'Long conversation', reasons: ['4 customer messages'] },
+      { id: 'stuck', name: 'Repeated failures', reasons: ['3 answers in a row without knowledge base sources'] }
+    ]);
+    expect(answered.fired_rules.map(rule => rule.id)).toEqual(['long']);
+    expect(early.requires_escalation).toBe(false);
+  });
+
+  describe('rules file', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'escalation-rules-'));
+      filePath = path.join(tempDir, 'rules.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should load rules from the file and save changes back to it', async () => {
+      // Arrange
+      fs.writeFileSync(filePath, JSON.stringify({
+        rules: [{ id: 'legal', name: 'Legal threats', conditions: { keywords: ['lawyer'] } }]
+      }));
+      const service = new EscalationRulesService({ filePath });
+
+      // Act
+      await service.createRule({ id: 'vip', name: 'VIP', enabled: true, conditions: { intents: ['vip_support'] } });
+      await service.deleteRule('legal');
+
+      // Assert
+      expect(service.evaluate(context({ query: 'My lawyer will call' })).requires_escalation).toBe(false);
+      expect(new EscalationRulesService({ filePath }).evaluate(context({ classification: classification({ intent: 'vip_support' }) })).fired_rules)
+        .toEqual([{ id: 'vip', name: 'VIP', reasons: ['intent is vip_support'] }]);
+    });
+
+    test('should reject an invalid rules file', () => {
+      // Arrange
+      fs.writeFileSync(filePath, JSON.stringify({ rules: [{ id: 'empty', name: 'No conditions', conditions: {} }] }));
+
+      // Act & Assert
+      expect(() => new EscalationRulesService({ filePath }))
+        .toThrow(`Invalid escalation rules in ${filePath}: rules.0.conditions: At least one condition is required`);
+    });
+  });
+});
+
+describe('scoreSentiment', () => {
+  test('should score negative, positive and negated messages', () => {
+    // Act & Assert
+    expect(scoreSentiment('Where is my order?')).toBe(0);
+    expect(scoreSentiment('Thanks, that was helpful')).toBe(1);
+    expect(scoreSentiment('That was not helpful')).toBe(-1);
+    expect(scoreSentiment('The app is broken again')).toBe(-1);
+  });
+});
+
+describe('Escalation rules API', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/escalation-rules', createEscalationRulesRouter(new EscalationRulesService()));
+  });
+
+  test('should list, create, update and delete rules', async () => {
+    // Act & Assert
+    const list = await request(app).get('/api/escalation-rules').expect(200);
+    expect(list.body.total).toBe(4);
+
+    const created = await request(app)
+      .post('/api/escalation-rules')
+      .send({ id: 'long_chat', name: 'Long chat', conditions: { min_conversation_length: 8 } })
+      .expect(201);
+    expect(created.body.data).toEqual({ id: 'long_chat', name: 'Long chat', enabled: true, conditions: { min_conversation_length: 8 } });
+
+    const updated = await request(app)
+      .put('/api/escalation-rules/long_chat')
+      .send({ name: 'Long chat', enabled: false, conditions: { min_conversation_length: 10 } })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({ enabled: false, conditions: { min_conversation_length: 10 } });
+
+    await request(app).delete('/api/escalation-rules/long_chat').expect(200);
+    await request(app).get('/api/escalation-rules/long_chat').expect(404);
+  });
+
+  test('should reject duplicate ids and unknown conditions', async () => {
+    // Act
+    const duplicate = await request(app)
+      .post('/api/escalation-rules')
+      .send({ id: 'model_requested', name: 'Again', conditions: { categories: ['legal'] } });
+    const unknown = await request(app)
+      .put('/api/escalation-rules/model_requested')
+      .send({ name: 'Typo', conditions: { categorys: ['legal'] } });
+
+    // Assert
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.error).toBe('Escalation rule "model_requested" already exists');
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toContain('Unrecognized key(s) in object');
+  });
+});
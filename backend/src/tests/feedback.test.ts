@@ -0,0 +1,205 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { FeedbackService, FeedbackTargetError } from '../services/feedback.js';
+import { createFeedbackRouter } from '../routes/feedback.js';
+import { ChatService } from '../services/chat.js';
+import { AIService } from '../services/ai.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { EscalationService } from '../services/escalation.js';
+import { EscalationRulesService } from '../services/escalationRules.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { InMemoryEscalationRepository } from '../repositories/escalationRepository.js';
+import {
+  InMemoryFeedbackRepository,
+  SqliteFeedbackRepository,
+  type FeedbackRepository
+} from '../repositories/feedbackRepository.js';
+import type { ChatMessage, MessageFeedback } from '../types/index.js';
+
+function buildFeedback(overrides: Partial<MessageFeedback>): MessageFeedback {
+  return {
+    id: 'fb_1',
+    conversation_id: 'conv_1',
+    message_id: 'msg_1_assistant',
+    rating: 'helpful',
+    source_ids: ['kb_1'],
+    created_at: new Date('2025-06-24T12:00:00Z'),
+    updated_at: new Date('2025-06-24T12:00:00Z'),
+    ...overrides
+  };
+}
+
+function answer(id: string, sourceIds: string[]): ChatMessage {
+  return {
+    id,
+    content: 'Refunds are issued within 14 days.',
+    role: 'assistant',
+    timestamp: new Date('2025-06-24T12:00:01Z'),
+    metadata: { sources: sourceIds.map(sourceId => `Article ${sourceId}`), source_ids: sourceIds }
+  };
+}
+
+const implementations: Array<[string, () => FeedbackRepository]> = [
+  ['InMemoryFeedbackRepository', () => new InMemoryFeedbackRepository()],
+  ['SqliteFeedbackRepository', () => new SqliteFeedbackRepository(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: FeedbackRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  test('should keep one feedback per message and filter by rating and source', async () => {
+    // Arrange
+    const first = buildFeedback({});
+    const changed = buildFeedback({
+      rating: 'not_helpful',
+      reason: 'incomplete',
+      comment: 'Does not say how to ship it back',
+      updated_at: new Date('2025-06-24T12:05:00Z')
+    });
+    const other = buildFeedback({
+      id: 'fb_2',
+      conversation_id: 'conv_2',
+      source_ids: ['kb_2'],
+      updated_at: new Date('2025-06-24T12:10:00Z')
+    });
+
+    // Act
+    await repository.saveFeedback(first);
+    await repository.saveFeedback(changed);
+    await repository.saveFeedback(other);
+
+    // Assert
+    expect(await repository.getFeedback('conv_1', 'msg_1_assistant')).toEqual(changed);
+    expect((await repository.listFeedback()).map(feedback => feedback.id)).toEqual(['fb_2', 'fb_1']);
+    expect(await repository.listFeedback({ rating: 'not_helpful' })).toEqual([changed]);
+    expect(await repository.listFeedback({ source_id: 'kb_2' })).toEqual([other]);
+    expect(await repository.getFeedback('conv_1', 'missing')).toBeNull();
+  });
+});
+
+describe('FeedbackService', () => {
+  let conversations: InMemoryConversationRepository;
+  let service: FeedbackService;
+
+  beforeEach(async () => {
+    conversations = new InMemoryConversationRepository();
+    service = new FeedbackService(conversations, new InMemoryFeedbackRepository());
+
+    await conversations.addMessage('conv_1', { id: 'msg_1_user', content: 'Refund?', role: 'user', timestamp: new Date() });
+    await conversations.addMessage('conv_1', answer('msg_1_assistant', ['kb_1', 'kb_2']));
+    await conversations.addMessage('conv_2', answer('msg_2_assistant', ['kb_1']));
+  });
+
+  test('should record feedback with the sources of the answer and replace it when rated again', async () => {
+    // Act
+    const first = await service.submitFeedback({ conversation_id: 'conv_1', message_id: 'msg_1_assistant', rating: 'helpful' });
+    const second = await service.submitFeedback({
+      conversation_id: 'conv_1',
+      message_id: 'msg_1_assistant',
+      rating: 'not_helpful',
+      reason: 'incorrect'
+    });
+
+    // Assert
+    expect(first?.source_ids).toEqual(['kb_1', 'kb_2']);
+    expect(second?.id).toBe(first?.id);
+    expect(await service.listFeedback()).toEqual([second]);
+  });
+
+  test('should only accept feedback on assistant answers that exist', async () => {
+    // Act & Assert
+    expect(await service.submitFeedback({ conversation_id: 'conv_1', message_id: 'msg_9', rating: 'helpful' })).toBeNull();
+    await expect(service.submitFeedback({ conversation_id: 'conv_1', message_id: 'msg_1_user', rating: 'helpful' }))
+      .rejects.toThrow(FeedbackTargetError);
+  });
+
+  test('should summarise ratings overall and per knowledge base entry', async () => {
+    // Arrange
+    await service.submitFeedback({ conversation_id: 'conv_1', message_id: 'msg_1_assistant', rating: 'not_helpful', reason: 'unclear' });
+    await service.submitFeedback({ conversation_id: 'conv_2', message_id: 'msg_2_assistant', rating: 'helpful' });
+
+    // Act
+    const stats = await service.getStats();
+    const articles = await service.getArticleHelpfulness();
+
+    // Assert
+    expect(stats).toEqual({ total: 2, helpful: 1, not_helpful: 1, helpful_rate: 0.5, by_reason: { unclear: 1 } });
+    expect(articles).toEqual([
+      { entry_id: 'kb_2', helpful: 0, not_helpful: 1, score: 0 },
+      { entry_id: 'kb_1', helpful: 1, not_helpful: 1, score: 0.5 }
+    ]);
+  });
+
+  test('should feed ratings into chat stats', async () => {
+    // Arrange
+    const backend = new InMemoryBackend();
+    const chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend, new EscalationRulesService({ rules: [] })),
+      conversations,
+      new EscalationService(conversations, new InMemoryEscalationRepository()),
+      service
+    );
+    const response = await chatService.processMessage({ message: 'How do I reset my password?', conversation_id: 'conv_3' });
+
+    // Act
+    await service.submitFeedback({ conversation_id: 'conv_3', message_id: response.message_id!, rating: 'helpful' });
+    const stats = await chatService.getStats();
+
+    // Assert
+    expect(stats.rated_answers).toBe(1);
+    expect(stats.helpful_rate).toBe(1);
+  });
+});
+
+describe('Feedback Routes', () => {
+  let app: express.Application;
+
+  beforeEach(async () => {
+    const conversations = new InMemoryConversationRepository();
+    await conversations.addMessage('conv_1', { id: 'msg_1_user', content: 'Refund?', role: 'user', timestamp: new Date() });
+    await conversations.addMessage('conv_1', answer('msg_1_assistant', ['kb_1']));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/feedback', createFeedbackRouter(new FeedbackService(conversations, new InMemoryFeedbackRepository())));
+  });
+
+  test('POST /api/feedback should record feedback and report it per article', async () => {
+    const created = await request(app)
+      .post('/api/feedback')
+      .send({ conversation_id: 'conv_1', message_id: 'msg_1_assistant', rating: 'not_helpful', reason: 'irrelevant', comment: 'Wrong product' })
+      .expect(201);
+    expect(created.body.data).toMatchObject({ rating: 'not_helpful', reason: 'irrelevant', source_ids: ['kb_1'] });
+
+    const list = await request(app).get('/api/feedback?rating=not_helpful').expect(200);
+    expect(list.body.total).toBe(1);
+
+    const articles = await request(app).get('/api/feedback/articles').expect(200);
+    expect(articles.body.data).toEqual([{ entry_id: 'kb_1', helpful: 0, not_helpful: 1, score: 0 }]);
+  });
+
+  test('POST /api/feedback should reject invalid feedback', async () => {
+    const reasonWithHelpful = await request(app)
+      .post('/api/feedback')
+      .send({ conversation_id: 'conv_1', message_id: 'msg_1_assistant', rating: 'helpful', reason: 'incorrect' });
+    const userMessage = await request(app)
+      .post('/api/feedback')
+      .send({ conversation_id: 'conv_1', message_id: 'msg_1_user', rating: 'helpful' });
+    const unknown = await request(app)
+      .post('/api/feedback')
+      .send({ conversation_id: 'conv_1', message_id: 'msg_9', rating: 'helpful' });
+
+    expect(reasonWithHelpful.status).toBe(400);
+    expect(reasonWithHelpful.body.error).toBe('reason: A reason can only be given for answers that were not helpful');
+    expect(userMessage.status).toBe(400);
+    expect(userMessage.body.error).toBe('Message "msg_1_user" is not an assistant answer');
+    expect(unknown.status).toBe(404);
+  });
+});
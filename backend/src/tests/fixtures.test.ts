@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  config,
+  buildCreateKnowledgeBase,
+  buildCreateWithParams,
+  buildInsert,
+  buildSelect,
+  closeConnection,
+  executeQuery,
+  getMindsDBClient
+} from '../config/database.js';
+import { FixtureMissError, FixtureRecorder, FixtureReplayer, parseFixtureMode } from '../config/fixtures.js';
+import { InMemoryBackend, MindsDBSdkBackend, MindsDBSqlBackend } from '../backends/index.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { AIService } from '../services/ai.js';
+import { MindsDBStandIn } from '../testing/mindsdbStandIn.js';
+
+describe('MindsDB fixtures', () => {
+  let tempDir: string;
+  let fixturesPath: string;
+  const original = { ...config };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mindsdb-fixtures-'));
+    fixturesPath = path.join(tempDir, 'trace.jsonl');
+  });
+
+  afterEach(async () => {
+    await closeConnection();
+    Object.assign(config, original);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should replay a recorded session without MindsDB', async () => {
+    // Arrange
+    const standIn = new MindsDBStandIn({ backend: new InMemoryBackend() });
+    Object.assign(config, { host: '127.0.0.1', port: await standIn.start(), fixturesMode: 'record', fixturesPath });
+
+    const session = async () => {
+      const backend = new MindsDBSqlBackend();
+      const results = await new KnowledgeBaseService(backend).searchKnowledgeBase('reset my password', { relevance_threshold: 0.5 });
+      const classification = await new AIService(backend).classifyQuery('reset my password');
+      return { results, classification };
+    };
+
+    // Act
+    const recorded = await session();
+    await executeQuery('SHOW DATABASES').catch(() => undefined);
+    await closeConnection();
+    await standIn.stop();
+
+    Object.assign(config, { fixturesMode: 'replay' });
+    const replayed = await session();
+
+    // Assert
+    expect(recorded.results.length).toBeGreaterThan(0);
+    expect(replayed).toEqual(recorded);
+    await expect(executeQuery('SHOW DATABASES')).rejects.toThrow('Query failed: Unsupported statement: SHOW DATABASES');
+    await expect(executeQuery('SELECT 1')).rejects.toThrow('Query failed: No recorded sql result for: SELECT 1');
+  });
+
+  test('should serve SDK results from a fixtures file', async () => {
+    // Arrange
+    const sql = buildSelect('support_kb', ['*'], {});
+    const row = {
+      id: 'kb_1_chunk_0',
+      chunk_content: 'Restart the router.',
+      metadata: { title: 'Connectivity', category: 'technical', priority: 'low', parent_id: 'kb_1', chunk_index: 0 }
+    };
+    fs.writeFileSync(fixturesPath, JSON.stringify({ channel: 'sdk', sql, result: { rows: [row] } }) + '\n');
+    Object.assign(config, { fixturesMode: 'replay', fixturesPath });
+
+    // Act
+    const entries = await new MindsDBSdkBackend().list({});
+    const client = await getMindsDBClient();
+
+    // Assert
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ id: 'kb_1', title: 'Connectivity', content: 'Restart the router.' });
+    await expect(client.SQL.runQuery(sql)).resolves.toEqual({ rows: [row] });
+  });
+
+  test('should serve repeated statements in recorded order, then repeat the last', () => {
+    // Arrange
+    const replayer = new FixtureReplayer([
+      { channel: 'sql', sql: 'SELECT COUNT(*) as total FROM t', result: { rows: [{ total: 1 }] } },
+      { channel: 'sql', sql: 'SELECT COUNT(*) as total FROM t', result: { rows: [{ total: 2 }] } }
+    ]);
+
+    // Act & Assert
+    expect(replayer.replay('sql', 'SELECT COUNT(*) as total FROM t')).toEqual({ rows: [{ total: 1 }] });
+    expect(replayer.replay('sql', 'SELECT COUNT(*) as total FROM t')).toEqual({ rows: [{ total: 2 }] });
+    expect(replayer.replay('sql', 'SELECT COUNT(*) as total FROM t')).toEqual({ rows: [{ total: 2 }] });
+    expect(() => replayer.replay('sdk', 'SELECT COUNT(*) as total FROM t')).toThrow(FixtureMissError);
+  });
+
+  test('should redact API keys from recorded statements and errors', async () => {
+    // Arrange
+    const recorder = new FixtureRecorder(fixturesPath);
+    const createAgent = buildCreateWithParams('AGENT', 'support_agent', { model: 'gpt-4', openai_api_key: 'sk-agent-secret' });
+    const createKb = buildCreateKnowledgeBase('support_kb', {
+      embeddingModel: { provider: 'openai', model_name: 'text-embedding-ada-002', api_key: 'sk-kb-secret' },
+      metadataColumns: ['title'],
+      contentColumns: ['content'],
+      idColumn: 'id'
+    });
+
+    // Act
+    await recorder.record('sql', createAgent, async () => ({ rows: [] }));
+    await recorder.record('sdk', createKb, async () => {
+      throw new Error(`Invalid statement: ${createKb}`);
+    }).catch(() => undefined);
+
+    // Assert
+    const recorded = fs.readFileSync(fixturesPath, 'utf8');
+    expect(recorded).not.toContain('secret');
+    expect(recorded).toContain("openai_api_key = '[REDACTED]'");
+    expect(recorded).toContain('\\"api_key\\":\\"[REDACTED]\\"');
+    expect(FixtureReplayer.fromFile(fixturesPath).replay('sql', createAgent)).toEqual({ rows: [] });
+  });
+
+  test('should replay writes made with different generated ids and timestamps', () => {
+    // Arrange
+    const insert = (id: string, lastUpdated: string) => buildInsert('support_kb', {
+      id,
+      content: 'Gift cards never expire.',
+      last_updated: lastUpdated
+    });
+    const replayer = new FixtureReplayer([
+      { channel: 'sql', sql: insert('kb_1718000000000_abc123xyz', '2024-06-10T06:13:20.000Z'), result: { rows: [], affectedRows: 1 } }
+    ]);
+
+    // Act & Assert
+    expect(replayer.replay('sql', insert('kb_1750000000000_k9x2', '2025-06-15T14:13:20.123Z'))).toEqual({ rows: [], affectedRows: 1 });
+    expect(() => replayer.replay('sql', insert('kb_1', '2025-06-15T14:13:20.123Z'))).toThrow(FixtureMissError);
+  });
+
+  test('should reject unknown fixture modes', () => {
+    // Act & Assert
+    expect(parseFixtureMode(undefined)).toBe('off');
+    expect(parseFixtureMode('replay')).toBe('replay');
+    expect(() => parseFixtureMode('playback'))
+      .toThrow('Unknown MINDSDB_FIXTURES "playback", expected one of: off, record, replay');
+  });
+});
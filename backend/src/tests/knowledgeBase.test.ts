@@ -3,19 +3,25 @@ import type { KnowledgeBaseEntry } from '../types/index.js';
 
 // Mock the MindsDB connection
 jest.mock('../config/database.js', () => ({
-  executeQuery: jest.fn()
+  ...(jest.requireActual('../config/database.js') as object),
+  executeQuery: jest.fn(),
+  getMindsDBClient: jest.fn()
 }));
 
-import { executeQuery } from '../config/database.js';
+import { executeQuery, getMindsDBClient } from '../config/database.js';
 import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { MindsDBSdkBackend, MindsDBSqlBackend } from '../backends/index.js';
 
 const mockExecuteQuery = executeQuery as jest.MockedFunction<typeof executeQuery>;
+const mockGetMindsDBClient = getMindsDBClient as jest.MockedFunction<typeof getMindsDBClient>;
 
 describe('KnowledgeBaseService', () => {
   let service: KnowledgeBaseService;
+  let sdkService: KnowledgeBaseService;
 
   beforeEach(() => {
-    service = new KnowledgeBaseService();
+    service = new KnowledgeBaseService(new MindsDBSqlBackend());
+    sdkService = new KnowledgeBaseService(new MindsDBSdkBackend());
     jest.clearAllMocks();
   });
 
@@ -117,6 +123,170 @@ describe('KnowledgeBaseService', () => {
     });
   });
 
+  describe('listKnowledgeBaseEntries', () => {
+    test('should list entries stored as plain columns and filter by tag', async () => {
+      // Arrange
+      mockExecuteQuery.mockResolvedValue({
+        rows: [
+          {
+            id: 'kb_1',
+            title: 'Refund Policy',
+            content: 'Refunds are issued within 14 days.',
+            category: 'returns',
+            priority: 'high',
+            product_type: '',
+            tags: JSON.stringify(['refund', 'returns']),
+            last_updated: '2025-06-24T10:00:00Z'
+          },
+          {
+            id: 'kb_2',
+            title: 'Return Shipping',
+            content: 'Print the prepaid label from your order page.',
+            category: 'returns',
+            priority: 'medium',
+            tags: JSON.stringify(['shipping']),
+            last_updated: '2025-06-23T10:00:00Z'
+          }
+        ]
+      });
+
+      // Act
+      const entries = await service.listKnowledgeBaseEntries({ category: 'returns', tag: 'refund' });
+
+      // Assert
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        id: 'kb_1',
+        title: 'Refund Policy',
+        content: 'Refunds are issued within 14 days.',
+        priority: 'high',
+        product_type: undefined,
+        tags: ['refund', 'returns']
+      });
+      expect(mockExecuteQuery).toHaveBeenCalledWith(
+        "SELECT * FROM support_knowledge_base WHERE category = 'returns' LIMIT 100"
+      );
+    });
+  });
+
+  describe('exportKnowledgeBaseEntries', () => {
+    test('should export every row of the support_knowledge_base table', async () => {
+      // Arrange
+      mockExecuteQuery.mockResolvedValue({
+        rows: [{
+          id: 'kb_1',
+          title: 'Refund Policy',
+          content: 'Refunds are issued within 14 days.',
+          category: 'returns',
+          priority: 'high',
+          tags: '["refund"]',
+          last_updated: '2025-06-24T10:00:00Z'
+        }]
+      });
+
+      // Act
+      const entries = await service.exportKnowledgeBaseEntries();
+
+      // Assert
+      expect(mockExecuteQuery).toHaveBeenCalledWith('SELECT * FROM support_knowledge_base');
+      expect(entries[0]).toMatchObject({ id: 'kb_1', tags: ['refund'], last_updated: new Date('2025-06-24T10:00:00Z') });
+    });
+
+    test('should join knowledge base chunks back into one entry per article', async () => {
+      // Arrange
+      const guide = { title: 'Guide', category: 'technical', priority: 'low', parent_id: 'kb_1' };
+      const runQuery = jest.fn(async () => ({
+        rows: [
+          { id: 'kb_1_chunk_1', chunk_content: 'part.\nSecond part.', metadata: { ...guide, chunk_index: 1, chunk_overlap: 6 } },
+          { id: 'kb_1_chunk_0', chunk_content: 'First part.', metadata: { ...guide, chunk_index: 0, chunk_overlap: 0 } },
+          { id: 'kb_2', chunk_content: 'Other.', metadata: { title: 'Other', category: 'general', priority: 'medium' } }
+        ]
+      }));
+      mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+      // Act
+      const entries = await sdkService.exportKnowledgeBaseEntries('support_kb');
+
+      // Assert
+      expect(runQuery).toHaveBeenCalledWith('SELECT * FROM support_kb');
+      expect(entries.map(entry => [entry.id, entry.content])).toEqual([
+        ['kb_1', 'First part.\n\nSecond part.'],
+        ['kb_2', 'Other.']
+      ]);
+      expect(entries[0].chunk_content).toBeUndefined();
+      expect(entries[0].chunks).toBeUndefined();
+    });
+
+    test('should fail when a knowledge base is requested without the SDK', async () => {
+      // Arrange
+      mockGetMindsDBClient.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(sdkService.exportKnowledgeBaseEntries('support_kb'))
+        .rejects.toThrow('Failed to export knowledge base: MindsDB SDK not available');
+    });
+  });
+
+  describe('addKnowledgeBaseDocuments', () => {
+    test('should insert one row per chunk with the parent id and chunk index', async () => {
+      // Arrange
+      const runQuery = jest.fn<(sql: string) => Promise<{ rows: never[] }>>(async () => ({ rows: [] }));
+      mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+      // Act
+      const success = await sdkService.addKnowledgeBaseDocuments([
+        {
+          content: '# Setup\n\nPlug it in.\n\n# Troubleshooting\n\nRestart it.',
+          metadata: { id: 'kb_router', title: 'Router Manual', category: 'technical', last_updated: '2025-06-24T10:00:00.000Z' }
+        }
+      ], 'support_kb', { chunkSize: 30, chunkOverlap: 0 });
+
+      // Assert
+      expect(success).toBe(true);
+      const sql = runQuery.mock.calls[0][0];
+      expect(sql).toContain('(id, content, title, category, priority, product_type, tags, last_updated, parent_id, chunk_index, chunk_count, heading, chunk_overlap, chunk_separator)');
+      expect(sql).toContain("('kb_router_chunk_0', '# Setup\n\nPlug it in.', 'Router Manual', 'technical', 'medium', '', '[]', '2025-06-24T10:00:00.000Z', 'kb_router', 0, 2, 'Setup', 0, '')");
+      expect(sql).toContain("'kb_router', 1, 2, 'Troubleshooting', 0, '\n\n')");
+      expect(sql).toContain("'kb_router_chunk_1'");
+    });
+
+    test('should return false without the SDK', async () => {
+      // Arrange
+      mockGetMindsDBClient.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await sdkService.addKnowledgeBaseDocuments([{ content: 'Text' }])).toBe(false);
+    });
+  });
+
+  describe('searchKnowledgeBase with the SDK backend', () => {
+    test('should group matching chunks under their parent article', async () => {
+      // Arrange
+      const manual = { title: 'Router Manual', category: 'technical', priority: 'high', parent_id: 'kb_router' };
+      const runQuery = jest.fn(async () => ({
+        rows: [
+          { id: 'kb_router_chunk_3', chunk_content: 'Restart it.', metadata: { ...manual, chunk_index: 3, heading: 'Troubleshooting' }, relevance: 0.9, distance: 0.1 },
+          { id: 'kb_faq', chunk_content: 'Router FAQ.', metadata: { title: 'FAQ', category: 'general', priority: 'low' }, relevance: 0.8, distance: 0.2 },
+          { id: 'kb_router_chunk_0', chunk_content: 'Plug it in.', metadata: { ...manual, chunk_index: 0, heading: 'Setup' }, relevance: 0.75, distance: 0.25 }
+        ]
+      }));
+      mockGetMindsDBClient.mockResolvedValue({ SQL: { runQuery } });
+
+      // Act
+      const results = await sdkService.searchKnowledgeBase('router keeps dropping');
+
+      // Assert
+      expect(results.map(entry => entry.id)).toEqual(['kb_router', 'kb_faq']);
+      expect(results[0]).toMatchObject({
+        title: 'Router Manual',
+        chunk_content: 'Plug it in.\n\nRestart it.',
+        relevance: 0.9,
+        distance: 0.1
+      });
+      expect(results[0].chunks?.map(chunk => [chunk.chunk_index, chunk.heading])).toEqual([[0, 'Setup'], [3, 'Troubleshooting']]);
+    });
+  });
+
   describe('addKnowledgeBaseEntry', () => {
     test('should successfully add new knowledge base entry', async () => {
       // Arrange
@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { KnowledgeBaseExportService, toCsv, toJsonl, toMarkdownFiles } from '../services/knowledgeBaseExport.js';
+import { KnowledgeBaseImportService, parseCsv, parseJsonl, parseMarkdown } from '../services/knowledgeBaseImport.js';
+import type { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import type { KnowledgeBaseEntry } from '../types/index.js';
+
+const entries: KnowledgeBaseEntry[] = [
+  {
+    id: 'kb_1',
+    title: 'Refunds: "the basics"',
+    content: 'Refunds are issued within 14 days,\nonce the item arrives.',
+    category: 'returns',
+    priority: 'high',
+    product_type: 'physical',
+    tags: ['refund', 'money back'],
+    last_updated: new Date('2025-06-24T10:00:00Z')
+  },
+  {
+    id: 'kb_2',
+    title: 'Password Reset',
+    content: 'Use the "Forgot password" link.',
+    category: 'technical',
+    priority: 'medium',
+    tags: [],
+    last_updated: new Date('2025-06-23T10:00:00Z')
+  }
+];
+
+const restored = [
+  {
+    content: 'Refunds are issued within 14 days,\nonce the item arrives.',
+    metadata: {
+      id: 'kb_1',
+      last_updated: '2025-06-24T10:00:00.000Z',
+      title: 'Refunds: "the basics"',
+      category: 'returns',
+      priority: 'high',
+      product_type: 'physical',
+      tags: ['refund', 'money back']
+    }
+  },
+  {
+    content: 'Use the "Forgot password" link.',
+    metadata: {
+      id: 'kb_2',
+      last_updated: '2025-06-23T10:00:00.000Z',
+      title: 'Password Reset',
+      category: 'technical',
+      priority: 'medium',
+      product_type: undefined,
+      tags: []
+    }
+  }
+];
+
+describe('Knowledge base export', () => {
+  const addBatch = jest.fn<KnowledgeBaseService['addKnowledgeBaseDocuments']>();
+  let importService: KnowledgeBaseImportService;
+
+  beforeEach(() => {
+    addBatch.mockReset();
+    addBatch.mockResolvedValue(true);
+    importService = new KnowledgeBaseImportService({
+      addKnowledgeBaseDocuments: addBatch
+    } as unknown as KnowledgeBaseService);
+  });
+
+  test('should write Markdown files with front-matter grouped by category', () => {
+    // Act
+    const files = toMarkdownFiles(entries);
+
+    // Assert
+    expect(files.map(file => file.name)).toEqual(['returns/kb_1.md', 'technical/kb_2.md']);
+    expect(files[0].content).toBe([
+      '---',
+      'id: "kb_1"',
+      'title: "Refunds: \\"the basics\\""',
+      'category: returns',
+      'priority: high',
+      'product_type: "physical"',
+      'tags:',
+      '  - "refund"',
+      '  - "money back"',
+      'last_updated: 2025-06-24T10:00:00.000Z',
+      '---',
+      'Refunds are issued within 14 days,',
+      'once the item arrives.',
+      ''
+    ].join('\n'));
+  });
+
+  test.each([
+    ['JSONL', () => parseJsonl(toJsonl(entries))],
+    ['CSV', () => parseCsv(toCsv(entries))],
+    ['Markdown', () => toMarkdownFiles(entries).map(file => parseMarkdown(file.name, file.content))]
+  ])('should restore %s exports with their original ids and timestamps', async (_format, readExport) => {
+    // Act
+    const report = await importService.importRecords(readExport(), { preserveIds: true });
+
+    // Assert
+    expect(report).toMatchObject({ total: 2, inserted: 2, failed: 0 });
+    expect(addBatch).toHaveBeenCalledWith(restored, undefined, {});
+  });
+
+  test('should assign new ids when importing without preserveIds', async () => {
+    // Act
+    await importService.importRecords(parseJsonl(toJsonl(entries)));
+
+    // Assert
+    const [documents] = addBatch.mock.calls[0];
+    expect(documents[0].metadata).toMatchObject({ id: undefined, last_updated: undefined });
+  });
+
+  test('should bundle the export with its source and entry count', async () => {
+    // Arrange
+    const exportKnowledgeBaseEntries = jest.fn<KnowledgeBaseService['exportKnowledgeBaseEntries']>()
+      .mockResolvedValue(entries);
+    const service = new KnowledgeBaseExportService({ exportKnowledgeBaseEntries } as unknown as KnowledgeBaseService);
+
+    // Act
+    const bundle = await service.exportKnowledgeBase('csv', { kbName: 'support_kb' });
+
+    // Assert
+    expect(exportKnowledgeBaseEntries).toHaveBeenCalledWith('support_kb');
+    expect(bundle).toMatchObject({ format: 'csv', source: 'support_kb', count: 2 });
+    expect(bundle.files).toHaveLength(1);
+    expect(bundle.files[0].content.split('\r\n')[0])
+      .toBe('id,title,content,category,priority,product_type,tags,last_updated');
+  });
+});
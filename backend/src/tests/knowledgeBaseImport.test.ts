@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  KnowledgeBaseImportService,
+  parseCsv,
+  parseJsonl,
+  parseMarkdown,
+  readMarkdownDirectory
+} from '../services/knowledgeBaseImport.js';
+import type { KnowledgeBaseService } from '../services/knowledgeBase.js';
+
+describe('Knowledge base import parsers', () => {
+  test('should parse CSV with quoted commas, quotes and newlines', () => {
+    // Arrange
+    const csv = [
+      'title,content,category,priority,tags',
+      '"Refunds, explained","Say ""refund""\nto start",returns,high,refund;money',
+      '',
+      'Shipping,Ships in 2 days,shipping,low,'
+    ].join('\r\n');
+
+    // Act
+    const records = parseCsv(csv);
+
+    // Assert
+    expect(records).toEqual([
+      {
+        source: 'line 2',
+        data: {
+          title: 'Refunds, explained',
+          content: 'Say "refund"\nto start',
+          category: 'returns',
+          priority: 'high',
+          tags: 'refund;money'
+        }
+      },
+      {
+        source: 'line 5',
+        data: { title: 'Shipping', content: 'Ships in 2 days', category: 'shipping', priority: 'low', tags: '' }
+      }
+    ]);
+  });
+
+  test('should report JSONL lines that are not JSON objects', () => {
+    // Act
+    const records = parseJsonl('{"title":"A"}\n\nnot json\n[1, 2]\n');
+
+    // Assert
+    expect(records[0]).toEqual({ source: 'line 1', data: { title: 'A' } });
+    expect(records[1].source).toBe('line 3');
+    expect(records[1].error).toContain('Invalid JSON');
+    expect(records[2]).toMatchObject({ source: 'line 4', error: 'Expected a JSON object' });
+  });
+
+  test('should read Markdown front-matter and fall back to the first heading for the title', () => {
+    // Act
+    const withFrontMatter = parseMarkdown('refunds.md', [
+      '---',
+      'title: "Refund Policy"',
+      'category: returns',
+      'priority: high',
+      'tags: [refund, money]',
+      'product_type: physical',
+      '---',
+      'Refunds are issued within 14 days.'
+    ].join('\n'));
+    const withListTags = parseMarkdown('start.md', [
+      '---',
+      'category: general',
+      'tags:',
+      '  - onboarding',
+      '  - "getting-started"',
+      '---',
+      '# Getting Started',
+      '',
+      'Complete your profile first.'
+    ].join('\n'));
+
+    // Assert
+    expect(withFrontMatter.data).toEqual({
+      title: 'Refund Policy',
+      category: 'returns',
+      priority: 'high',
+      tags: ['refund', 'money'],
+      product_type: 'physical',
+      content: 'Refunds are issued within 14 days.'
+    });
+    expect(withListTags.data.title).toBe('Getting Started');
+    expect(withListTags.data.tags).toEqual(['onboarding', 'getting-started']);
+  });
+});
+
+describe('KnowledgeBaseImportService', () => {
+  const addBatch = jest.fn<KnowledgeBaseService['addKnowledgeBaseDocuments']>();
+  let service: KnowledgeBaseImportService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    addBatch.mockReset();
+    addBatch.mockResolvedValue(true);
+    service = new KnowledgeBaseImportService({
+      addKnowledgeBaseDocuments: addBatch
+    } as unknown as KnowledgeBaseService);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-import-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should validate each row and report per-row errors', async () => {
+    // Arrange
+    const records = parseCsv([
+      'title,content,category,priority,tags',
+      'Refunds,Refunds take 14 days,returns,high,refund',
+      ',Missing title,billing,low,',
+      'Bad,Bad category,marketing,urgent,'
+    ].join('\n'));
+
+    // Act
+    const report = await service.importRecords(records);
+
+    // Assert
+    expect(report).toMatchObject({ total: 3, valid: 1, inserted: 1, failed: 2, dry_run: false });
+    expect(report.errors).toEqual([
+      { source: 'line 3', errors: ['title: Title is required'] },
+      { source: 'line 4', errors: [expect.stringContaining('category'), expect.stringContaining('priority')] }
+    ]);
+    expect(addBatch).toHaveBeenCalledWith([
+      {
+        content: 'Refunds take 14 days',
+        metadata: { title: 'Refunds', category: 'returns', priority: 'high', product_type: undefined, tags: ['refund'] }
+      }
+    ], undefined, {});
+  });
+
+  test('should insert in batches and report rows from failed batches', async () => {
+    // Arrange
+    const records = Array.from({ length: 5 }, (_, index) => ({
+      source: `line ${index + 1}`,
+      data: { title: `Article ${index}`, content: 'Body', category: 'general', priority: 'low' }
+    }));
+    addBatch.mockResolvedValueOnce(true).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    // Act
+    const report = await service.importRecords(records, { batchSize: 2, kbName: 'docs_kb' });
+
+    // Assert
+    expect(addBatch).toHaveBeenCalledTimes(3);
+    expect(addBatch.mock.calls.map(([documents]) => documents.length)).toEqual([2, 2, 1]);
+    expect(addBatch.mock.calls[0][1]).toBe('docs_kb');
+    expect(report.inserted).toBe(3);
+    expect(report.errors.map(error => error.source)).toEqual(['line 3', 'line 4']);
+  });
+
+  test('should not insert anything on a dry run', async () => {
+    // Act
+    const report = await service.importRecords(
+      parseJsonl('{"title":"A","content":"B","category":"general","priority":"low"}'),
+      { dryRun: true }
+    );
+
+    // Assert
+    expect(report).toMatchObject({ total: 1, valid: 1, inserted: 0, failed: 0, dry_run: true });
+    expect(addBatch).not.toHaveBeenCalled();
+  });
+
+  test('should import a directory of Markdown files recursively', async () => {
+    // Arrange
+    fs.mkdirSync(path.join(tempDir, 'billing'));
+    fs.writeFileSync(path.join(tempDir, 'billing', 'invoices.md'),
+      '---\ntitle: Invoices\ncategory: billing\npriority: medium\n---\nInvoices are emailed monthly.');
+    fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'ignored');
+    fs.writeFileSync(path.join(tempDir, 'draft.md'), '# Draft\n\nNo category yet.');
+
+    // Act
+    const records = await readMarkdownDirectory(tempDir);
+    const report = await service.importPath(tempDir);
+
+    // Assert
+    expect(records.map(record => record.source)).toEqual([path.join('billing', 'invoices.md'), 'draft.md']);
+    expect(report.inserted).toBe(1);
+    expect(report.errors[0].source).toBe('draft.md');
+  });
+
+  test('should reject unsupported file types', async () => {
+    // Arrange
+    const file = path.join(tempDir, 'articles.xml');
+    fs.writeFileSync(file, '<articles />');
+
+    // Act & Assert
+    await expect(service.importPath(file)).rejects.toThrow('Unsupported import file type');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { HashingEmbedder, LocalSearchEngine, tokenize, type Embedder } from '../services/localSearch.js';
+import type { KnowledgeBaseEntry } from '../types/index.js';
+
+const entry = (id: string, title: string, content: string, overrides: Partial<KnowledgeBaseEntry> = {}): KnowledgeBaseEntry => ({
+  id,
+  title,
+  content,
+  category: 'general',
+  priority: 'medium',
+  tags: [],
+  last_updated: new Date('2025-06-24T10:00:00Z'),
+  ...overrides
+});
+
+const entries = [
+  entry('kb_password', 'Password Reset', 'Click "Forgot password" on the login page to reset your password.', { category: 'technical', priority: 'high' }),
+  entry('kb_billing', 'Billing', 'Update payment methods and view invoices under Account Settings.', { category: 'billing' }),
+  entry('kb_shipping', 'Shipping Times', 'Orders ship within two days. Express shipping is available.', { category: 'shipping', product_type: 'physical' })
+];
+
+describe('LocalSearchEngine', () => {
+  let engine: LocalSearchEngine;
+
+  beforeEach(() => {
+    engine = new LocalSearchEngine();
+    engine.index(entries);
+  });
+
+  test('should tokenize without stop words and with light stemming', () => {
+    expect(tokenize("How do I update my Payment methods? It's updated")).toEqual(['updat', 'payment', 'method', 'updat']);
+    expect(tokenize('shipping ships shipped billing boxes')).toEqual(['ship', 'ship', 'ship', 'bill', 'box']);
+  });
+
+  test('should rank entries by BM25 relevance between 0 and 1', async () => {
+    // Act
+    const results = await engine.search('reset my password');
+
+    // Assert
+    expect(results.map(result => result.id)).toEqual(['kb_password']);
+    expect(results[0].relevance).toBeGreaterThan(0.9);
+    expect(results[0].relevance).toBeLessThanOrEqual(1);
+    expect(results[0].distance).toBeCloseTo(1 - results[0].relevance!);
+    expect(results[0].chunk_content).toBe(entries[0].content);
+  });
+
+  test('should lower relevance for query terms missing from the corpus', async () => {
+    // Act
+    const [full] = await engine.search('payment invoices');
+    const [partial] = await engine.search('payment refund voucher');
+
+    // Assert
+    expect(full.id).toBe('kb_billing');
+    expect(partial.id).toBe('kb_billing');
+    expect(partial.relevance!).toBeLessThan(full.relevance! / 2);
+  });
+
+  test('should apply filters, threshold and limit', async () => {
+    // Act & Assert
+    expect(await engine.search('shipping password', { category: 'technical' })).toHaveLength(1);
+    expect(await engine.search('shipping', { product_type: 'digital' })).toEqual([]);
+    expect(await engine.search('express shipping payment', { limit: 1 })).toHaveLength(1);
+    expect(await engine.search('payment refund voucher', { relevance_threshold: 0.7 })).toEqual([]);
+    expect(await engine.search('weather today')).toEqual([]);
+  });
+
+  test('should reindex when entries change', async () => {
+    // Act
+    engine.index([...entries, entry('kb_returns', 'Returns', 'Returns are accepted within 30 days.')]);
+
+    // Assert
+    expect((await engine.search('returns accepted'))[0].id).toBe('kb_returns');
+  });
+
+  test('should blend in similarity from a pluggable embedder and cache document vectors', async () => {
+    // Arrange
+    const vectors: Record<string, number[]> = { kb_password: [1, 0], kb_billing: [0, 1], kb_shipping: [0.6, 0.8] };
+    const embed = jest.fn(async (texts: string[]) =>
+      texts.map(text => text === 'forgotten login' ? [1, 0] : vectors[entries.find(e => text.startsWith(e.title))!.id])
+    );
+    const embedder: Embedder = { embed };
+    engine = new LocalSearchEngine({ embedder, lexicalWeight: 0.5 });
+    engine.index(entries);
+
+    // Act
+    const results = await engine.search('forgotten login');
+    await engine.search('forgotten login');
+
+    // Assert
+    expect(results.map(result => result.id)).toEqual(['kb_password', 'kb_shipping']);
+    expect(results[1]).toMatchObject({ relevance: 0.3, distance: 0.4 });
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toEqual(['forgotten login']);
+  });
+
+  test('should match spelling variants with the hashing embedder', async () => {
+    // Arrange
+    engine = new LocalSearchEngine({ embedder: new HashingEmbedder() });
+    engine.index(entries);
+
+    // Act
+    const results = await engine.search('pasword resetting');
+
+    // Assert
+    expect(results[0].id).toBe('kb_password');
+    expect(results[0].distance).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import type { KnowledgeBaseEntry } from '../types/index.js';
+import { config, closeConnection, executeQuery } from '../config/database.js';
+import { InMemoryBackend, MindsDBSqlBackend } from '../backends/index.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { AIService } from '../services/ai.js';
+import { ChatService } from '../services/chat.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import { MindsDBStandIn } from '../testing/mindsdbStandIn.js';
+
+const entry = (id: string, title: string, content: string, overrides: Partial<KnowledgeBaseEntry> = {}): KnowledgeBaseEntry => ({
+  id,
+  title,
+  content,
+  category: 'general',
+  priority: 'medium',
+  tags: [],
+  last_updated: new Date('2025-06-24T10:00:00Z'),
+  ...overrides
+});
+
+const entries = [
+  entry('kb_password', 'Password Reset', 'Click "Forgot password" on the login page to reset your password.', { category: 'technical', priority: 'high', tags: ['account'] }),
+  entry('kb_billing', 'Billing', 'Update payment methods and view invoices under Account Settings.', { category: 'billing' }),
+  entry('kb_shipping', 'Shipping Times', 'Orders ship within two days. Express shipping is available.', { category: 'shipping', product_type: 'physical' })
+];
+
+describe('MindsDB stand-in', () => {
+  let standIn: MindsDBStandIn;
+  const original = { host: config.host, port: config.port };
+
+  beforeAll(async () => {
+    standIn = new MindsDBStandIn({ backend: new InMemoryBackend({ entries }) });
+    config.host = '127.0.0.1';
+    config.port = await standIn.start();
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+    await standIn.stop();
+    Object.assign(config, original);
+  });
+
+  test('should search, list and count the knowledge base table over SQL', async () => {
+    // Arrange
+    const service = new KnowledgeBaseService(new MindsDBSqlBackend());
+
+    // Act
+    const results = await service.searchKnowledgeBase('express shipping time', { relevance_threshold: 0.5 });
+    const technical = await service.listKnowledgeBaseEntries({ category: 'technical' });
+
+    // Assert
+    expect(results.map(result => result.id)).toEqual(['kb_shipping']);
+    expect(results[0]).toMatchObject({ title: 'Shipping Times', category: 'shipping', product_type: 'physical' });
+    expect(technical).toHaveLength(1);
+    expect(technical[0]).toMatchObject({ id: 'kb_password', tags: ['account'], last_updated: new Date('2025-06-24T10:00:00Z') });
+    expect(await service.getCategories()).toEqual(['billing', 'shipping', 'technical']);
+    expect(await service.getStats()).toEqual({
+      total_entries: 3,
+      by_category: { technical: 1, billing: 1, shipping: 1 },
+      by_priority: { high: 1, medium: 2 }
+    });
+  });
+
+  test('should insert, update and delete rows', async () => {
+    // Arrange
+    const service = new KnowledgeBaseService(new MindsDBSqlBackend());
+
+    // Act
+    await service.addKnowledgeBaseEntry({
+      title: 'Return Policy',
+      content: "Returns are accepted within 30 days. Items can't be used.",
+      category: 'returns',
+      priority: 'high',
+      tags: ['returns']
+    });
+    const [added] = await service.listKnowledgeBaseEntries({ category: 'returns' });
+
+    // Assert
+    expect(added).toMatchObject({ title: 'Return Policy', content: "Returns are accepted within 30 days. Items can't be used." });
+
+    // Act & Assert
+    expect(await service.updateKnowledgeBaseEntry(added.id, { title: 'Refund Rules' })).toBe(true);
+    expect((await service.listKnowledgeBaseEntries({ category: 'returns' }))[0].title).toBe('Refund Rules');
+    expect(await service.deleteKnowledgeBaseEntry(added.id)).toBe(true);
+    expect(await service.listKnowledgeBaseEntries({ category: 'returns' })).toEqual([]);
+    expect(await service.deleteKnowledgeBaseEntry(added.id)).toBe(false);
+  });
+
+  test('should answer classifier, generator and rewriter predictions', async () => {
+    // Arrange
+    const aiService = new AIService(new MindsDBSqlBackend());
+
+    // Act
+    const classification = await aiService.classifyQuery('I forgot my password');
+    const answer = await aiService.generateResponse('I forgot my password', entries.slice(0, 1), classification);
+    const standalone = await aiService.rewriteQuery('what about express?', [
+      { id: 'msg_1', role: 'user', content: 'How long does shipping take?', timestamp: new Date() }
+    ]);
+
+    // Assert
+    expect(classification).toMatchObject({ category: 'technical', intent: 'password_reset' });
+    expect(answer.response).toContain('Forgot password');
+    expect(answer.requires_escalation).toBe(false);
+    expect(standalone).toContain('shipping');
+  });
+
+  test('should run a chat message end to end through the SQL backend', async () => {
+    // Arrange
+    const backend = new MindsDBSqlBackend();
+    const chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend),
+      new InMemoryConversationRepository()
+    );
+    standIn.queries.length = 0;
+
+    // Act
+    const response = await chatService.processMessage({ message: 'How do I reset my password?' });
+
+    // Assert
+    expect(response.sources.map(source => source.id)).toContain('kb_password');
+    expect(response.message).toContain('Forgot password');
+    expect(response.metadata.category).toBe('technical');
+    expect(standIn.queries.some(sql => sql.includes('FROM query_classifier_model'))).toBe(true);
+    expect(standIn.queries.some(sql => sql.includes('FROM response_generator_model'))).toBe(true);
+  });
+
+  test('should list knowledge bases, including ones created over SQL', async () => {
+    // Act
+    await executeQuery('CREATE KNOWLEDGE_BASE product_docs USING engine = \'chromadb\'');
+    const { rows } = await executeQuery("SELECT * FROM information_schema.knowledge_bases WHERE name = 'product_docs'");
+
+    // Assert
+    expect(rows).toEqual([{ name: 'product_docs', project: 'mindsdb' }]);
+  });
+
+  test('should reject statements it does not understand', async () => {
+    // Act & Assert
+    await expect(executeQuery('SHOW DATABASES')).rejects.toThrow('Query failed: Unsupported statement: SHOW DATABASES');
+  });
+});
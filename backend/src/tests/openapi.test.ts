@@ -0,0 +1,64 @@
+import { describe, test, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { createDocsRouter } from '../routes/docs.js';
+import { conversationPageSchema, chatRequestSchema } from '../schemas/chat.js';
+
+describe('Chat API contract', () => {
+  test('should read timestamps sent over the wire back as dates', () => {
+    // Arrange
+    const wire = JSON.parse(JSON.stringify({
+      user_id: 'user_456',
+      conversations: [{
+        id: 'conv_123',
+        status: 'active',
+        title: 'Refund for order 1234',
+        message_count: 1,
+        last_message: { role: 'user', content: 'I want a refund', timestamp: new Date('2025-06-24T11:00:00Z') },
+        created_at: new Date('2025-06-24T11:00:00Z'),
+        updated_at: new Date('2025-06-24T11:00:00Z')
+      }],
+      total: 1,
+      limit: 20,
+      offset: 0
+    }));
+
+    // Act
+    const page = conversationPageSchema.parse(wire);
+
+    // Assert
+    expect(page.conversations[0].updated_at).toEqual(new Date('2025-06-24T11:00:00Z'));
+    expect(page.conversations[0].last_message?.timestamp).toBeInstanceOf(Date);
+  });
+
+  test('should reject chat requests without a message', () => {
+    // Act
+    const result = chatRequestSchema.safeParse({ conversation_id: 'conv_123' });
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe('message is required');
+  });
+
+  test('GET /api/docs should serve the OpenAPI document generated from the schemas', async () => {
+    // Arrange
+    const app = express();
+    app.use('/api/docs', createDocsRouter());
+
+    // Act
+    const response = await request(app).get('/api/docs');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.body.openapi).toBe('3.0.3');
+    expect(Object.keys(response.body.paths)).toContain('/api/chat/users/{userId}/conversations');
+    expect(response.body.paths['/api/chat/users/{userId}/conversations'].get.parameters).toContainEqual({
+      name: 'limit',
+      in: 'query',
+      required: false,
+      schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+    });
+    expect(response.body.components.schemas.ChatRequest.required).toEqual(['message']);
+    expect(response.body.components.schemas.Conversation.properties.created_at).toEqual({ type: 'string', format: 'date-time' });
+  });
+});
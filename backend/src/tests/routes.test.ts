@@ -7,6 +7,8 @@ jest.mock('../services/chat.js', () => ({
   ChatService: jest.fn().mockImplementation(() => ({
     processMessage: jest.fn(),
     getConversationHistory: jest.fn(),
+    getConversation: jest.fn(),
+    renameConversation: jest.fn(),
     getUserConversations: jest.fn(),
     getStats: jest.fn()
   }))
@@ -15,7 +17,10 @@ jest.mock('../services/chat.js', () => ({
 jest.mock('../services/knowledgeBase.js', () => ({
   KnowledgeBaseService: jest.fn().mockImplementation(() => ({
     searchKnowledgeBase: jest.fn(),
+    listKnowledgeBaseEntries: jest.fn(),
     addKnowledgeBaseEntry: jest.fn(),
+    addKnowledgeBaseDocuments: jest.fn(),
+    exportKnowledgeBaseEntries: jest.fn(),
     getCategories: jest.fn(),
     getStats: jest.fn()
   }))
@@ -27,6 +32,7 @@ import { createChatRouter } from '../routes/chat.js';
 import { createKnowledgeBaseRouter } from '../routes/knowledgeBase.js';
 import { createAgentsRouter } from '../routes/agents.js';
 import { AgentsService } from '../services/agents.js';
+import type { KnowledgeBaseEntry } from '../types/index.js';
 
 const mockChatService = new ChatService() as jest.Mocked<ChatService>;
 const mockKnowledgeBaseService = new KnowledgeBaseService() as jest.Mocked<KnowledgeBaseService>;
@@ -114,6 +120,85 @@ describe('API Routes', () => {
       });
     });
 
+    describe('POST /api/chat/stream', () => {
+      test('should stream pipeline stages as server-sent events', async () => {
+        // Arrange
+        const finalResponse = {
+          message: 'Reset it from the login page.',
+          confidence: 0.9,
+          sources: [],
+          suggested_actions: [],
+          requires_escalation: false,
+          conversation_id: 'conv_123',
+          metadata: {
+            processing_time: 42,
+            category: 'technical',
+            priority: 'medium' as const
+          }
+        };
+
+        mockChatService.processMessage.mockImplementation(async (_request, onEvent) => {
+          onEvent?.({ type: 'classified', data: { category: 'technical', intent: 'password_reset', confidence: 0.9, entities: [] } });
+          onEvent?.({ type: 'sources', data: [] });
+          onEvent?.({ type: 'token', data: { text: 'Reset ' } });
+          return finalResponse;
+        });
+
+        // Act
+        const response = await request(app)
+          .post('/api/chat/stream')
+          .send({ message: 'How do I reset my password?', conversation_id: 'conv_123' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toContain('text/event-stream');
+        expect(response.text).toContain('event: classified\ndata: {"category":"technical"');
+        expect(response.text).toContain('event: sources\ndata: []');
+        expect(response.text).toContain('event: token\ndata: {"text":"Reset "}');
+        expect(response.text).toContain(`event: done\ndata: ${JSON.stringify(finalResponse)}`);
+      });
+
+      test('should stream an error event when processing fails', async () => {
+        // Arrange
+        mockChatService.processMessage.mockRejectedValue(new Error('Service unavailable'));
+
+        // Act
+        const response = await request(app)
+          .post('/api/chat/stream')
+          .send({ message: 'test message' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.text).toContain('event: error\ndata: {"message":"Service unavailable"}');
+      });
+
+      test('should reject invalid requests before streaming', async () => {
+        // Act
+        const response = await request(app)
+          .post('/api/chat/stream')
+          .send({});
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('message is required');
+      });
+
+      test('should return 500 when the conversation cannot be looked up', async () => {
+        // Arrange
+        mockChatService.getConversation.mockRejectedValueOnce(new Error('Database unavailable'));
+
+        // Act
+        const response = await request(app)
+          .post('/api/chat/stream')
+          .send({ message: 'test message', conversation_id: 'conv_123' });
+
+        // Assert
+        expect(response.status).toBe(500);
+        expect(response.body).toMatchObject({ success: false, error: 'Internal server error', message: 'Database unavailable' });
+        expect(mockChatService.processMessage).not.toHaveBeenCalled();
+      });
+    });
+
     describe('GET /api/chat/conversations/:conversationId/history', () => {
       test('should return conversation history', async () => {
         // Arrange
@@ -161,22 +246,76 @@ describe('API Routes', () => {
       });
     });
 
+    describe('PATCH /api/chat/conversations/:conversationId', () => {
+      test('should rename the conversation', async () => {
+        // Arrange
+        const timestamp = new Date();
+        mockChatService.renameConversation.mockResolvedValue({
+          id: 'conv_123',
+          status: 'active',
+          title: 'Password reset',
+          created_at: timestamp,
+          updated_at: timestamp
+        });
+
+        // Act
+        const response = await request(app)
+          .patch('/api/chat/conversations/conv_123')
+          .send({ title: '  Password reset  ' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.data.title).toBe('Password reset');
+        expect(mockChatService.renameConversation).toHaveBeenCalledWith('conv_123', 'Password reset');
+      });
+
+      test('should reject a blank title and unknown conversations', async () => {
+        mockChatService.renameConversation.mockResolvedValue(null);
+
+        const blank = await request(app).patch('/api/chat/conversations/conv_123').send({ title: '   ' });
+        const missing = await request(app).patch('/api/chat/conversations/conv_missing').send({ title: 'Billing' });
+
+        expect(blank.status).toBe(400);
+        expect(blank.body.error).toBe('title: Title is required');
+        expect(missing.status).toBe(404);
+      });
+    });
+
     describe('GET /api/chat/users/:userId/conversations', () => {
       test('should return user conversations', async () => {
         // Arrange
         const userId = 'user_456';
-        const expectedConversations = ['conv_123', 'conv_456', 'conv_789'];
+        const expectedPage = {
+          user_id: userId,
+          conversations: [],
+          total: 3,
+          limit: 2,
+          offset: 2
+        };
 
-        mockChatService.getUserConversations.mockResolvedValue(expectedConversations);
+        mockChatService.getUserConversations.mockResolvedValue(expectedPage);
 
         // Act
         const response = await request(app)
-          .get(`/api/chat/users/${userId}/conversations`);
+          .get(`/api/chat/users/${userId}/conversations?limit=2&offset=2&sort=created_at`);
 
         // Assert
         expect(response.status).toBe(200);
         expect(response.body.success).toBe(true);
-        expect(response.body.data).toEqual(expectedConversations);
+        expect(response.body.data).toEqual(expectedPage);
+        expect(mockChatService.getUserConversations).toHaveBeenCalledWith(userId, {
+          limit: 2,
+          offset: 2,
+          sort: 'created_at',
+          order: 'desc'
+        });
+      });
+
+      test('should reject an out-of-range page size', async () => {
+        const response = await request(app).get('/api/chat/users/user_456/conversations?limit=500');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('limit: limit must be between 1 and 100');
       });
     });
 
@@ -187,7 +326,9 @@ describe('API Routes', () => {
           total_conversations: 150,
           total_messages: 750,
           average_messages_per_conversation: 5,
-          escalation_rate: 0.15
+          escalation_rate: 0.15,
+          rated_answers: 40,
+          helpful_rate: 0.8
         };
 
         mockChatService.getStats.mockResolvedValue(expectedStats);
@@ -271,6 +412,38 @@ describe('API Routes', () => {
       });
     });
 
+    describe('GET /api/kb/entries', () => {
+      test('should list entries with filters', async () => {
+        // Arrange
+        mockKnowledgeBaseService.listKnowledgeBaseEntries.mockResolvedValue([]);
+
+        // Act
+        const response = await request(app)
+          .get('/api/kb/entries')
+          .query({ category: 'billing', tag: 'refund', limit: '20' });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.data).toEqual({ entries: [], total: 0 });
+        expect(mockKnowledgeBaseService.listKnowledgeBaseEntries).toHaveBeenCalledWith({
+          category: 'billing',
+          tag: 'refund',
+          limit: 20
+        });
+      });
+
+      test('should reject unknown categories', async () => {
+        // Act
+        const response = await request(app)
+          .get('/api/kb/entries')
+          .query({ category: 'marketing' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('category');
+      });
+    });
+
     describe('POST /api/kb/entries', () => {
       test('should add knowledge base entry successfully', async () => {
         // Arrange
@@ -310,6 +483,103 @@ describe('API Routes', () => {
       });
     });
 
+    describe('POST /api/kb/import', () => {
+      test('should import CSV content and report invalid rows', async () => {
+        // Arrange
+        mockKnowledgeBaseService.addKnowledgeBaseDocuments.mockResolvedValue(true);
+
+        // Act
+        const response = await request(app)
+          .post('/api/kb/import')
+          .send({
+            format: 'csv',
+            content: 'title,content,category,priority\nRefunds,Within 14 days,returns,high\nBroken,,returns,high'
+          });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.data).toMatchObject({ total: 2, inserted: 1, failed: 1 });
+        expect(response.body.data.errors[0]).toEqual({ source: 'line 3', errors: ['content: Content is required'] });
+      });
+
+      test('should import Markdown files', async () => {
+        // Arrange
+        mockKnowledgeBaseService.addKnowledgeBaseDocuments.mockResolvedValue(true);
+
+        // Act
+        const response = await request(app)
+          .post('/api/kb/import')
+          .send({
+            format: 'markdown',
+            files: [{ name: 'refunds.md', content: '---\ncategory: returns\npriority: high\n---\n# Refunds\n\nWithin 14 days.' }]
+          });
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.data.inserted).toBe(1);
+      });
+
+      test('should reject unknown formats', async () => {
+        // Act
+        const response = await request(app)
+          .post('/api/kb/import')
+          .send({ format: 'xml', content: '<articles />' });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.success).toBe(false);
+      });
+    });
+
+    describe('GET /api/kb/export', () => {
+      const exported: KnowledgeBaseEntry[] = [{
+        id: 'kb_1',
+        title: 'Refund Policy',
+        content: 'Refunds are issued within 14 days.',
+        category: 'returns',
+        priority: 'high',
+        tags: ['refund'],
+        last_updated: new Date('2025-06-24T10:00:00Z')
+      }];
+
+      test('should download a JSONL export by default', async () => {
+        // Arrange
+        mockKnowledgeBaseService.exportKnowledgeBaseEntries.mockResolvedValue(exported);
+
+        // Act
+        const response = await request(app).get('/api/kb/export');
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toContain('application/x-ndjson');
+        expect(response.headers['content-disposition']).toBe('attachment; filename="knowledge-base.jsonl"');
+        expect(JSON.parse(response.text)).toMatchObject({ id: 'kb_1', last_updated: '2025-06-24T10:00:00.000Z' });
+        expect(mockKnowledgeBaseService.exportKnowledgeBaseEntries).toHaveBeenCalledWith(undefined);
+      });
+
+      test('should return Markdown exports as a bundle of files', async () => {
+        // Arrange
+        mockKnowledgeBaseService.exportKnowledgeBaseEntries.mockResolvedValue(exported);
+
+        // Act
+        const response = await request(app).get('/api/kb/export?format=markdown&kb_name=support_kb');
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(response.body.data).toMatchObject({ format: 'markdown', source: 'support_kb', count: 1 });
+        expect(response.body.data.files[0].name).toBe('returns/kb_1.md');
+      });
+
+      test('should reject unknown formats', async () => {
+        // Act
+        const response = await request(app).get('/api/kb/export?format=xml');
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(response.body.success).toBe(false);
+      });
+    });
+
     describe('GET /api/kb/categories', () => {
       test('should return available categories', async () => {
         // Arrange
@@ -361,7 +631,7 @@ describe('API Routes', () => {
   });
 
   describe('Agents Routes', () => {
-    let app: Express;
+    let app: express.Application;
     
     beforeEach(() => {
       app = express();
@@ -9,6 +9,11 @@ process.env.MINDSDB_PORT = '47334';
 process.env.MINDSDB_USER = 'mindsdb';
 process.env.MINDSDB_PASSWORD = '';
 process.env.OPENAI_API_KEY = 'test-key';
+// Run MindsDB-backed services against their in-process mock paths
+process.env.MOCK_MODE = 'true';
+process.env.CONVERSATION_STORE = 'memory';
+// Route tests act as an admin unless they pass their own AuthService
+process.env.AUTH_ENABLED = 'false';
 
 // Global test timeout
 jest.setTimeout(30000);
@@ -0,0 +1,254 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+
+// Keep the real SQL builders, only stub out query execution
+jest.mock('../config/database.js', () => ({
+  ...(jest.requireActual('../config/database.js') as object),
+  executeQuery: jest.fn()
+}));
+
+import {
+  executeQuery,
+  escapeLiteral,
+  escapeIdentifier,
+  buildKnowledgeBaseSearch,
+  buildModelPrediction,
+  buildInsert,
+  buildUpdate,
+  buildDelete,
+  buildCreateKnowledgeBase,
+  buildCreateWithParams
+} from '../config/database.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { MindsDBSqlBackend } from '../backends/index.js';
+
+const mockExecuteQuery = executeQuery as jest.MockedFunction<typeof executeQuery>;
+
+const payloads = [
+  "' OR '1'='1",
+  "'; DROP TABLE support_knowledge_base; --",
+  "\\'; DROP TABLE support_knowledge_base; --",
+  "it's a \"quoted\" value\\",
+  "null\0byte"
+];
+
+/**
+ * Strip every well-formed string literal; whatever is left is SQL structure.
+ * A successful injection leaves user text outside of literals.
+ */
+function stripLiterals(sql: string): string {
+  return sql.replace(/'(?:[^'\\]|\\.|'')*'/g, '?');
+}
+
+describe('SQL builder', () => {
+  describe('escapeLiteral', () => {
+    test.each(payloads)('should keep %j inside a single literal', (payload) => {
+      // Act
+      const literal = escapeLiteral(payload);
+
+      // Assert
+      expect(stripLiterals(literal)).toBe('?');
+    });
+
+    test('should double quotes and escape backslashes', () => {
+      expect(escapeLiteral("it's")).toBe("'it''s'");
+      expect(escapeLiteral('a\\b')).toBe("'a\\\\b'");
+    });
+
+    test('should render numbers, booleans, null, dates and lists', () => {
+      expect(escapeLiteral(0.7)).toBe('0.7');
+      expect(escapeLiteral(true)).toBe('true');
+      expect(escapeLiteral(null)).toBe('NULL');
+      expect(escapeLiteral(new Date('2025-06-24T10:00:00Z'))).toBe("'2025-06-24T10:00:00.000Z'");
+      expect(escapeLiteral(['support_kb', "o'brien"])).toBe("['support_kb', 'o''brien']");
+    });
+
+    test('should reject non-finite numbers', () => {
+      expect(() => escapeLiteral(NaN)).toThrow('Invalid SQL number');
+      expect(() => escapeLiteral(Infinity)).toThrow('Invalid SQL number');
+    });
+  });
+
+  describe('escapeIdentifier', () => {
+    test('should accept plain and schema-qualified identifiers', () => {
+      expect(escapeIdentifier('support_kb')).toBe('support_kb');
+      expect(escapeIdentifier('information_schema.knowledge_bases')).toBe('information_schema.knowledge_bases');
+    });
+
+    test.each([
+      'support_kb; DROP TABLE x',
+      'kb`',
+      'a b',
+      '1kb',
+      ''
+    ])('should reject %j', (name) => {
+      expect(() => escapeIdentifier(name)).toThrow('Invalid SQL identifier');
+    });
+  });
+
+  describe('buildKnowledgeBaseSearch', () => {
+    test('should build a knowledge base search with column and metadata filters', () => {
+      // Act
+      const sql = buildKnowledgeBaseSearch('support_kb', {
+        columns: ['id', 'chunk_content', 'metadata'],
+        content: 'reset password',
+        relevanceThreshold: 0.7,
+        filters: { category: 'technical', priority: undefined },
+        metadataFilters: { product_type: 'web_app' },
+        limit: 5
+      });
+
+      // Assert
+      expect(sql).toBe(
+        "SELECT id, chunk_content, metadata FROM support_kb WHERE content = 'reset password' " +
+        "AND relevance >= 0.7 AND category = 'technical' " +
+        "AND JSON_EXTRACT(metadata, '$.product_type') = 'web_app' ORDER BY relevance DESC LIMIT 5"
+      );
+    });
+
+    test.each(payloads)('should not let %j escape the content or filter literals', (payload) => {
+      // Act
+      const sql = buildKnowledgeBaseSearch('support_kb', {
+        columns: ['id'],
+        content: payload,
+        filters: { category: payload },
+        metadataFilters: { priority: payload },
+        limit: 10
+      });
+
+      // Assert
+      expect(stripLiterals(sql)).toBe(
+        'SELECT id FROM support_kb WHERE content = ? AND category = ? ' +
+        'AND JSON_EXTRACT(metadata, ?) = ? ORDER BY relevance DESC LIMIT 10'
+      );
+    });
+
+    test('should reject metadata keys that are not identifiers', () => {
+      expect(() => buildKnowledgeBaseSearch('support_kb', {
+        columns: ['id'],
+        content: 'x',
+        metadataFilters: { "category') = 'x' OR ('1": 'y' }
+      })).toThrow('Invalid SQL identifier');
+    });
+
+    test('should reject non-integer limits', () => {
+      expect(() => buildKnowledgeBaseSearch('support_kb', {
+        columns: ['id'],
+        content: 'x',
+        limit: 1.5
+      })).toThrow('Invalid SQL limit');
+    });
+  });
+
+  describe('statement builders', () => {
+    test.each(payloads)('should keep %j out of SQL structure in writes and predictions', (payload) => {
+      expect(stripLiterals(buildModelPrediction('response_generator_model', ['response'], { query: payload, context: payload })))
+        .toBe('SELECT response FROM response_generator_model WHERE query = ? AND context = ?');
+      expect(stripLiterals(buildInsert('support_knowledge_base', { id: 'kb_1', content: payload })))
+        .toBe('INSERT INTO support_knowledge_base (id, content) VALUES (?, ?)');
+      expect(stripLiterals(buildUpdate('support_knowledge_base', { title: payload }, { id: payload })))
+        .toBe('UPDATE support_knowledge_base SET title = ? WHERE id = ?');
+      expect(stripLiterals(buildDelete('support_knowledge_base', { id: payload })))
+        .toBe('DELETE FROM support_knowledge_base WHERE id = ?');
+    });
+
+    test('should insert several rows in one statement', () => {
+      // Act
+      const sql = buildInsert('support_kb', [
+        { id: 'kb_1', content: "It's here" },
+        { id: 'kb_2', content: 'There' }
+      ]);
+
+      // Assert
+      expect(sql).toBe("INSERT INTO support_kb (id, content) VALUES ('kb_1', 'It''s here'), ('kb_2', 'There')");
+      expect(() => buildInsert('support_kb', [])).toThrow('at least one row');
+    });
+
+    test('should refuse UPDATE and DELETE without a WHERE condition', () => {
+      expect(() => buildUpdate('support_knowledge_base', { title: 'x' }, { id: undefined })).toThrow('WHERE');
+      expect(() => buildDelete('support_knowledge_base', {})).toThrow('WHERE');
+    });
+
+    test('should build CREATE KNOWLEDGE_BASE with a JSON embedding model', () => {
+      // Act
+      const sql = buildCreateKnowledgeBase('support_kb', {
+        embeddingModel: { provider: 'openai', api_key: 'sk-"quoted"' },
+        metadataColumns: ['category', 'priority'],
+        contentColumns: ['content'],
+        idColumn: 'id'
+      });
+
+      // Assert
+      expect(sql).toContain('CREATE KNOWLEDGE_BASE support_kb');
+      expect(sql).toContain('embedding_model = {"provider":"openai","api_key":"sk-\\"quoted\\""}');
+      expect(sql).toContain("metadata_columns = ['category', 'priority']");
+      expect(sql).toContain("id_column = 'id'");
+      expect(() => buildCreateKnowledgeBase('kb; DROP', {
+        embeddingModel: {},
+        metadataColumns: [],
+        contentColumns: ['content'],
+        idColumn: 'id'
+      })).toThrow('Invalid SQL identifier');
+    });
+
+    test('should build CREATE MODEL/AGENT parameters as literals', () => {
+      // Act
+      const sql = buildCreateWithParams('MODEL', 'query_classifier', {
+        engine: 'openai',
+        prompt_template: "Classify: {{query}}'; DROP MODEL x; --",
+        unused: undefined
+      }, 'category');
+
+      // Assert
+      expect(stripLiterals(sql)).toBe('CREATE MODEL query_classifier\nPREDICT category\nUSING\n  engine = ?,\n  prompt_template = ?');
+    });
+  });
+});
+
+describe('KnowledgeBaseService SQL injection', () => {
+  let service: KnowledgeBaseService;
+
+  beforeEach(() => {
+    service = new KnowledgeBaseService(new MindsDBSqlBackend());
+    jest.clearAllMocks();
+  });
+
+  test.each(payloads)('should escape %j in search queries and filters', async (payload) => {
+    // Arrange
+    mockExecuteQuery.mockResolvedValue({ rows: [] });
+
+    // Act
+    await service.searchKnowledgeBase(payload, { category: payload, product_type: payload });
+
+    // Assert
+    const sql = mockExecuteQuery.mock.calls[0][0] as string;
+    expect(stripLiterals(sql)).toBe(
+      'SELECT id, chunk_content, metadata, relevance, distance FROM support_knowledge_base ' +
+      'WHERE content = ? AND relevance >= 0.7 AND category = ? AND product_type = ? ORDER BY relevance DESC LIMIT 10'
+    );
+  });
+
+  test.each(payloads)('should escape %j in entry writes', async (payload) => {
+    // Arrange
+    mockExecuteQuery.mockResolvedValue({ affectedRows: 1 });
+
+    // Act
+    await service.addKnowledgeBaseEntry({
+      title: payload,
+      content: payload,
+      category: 'general',
+      priority: 'low',
+      tags: [payload]
+    });
+    await service.updateKnowledgeBaseEntry(payload, { title: payload });
+    await service.deleteKnowledgeBaseEntry(payload);
+
+    // Assert
+    const [insertSql, updateSql, deleteSql] = mockExecuteQuery.mock.calls.map(call => stripLiterals(call[0] as string));
+    expect(insertSql).toBe(
+      'INSERT INTO support_knowledge_base (id, title, content, category, priority, product_type, tags, last_updated) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    expect(updateSql).toBe('UPDATE support_knowledge_base SET title = ?, last_updated = ? WHERE id = ?');
+    expect(deleteSql).toBe('DELETE FROM support_knowledge_base WHERE id = ?');
+  });
+});
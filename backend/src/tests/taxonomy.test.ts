@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import express from 'express';
+import { DEFAULT_TAXONOMY, TaxonomyService, setTaxonomyService } from '../services/taxonomy.js';
+import { knowledgeBaseEntrySchema } from '../schemas/knowledgeBase.js';
+import { createTaxonomyRouter } from '../routes/taxonomy.js';
+import { AIService } from '../services/ai.js';
+import { ChatService } from '../services/chat.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.js';
+import { EscalationRulesService } from '../services/escalationRules.js';
+import { InMemoryBackend } from '../backends/index.js';
+import { InMemoryConversationRepository } from '../repositories/conversationRepository.js';
+import type { TaxonomyCategory } from '../schemas/taxonomy.js';
+
+const warranty: TaxonomyCategory = {
+  id: 'warranty',
+  name: 'Warranty',
+  subcategories: [{ id: 'repairs', name: 'Repairs' }],
+  default_priority: 'high',
+  suggested_actions: ['Register your product'],
+  escalation_policy: 'rules'
+};
+
+describe('TaxonomyService', () => {
+  afterEach(() => {
+    setTaxonomyService(null);
+  });
+
+  test('should validate knowledge base entries against the shared taxonomy', () => {
+    // Arrange
+    const entry = { title: 'Repairs', content: 'Send the device back.', category: 'warranty', priority: 'medium' };
+
+    // Act & Assert
+    expect(knowledgeBaseEntrySchema.safeParse(entry).success).toBe(false);
+
+    setTaxonomyService(new TaxonomyService({ categories: [...DEFAULT_TAXONOMY, warranty] }));
+    expect(knowledgeBaseEntrySchema.parse(entry).category).toBe('warranty');
+    expect(knowledgeBaseEntrySchema.safeParse({ ...entry, category: 'legal' }).error?.errors[0].message)
+      .toBe('Unknown category "legal"');
+  });
+
+  test('should take priority, suggested actions and escalation policy from the category', async () => {
+    // Arrange
+    setTaxonomyService(new TaxonomyService({
+      categories: [{ ...warranty, id: 'technical', escalation_policy: 'always' }]
+    }));
+    const backend = new InMemoryBackend();
+    const aiService = new AIService(backend, new EscalationRulesService({ rules: [] }));
+    const chatService = new ChatService(new KnowledgeBaseService(backend), aiService, new InMemoryConversationRepository());
+
+    // Act
+    const escalated = await chatService.processMessage({ message: 'I forgot my password' });
+    const unknown = aiService.getSuggestedActions({ category: 'billing', intent: 'help', confidence: 0.9, entities: [] }, {
+      response: '', confidence: 0.9, reasoning: '', requires_escalation: false
+    }, false);
+
+    // Assert
+    expect(escalated.requires_escalation).toBe(true);
+    expect(escalated.escalation?.fired_rules[0].reasons).toEqual(['Warranty conversations always go to a person']);
+    expect(escalated.suggested_actions).toEqual(['Contact human support', 'Register your product']);
+    expect(unknown).toEqual(['Browse help center', 'Contact support']);
+  });
+
+  test('should default non-escalated priority to the category', async () => {
+    // Arrange
+    setTaxonomyService(new TaxonomyService({ categories: [{ ...warranty, id: 'technical' }] }));
+    const backend = new InMemoryBackend();
+    const chatService = new ChatService(
+      new KnowledgeBaseService(backend),
+      new AIService(backend, new EscalationRulesService({ rules: [] })),
+      new InMemoryConversationRepository()
+    );
+
+    // Act
+    const response = await chatService.processMessage({ message: 'I forgot my password' });
+
+    // Assert
+    expect(response.requires_escalation).toBe(false);
+    expect(response.metadata.priority).toBe('high');
+  });
+
+  describe('taxonomy file', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+      filePath = path.join(tempDir, 'taxonomy.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should load the taxonomy from the file and save changes back to it', async () => {
+      // Arrange
+      fs.writeFileSync(filePath, JSON.stringify({ categories: [{ id: 'general', name: 'General' }] }));
+      const taxonomy = new TaxonomyService({ filePath });
+
+      // Act
+      await taxonomy.createCategory(warranty);
+      await taxonomy.deleteCategory('general');
+
+      // Assert
+      expect(taxonomy.getCategory('general')).toBeNull();
+      expect(new TaxonomyService({ filePath }).listCategories()).toEqual([warranty]);
+      await expect(taxonomy.deleteCategory('warranty')).rejects.toThrow('The taxonomy needs at least one category');
+    });
+  });
+});
+
+describe('Taxonomy API', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/taxonomy', createTaxonomyRouter(new TaxonomyService()));
+  });
+
+  test('should list, create, update and delete categories', async () => {
+    // Act & Assert
+    const list = await request(app).get('/api/taxonomy/categories').expect(200);
+    expect(list.body.data.map((category: TaxonomyCategory) => category.id))
+      .toEqual(['technical', 'billing', 'shipping', 'returns', 'general']);
+
+    const created = await request(app)
+      .post('/api/taxonomy/categories')
+      .send({ id: 'warranty', name: 'Warranty' })
+      .expect(201);
+    expect(created.body.data).toEqual({
+      id: 'warranty',
+      name: 'Warranty',
+      subcategories: [],
+      default_priority: 'low',
+      suggested_actions: [],
+      escalation_policy: 'rules'
+    });
+
+    const updated = await request(app)
+      .put('/api/taxonomy/categories/warranty')
+      .send({ name: 'Warranty', default_priority: 'high', escalation_policy: 'always' })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({ default_priority: 'high', escalation_policy: 'always' });
+
+    await request(app).delete('/api/taxonomy/categories/warranty').expect(200);
+    await request(app).get('/api/taxonomy/categories/warranty').expect(404);
+  });
+
+  test('should reject duplicate and malformed categories', async () => {
+    // Act
+    const duplicate = await request(app).post('/api/taxonomy/categories').send({ id: 'billing', name: 'Billing' });
+    const malformed = await request(app).post('/api/taxonomy/categories').send({ id: 'Big Orders', name: 'Big orders' });
+
+    // Assert
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.error).toBe('Category "billing" already exists');
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error).toBe('id: Use lowercase letters, digits, "-" and "_"');
+  });
+});
@@ -1,56 +1,205 @@
 // Types for Customer Support Chatbot
 
-export interface ChatMessage {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  metadata?: {
-    confidence?: number;
-    sources?: string[];
-    category?: string;
-    priority?: 'low' | 'medium' | 'high';
-  };
-}
+// The chat REST contract is shared with the web app and derived from its schemas
+export type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  Conversation,
+  ConversationPage,
+  ConversationPreview,
+  ConversationStatus,
+  EscalationEvaluation,
+  FiredEscalationRule,
+  KnowledgeBaseChunk,
+  KnowledgeBaseEntry
+} from '../schemas/chat.js';
+import type { ChatMessage, ChatResponse, Conversation, KnowledgeBaseEntry } from '../schemas/chat.js';
 
-export interface KnowledgeBaseEntry {
+export type EscalationStatus = 'open' | 'claimed' | 'resolved';
+
+export interface EscalationTicket {
   id: string;
-  title: string;
-  content: string;
-  category: 'billing' | 'technical' | 'general' | 'shipping' | 'returns';
+  conversation_id: string;
+  user_id?: string;
+  status: EscalationStatus;
   priority: 'low' | 'medium' | 'high';
-  product_type?: string;
-  tags: string[];
-  last_updated: Date;
-  chunk_content?: string;
-  relevance?: number;
-  distance?: number;
+  category: string;
+  reason: string;
+  assigned_agent?: string;
+  resolution_note?: string;
+  created_at: Date;
+  updated_at: Date;
+  resolved_at?: Date;
 }
 
-export interface ChatRequest {
-  message: string;
-  conversation_id?: string;
+/**
+ * A conversation as shown in the agent console queue
+ */
+export interface ConversationSummary extends Conversation {
+  ticket?: EscalationTicket;
+  message_count: number;
+  last_message?: ChatMessage;
+}
+
+export interface ConversationTranscript {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  ticket?: EscalationTicket;
+}
+
+export type FeedbackRating = 'helpful' | 'not_helpful';
+
+export type FeedbackReason = 'incorrect' | 'incomplete' | 'irrelevant' | 'unclear' | 'other';
+
+/**
+ * A customer's verdict on one assistant answer. A message has at most one;
+ * rating it again replaces the earlier verdict.
+ */
+export interface MessageFeedback {
+  id: string;
+  conversation_id: string;
+  message_id: string;
   user_id?: string;
-  context?: {
-    previous_messages?: ChatMessage[];
-    user_preferences?: Record<string, any>;
-  };
+  rating: FeedbackRating;
+  /** Why the answer did not help; only given with 'not_helpful' */
+  reason?: FeedbackReason;
+  comment?: string;
+  /** Knowledge base entries the answer was based on */
+  source_ids: string[];
+  created_at: Date;
+  updated_at: Date;
 }
 
-export interface ChatResponse {
-  message: string;
-  confidence: number;
-  sources: KnowledgeBaseEntry[];
-  suggested_actions?: string[];
-  requires_escalation: boolean;
+export interface FeedbackStats {
+  total: number;
+  helpful: number;
+  not_helpful: number;
+  /** Share of rated answers marked helpful, 0 when nothing is rated */
+  helpful_rate: number;
+  by_reason: Partial<Record<FeedbackReason, number>>;
+}
+
+/**
+ * How customers rated the answers a knowledge base entry was used for
+ */
+export interface ArticleHelpfulness {
+  entry_id: string;
+  helpful: number;
+  not_helpful: number;
+  /** helpful / (helpful + not_helpful) */
+  score: number;
+}
+
+/**
+ * A customer's satisfaction rating of a conversation that has ended
+ */
+export interface CsatResponse {
+  id: string;
   conversation_id: string;
-  metadata: {
-    processing_time: number;
-    category: string;
-    priority?: 'low' | 'medium' | 'high';
+  user_id?: string;
+  /** 1 (very dissatisfied) to 5 (very satisfied) */
+  rating: number;
+  comment?: string;
+  /** Category of the conversation's last categorised message */
+  category: string;
+  /** Whether the conversation was handed to a person at any point */
+  escalated: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CsatSummary {
+  responses: number;
+  average_rating: number;
+  /** Share of ratings of 4 or 5 */
+  satisfaction_rate: number;
+}
+
+export interface CsatStats extends CsatSummary {
+  by_category: Record<string, CsatSummary>;
+  by_escalation: {
+    escalated: CsatSummary;
+    not_escalated: CsatSummary;
   };
 }
 
+export type AnalyticsBucketSize = 'hour' | 'day' | 'week';
+
+export interface ProcessingTimePercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Support metrics for one time bucket, or for the whole range.
+ * Conversation metrics count conversations started in the bucket;
+ * message metrics count messages sent in it.
+ */
+export interface AnalyticsMetrics {
+  conversations: number;
+  messages: number;
+  /** Share of conversations handed to a person */
+  escalation_rate: number;
+  /** Share of conversations resolved without a person */
+  deflection_rate: number;
+  /** Mean confidence of assistant answers, null without answers */
+  mean_confidence: number | null;
+  /** Assistant answer times in ms, null without answers */
+  processing_time: ProcessingTimePercentiles | null;
+  /** Assistant answers per category */
+  category_mix: Record<string, number>;
+}
+
+export interface AnalyticsBucket extends AnalyticsMetrics {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A customer question the assistant could not answer well
+ */
+export interface UnansweredQuery {
+  query: string;
+  count: number;
+  last_asked: Date;
+}
+
+export interface AnalyticsReport {
+  from: Date;
+  to: Date;
+  bucket: AnalyticsBucketSize;
+  totals: AnalyticsMetrics;
+  buckets: AnalyticsBucket[];
+  top_unanswered_queries: UnansweredQuery[];
+}
+
+// Admins may do anything; the other roles only what their routes allow
+export type Role = 'customer' | 'agent' | 'kb_editor' | 'admin';
+
+// Who a request is made by: a customer or staff member signed in to the web app, or an integration's API key
+export interface Principal {
+  id: string;
+  role: Role;
+  name?: string;
+  method: 'session' | 'api_key' | 'disabled';
+}
+
+export interface AuthSession {
+  token: string;
+  expires_at: Date;
+  user: Pick<Principal, 'id' | 'role' | 'name'>;
+}
+
+export type ChatStreamEvent =
+  | { type: 'classified'; data: QueryClassification }
+  | { type: 'sources'; data: KnowledgeBaseEntry[] }
+  // The finished reply replayed word by word, just before done
+  | { type: 'token'; data: { text: string } }
+  | { type: 'done'; data: ChatResponse }
+  | { type: 'error'; data: { message: string } };
+
 export interface MindsDBConfig {
   host: string;
   port: number;
@@ -62,6 +211,8 @@ export interface MindsDBConfig {
   mindsdbCloudPassword?: string;
   useCloud?: boolean;
   httpUrl?: string;
+  fixturesMode?: 'off' | 'record' | 'replay';
+  fixturesPath?: string;
 }
 
 export interface APIError {
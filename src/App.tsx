@@ -1,9 +1,75 @@
 import { useState } from 'react';
 import { Chat } from './components/Chat';
+import { AgentConsole } from './components/AgentConsole';
+import { KnowledgeBaseAdmin } from './components/KnowledgeBaseAdmin';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { StaffSignIn } from './components/StaffSignIn';
+import { ConversationHistory } from './components/ConversationHistory';
+import { useTaxonomy } from './hooks/useTaxonomy';
+import { useAuth } from './hooks/useAuth';
+import { useConversationHistory } from './hooks/useConversationHistory';
+import type { Role } from './types';
+
+const VIEWS = {
+  customer: 'Customer chat',
+  agent: 'Agent console',
+  knowledge: 'Knowledge base',
+  analytics: 'Analytics',
+} as const;
+
+type View = keyof typeof VIEWS;
+
+// Set VITE_CHAT_TRANSPORT=websocket to chat over the backend's WebSocket instead of polling
+const CHAT_TRANSPORT = import.meta.env.VITE_CHAT_TRANSPORT === 'websocket' ? 'websocket' : 'http';
+
+// Roles that may use each staff view; admins may use all of them
+const VIEW_ROLES: Record<Exclude<View, 'customer'>, Role[]> = {
+  agent: ['agent'],
+  knowledge: ['kb_editor'],
+  analytics: ['agent', 'kb_editor'],
+};
+
+function canUseView(view: View, role: Role): boolean {
+  return view === 'customer' || role === 'admin' || VIEW_ROLES[view].includes(role);
+}
+
+function CategoryList() {
+  const { categories } = useTaxonomy();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {categories.map(category => (
+        <span 
+          key={category.id}
+          title={category.subcategories.map(subcategory => subcategory.name).join(', ') || category.description}
+          className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
+        >
+          {category.name}
+        </span>
+      ))}
+    </div>
+  );
+}
 import './App.css';
 
 function App() {
-  const [userId] = useState(() => `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  const { session, error: sessionError, signIn, signOut } = useAuth();
+  const [view, setView] = useState<View>('customer');
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const history = useConversationHistory({ userId: session?.user.id });
+
+  // Deleting the open conversation starts a new one
+  const handleDeleteConversation = async (conversationId: string) => {
+    const deleted = await history.deleteConversation(conversationId);
+    if (deleted && conversationId === activeConversationId) setActiveConversationId(null);
+  };
+
+  const handleStaffSignIn = async (apiKey: string) => {
+    const staffSession = await signIn(apiKey);
+    if (!canUseView(view, staffSession.user.role)) {
+      throw new Error(`The ${staffSession.user.role} role cannot use the ${VIEWS[view].toLowerCase()}`);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -21,9 +87,30 @@ function App() {
             </div>
             
             <div className="flex items-center space-x-4">
-              <div className="text-sm text-gray-600">
-                User ID: <span className="font-mono text-xs">{userId.slice(-8)}</span>
+              <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+                {(Object.keys(VIEWS) as View[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 ${view === option ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                  >
+                    {VIEWS[option]}
+                  </button>
+                ))}
               </div>
+
+              {session && (
+                session.user.role === 'customer' ? (
+                  <div className="text-sm text-gray-600">
+                    User ID: <span className="font-mono text-xs">{session.user.id.slice(-8)}</span>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-600">
+                    {session.user.name || session.user.id} ({session.user.role})
+                    <button onClick={signOut} className="ml-2 text-blue-600 hover:underline">Sign out</button>
+                  </div>
+                )
+              )}
               
               <div className="flex items-center space-x-1">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
@@ -36,87 +123,67 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 h-[calc(100vh-200px)]">
-          {/* Sidebar */}
-          <div className="lg:col-span-1">
-            <div className="bg-white rounded-lg shadow-sm border p-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">
-                AI Assistant Features
-              </h2>
-              
-              <div className="space-y-4">
-                <div className="flex items-start space-x-3">
-                  <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <span className="text-blue-600 text-sm">🧠</span>
-                  </div>
-                  <div>
-                    <h3 className="font-medium text-gray-900">Smart Responses</h3>
-                    <p className="text-sm text-gray-600">
-                      AI-powered responses using MindsDB Knowledge Bases
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-start space-x-3">
-                  <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
-                    <span className="text-green-600 text-sm">📚</span>
-                  </div>
-                  <div>
-                    <h3 className="font-medium text-gray-900">Knowledge Base</h3>
-                    <p className="text-sm text-gray-600">
-                      Semantic search through support documentation
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-start space-x-3">
-                  <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
-                    <span className="text-yellow-600 text-sm">⚡</span>
-                  </div>
-                  <div>
-                    <h3 className="font-medium text-gray-900">Real-time</h3>
-                    <p className="text-sm text-gray-600">
-                      Instant responses with confidence scoring
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-start space-x-3">
-                  <div className="w-8 h-8 bg-purple-100 rounded-lg flex items-center justify-center">
-                    <span className="text-purple-600 text-sm">🎯</span>
-                  </div>
-                  <div>
-                    <h3 className="font-medium text-gray-900">Smart Escalation</h3>
-                    <p className="text-sm text-gray-600">
-                      Automatic escalation for complex queries
-                    </p>
-                  </div>
-                </div>
-              </div>
+        {!session ? (
+          <div className="text-center text-sm text-gray-600 py-16">
+            {sessionError || 'Connecting...'}
+          </div>
+        ) : !canUseView(view, session.user.role) ? (
+          <div className="bg-white rounded-lg shadow-sm border h-[calc(100vh-200px)] overflow-hidden">
+            <StaffSignIn purpose={`the ${VIEWS[view].toLowerCase()}`} onSignIn={handleStaffSignIn} />
+          </div>
+        ) : view === 'agent' ? (
+          <div className="bg-white rounded-lg shadow-sm border h-[calc(100vh-200px)] overflow-hidden">
+            <AgentConsole agentId={session.user.id} className="h-full" transport={CHAT_TRANSPORT} />
+          </div>
+        ) : view === 'knowledge' ? (
+          <div className="bg-white rounded-lg shadow-sm border h-[calc(100vh-200px)] overflow-hidden">
+            <KnowledgeBaseAdmin className="h-full" />
+          </div>
+        ) : view === 'analytics' ? (
+          <div className="bg-white rounded-lg shadow-sm border h-[calc(100vh-200px)] overflow-hidden">
+            <AnalyticsDashboard className="h-full" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 h-[calc(100vh-200px)]">
+            {/* Sidebar */}
+            <div className="lg:col-span-1 h-full">
+              <div className="bg-white rounded-lg shadow-sm border p-6 h-full flex flex-col">
+                <ConversationHistory
+                  className="flex-1 min-h-0"
+                  conversations={history.conversations}
+                  activeConversationId={activeConversationId}
+                  hasMore={history.hasMore}
+                  isLoading={history.isLoading}
+                  error={history.error}
+                  onSelect={setActiveConversationId}
+                  onNewConversation={() => setActiveConversationId(null)}
+                  onRename={history.renameConversation}
+                  onDelete={handleDeleteConversation}
+                  onLoadMore={history.loadMore}
+                />
 
-              <div className="mt-6 pt-6 border-t">
-                <h3 className="font-medium text-gray-900 mb-2">Categories</h3>
-                <div className="flex flex-wrap gap-2">
-                  {['Technical', 'Billing', 'Shipping', 'Returns', 'General'].map(category => (
-                    <span 
-                      key={category}
-                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
-                    >
-                      {category}
-                    </span>
-                  ))}
+                <div className="mt-6 pt-6 border-t">
+                  <h3 className="font-medium text-gray-900 mb-2">Categories</h3>
+                  <CategoryList />
                 </div>
               </div>
             </div>
-          </div>
 
-          {/* Chat Interface */}
-          <div className="lg:col-span-3">
-            <div className="bg-white rounded-lg shadow-sm border h-full">
-              <Chat userId={userId} className="h-full" />
+            {/* Chat Interface */}
+            <div className="lg:col-span-3">
+              <div className="bg-white rounded-lg shadow-sm border h-full">
+                <Chat
+                  userId={session.user.id}
+                  className="h-full"
+                  selectedConversationId={activeConversationId}
+                  onConversationChange={setActiveConversationId}
+                  onMessageSent={history.refresh}
+                  transport={CHAT_TRANSPORT}
+                />
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </main>
 
       {/* Footer */}
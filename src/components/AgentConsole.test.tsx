@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { AgentConsole } from './AgentConsole'
+import { escalationAPI } from '../services/api'
+import type { ChatSocketServerFrame } from '../services/chatSocket'
+import type { ConversationSummary, ConversationTranscript, EscalationTicket } from '../types'
+
+const socket = vi.hoisted(() => ({
+  listeners: [] as Array<(frame: unknown) => void>,
+  subscribe: vi.fn(),
+  sendTyping: vi.fn(),
+  sendRead: vi.fn()
+}))
+
+vi.mock('../services/chatSocket', () => ({
+  ChatSocket: class {
+    connect() {}
+    close() {}
+    unsubscribe() {}
+    subscribe = socket.subscribe
+    sendTyping = socket.sendTyping
+    sendRead = socket.sendRead
+    onFrame(listener: (frame: unknown) => void) {
+      socket.listeners.push(listener)
+      return () => undefined
+    }
+  }
+}))
+
+function push(frame: ChatSocketServerFrame) {
+  act(() => socket.listeners.forEach(listener => listener(frame)))
+}
+
+vi.mock('../services/api', () => ({
+  escalationAPI: {
+    listConversations: vi.fn(),
+    getTranscript: vi.fn(),
+    takeOver: vi.fn(),
+    reply: vi.fn(),
+    handBack: vi.fn(),
+    resolve: vi.fn()
+  }
+}))
+
+const conversation: ConversationSummary = {
+  id: 'conv_12345678',
+  status: 'active',
+  created_at: new Date('2025-06-24T12:00:00Z'),
+  updated_at: new Date('2025-06-24T12:01:00Z'),
+  message_count: 2,
+  last_message: {
+    id: 'msg_2',
+    content: 'Orders usually arrive within 5 days.',
+    role: 'assistant',
+    timestamp: new Date('2025-06-24T12:01:00Z')
+  }
+}
+
+const transcript: ConversationTranscript = {
+  conversation,
+  messages: [
+    {
+      id: 'msg_1',
+      content: 'Where is my order?',
+      role: 'user',
+      timestamp: new Date('2025-06-24T12:00:00Z')
+    },
+    {
+      id: 'msg_2',
+      content: 'Orders usually arrive within 5 days.',
+      role: 'assistant',
+      timestamp: new Date('2025-06-24T12:01:00Z'),
+      metadata: { confidence: 0.72, sources: ['Shipping Policy'], category: 'shipping' }
+    }
+  ]
+}
+
+const claimedTicket: EscalationTicket = {
+  id: 'esc_1',
+  conversation_id: conversation.id,
+  status: 'claimed',
+  priority: 'medium',
+  category: 'shipping',
+  reason: 'Where is my order?',
+  assigned_agent: 'key_helpdesk',
+  created_at: new Date('2025-06-24T12:02:00Z'),
+  updated_at: new Date('2025-06-24T12:02:00Z')
+}
+
+describe('AgentConsole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    socket.listeners = []
+    vi.mocked(escalationAPI.listConversations).mockResolvedValue([conversation])
+    vi.mocked(escalationAPI.getTranscript).mockResolvedValue(transcript)
+  })
+
+  it('shows the transcript with sources and confidence for a selected conversation', async () => {
+    render(<AgentConsole agentId="key_helpdesk" />)
+
+    fireEvent.click(await screen.findByText('Orders usually arrive within 5 days.'))
+
+    expect(await screen.findByText('Where is my order?')).toBeInTheDocument()
+    expect(screen.getByText('Sources: Shipping Policy')).toBeInTheDocument()
+    expect(screen.getByText('72% confident')).toBeInTheDocument()
+    expect(screen.getByText('Take over')).toBeInTheDocument()
+  })
+
+  it('takes over a conversation and offers to hand it back', async () => {
+    vi.mocked(escalationAPI.takeOver).mockResolvedValue(claimedTicket)
+
+    render(<AgentConsole agentId="key_helpdesk" />)
+    fireEvent.click(await screen.findByText('Orders usually arrive within 5 days.'))
+
+    vi.mocked(escalationAPI.getTranscript).mockResolvedValue({ ...transcript, ticket: claimedTicket })
+    fireEvent.click(await screen.findByText('Take over'))
+
+    await waitFor(() => expect(escalationAPI.takeOver).toHaveBeenCalledWith(conversation.id))
+    expect(await screen.findByText('Hand back to bot')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Hand back to bot'))
+    await waitFor(() => expect(escalationAPI.handBack).toHaveBeenCalledWith('esc_1'))
+  })
+
+  it('follows the open conversation over the chat socket', async () => {
+    render(<AgentConsole agentId="key_helpdesk" transport="websocket" />)
+    fireEvent.click(await screen.findByText('Orders usually arrive within 5 days.'))
+    await screen.findByText('Where is my order?')
+
+    expect(socket.subscribe).toHaveBeenCalledWith(conversation.id)
+    expect(socket.sendRead).toHaveBeenCalledWith(conversation.id, 'msg_1')
+
+    push({ type: 'typing', conversation_id: conversation.id, role: 'customer', is_typing: true })
+    expect(screen.getByText('The customer is typing...')).toBeInTheDocument()
+
+    push({
+      type: 'message',
+      conversation_id: conversation.id,
+      data: { id: 'msg_3', content: 'It has been two weeks.', role: 'user', timestamp: new Date('2025-06-24T12:03:00Z') }
+    })
+    expect(screen.getByText('It has been two weeks.')).toBeInTheDocument()
+    expect(screen.queryByText('The customer is typing...')).not.toBeInTheDocument()
+    expect(socket.sendRead).toHaveBeenCalledWith(conversation.id, 'msg_3')
+
+    fireEvent.change(screen.getByPlaceholderText('Reply to the customer...'), { target: { value: 'Let me check' } })
+    expect(socket.sendTyping).toHaveBeenCalledWith(conversation.id, true)
+  })
+})
@@ -0,0 +1,189 @@
+import type { ConversationSummary } from '../types';
+import { useAgentConsole } from '../hooks/useAgentConsole';
+import { ChatMessageComponent } from './ChatMessage';
+import { ChatInput } from './ChatInput';
+
+interface AgentConsoleProps {
+  /** The signed-in agent, who every ticket action is taken as */
+  agentId: string;
+  className?: string;
+  /** Follow the open conversation over the chat socket instead of polling it */
+  transport?: 'http' | 'websocket';
+}
+
+const statusStyles: Record<ConversationSummary['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  escalated: 'bg-red-100 text-red-800',
+  resolved: 'bg-gray-100 text-gray-700',
+  closed: 'bg-gray-100 text-gray-500',
+};
+
+function QueueItem({
+  conversation,
+  selected,
+  onSelect
+}: {
+  conversation: ConversationSummary;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`
+        w-full text-left p-3 border-b hover:bg-gray-50 transition-colors duration-200
+        ${selected ? 'bg-blue-50' : ''}
+      `}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-xs text-gray-600">{conversation.id.slice(-8)}</span>
+        <span className={`px-2 py-0.5 rounded text-xs ${statusStyles[conversation.status]}`}>
+          {conversation.ticket?.status === 'claimed'
+            ? `with ${conversation.ticket.assigned_agent}`
+            : conversation.status}
+        </span>
+      </div>
+      {conversation.last_message && (
+        <p className="mt-1 text-sm text-gray-800 truncate">{conversation.last_message.content}</p>
+      )}
+      <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500">
+        <span>{conversation.message_count} messages</span>
+        {conversation.ticket && (
+          <>
+            <span>·</span>
+            <span>{conversation.ticket.category}</span>
+            <span>·</span>
+            <span className={conversation.ticket.priority === 'high' ? 'text-red-600 font-medium' : ''}>
+              {conversation.ticket.priority}
+            </span>
+          </>
+        )}
+      </div>
+    </button>
+  );
+}
+
+export function AgentConsole({ agentId, className = '', transport }: AgentConsoleProps) {
+  const {
+    conversations,
+    selectedId,
+    transcript,
+    isLoading,
+    error,
+    isCustomerTyping,
+    selectConversation,
+    notifyTyping,
+    takeOver,
+    sendReply,
+    handBack,
+    resolve,
+  } = useAgentConsole({ transport });
+
+  const ticket = transcript?.ticket;
+  const isMine = ticket?.status === 'claimed' && ticket.assigned_agent === agentId;
+  const isOthers = ticket?.status === 'claimed' && ticket.assigned_agent !== agentId;
+  const isResolved = transcript?.conversation.status === 'resolved' || transcript?.conversation.status === 'closed';
+
+  return (
+    <div className={`flex h-full bg-white ${className}`}>
+      {/* Queue */}
+      <div className="w-80 flex flex-col border-r">
+        <div className="p-4 border-b bg-gray-50">
+          <h2 className="text-lg font-semibold text-gray-800">Conversations</h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {conversations.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No conversations yet</p>
+          ) : (
+            conversations.map(conversation => (
+              <QueueItem
+                key={conversation.id}
+                conversation={conversation}
+                selected={conversation.id === selectedId}
+                onSelect={() => selectConversation(conversation.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div className="flex-1 flex flex-col">
+        {!transcript ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            {selectedId ? 'Loading conversation...' : 'Select a conversation to view its transcript'}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between p-4 border-b bg-gray-50">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800">
+                  Conversation {transcript.conversation.id.slice(-8)}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {isCustomerTyping
+                    ? 'The customer is typing...'
+                    : ticket
+                      ? `${ticket.priority} priority ${ticket.category} ticket · ${ticket.status}`
+                      : `Handled by the assistant · ${transcript.conversation.status}`}
+                </p>
+              </div>
+
+              <div className="flex space-x-2">
+                {!isMine && !isOthers && !isResolved && (
+                  <button
+                    onClick={takeOver}
+                    disabled={isLoading}
+                    className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Take over
+                  </button>
+                )}
+                {isMine && (
+                  <>
+                    <button
+                      onClick={handBack}
+                      disabled={isLoading}
+                      className="px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Hand back to bot
+                    </button>
+                    <button
+                      onClick={() => resolve()}
+                      disabled={isLoading}
+                      className="px-3 py-1 text-sm text-white bg-green-600 rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Resolve
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {transcript.messages.map(message => (
+                <ChatMessageComponent key={message.id} message={message} />
+              ))}
+            </div>
+
+            {error && (
+              <div className="px-4 py-2 bg-red-50 border-t border-red-200 text-sm text-red-600">
+                {error}
+              </div>
+            )}
+
+            <ChatInput
+              onSendMessage={sendReply}
+              onTyping={notifyTyping}
+              disabled={isLoading || isOthers || isResolved}
+              placeholder={isOthers
+                ? `Claimed by ${ticket?.assigned_agent}`
+                : 'Reply to the customer...'}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { AnalyticsDashboard } from './AnalyticsDashboard'
+import { analyticsAPI } from '../services/api'
+import type { AnalyticsMetrics, AnalyticsReport } from '../types'
+
+vi.mock('../services/api', () => ({
+  analyticsAPI: {
+    getReport: vi.fn()
+  }
+}))
+
+const metrics: AnalyticsMetrics = {
+  conversations: 3,
+  messages: 6,
+  escalation_rate: 0.33,
+  deflection_rate: 0.33,
+  mean_confidence: 0.53,
+  processing_time: { p50: 200, p90: 300, p99: 300 },
+  category_mix: { technical: 1, returns: 2 }
+}
+
+// Dates arrive from the API as strings
+const report = {
+  from: '2025-06-23T00:00:00.000Z',
+  to: '2025-06-25T00:00:00.000Z',
+  bucket: 'day',
+  totals: metrics,
+  buckets: [
+    { ...metrics, start: '2025-06-23T00:00:00.000Z', end: '2025-06-24T00:00:00.000Z' },
+    { ...metrics, messages: 0, start: '2025-06-24T00:00:00.000Z', end: '2025-06-25T00:00:00.000Z' }
+  ],
+  top_unanswered_queries: [
+    { query: 'Where is my refund?', count: 2, last_asked: '2025-06-24T11:00:00.000Z' }
+  ]
+} as unknown as AnalyticsReport
+
+describe('AnalyticsDashboard', () => {
+  beforeEach(() => {
+    vi.mocked(analyticsAPI.getReport).mockReset().mockResolvedValue(report)
+  })
+
+  it('shows totals, category mix and unanswered queries', async () => {
+    render(<AnalyticsDashboard />)
+
+    expect(await screen.findByText('Where is my refund?')).toBeInTheDocument()
+    expect(screen.getByText('200 / 300 / 300 ms')).toBeInTheDocument()
+    expect(screen.getByLabelText('returns: 2')).toBeInTheDocument()
+    // Buckets without activity are left out of the table
+    expect(screen.getAllByText('53%')).toHaveLength(2)
+    expect(screen.getAllByText('300 ms')).toHaveLength(1)
+  })
+
+  it('reloads the report for the selected bucket size', async () => {
+    render(<AnalyticsDashboard />)
+    await screen.findByText('Where is my refund?')
+
+    fireEvent.change(screen.getByLabelText('Range'), { target: { value: 'week' } })
+
+    await waitFor(() => expect(analyticsAPI.getReport).toHaveBeenLastCalledWith({ bucket: 'week' }))
+    expect(analyticsAPI.getReport).toHaveBeenCalledWith({ bucket: 'day' })
+  })
+})
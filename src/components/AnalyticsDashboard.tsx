@@ -0,0 +1,176 @@
+import type { AnalyticsBucket, AnalyticsBucketSize } from '../types';
+import { useAnalytics } from '../hooks/useAnalytics';
+
+const BUCKETS: Record<AnalyticsBucketSize, string> = {
+  hour: 'Last 24 hours',
+  day: 'Last 30 days',
+  week: 'Last 13 weeks',
+};
+
+interface AnalyticsDashboardProps {
+  className?: string;
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatBucket(bucket: AnalyticsBucket, size: AnalyticsBucketSize): string {
+  return size === 'hour'
+    ? bucket.start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : bucket.start.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function MetricCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex-1 p-4 border rounded-lg text-center">
+      <div className="text-2xl font-bold text-gray-900">{value}</div>
+      <div className="text-xs text-gray-600">{label}</div>
+    </div>
+  );
+}
+
+export function AnalyticsDashboard({ className = '' }: AnalyticsDashboardProps) {
+  const { report, bucket, isLoading, error, setBucket, refresh } = useAnalytics();
+
+  const totals = report?.totals;
+  const maxConversations = Math.max(1, ...(report?.buckets.map(b => b.conversations) || []));
+  const maxCategory = Math.max(1, ...Object.values(totals?.category_mix || {}));
+
+  return (
+    <div className={`flex flex-col h-full bg-white overflow-y-auto p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Support Analytics</h2>
+        <div className="flex items-center space-x-2">
+          <select
+            value={bucket}
+            onChange={(e) => setBucket(e.target.value as AnalyticsBucketSize)}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+            aria-label="Range"
+          >
+            {(Object.keys(BUCKETS) as AnalyticsBucketSize[]).map(option => (
+              <option key={option} value={option}>{BUCKETS[option]}</option>
+            ))}
+          </select>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-600">{error}</div>
+      )}
+
+      {report && totals && (
+        <>
+          {/* Totals */}
+          <div className="flex space-x-4">
+            <MetricCard label="conversations" value={String(totals.conversations)} />
+            <MetricCard label="messages" value={String(totals.messages)} />
+            <MetricCard label="escalation rate" value={percent(totals.escalation_rate)} />
+            <MetricCard label="deflection rate" value={percent(totals.deflection_rate)} />
+            <MetricCard
+              label="mean confidence"
+              value={totals.mean_confidence === null ? '—' : percent(totals.mean_confidence)}
+            />
+            <MetricCard
+              label="response time p50 / p90 / p99"
+              value={totals.processing_time
+                ? `${totals.processing_time.p50} / ${totals.processing_time.p90} / ${totals.processing_time.p99} ms`
+                : '—'}
+            />
+          </div>
+
+          <div className="flex space-x-4">
+            {/* Conversations over time */}
+            <div className="flex-1 p-4 border rounded-lg">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Conversations</h3>
+              <div className="flex items-end h-32 space-x-px">
+                {report.buckets.map(b => (
+                  <div
+                    key={b.start.toISOString()}
+                    className="flex-1 bg-blue-500 rounded-t"
+                    style={{ height: `${(b.conversations / maxConversations) * 100}%` }}
+                    title={`${formatBucket(b, bucket)}: ${b.conversations} conversations, ${percent(b.escalation_rate)} escalated`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Category mix */}
+            <div className="w-64 p-4 border rounded-lg">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Answers by category</h3>
+              <div className="space-y-1">
+                {Object.entries(totals.category_mix).map(([category, count]) => (
+                  <div key={category} className="flex items-center space-x-2 text-xs">
+                    <span className="w-20 text-gray-600">{category}</span>
+                    <div className="flex-1 bg-gray-100 rounded h-3">
+                      <div
+                        className="bg-blue-500 rounded h-3"
+                        style={{ width: `${(count / maxCategory) * 100}%` }}
+                        aria-label={`${category}: ${count}`}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-gray-700">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Per-bucket metrics, most recent first */}
+          <table className="w-full text-sm text-left">
+            <thead className="border-b text-gray-600">
+              <tr>
+                <th className="py-2">{bucket === 'hour' ? 'Hour' : bucket === 'day' ? 'Day' : 'Week of'}</th>
+                <th>Conversations</th>
+                <th>Messages</th>
+                <th>Escalated</th>
+                <th>Deflected</th>
+                <th>Confidence</th>
+                <th>p90 time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...report.buckets].reverse().filter(b => b.messages > 0).map(b => (
+                <tr key={b.start.toISOString()} className="border-b">
+                  <td className="py-1">{formatBucket(b, bucket)}</td>
+                  <td>{b.conversations}</td>
+                  <td>{b.messages}</td>
+                  <td>{percent(b.escalation_rate)}</td>
+                  <td>{percent(b.deflection_rate)}</td>
+                  <td>{b.mean_confidence === null ? '—' : percent(b.mean_confidence)}</td>
+                  <td>{b.processing_time ? `${b.processing_time.p90} ms` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Questions the knowledge base could not answer */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Top unanswered queries</h3>
+            {report.top_unanswered_queries.length === 0 ? (
+              <p className="text-sm text-gray-500">No unanswered queries in this range</p>
+            ) : (
+              <ul className="divide-y border rounded-lg text-sm">
+                {report.top_unanswered_queries.map(query => (
+                  <li key={query.query} className="flex justify-between px-3 py-2">
+                    <span className="text-gray-900">{query.query}</span>
+                    <span className="text-gray-500 whitespace-nowrap ml-4">
+                      {query.count}× · last {query.last_asked.toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
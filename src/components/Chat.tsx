@@ -1,25 +1,77 @@
-import { useRef } from 'react';
+import { useRef, useEffect } from 'react';
 import { ChatMessageComponent } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { CsatSurvey } from './CsatSurvey';
 import { useChat } from '../hooks/useChat';
 
 interface ChatProps {
   userId?: string;
   className?: string;
+  /** Conversation to show, e.g. one picked from the history; null starts a new one */
+  selectedConversationId?: string | null;
+  /** Called when a conversation is started, switched to or cleared */
+  onConversationChange?: (conversationId: string | null) => void;
+  /** Called after each answer, so conversation lists can show the latest message */
+  onMessageSent?: () => void;
+  /** How messages reach the server; see useChat */
+  transport?: 'http' | 'websocket';
 }
 
-export function Chat({ userId, className = '' }: ChatProps) {
+export function Chat({
+  userId,
+  className = '',
+  selectedConversationId,
+  onConversationChange,
+  onMessageSent,
+  transport,
+}: ChatProps) {
   const { 
     messages, 
     isLoading, 
     error, 
     isTyping, 
+    typingStatus,
+    isEscalated,
+    conversationId,
+    conversationStatus,
     sendMessage, 
     clearConversation,
+    submitFeedback,
+    endConversation,
+    submitSurvey,
+    loadConversation,
+    notifyTyping,
+    isAgentTyping,
+    agentReadAt,
     messagesEndRef
-  } = useChat({ userId });
+  } = useChat({ userId, transport });
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const hasEnded = conversationStatus === 'resolved' || conversationStatus === 'closed';
+
+  // Follow the conversation picked outside the chat; only a new pick switches,
+  // so the chat starting a conversation of its own is not undone
+  const selectionRef = useRef(selectedConversationId);
+  useEffect(() => {
+    if (selectedConversationId === selectionRef.current) return;
+    selectionRef.current = selectedConversationId;
+    if (selectedConversationId === undefined || selectedConversationId === conversationId) return;
+
+    if (selectedConversationId) {
+      loadConversation(selectedConversationId);
+    } else {
+      clearConversation();
+    }
+  }, [selectedConversationId, conversationId, loadConversation, clearConversation]);
+
+  useEffect(() => {
+    onConversationChange?.(conversationId);
+  }, [conversationId, onConversationChange]);
+
+  const handleSendMessage = async (content: string) => {
+    const response = await sendMessage(content);
+    if (response) onMessageSent?.();
+  };
 
   // Welcome message
   // Welcome message effect - currently disabled
@@ -36,11 +88,45 @@ export function Chat({ userId, className = '' }: ChatProps) {
         <div>
           <h2 className="text-lg font-semibold text-gray-800">Customer Support</h2>
           <p className="text-sm text-gray-600">
-            {isTyping ? 'AI is typing...' : 'Ask me anything!'}
+            {isTyping
+              ? typingStatus || 'AI is typing...'
+              : isAgentTyping
+                ? 'A support agent is typing...'
+              : hasEnded
+                ? 'This conversation has ended. Write again to reopen it.'
+                : isEscalated
+                ? `A support agent will reply here shortly${agentReadAt ? ' · Seen' : ''}`
+                : 'Ask me anything!'}
           </p>
         </div>
         
         <div className="flex space-x-2">
+          {conversationId && !hasEnded && (
+            <>
+              <button
+                onClick={() => endConversation('resolved')}
+                disabled={isLoading}
+                className="
+                  px-3 py-1 text-sm text-green-700 hover:text-green-800 
+                  border border-green-300 rounded hover:bg-green-50
+                  transition-colors duration-200
+                "
+              >
+                Issue resolved
+              </button>
+              <button
+                onClick={() => endConversation('closed')}
+                disabled={isLoading}
+                className="
+                  px-3 py-1 text-sm text-gray-600 hover:text-gray-800 
+                  border border-gray-300 rounded hover:bg-gray-100
+                  transition-colors duration-200
+                "
+              >
+                End chat
+              </button>
+            </>
+          )}
           <button
             onClick={clearConversation}
             className="
@@ -85,6 +171,7 @@ export function Chat({ userId, className = '' }: ChatProps) {
           <ChatMessageComponent 
             key={message.id} 
             message={message}
+            onFeedback={submitFeedback}
           />
         ))}
 
@@ -115,9 +202,13 @@ export function Chat({ userId, className = '' }: ChatProps) {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Satisfaction survey once the conversation has ended */}
+      {hasEnded && <CsatSurvey key={conversationId} onSubmit={submitSurvey} />}
+
       {/* Chat Input */}
       <ChatInput 
-        onSendMessage={sendMessage}
+        onSendMessage={handleSendMessage}
+        onTyping={notifyTyping}
         disabled={isLoading}
         placeholder="Type your message... (Press Enter to send, Shift+Enter for new line)"
       />
@@ -2,12 +2,15 @@ import { useState, useRef, useEffect } from 'react';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
+  /** Called when the user starts or stops having a draft */
+  onTyping?: (isTyping: boolean) => void;
   disabled?: boolean;
   placeholder?: string;
 }
 
 export function ChatInput({ 
   onSendMessage, 
+  onTyping,
   disabled = false, 
   placeholder = "Type your message..." 
 }: ChatInputProps) {
@@ -19,6 +22,7 @@ export function ChatInput({
     if (message.trim() && !disabled) {
       onSendMessage(message.trim());
       setMessage('');
+      onTyping?.(false);
       
       // Reset textarea height
       if (textareaRef.current) {
@@ -48,7 +52,10 @@ export function ChatInput({
         <textarea
           ref={textareaRef}
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            onTyping?.(e.target.value.trim().length > 0);
+          }}
           onKeyPress={handleKeyPress}
           placeholder={placeholder}
           disabled={disabled}
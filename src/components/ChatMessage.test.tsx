@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
 import { ChatMessageComponent } from './ChatMessage'
 
 describe('ChatMessage', () => {
@@ -28,4 +28,50 @@ describe('ChatMessage', () => {
     
     expect(screen.getByText('I can help you with your account questions.')).toBeInTheDocument()
   })
+
+  it('labels human agent replies', () => {
+    const message = {
+      id: '3',
+      content: 'I have issued your refund.',
+      role: 'agent' as const,
+      timestamp: new Date('2025-06-24T12:02:00Z'),
+      metadata: { agent_id: 'agent_1' }
+    }
+
+    render(<ChatMessageComponent message={message} />)
+
+    expect(screen.getByText('Support agent')).toBeInTheDocument()
+    expect(screen.getByText('I have issued your refund.')).toBeInTheDocument()
+  })
+
+  it('sends helpful and not helpful feedback on assistant answers', async () => {
+    const onFeedback = vi.fn().mockResolvedValue(undefined)
+    const message = {
+      id: 'msg_1_assistant',
+      content: 'Refunds are issued within 14 days.',
+      role: 'assistant' as const,
+      timestamp: new Date('2025-06-24T12:03:00Z'),
+      metadata: { confidence: 0.9, sources: ['Refund Policy'] }
+    }
+
+    const { unmount } = render(<ChatMessageComponent message={message} onFeedback={onFeedback} />)
+    fireEvent.click(screen.getByLabelText('Helpful'))
+
+    expect(await screen.findByText('Thanks for your feedback')).toBeInTheDocument()
+    expect(onFeedback).toHaveBeenCalledWith('msg_1_assistant', { rating: 'helpful' })
+    unmount()
+
+    render(<ChatMessageComponent message={message} onFeedback={onFeedback} />)
+    fireEvent.click(screen.getByLabelText('Not helpful'))
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'incomplete' } })
+    fireEvent.change(screen.getByLabelText('Comment'), { target: { value: 'No return address' } })
+    fireEvent.click(screen.getByText('Send feedback'))
+
+    expect(await screen.findByText('Thanks for your feedback')).toBeInTheDocument()
+    expect(onFeedback).toHaveBeenLastCalledWith('msg_1_assistant', {
+      rating: 'not_helpful',
+      reason: 'incomplete',
+      comment: 'No return address'
+    })
+  })
 })
@@ -1,4 +1,5 @@
-import type { ChatMessage } from '../types';
+import { useState } from 'react';
+import type { ChatMessage, FeedbackInput, FeedbackRating, FeedbackReason } from '../types';
 
 // Simple icon components
 const CheckCircleIcon = ({ className }: { className: string }) => (
@@ -29,14 +30,102 @@ function formatTimeAgo(date: Date): string {
   return `${Math.floor(diffInSeconds / 86400)}d ago`;
 }
 
+const FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string }> = [
+  { value: 'incorrect', label: 'Incorrect' },
+  { value: 'incomplete', label: 'Incomplete' },
+  { value: 'irrelevant', label: 'Not what I asked' },
+  { value: 'unclear', label: 'Hard to understand' },
+  { value: 'other', label: 'Other' },
+];
+
+interface FeedbackControlsProps {
+  onSubmit: (feedback: FeedbackInput) => Promise<void>;
+}
+
+function FeedbackControls({ onSubmit }: FeedbackControlsProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [reason, setReason] = useState<FeedbackReason | ''>('');
+  const [comment, setComment] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sent' | 'failed'>('idle');
+
+  const submit = async (feedback: FeedbackInput) => {
+    try {
+      await onSubmit(feedback);
+      setStatus('sent');
+    } catch (err) {
+      console.error('Failed to send feedback:', err);
+      setStatus('failed');
+    }
+  };
+
+  const rate = (value: FeedbackRating) => {
+    setRating(value);
+    setStatus('idle');
+    // Helpful answers need no details; unhelpful ones ask for a reason first
+    if (value === 'helpful') submit({ rating: value });
+  };
+
+  if (status === 'sent') {
+    return <div className="mt-2 text-xs text-gray-500">Thanks for your feedback</div>;
+  }
+
+  const buttonClass = (value: FeedbackRating) =>
+    `px-1 rounded hover:bg-gray-200 ${rating === value ? 'bg-gray-200' : ''}`;
+
+  return (
+    <div className="mt-2 text-xs text-gray-600">
+      <div className="flex items-center space-x-1">
+        <span>Was this helpful?</span>
+        <button onClick={() => rate('helpful')} className={buttonClass('helpful')} aria-label="Helpful">👍</button>
+        <button onClick={() => rate('not_helpful')} className={buttonClass('not_helpful')} aria-label="Not helpful">👎</button>
+      </div>
+
+      {rating === 'not_helpful' && (
+        <div className="mt-1 space-y-1">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as FeedbackReason | '')}
+            className="w-full px-1 py-0.5 border border-gray-300 rounded"
+            aria-label="Reason"
+          >
+            <option value="">Reason (optional)</option>
+            {FEEDBACK_REASONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Tell us more (optional)"
+            rows={2}
+            className="w-full px-1 py-0.5 border border-gray-300 rounded"
+            aria-label="Comment"
+          />
+          <button
+            onClick={() => submit({ rating: 'not_helpful', reason: reason || undefined, comment: comment.trim() || undefined })}
+            className="px-2 py-0.5 text-white bg-blue-500 rounded hover:bg-blue-600"
+          >
+            Send feedback
+          </button>
+        </div>
+      )}
+
+      {status === 'failed' && <div className="mt-1 text-red-600">Could not send feedback</div>}
+    </div>
+  );
+}
+
 interface ChatMessageProps {
   message: ChatMessage;
   isTyping?: boolean;
+  /** Offer helpful / not helpful buttons on completed assistant answers */
+  onFeedback?: (messageId: string, feedback: FeedbackInput) => Promise<void>;
 }
 
-export function ChatMessageComponent({ message, isTyping = false }: ChatMessageProps) {
+export function ChatMessageComponent({ message, isTyping = false, onFeedback }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const isAgent = message.role === 'agent';
   const isError = message.metadata?.category === 'error';
+  // Only finished answers carry metadata
+  const canRate = !!onFeedback && message.role === 'assistant' && !isError && !isTyping && !!message.metadata;
   
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
@@ -47,11 +136,20 @@ export function ChatMessageComponent({ message, isTyping = false }: ChatMessageP
             ? 'bg-blue-500 text-white' 
             : isError 
               ? 'bg-red-100 text-red-800 border border-red-300'
-              : 'bg-gray-100 text-gray-800'
+              : isAgent
+                ? 'bg-green-50 text-gray-800 border border-green-300'
+                : 'bg-gray-100 text-gray-800'
           }
           ${isTyping ? 'animate-pulse' : ''}
         `}
       >
+        {/* Human agent label */}
+        {isAgent && (
+          <div className="mb-1 text-xs font-semibold text-green-700">
+            Support agent
+          </div>
+        )}
+
         {/* Message content */}
         <div className="whitespace-pre-wrap">
           {isTyping ? (
@@ -121,6 +219,8 @@ export function ChatMessageComponent({ message, isTyping = false }: ChatMessageP
           </div>
         )}
 
+        {canRate && <FeedbackControls onSubmit={(feedback) => onFeedback(message.id, feedback)} />}
+
         {/* Timestamp */}
         {!isTyping && (
           <div className="mt-1 text-xs opacity-50">
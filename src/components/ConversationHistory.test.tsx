@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ConversationHistory } from './ConversationHistory'
+import type { ConversationPreview } from '../types'
+
+const conversations: ConversationPreview[] = [
+  {
+    id: 'conv_new',
+    status: 'active',
+    title: 'Refund for order 1234',
+    message_count: 2,
+    last_message: { role: 'assistant', content: 'Refunds take 5 business days.', timestamp: new Date('2025-06-24T11:00:00Z') },
+    created_at: new Date('2025-06-24T11:00:00Z'),
+    updated_at: new Date('2025-06-24T11:00:00Z'),
+  },
+  {
+    id: 'conv_old',
+    status: 'resolved',
+    title: 'How do I reset my password?',
+    message_count: 2,
+    created_at: new Date('2025-06-23T09:00:00Z'),
+    updated_at: new Date('2025-06-23T09:00:00Z'),
+  },
+]
+
+function renderHistory(overrides: Partial<Parameters<typeof ConversationHistory>[0]> = {}) {
+  const props = {
+    conversations,
+    activeConversationId: 'conv_new',
+    onSelect: vi.fn(),
+    onNewConversation: vi.fn(),
+    onRename: vi.fn().mockResolvedValue(undefined),
+    onDelete: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  }
+  render(<ConversationHistory {...props} />)
+  return props
+}
+
+describe('ConversationHistory', () => {
+  it('lists conversations and switches between them', () => {
+    const props = renderHistory()
+
+    expect(screen.getByText('Refunds take 5 business days.')).toBeInTheDocument()
+    expect(screen.getByText('Refund for order 1234').closest('button')).toHaveAttribute('aria-current', 'true')
+
+    fireEvent.click(screen.getByText('How do I reset my password?'))
+    fireEvent.click(screen.getByText('New chat'))
+
+    expect(props.onSelect).toHaveBeenCalledWith('conv_old')
+    expect(props.onNewConversation).toHaveBeenCalled()
+  })
+
+  it('renames a conversation with the trimmed title', async () => {
+    const props = renderHistory()
+
+    fireEvent.click(screen.getByLabelText('Rename How do I reset my password?'))
+    fireEvent.change(screen.getByLabelText('Conversation title'), { target: { value: '  Password reset  ' } })
+    fireEvent.click(screen.getByText('Save'))
+
+    expect(props.onRename).toHaveBeenCalledWith('conv_old', 'Password reset')
+    await waitFor(() => expect(screen.queryByLabelText('Conversation title')).not.toBeInTheDocument())
+  })
+
+  it('asks before deleting a conversation', async () => {
+    const props = renderHistory()
+
+    fireEvent.click(screen.getByLabelText('Delete Refund for order 1234'))
+    fireEvent.click(screen.getByText('Keep'))
+    expect(props.onDelete).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByLabelText('Delete Refund for order 1234'))
+    expect(screen.getByText('Delete this conversation?')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }))
+
+    await waitFor(() => expect(props.onDelete).toHaveBeenCalledWith('conv_new'))
+  })
+})
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { ConversationPreview } from '../types';
+
+interface ConversationHistoryProps {
+  conversations: ConversationPreview[];
+  activeConversationId: string | null;
+  hasMore?: boolean;
+  isLoading?: boolean;
+  error?: string | null;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  onRename: (conversationId: string, title: string) => Promise<void>;
+  onDelete: (conversationId: string) => Promise<void>;
+  onLoadMore?: () => void;
+  className?: string;
+}
+
+export function ConversationHistory({
+  conversations,
+  activeConversationId,
+  hasMore = false,
+  isLoading = false,
+  error,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onDelete,
+  onLoadMore,
+  className = '',
+}: ConversationHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const startRename = (conversation: ConversationPreview) => {
+    setDeletingId(null);
+    setEditingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !title.trim()) return;
+
+    await onRename(editingId, title.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    await onDelete(conversationId);
+    setDeletingId(null);
+  };
+
+  return (
+    <div className={`flex flex-col ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Conversations</h2>
+        <button
+          onClick={onNewConversation}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600"
+        >
+          New chat
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {conversations.length === 0 && !isLoading && (
+        <p className="text-sm text-gray-500">Your conversations will appear here.</p>
+      )}
+
+      <ul className="flex-1 overflow-y-auto space-y-1">
+        {conversations.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`p-2 rounded ${conversation.id === activeConversationId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'}`}
+          >
+            {editingId === conversation.id ? (
+              <form onSubmit={handleRename} className="flex items-center space-x-1">
+                <input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                  maxLength={60}
+                  autoFocus
+                  aria-label="Conversation title"
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <button type="submit" disabled={!title.trim()} className="text-xs text-blue-600 hover:underline disabled:opacity-50">
+                  Save
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="text-xs text-gray-500 hover:underline">
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  aria-current={conversation.id === activeConversationId ? 'true' : undefined}
+                  className="block w-full text-left"
+                >
+                  <span className="block text-sm font-medium text-gray-900 truncate">{conversation.title}</span>
+                  {conversation.last_message && (
+                    <span className="block text-xs text-gray-500 truncate">{conversation.last_message.content}</span>
+                  )}
+                  <span className="block text-xs text-gray-400">
+                    {conversation.updated_at.toLocaleString()} · {conversation.status}
+                  </span>
+                </button>
+
+                {deletingId === conversation.id ? (
+                  <div className="mt-1 flex items-center space-x-2 text-xs">
+                    <span className="text-gray-600">Delete this conversation?</span>
+                    <button onClick={() => handleDelete(conversation.id)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                    <button onClick={() => setDeletingId(null)} className="text-gray-500 hover:underline">
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <div className="mt-1 flex space-x-2 text-xs">
+                    <button
+                      onClick={() => startRename(conversation)}
+                      aria-label={`Rename ${conversation.title}`}
+                      className="text-gray-500 hover:underline"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => setDeletingId(conversation.id)}
+                      aria-label={`Delete ${conversation.title}`}
+                      className="text-gray-500 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && onLoadMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={isLoading}
+          className="mt-2 text-sm text-blue-600 hover:underline disabled:opacity-50"
+        >
+          Show older conversations
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CsatSurvey } from './CsatSurvey'
+
+describe('CsatSurvey', () => {
+  it('sends the rating with an optional comment', async () => {
+    const onSubmit = vi.fn().mockResolvedValue(undefined)
+
+    render(<CsatSurvey onSubmit={onSubmit} />)
+    expect(screen.getByText('Submit')).toBeDisabled()
+
+    fireEvent.click(screen.getByLabelText('Satisfied'))
+    fireEvent.change(screen.getByLabelText('Survey comment'), { target: { value: '  Quick and friendly  ' } })
+    fireEvent.click(screen.getByText('Submit'))
+
+    expect(await screen.findByText('Thanks for rating your support experience')).toBeInTheDocument()
+    expect(onSubmit).toHaveBeenCalledWith(4, 'Quick and friendly')
+  })
+
+  it('lets the customer retry when sending fails', async () => {
+    const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    render(<CsatSurvey onSubmit={onSubmit} />)
+    fireEvent.click(screen.getByLabelText('Very dissatisfied'))
+    fireEvent.click(screen.getByText('Submit'))
+
+    expect(await screen.findByText('Could not send your rating')).toBeInTheDocument()
+    expect(screen.getByText('Submit')).toBeEnabled()
+  })
+})
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+
+const RATING_LABELS = ['Very dissatisfied', 'Dissatisfied', 'Neutral', 'Satisfied', 'Very satisfied'];
+
+interface CsatSurveyProps {
+  onSubmit: (rating: number, comment?: string) => Promise<void>;
+}
+
+export function CsatSurvey({ onSubmit }: CsatSurveyProps) {
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === null) return;
+
+    setStatus('sending');
+    try {
+      await onSubmit(rating, comment.trim() || undefined);
+      setStatus('sent');
+    } catch (err) {
+      console.error('Failed to send survey:', err);
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'sent') {
+    return (
+      <div className="p-4 border-t bg-gray-50 text-sm text-gray-700 text-center">
+        Thanks for rating your support experience
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border-t bg-gray-50 space-y-2">
+      <p className="text-sm font-medium text-gray-800">How satisfied are you with the support you received?</p>
+
+      <div className="flex space-x-2" role="radiogroup" aria-label="Satisfaction">
+        {RATING_LABELS.map((label, index) => (
+          <button
+            key={label}
+            type="button"
+            role="radio"
+            aria-checked={rating === index + 1}
+            aria-label={label}
+            title={label}
+            onClick={() => setRating(index + 1)}
+            className={`w-9 h-9 rounded-full border text-sm ${
+              rating === index + 1
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Anything we could do better? (optional)"
+        rows={2}
+        className="w-full px-3 py-1 border border-gray-300 rounded text-sm"
+        aria-label="Survey comment"
+      />
+
+      <div className="flex items-center space-x-2">
+        <button
+          type="submit"
+          disabled={rating === null || status === 'sending'}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Submit
+        </button>
+        {status === 'failed' && <span className="text-sm text-red-600">Could not send your rating</span>}
+      </div>
+    </form>
+  );
+}
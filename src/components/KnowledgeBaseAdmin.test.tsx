@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { KnowledgeBaseAdmin } from './KnowledgeBaseAdmin'
+import { feedbackAPI, knowledgeBaseAPI, taxonomyAPI } from '../services/api'
+import type { KnowledgeBaseEntry, TaxonomyCategory } from '../types'
+
+vi.mock('../services/api', () => ({
+  knowledgeBaseAPI: {
+    search: vi.fn(),
+    listEntries: vi.fn(),
+    addEntry: vi.fn(),
+    updateEntry: vi.fn(),
+    deleteEntry: vi.fn(),
+    getStats: vi.fn()
+  },
+  taxonomyAPI: {
+    listCategories: vi.fn()
+  },
+  feedbackAPI: {
+    getArticleHelpfulness: vi.fn()
+  }
+}))
+
+const category = (id: string, name: string): TaxonomyCategory => ({
+  id,
+  name,
+  subcategories: [],
+  default_priority: 'medium',
+  suggested_actions: [],
+  escalation_policy: 'rules'
+})
+
+const entry: KnowledgeBaseEntry = {
+  id: 'kb_1',
+  title: 'Refund Policy',
+  content: 'Refunds are issued within 14 days.',
+  category: 'returns',
+  priority: 'high',
+  tags: ['refund'],
+  last_updated: new Date('2025-06-24T10:00:00Z')
+}
+
+describe('KnowledgeBaseAdmin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(taxonomyAPI.listCategories).mockResolvedValue([category('returns', 'Returns'), category('shipping', 'Shipping')])
+    vi.mocked(feedbackAPI.getArticleHelpfulness).mockResolvedValue([{ entry_id: 'kb_1', helpful: 1, not_helpful: 3, score: 0.25 }])
+    vi.mocked(knowledgeBaseAPI.listEntries).mockResolvedValue({ entries: [entry], total: 1 })
+    vi.mocked(knowledgeBaseAPI.getStats).mockResolvedValue({
+      total_entries: 1,
+      by_category: { returns: 1 },
+      by_priority: { high: 1 }
+    })
+  })
+
+  it('lists entries with stats and reloads when a filter changes', async () => {
+    render(<KnowledgeBaseAdmin />)
+
+    expect(await screen.findByText('Refund Policy')).toBeInTheDocument()
+    expect(screen.getByLabelText('returns: 1')).toBeInTheDocument()
+    expect(await screen.findByTitle('1 helpful, 3 not helpful')).toHaveTextContent('25%')
+    expect(await screen.findByRole('option', { name: 'Returns' })).toHaveValue('returns')
+
+    fireEvent.change(screen.getByLabelText('Category'), { target: { value: 'returns' } })
+
+    await waitFor(() => expect(knowledgeBaseAPI.listEntries).toHaveBeenLastCalledWith({ category: 'returns' }))
+  })
+
+  it('validates new entries before saving', async () => {
+    vi.mocked(knowledgeBaseAPI.addEntry).mockResolvedValue({ success: true, message: 'ok' })
+
+    render(<KnowledgeBaseAdmin />)
+    await screen.findByRole('option', { name: 'Shipping' })
+    fireEvent.click(await screen.findByText('New entry'))
+    fireEvent.click(screen.getByText('Save'))
+
+    expect(screen.getByText('Title is required')).toBeInTheDocument()
+    expect(screen.getByText('Category is required')).toBeInTheDocument()
+    expect(knowledgeBaseAPI.addEntry).not.toHaveBeenCalled()
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Shipping Times' } })
+    fireEvent.change(screen.getByLabelText('Content'), { target: { value: 'Orders ship in 2 days.' } })
+    fireEvent.change(screen.getByLabelText('Category', { selector: '#kb-category' }), { target: { value: 'shipping' } })
+    fireEvent.change(screen.getByLabelText('Priority', { selector: '#kb-priority' }), { target: { value: 'low' } })
+    fireEvent.change(screen.getByLabelText('Tags (comma separated)'), { target: { value: 'shipping, delivery' } })
+    fireEvent.click(screen.getByText('Save'))
+
+    await waitFor(() => expect(knowledgeBaseAPI.addEntry).toHaveBeenCalledWith({
+      title: 'Shipping Times',
+      content: 'Orders ship in 2 days.',
+      category: 'shipping',
+      priority: 'low',
+      product_type: undefined,
+      tags: ['shipping', 'delivery']
+    }))
+  })
+
+  it('asks for confirmation before deleting', async () => {
+    vi.mocked(knowledgeBaseAPI.deleteEntry).mockResolvedValue({ success: true, message: 'ok' })
+
+    render(<KnowledgeBaseAdmin />)
+    fireEvent.click(await screen.findByText('Delete'))
+
+    expect(knowledgeBaseAPI.deleteEntry).not.toHaveBeenCalled()
+    fireEvent.click(screen.getByText('Confirm'))
+
+    await waitFor(() => expect(knowledgeBaseAPI.deleteEntry).toHaveBeenCalledWith('kb_1'))
+  })
+})
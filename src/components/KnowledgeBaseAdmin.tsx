@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import type { EntryListFilters, KnowledgeBaseEntry } from '../types';
+import { useKnowledgeBase } from '../hooks/useKnowledgeBase';
+import { useTaxonomy } from '../hooks/useTaxonomy';
+import { KnowledgeBaseEntryForm } from './KnowledgeBaseEntryForm';
+import { PRIORITIES } from '../services/validation';
+
+interface KnowledgeBaseAdminProps {
+  className?: string;
+}
+
+function StatsBarChart({ title, counts }: { title: string; counts: Record<string, number> }) {
+  const max = Math.max(1, ...Object.values(counts));
+
+  return (
+    <div className="flex-1 p-4 border rounded-lg">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      <div className="space-y-1">
+        {Object.entries(counts).map(([label, count]) => (
+          <div key={label} className="flex items-center space-x-2 text-xs">
+            <span className="w-20 text-gray-600">{label}</span>
+            <div className="flex-1 bg-gray-100 rounded h-3">
+              <div
+                className="bg-blue-500 rounded h-3"
+                style={{ width: `${(count / max) * 100}%` }}
+                aria-label={`${label}: ${count}`}
+              />
+            </div>
+            <span className="w-8 text-right text-gray-700">{count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function KnowledgeBaseAdmin({ className = '' }: KnowledgeBaseAdminProps) {
+  const {
+    entries,
+    stats,
+    helpfulness,
+    filters,
+    isLoading,
+    error,
+    setQuery,
+    setFilters,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+  } = useKnowledgeBase();
+  const { categories } = useTaxonomy();
+
+  const [searchInput, setSearchInput] = useState('');
+  const [editing, setEditing] = useState<KnowledgeBaseEntry | 'new' | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+
+  const setFilter = (key: keyof EntryListFilters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters(prev => ({ ...prev, [key]: e.target.value || undefined }));
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(searchInput);
+  };
+
+  const handleDelete = async (id: string) => {
+    setConfirmingDelete(null);
+    await deleteEntry(id);
+  };
+
+  const inputClass = 'px-3 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className={`flex flex-col h-full bg-white overflow-y-auto p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Knowledge Base</h2>
+        <button
+          onClick={() => setEditing('new')}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600"
+        >
+          New entry
+        </button>
+      </div>
+
+      {/* Stats */}
+      {stats && (
+        <div className="flex space-x-4">
+          <div className="p-4 border rounded-lg text-center">
+            <div className="text-2xl font-bold text-gray-900">{stats.total_entries}</div>
+            <div className="text-xs text-gray-600">entries</div>
+          </div>
+          <StatsBarChart title="By category" counts={stats.by_category} />
+          <StatsBarChart title="By priority" counts={stats.by_priority} />
+        </div>
+      )}
+
+      {editing && (
+        <KnowledgeBaseEntryForm
+          key={editing === 'new' ? 'new' : editing.id}
+          entry={editing === 'new' ? undefined : editing}
+          categories={categories}
+          onCreate={createEntry}
+          onUpdate={updateEntry}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {/* Search and filters */}
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-2">
+        <input
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search entries..."
+          className={`flex-1 ${inputClass}`}
+        />
+        <select value={filters.category || ''} onChange={setFilter('category')} className={inputClass} aria-label="Category">
+          <option value="">All categories</option>
+          {categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+        </select>
+        <select value={filters.priority || ''} onChange={setFilter('priority')} className={inputClass} aria-label="Priority">
+          <option value="">All priorities</option>
+          {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+        </select>
+        <input
+          value={filters.product_type || ''}
+          onChange={setFilter('product_type')}
+          placeholder="Product type"
+          className={inputClass}
+        />
+        <input
+          value={filters.tag || ''}
+          onChange={setFilter('tag')}
+          placeholder="Tag"
+          className={inputClass}
+        />
+        <button type="submit" className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-100">
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-600">{error}</div>
+      )}
+
+      {/* Entries */}
+      <table className="w-full text-sm text-left">
+        <thead className="border-b text-gray-600">
+          <tr>
+            <th className="py-2">Title</th>
+            <th>Category</th>
+            <th>Priority</th>
+            <th>Product type</th>
+            <th>Tags</th>
+            <th>Helpful</th>
+            <th className="text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <tr key={entry.id} className="border-b align-top">
+              <td className="py-2 pr-2">
+                <div className="font-medium text-gray-900">{entry.title}</div>
+                <div className="text-xs text-gray-500 line-clamp-2">{entry.content}</div>
+              </td>
+              <td>{entry.category}</td>
+              <td>{entry.priority}</td>
+              <td>{entry.product_type || '—'}</td>
+              <td>
+                <div className="flex flex-wrap gap-1">
+                  {entry.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 bg-gray-100 rounded text-xs">{tag}</span>
+                  ))}
+                </div>
+              </td>
+              <td className="whitespace-nowrap">
+                {helpfulness[entry.id] ? (
+                  <span
+                    title={`${helpfulness[entry.id].helpful} helpful, ${helpfulness[entry.id].not_helpful} not helpful`}
+                    className={helpfulness[entry.id].score < 0.5 ? 'text-red-600' : 'text-gray-700'}
+                  >
+                    {Math.round(helpfulness[entry.id].score * 100)}%
+                  </span>
+                ) : '—'}
+              </td>
+              <td className="text-right whitespace-nowrap">
+                {confirmingDelete === entry.id ? (
+                  <>
+                    <span className="text-xs text-gray-600 mr-2">Delete this entry?</span>
+                    <button onClick={() => handleDelete(entry.id)} className="text-red-600 hover:underline mr-2">
+                      Confirm
+                    </button>
+                    <button onClick={() => setConfirmingDelete(null)} className="text-gray-600 hover:underline">
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => setEditing(entry)} className="text-blue-600 hover:underline mr-2">
+                      Edit
+                    </button>
+                    <button onClick={() => setConfirmingDelete(entry.id)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!isLoading && entries.length === 0 && (
+        <p className="text-sm text-gray-500">No entries match the current filters</p>
+      )}
+    </div>
+  );
+}
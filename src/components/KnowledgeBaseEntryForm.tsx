@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { KnowledgeBaseEntry, TaxonomyCategory } from '../types';
+import type { EntryInput } from '../hooks/useKnowledgeBase';
+import { PRIORITIES, validateEntry, type EntryFormValues } from '../services/validation';
+
+function toEntryInput(values: EntryFormValues): EntryInput {
+  return {
+    title: values.title.trim(),
+    content: values.content.trim(),
+    category: values.category,
+    priority: values.priority as KnowledgeBaseEntry['priority'],
+    product_type: values.product_type.trim() || undefined,
+    tags: values.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  };
+}
+
+// Only the fields that differ from the stored entry are sent on update
+function changedFields(entry: KnowledgeBaseEntry, input: EntryInput): Partial<EntryInput> {
+  const changes: Partial<EntryInput> = {};
+  if (input.title !== entry.title) changes.title = input.title;
+  if (input.content !== entry.content) changes.content = input.content;
+  if (input.category !== entry.category) changes.category = input.category;
+  if (input.priority !== entry.priority) changes.priority = input.priority;
+  if ((input.product_type || '') !== (entry.product_type || '')) changes.product_type = input.product_type || '';
+  if (input.tags.join(',') !== entry.tags.join(',')) changes.tags = input.tags;
+  return changes;
+}
+
+interface KnowledgeBaseEntryFormProps {
+  /** Entry being edited; omitted when creating */
+  entry?: KnowledgeBaseEntry;
+  /** Categories offered, from the taxonomy */
+  categories: TaxonomyCategory[];
+  onCreate: (entry: EntryInput) => Promise<boolean>;
+  onUpdate: (id: string, updates: Partial<EntryInput>) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export function KnowledgeBaseEntryForm({ entry, categories, onCreate, onUpdate, onCancel }: KnowledgeBaseEntryFormProps) {
+  const [values, setValues] = useState<EntryFormValues>({
+    title: entry?.title || '',
+    content: entry?.content || '',
+    category: entry?.category || '',
+    priority: entry?.priority || '',
+    product_type: entry?.product_type || '',
+    tags: entry?.tags.join(', ') || '',
+  });
+  const [errors, setErrors] = useState<ReturnType<typeof validateEntry>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setField = (field: keyof EntryFormValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateEntry(values, categories.map(category => category.id));
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    const input = toEntryInput(values);
+    const saved = entry
+      ? await onUpdate(entry.id, changedFields(entry, input))
+      : await onCreate(input);
+    setIsSaving(false);
+
+    if (saved) onCancel();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4 border rounded-lg bg-gray-50" noValidate>
+      <h3 className="font-semibold text-gray-800">{entry ? 'Edit entry' : 'New entry'}</h3>
+
+      <div>
+        <label htmlFor="kb-title" className="block text-sm text-gray-700">Title</label>
+        <input id="kb-title" value={values.title} onChange={setField('title')} className={inputClass} />
+        {errors.title && <p className="text-xs text-red-600">{errors.title}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="kb-content" className="block text-sm text-gray-700">Content</label>
+        <textarea id="kb-content" value={values.content} onChange={setField('content')} rows={4} className={inputClass} />
+        {errors.content && <p className="text-xs text-red-600">{errors.content}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="kb-category" className="block text-sm text-gray-700">Category</label>
+          <select id="kb-category" value={values.category} onChange={setField('category')} className={inputClass}>
+            <option value="">Select...</option>
+            {categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+          </select>
+          {errors.category && <p className="text-xs text-red-600">{errors.category}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="kb-priority" className="block text-sm text-gray-700">Priority</label>
+          <select id="kb-priority" value={values.priority} onChange={setField('priority')} className={inputClass}>
+            <option value="">Select...</option>
+            {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+          </select>
+          {errors.priority && <p className="text-xs text-red-600">{errors.priority}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="kb-product-type" className="block text-sm text-gray-700">Product type</label>
+          <input id="kb-product-type" value={values.product_type} onChange={setField('product_type')} className={inputClass} />
+        </div>
+
+        <div>
+          <label htmlFor="kb-tags" className="block text-sm text-gray-700">Tags (comma separated)</label>
+          <input id="kb-tags" value={values.tags} onChange={setField('tags')} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { StaffSignIn } from './StaffSignIn'
+
+describe('StaffSignIn', () => {
+  it('signs in with the trimmed API key', async () => {
+    const onSignIn = vi.fn().mockResolvedValue(undefined)
+
+    render(<StaffSignIn purpose="the agent console" onSignIn={onSignIn} />)
+    expect(screen.getByText('Sign in')).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText('API key'), { target: { value: '  agent-key  ' } })
+    fireEvent.click(screen.getByText('Sign in'))
+
+    expect(onSignIn).toHaveBeenCalledWith('agent-key')
+  })
+
+  it('explains when the key is rejected', async () => {
+    const onSignIn = vi.fn().mockRejectedValue(new Error('Invalid API key'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    render(<StaffSignIn purpose="the agent console" onSignIn={onSignIn} />)
+    fireEvent.change(screen.getByLabelText('API key'), { target: { value: 'wrong' } })
+    fireEvent.click(screen.getByText('Sign in'))
+
+    expect(await screen.findByText('That key was not accepted, or lacks access')).toBeInTheDocument()
+    expect(screen.getByText('Sign in')).toBeEnabled()
+  })
+})
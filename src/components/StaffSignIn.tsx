@@ -0,0 +1,52 @@
+import { useState } from 'react';
+
+interface StaffSignInProps {
+  /** What the view is for, e.g. "the agent console" */
+  purpose: string;
+  onSignIn: (apiKey: string) => Promise<void>;
+}
+
+export function StaffSignIn({ purpose, onSignIn }: StaffSignInProps) {
+  const [apiKey, setApiKey] = useState('');
+  const [status, setStatus] = useState<'idle' | 'signing-in' | 'failed'>('idle');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) return;
+
+    setStatus('signing-in');
+    try {
+      await onSignIn(apiKey.trim());
+    } catch (err) {
+      console.error('Failed to sign in:', err);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto mt-16 p-6 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800">Staff sign-in</h2>
+      <p className="text-sm text-gray-600">Sign in with your staff API key to use {purpose}.</p>
+
+      <input
+        type="password"
+        value={apiKey}
+        onChange={(e) => setApiKey(e.target.value)}
+        placeholder="API key"
+        className="w-full px-3 py-1 border border-gray-300 rounded text-sm"
+        aria-label="API key"
+      />
+
+      <div className="flex items-center space-x-2">
+        <button
+          type="submit"
+          disabled={!apiKey.trim() || status === 'signing-in'}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Sign in
+        </button>
+        {status === 'failed' && <span className="text-sm text-red-600">That key was not accepted, or lacks access</span>}
+      </div>
+    </form>
+  );
+}
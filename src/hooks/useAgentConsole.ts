@@ -0,0 +1,192 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ChatMessage, ConversationSummary, ConversationTranscript } from '../types';
+import { escalationAPI } from '../services/api';
+import { ChatSocket } from '../services/chatSocket';
+
+interface UseAgentConsoleOptions {
+  /** How often to refresh the queue and the open transcript, in ms (default: 5000) */
+  pollInterval?: number;
+  /**
+   * 'websocket' follows the open conversation over the chat socket, which pushes its messages,
+   * status changes and the customer's typing, and tells the customer their messages were read.
+   * The queue is still polled (default: 'http')
+   */
+  transport?: 'http' | 'websocket';
+}
+
+function toMessage(message: ChatMessage): ChatMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
+
+export function useAgentConsole(options: UseAgentConsoleOptions = {}) {
+  const { pollInterval = 5000, transport = 'http' } = options;
+
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<ConversationTranscript | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCustomerTyping, setIsCustomerTyping] = useState(false);
+
+  const socketRef = useRef<ChatSocket | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  const typingRef = useRef(false);
+
+  useEffect(() => {
+    selectedIdRef.current = selectedId;
+  }, [selectedId]);
+
+  // Let the customer know the agent has seen their latest message
+  const markRead = useCallback((conversationId: string, messages: ChatMessage[]) => {
+    const lastCustomerMessage = [...messages].reverse().find(message => message.role === 'user');
+    if (lastCustomerMessage) socketRef.current?.sendRead(conversationId, lastCustomerMessage.id);
+  }, []);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setConversations(await escalationAPI.listConversations());
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError('Failed to load conversations');
+    }
+  }, []);
+
+  const refreshTranscript = useCallback(async (conversationId: string) => {
+    try {
+      const result = await escalationAPI.getTranscript(conversationId);
+      setTranscript({ ...result, messages: result.messages.map(toMessage) });
+      markRead(conversationId, result.messages);
+    } catch (err) {
+      console.error('Failed to load conversation:', err);
+      setError('Failed to load conversation');
+    }
+  }, [markRead]);
+
+  // Keep the queue and the open conversation up to date; over the chat socket
+  // the open conversation is pushed instead
+  useEffect(() => {
+    refreshQueue();
+    if (selectedId) refreshTranscript(selectedId);
+
+    const interval = setInterval(() => {
+      refreshQueue();
+      if (selectedId && transport !== 'websocket') refreshTranscript(selectedId);
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [selectedId, pollInterval, transport, refreshQueue, refreshTranscript]);
+
+  useEffect(() => {
+    if (transport !== 'websocket') return;
+
+    const socket = new ChatSocket();
+    socketRef.current = socket;
+    const unsubscribe = socket.onFrame(frame => {
+      if (!('conversation_id' in frame) || frame.conversation_id !== selectedIdRef.current) return;
+
+      if (frame.type === 'message') {
+        const message = toMessage(frame.data);
+        setTranscript(prev => !prev || prev.messages.some(existing => existing.id === message.id)
+          ? prev
+          : { ...prev, messages: [...prev.messages, message] });
+        if (message.role === 'user') {
+          setIsCustomerTyping(false);
+          socket.sendRead(frame.conversation_id, message.id);
+        }
+      } else if (frame.type === 'status') {
+        // The ticket changes along with the status
+        refreshTranscript(frame.conversation_id);
+        refreshQueue();
+      } else if (frame.type === 'typing' && frame.role === 'customer') {
+        setIsCustomerTyping(frame.is_typing);
+      }
+    });
+    socket.connect();
+
+    return () => {
+      unsubscribe();
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [transport, refreshQueue, refreshTranscript]);
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !selectedId) return;
+
+    socket.subscribe(selectedId);
+    return () => socket.unsubscribe(selectedId);
+  }, [selectedId, transport]);
+
+  const selectConversation = useCallback((conversationId: string) => {
+    setTranscript(null);
+    setError(null);
+    setIsCustomerTyping(false);
+    typingRef.current = false;
+    setSelectedId(conversationId);
+  }, []);
+
+  // Tell the customer whether the agent is typing; only sent over the chat socket
+  const notifyTyping = useCallback((typing: boolean) => {
+    if (!socketRef.current || !selectedId || typingRef.current === typing) return;
+    typingRef.current = typing;
+    socketRef.current.sendTyping(selectedId, typing);
+  }, [selectedId]);
+
+  // Run a ticket action, then reload what it changed
+  const runAction = useCallback(async (action: () => Promise<unknown>, failureMessage: string) => {
+    if (!selectedId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      await Promise.all([refreshQueue(), refreshTranscript(selectedId)]);
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedId, refreshQueue, refreshTranscript]);
+
+  const takeOver = useCallback(() => runAction(
+    () => escalationAPI.takeOver(selectedId!),
+    'Failed to take over conversation'
+  ), [runAction, selectedId]);
+
+  const sendReply = useCallback((message: string) => runAction(async () => {
+    // Replying to a conversation the assistant still handles takes it over first
+    const ticket = transcript?.ticket || await escalationAPI.takeOver(selectedId!);
+    await escalationAPI.reply(ticket.id, message);
+  }, 'Failed to send reply'), [runAction, transcript, selectedId]);
+
+  const handBack = useCallback(() => runAction(
+    () => escalationAPI.handBack(transcript!.ticket!.id),
+    'Failed to hand back conversation'
+  ), [runAction, transcript]);
+
+  const resolve = useCallback((resolutionNote?: string) => runAction(
+    () => escalationAPI.resolve(transcript!.ticket!.id, resolutionNote),
+    'Failed to resolve conversation'
+  ), [runAction, transcript]);
+
+  return {
+    // State
+    conversations,
+    selectedId,
+    transcript,
+    isLoading,
+    error,
+    isCustomerTyping,
+
+    // Actions
+    selectConversation,
+    notifyTyping,
+    takeOver,
+    sendReply,
+    handBack,
+    resolve,
+    refreshQueue,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { AnalyticsBucketSize, AnalyticsReport } from '../types';
+import { analyticsAPI } from '../services/api';
+
+function toReport(report: AnalyticsReport): AnalyticsReport {
+  return {
+    ...report,
+    from: new Date(report.from),
+    to: new Date(report.to),
+    buckets: report.buckets.map(bucket => ({ ...bucket, start: new Date(bucket.start), end: new Date(bucket.end) })),
+    top_unanswered_queries: report.top_unanswered_queries.map(query => ({ ...query, last_asked: new Date(query.last_asked) }))
+  };
+}
+
+export function useAnalytics() {
+  const [bucket, setBucket] = useState<AnalyticsBucketSize>('day');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server picks the range: a day of hours, a month of days or a quarter of weeks
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(toReport(await analyticsAPI.getReport({ bucket })));
+    } catch (err) {
+      console.error('Failed to load analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bucket]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return {
+    report,
+    bucket,
+    isLoading,
+    error,
+    setBucket,
+    refresh: loadReport,
+  };
+}
@@ -0,0 +1,48 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { AuthSession } from '../types';
+import { authAPI } from '../services/api';
+
+/**
+ * The web app session: a stored customer session is renewed on mount, so the
+ * customer keeps their identity and conversation history across visits, and
+ * an anonymous one is started when none is stored. Staff can sign in with
+ * their API key.
+ */
+export function useAuth() {
+  const [session, setSession] = useState<AuthSession | null>(() => authAPI.getSession());
+  const [error, setError] = useState<string | null>(null);
+
+  const startCustomerSession = useCallback(async () => {
+    setError(null);
+    try {
+      setSession(await authAPI.startSession());
+    } catch (err) {
+      console.error('Failed to start session:', err);
+      setError('Could not connect to the support service');
+    }
+  }, []);
+
+  useEffect(() => {
+    const stored = authAPI.getSession();
+    if (!stored || stored.user.role === 'customer') startCustomerSession();
+  }, [startCustomerSession]);
+
+  const signIn = useCallback(async (apiKey: string) => {
+    const staffSession = await authAPI.startSession(apiKey);
+    setSession(staffSession);
+    return staffSession;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    authAPI.signOut();
+    setSession(null);
+    await startCustomerSession();
+  }, [startCustomerSession]);
+
+  return {
+    session,
+    error,
+    signIn,
+    signOut,
+  };
+}
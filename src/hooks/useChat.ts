@@ -1,23 +1,44 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { ChatMessage, ChatRequest, ChatResponse } from '../types';
-import { chatAPI } from '../services/api';
+import type { ChatMessage, ChatRequest, ChatResponse, ConversationStatus, FeedbackInput } from '../types';
+import { chatAPI, csatAPI, feedbackAPI } from '../services/api';
+import { ChatSocket } from '../services/chatSocket';
 
 interface UseChatOptions {
   userId?: string;
   autoScroll?: boolean;
+  /** Report the reply's progress via the streaming endpoint (default: true) */
+  streaming?: boolean;
+  /** How often to check the conversation for human agent replies and status changes, in ms (default: 5000) */
+  agentPollInterval?: number;
+  /**
+   * 'websocket' sends messages over the chat socket, which pushes agent replies, status changes,
+   * typing and read receipts instead of them being polled for (default: 'http')
+   */
+  transport?: 'http' | 'websocket';
 }
 
 export function useChat(options: UseChatOptions = {}) {
-  const { userId, autoScroll = true } = options;
+  const { userId, autoScroll = true, streaming = true, agentPollInterval = 5000, transport = 'http' } = options;
   
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isTyping, setIsTyping] = useState(false);
+  // What the assistant is doing while isTyping, as reported by the streaming endpoint
+  const [typingStatus, setTypingStatus] = useState<string | null>(null);
+  const [isEscalated, setIsEscalated] = useState(false);
+  const [conversationStatus, setConversationStatus] = useState<ConversationStatus | null>(null);
+  const [isAgentTyping, setIsAgentTyping] = useState(false);
+  // When a support agent last read the conversation
+  const [agentReadAt, setAgentReadAt] = useState<Date | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const socketRef = useRef<ChatSocket | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  const typingRef = useRef(false);
+  conversationIdRef.current = conversationId;
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -26,6 +47,74 @@ export function useChat(options: UseChatOptions = {}) {
     }
   }, [messages, autoScroll]);
 
+  // Over the chat socket, agent replies, status changes, typing and read receipts are pushed
+  useEffect(() => {
+    if (transport !== 'websocket') return;
+
+    const socket = new ChatSocket();
+    socketRef.current = socket;
+    const unsubscribe = socket.onFrame(frame => {
+      if (!('conversation_id' in frame) || frame.conversation_id !== conversationIdRef.current) return;
+
+      if (frame.type === 'message' && frame.data.role === 'agent') {
+        const message = { ...frame.data, timestamp: new Date(frame.data.timestamp) };
+        setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+        setIsAgentTyping(false);
+        socket.sendRead(frame.conversation_id, message.id);
+      } else if (frame.type === 'status') {
+        setConversationStatus(frame.status);
+        setIsEscalated(frame.status === 'escalated');
+      } else if (frame.type === 'typing' && frame.role === 'agent') {
+        setIsAgentTyping(frame.is_typing);
+      } else if (frame.type === 'read' && frame.role === 'agent') {
+        setAgentReadAt(new Date(frame.read_at));
+      }
+    });
+    socket.connect();
+
+    return () => {
+      unsubscribe();
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [transport]);
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !conversationId) return;
+
+    socket.subscribe(conversationId);
+    return () => socket.unsubscribe(conversationId);
+  }, [conversationId, transport]);
+
+  // Pick up replies from human agents, who can take over at any time, and
+  // conversations they resolve
+  useEffect(() => {
+    if (!conversationId || transport === 'websocket') return;
+
+    const interval = setInterval(async () => {
+      try {
+        const [history, status] = await Promise.all([
+          chatAPI.getConversationHistory(conversationId),
+          chatAPI.getConversationStatus(conversationId),
+        ]);
+        const agentMessages = history.filter(msg => msg.role === 'agent');
+        setConversationStatus(status);
+
+        setMessages(prev => {
+          const newMessages = agentMessages
+            .filter(msg => !prev.some(existing => existing.id === msg.id))
+            .map(msg => ({ ...msg, timestamp: new Date(msg.timestamp) }));
+          return newMessages.length > 0 ? [...prev, ...newMessages] : prev;
+        });
+      } catch (err) {
+        console.error('Failed to check for agent replies:', err);
+      }
+    }, agentPollInterval);
+
+    return () => clearInterval(interval);
+  }, [conversationId, agentPollInterval, transport]);
+
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
@@ -55,6 +144,8 @@ export function useChat(options: UseChatOptions = {}) {
     };
     addMessage(userMessage);
 
+    const assistantMessageId = `msg_${Date.now()}_assistant`;
+
     try {
       // Show typing indicator
       setIsTyping(true);
@@ -68,16 +159,35 @@ export function useChat(options: UseChatOptions = {}) {
         },
       };
 
-      const response = await chatAPI.sendMessage(request);
+      let response: ChatResponse;
+
+      if (transport === 'websocket' && socketRef.current) {
+        response = await socketRef.current.sendMessage(content, conversationId || undefined, setConversationId);
+      } else if (streaming) {
+        abortControllerRef.current = new AbortController();
+
+        // Models answer in one piece, so the reply's token events only replay it
+        // just before it is done; the pipeline stages are what is worth showing
+        response = await chatAPI.streamMessage(request, (event) => {
+          if (event.type === 'classified') setTypingStatus('Searching the knowledge base...');
+          if (event.type === 'sources') setTypingStatus('Writing a reply...');
+        }, abortControllerRef.current.signal);
+      } else {
+        response = await chatAPI.sendMessage(request);
+      }
 
       // Update conversation ID if this is a new conversation
       if (!conversationId) {
         setConversationId(response.conversation_id);
       }
 
-      // Add assistant response
+      setIsEscalated(response.requires_escalation);
+      // Writing again reopens a conversation that had ended
+      setConversationStatus(response.requires_escalation ? 'escalated' : 'active');
+
+      // Add assistant response under the stored message id, so it can be rated
       const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now()}_assistant`,
+        id: response.message_id || assistantMessageId,
         content: response.message,
         role: 'assistant',
         timestamp: new Date(),
@@ -86,6 +196,9 @@ export function useChat(options: UseChatOptions = {}) {
           sources: Array.isArray(response.sources) 
             ? response.sources.map(s => s.title) 
             : [],
+          source_ids: Array.isArray(response.sources)
+            ? response.sources.map(s => s.id)
+            : [],
           category: response.metadata.category,
           priority: response.metadata.priority as 'low' | 'medium' | 'high',
         },
@@ -125,14 +238,54 @@ export function useChat(options: UseChatOptions = {}) {
       return null;
     } finally {
       setIsLoading(false);
+      setTypingStatus(null);
     }
-  }, [isLoading, conversationId, userId, messages, addMessage]);
+  }, [isLoading, conversationId, userId, messages, streaming, transport, addMessage]);
+
+  // End the conversation, which offers the satisfaction survey
+  const endConversation = useCallback(async (outcome: 'resolved' | 'closed') => {
+    if (!conversationId) return;
+
+    try {
+      const conversation = outcome === 'resolved'
+        ? await chatAPI.resolveConversation(conversationId)
+        : await chatAPI.closeConversation(conversationId);
+      setConversationStatus(conversation.status);
+      setIsEscalated(false);
+    } catch (err) {
+      console.error('Failed to end conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to end conversation');
+    }
+  }, [conversationId]);
+
+  const submitSurvey = useCallback(async (rating: number, comment?: string) => {
+    if (!conversationId) return;
+    await csatAPI.submit(conversationId, rating, comment, userId);
+  }, [conversationId, userId]);
+
+  // Rate an assistant answer in the current conversation
+  const submitFeedback = useCallback(async (messageId: string, feedback: FeedbackInput) => {
+    if (!conversationId) return;
+    await feedbackAPI.submit(conversationId, messageId, feedback, userId);
+  }, [conversationId, userId]);
+
+  // Tell the support agent whether the customer is typing; only sent over the chat socket
+  const notifyTyping = useCallback((typing: boolean) => {
+    if (!socketRef.current || !conversationId || typingRef.current === typing) return;
+    typingRef.current = typing;
+    socketRef.current.sendTyping(conversationId, typing);
+  }, [conversationId]);
 
   const clearConversation = useCallback(() => {
+    abortControllerRef.current?.abort();
     setMessages([]);
     setConversationId(null);
     setError(null);
     setIsTyping(false);
+    setIsEscalated(false);
+    setConversationStatus(null);
+    setIsAgentTyping(false);
+    setAgentReadAt(null);
   }, []);
 
   const retryLastMessage = useCallback(() => {
@@ -154,16 +307,26 @@ export function useChat(options: UseChatOptions = {}) {
     }
   }, [messages, sendMessage]);
 
+  // Switch to one of the user's earlier conversations
   const loadConversation = useCallback(async (convId: string) => {
+    abortControllerRef.current?.abort();
     try {
       setIsLoading(true);
-      const conversation = await chatAPI.getConversation(convId);
+      const [conversation, history] = await Promise.all([
+        chatAPI.getConversation(convId),
+        chatAPI.getConversationHistory(convId),
+      ]);
       
       setConversationId(convId);
-      setMessages(conversation.messages.map(msg => ({
+      setMessages(history.map(msg => ({
         ...msg,
         timestamp: new Date(msg.timestamp),
       })));
+      setConversationStatus(conversation.status);
+      setIsEscalated(conversation.status === 'escalated');
+      setIsTyping(false);
+      setIsAgentTyping(false);
+      setAgentReadAt(null);
       setError(null);
     } catch (err) {
       console.error('Failed to load conversation:', err);
@@ -180,12 +343,21 @@ export function useChat(options: UseChatOptions = {}) {
     error,
     conversationId,
     isTyping,
+    typingStatus,
+    isEscalated,
+    conversationStatus,
+    isAgentTyping,
+    agentReadAt,
     
     // Actions
     sendMessage,
     clearConversation,
     retryLastMessage,
     loadConversation,
+    submitFeedback,
+    endConversation,
+    submitSurvey,
+    notifyTyping,
     scrollToBottom,
     
     // Refs
@@ -0,0 +1,123 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ConversationPreview } from '../types';
+import { chatAPI } from '../services/api';
+
+interface UseConversationHistoryOptions {
+  userId?: string;
+  /** Conversations fetched per page (default: 20) */
+  pageSize?: number;
+}
+
+function toPreview(conversation: ConversationPreview): ConversationPreview {
+  return {
+    ...conversation,
+    created_at: new Date(conversation.created_at),
+    updated_at: new Date(conversation.updated_at),
+    last_message: conversation.last_message && {
+      ...conversation.last_message,
+      timestamp: new Date(conversation.last_message.timestamp),
+    },
+  };
+}
+
+/**
+ * The signed-in user's past conversations, most recently active first
+ */
+export function useConversationHistory(options: UseConversationHistoryOptions = {}) {
+  const { userId, pageSize = 20 } = options;
+
+  const [conversations, setConversations] = useState<ConversationPreview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const shownRef = useRef(0);
+
+  useEffect(() => {
+    shownRef.current = conversations.length;
+  }, [conversations]);
+
+  // Reload from the first page, keeping as many conversations as are already shown
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    try {
+      const limit = Math.min(Math.max(shownRef.current, pageSize), 100);
+      const page = await chatAPI.getUserConversations(userId, { limit });
+      setConversations(page.conversations.map(toPreview));
+      setTotal(page.total);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError('Failed to load conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, pageSize]);
+
+  useEffect(() => {
+    shownRef.current = 0;
+    setConversations([]);
+    setTotal(0);
+    refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    try {
+      const page = await chatAPI.getUserConversations(userId, { limit: pageSize, offset: conversations.length });
+      setConversations(prev => [
+        ...prev,
+        ...page.conversations.map(toPreview).filter(conversation => !prev.some(shown => shown.id === conversation.id)),
+      ]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError('Failed to load conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, pageSize, conversations.length]);
+
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    try {
+      const renamed = await chatAPI.renameConversation(conversationId, title);
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? { ...conversation, title: renamed.title ?? title } : conversation
+      ));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to rename conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rename conversation');
+    }
+  }, []);
+
+  // Resolves to whether the conversation was deleted
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    try {
+      await chatAPI.clearConversation(conversationId);
+      setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+      setTotal(prev => Math.max(prev - 1, 0));
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete conversation');
+      return false;
+    }
+  }, []);
+
+  return {
+    conversations,
+    total,
+    hasMore: conversations.length < total,
+    isLoading,
+    error,
+    refresh,
+    loadMore,
+    renameConversation,
+    deleteConversation,
+  };
+}
@@ -0,0 +1,107 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ArticleHelpfulness, EntryListFilters, KnowledgeBaseEntry, KnowledgeBaseStats } from '../types';
+import { feedbackAPI, knowledgeBaseAPI } from '../services/api';
+
+export type EntryInput = Omit<KnowledgeBaseEntry, 'id' | 'last_updated'>;
+
+export function useKnowledgeBase() {
+  const [entries, setEntries] = useState<KnowledgeBaseEntry[]>([]);
+  const [stats, setStats] = useState<KnowledgeBaseStats | null>(null);
+  const [helpfulness, setHelpfulness] = useState<Record<string, ArticleHelpfulness>>({});
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<EntryListFilters>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (query.trim()) {
+        // Semantic search has no tag filter, so tags are matched here
+        const { tag, ...searchFilters } = filters;
+        const { results } = await knowledgeBaseAPI.search(query.trim(), searchFilters);
+        setEntries(tag ? results.filter(entry => entry.tags.includes(tag)) : results);
+      } else {
+        const { entries } = await knowledgeBaseAPI.listEntries(filters);
+        setEntries(entries);
+      }
+    } catch (err) {
+      console.error('Failed to load knowledge base entries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load knowledge base entries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, filters]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await knowledgeBaseAPI.getStats());
+    } catch (err) {
+      console.error('Failed to load knowledge base stats:', err);
+    }
+  }, []);
+
+  // Customer ratings of the answers each entry was used for, keyed by entry id
+  const loadHelpfulness = useCallback(async () => {
+    try {
+      const articles = await feedbackAPI.getArticleHelpfulness();
+      setHelpfulness(Object.fromEntries(articles.map(article => [article.entry_id, article])));
+    } catch (err) {
+      console.error('Failed to load article helpfulness:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    loadHelpfulness();
+  }, [loadHelpfulness]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  // Run a change, then reload the table and the charts
+  const runChange = useCallback(async (change: () => Promise<unknown>): Promise<boolean> => {
+    setError(null);
+    try {
+      await change();
+      await Promise.all([loadEntries(), loadStats()]);
+      return true;
+    } catch (err) {
+      console.error('Knowledge base update failed:', err);
+      setError(err instanceof Error ? err.message : 'Knowledge base update failed');
+      return false;
+    }
+  }, [loadEntries, loadStats]);
+
+  const createEntry = useCallback((entry: EntryInput) =>
+    runChange(() => knowledgeBaseAPI.addEntry(entry)), [runChange]);
+
+  const updateEntry = useCallback((id: string, updates: Partial<EntryInput>) =>
+    runChange(() => knowledgeBaseAPI.updateEntry(id, updates)), [runChange]);
+
+  const deleteEntry = useCallback((id: string) =>
+    runChange(() => knowledgeBaseAPI.deleteEntry(id)), [runChange]);
+
+  return {
+    // State
+    entries,
+    stats,
+    helpfulness,
+    query,
+    filters,
+    isLoading,
+    error,
+
+    // Actions
+    setQuery,
+    setFilters,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+  };
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import type { TaxonomyCategory } from '../types';
+import { taxonomyAPI } from '../services/api';
+
+/**
+ * Support categories from the backend taxonomy, loaded once on mount
+ */
+export function useTaxonomy() {
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    taxonomyAPI.listCategories()
+      .then(result => {
+        if (!cancelled) setCategories(result);
+      })
+      .catch(err => {
+        console.error('Failed to load categories:', err);
+        if (!cancelled) setError('Failed to load categories');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    categories,
+    error,
+  };
+}
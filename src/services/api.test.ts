@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { chatAPI, APIError } from './api'
+import type { ChatStreamEvent } from '../types'
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+const finalResponse = {
+  message: 'Reset it from the login page.',
+  confidence: 0.9,
+  sources: [],
+  requires_escalation: false,
+  conversation_id: 'conv_1',
+  metadata: { processing_time: 10, category: 'technical', priority: 'medium' }
+}
+
+describe('chatAPI.streamMessage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('parses events split across chunks and resolves with the final response', async () => {
+    const frames = [
+      'event: classified\ndata: {"category":"technical","intent":"password_reset","confidence":0.9}\n\n',
+      'event: token\ndata: {"text":"Reset "}\n\n',
+      `event: done\ndata: ${JSON.stringify(finalResponse)}\n\n`
+    ].join('')
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([frames.slice(0, 30), frames.slice(30, 95), frames.slice(95)])))
+
+    const events: ChatStreamEvent[] = []
+    const response = await chatAPI.streamMessage({ message: 'reset password' }, event => events.push(event))
+
+    expect(events.map(event => event.type)).toEqual(['classified', 'token', 'done'])
+    expect(events[1]).toEqual({ type: 'token', data: { text: 'Reset ' } })
+    expect(response).toEqual(finalResponse)
+  })
+
+  it('rejects with the server message on an error event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      'event: error\ndata: {"message":"Service unavailable"}\n\n'
+    ])))
+
+    await expect(chatAPI.streamMessage({ message: 'hi' })).rejects.toThrow('Service unavailable')
+  })
+
+  it('rejects when the stream ends without a final response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      'event: token\ndata: {"text":"Hi"}\n\n'
+    ])))
+
+    await expect(chatAPI.streamMessage({ message: 'hi' })).rejects.toBeInstanceOf(APIError)
+  })
+})
@@ -1,4 +1,29 @@
-import type { ChatRequest, ChatResponse, KnowledgeBaseEntry, SearchFilters } from '../types';
+import type {
+  AnalyticsBucketSize,
+  AnalyticsReport,
+  ArticleHelpfulness,
+  AuthSession,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  Conversation,
+  ConversationListOptions,
+  ConversationPage,
+  ConversationStatus,
+  ConversationSummary,
+  ConversationTranscript,
+  CsatResponse,
+  CsatStats,
+  EntryListFilters,
+  EscalationTicket,
+  FeedbackInput,
+  KnowledgeBaseEntry,
+  KnowledgeBaseStats,
+  MessageFeedback,
+  SearchFilters,
+  TaxonomyCategory
+} from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -14,6 +39,38 @@ class APIError extends Error {
   }
 }
 
+const SESSION_STORAGE_KEY = 'support_session';
+
+function loadSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+
+    const session = JSON.parse(stored) as AuthSession;
+    return new Date(session.expires_at) > new Date() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in session, sent as a bearer token with every request
+let currentSession: AuthSession | null = loadSession();
+
+function setSession(session: AuthSession | null) {
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (currentSession) headers.set('Authorization', `Bearer ${currentSession.token}`);
+  return fetch(url, { ...init, headers });
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
@@ -35,12 +92,67 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return result;
 }
 
+/**
+ * Parse one Server-Sent Events frame ("event: x\ndata: {...}")
+ */
+function parseStreamEvent(frame: string): ChatStreamEvent | null {
+  let type = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { type, data: JSON.parse(dataLines.join('\n')) } as ChatStreamEvent;
+}
+
+export const authAPI = {
+  /**
+   * The stored session, if it has not expired
+   */
+  getSession: (): AuthSession | null => currentSession,
+
+  /**
+   * Start a session: staff sign in with their API key, customers without one.
+   * A customer's expired or missing session is replaced by a new anonymous one.
+   */
+  startSession: async (apiKey?: string): Promise<AuthSession> => {
+    const request = (token?: string) => fetch(`${API_BASE_URL}/auth/session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ api_key: apiKey }),
+    });
+
+    let response = await request(apiKey ? undefined : currentSession?.token);
+    // Tokens signed before a server restart without JWT_SECRET are no longer accepted
+    if (response.status === 401 && !apiKey && currentSession) {
+      response = await request();
+    }
+    const session = await handleResponse<AuthSession>(response);
+    setSession(session);
+    return session;
+  },
+
+  /**
+   * Forget the stored session
+   */
+  signOut: () => setSession(null),
+};
+
 export const chatAPI = {
   /**
    * Send a message to the chatbot
    */
   sendMessage: async (request: ChatRequest): Promise<ChatResponse> => {
-    const response = await fetch(`${API_BASE_URL}/chat/message`, {
+    const response = await apiFetch(`${API_BASE_URL}/chat/message`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -52,29 +164,152 @@ export const chatAPI = {
   },
 
   /**
-   * Get conversation history
+   * Send a message and receive pipeline stages as they happen.
+   * Resolves with the final response once the stream completes.
    */
-  getConversation: async (conversationId: string): Promise<{
-    conversation_id: string;
-    messages: any[];
-    total: number;
-  }> => {
-    const response = await fetch(`${API_BASE_URL}/chat/conversation/${conversationId}`);
+  streamMessage: async (
+    request: ChatRequest,
+    onEvent?: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      // Throws an APIError with the server's error details
+      await handleResponse(response);
+    }
+    if (!response.body) {
+      throw new APIError(response.status, 'Streaming is not supported by this response');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finalResponse: ChatResponse | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseStreamEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (!event) continue;
+        if (event.type === 'error') {
+          throw new APIError(500, event.data.message);
+        }
+        if (event.type === 'done') {
+          finalResponse = event.data;
+        }
+        onEvent?.(event);
+      }
+    }
+
+    if (!finalResponse) {
+      throw new APIError(500, 'Stream ended before a response was received');
+    }
+    return finalResponse;
+  },
+
+  /**
+   * Get a conversation's owner, title, status and timestamps
+   */
+  getConversation: async (conversationId: string): Promise<Conversation> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversations/${conversationId}`);
+    return handleResponse<Conversation>(response);
+  },
+
+  /**
+   * Address of the chat WebSocket, signed in with the current session
+   */
+  getSocketUrl: (): string => {
+    const url = new URL(`${API_BASE_URL}/chat/socket`, window.location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    if (currentSession) url.searchParams.set('token', currentSession.token);
+    return url.toString();
+  },
+
+  /**
+   * Get the stored messages of a conversation, including human agent replies
+   */
+  getConversationHistory: async (conversationId: string): Promise<ChatMessage[]> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversations/${conversationId}/history`);
+    return handleResponse<ChatMessage[]>(response);
+  },
+
+  /**
+   * Get the current status of a conversation
+   */
+  getConversationStatus: async (conversationId: string): Promise<ConversationStatus> => {
+    const conversation = await chatAPI.getConversation(conversationId);
+    return conversation.status;
+  },
+
+  /**
+   * Give a conversation a new title
+   */
+  renameConversation: async (conversationId: string, title: string): Promise<Conversation> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
     return handleResponse(response);
   },
 
   /**
-   * Get user conversations
+   * End a conversation whose issue is solved
    */
-  getUserConversations: async (userId: string): Promise<{
-    user_id: string;
-    conversations: string[];
-    total: number;
-  }> => {
-    const response = await fetch(`${API_BASE_URL}/chat/user/${userId}/conversations`);
+  resolveConversation: async (conversationId: string): Promise<Conversation> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversations/${conversationId}/resolve`, {
+      method: 'POST',
+    });
     return handleResponse(response);
   },
 
+  /**
+   * End a conversation without confirming the issue is solved
+   */
+  closeConversation: async (conversationId: string): Promise<Conversation> => {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversations/${conversationId}/close`, {
+      method: 'POST',
+    });
+    return handleResponse(response);
+  },
+
+  /**
+   * Get a page of the user's conversations, most recently active first unless sorted otherwise
+   */
+  getUserConversations: async (userId: string, options?: ConversationListOptions): Promise<ConversationPage> => {
+    const params = new URLSearchParams();
+
+    if (options) {
+      Object.entries(options).forEach(([key, value]) => {
+        if (value !== undefined) {
+          params.append(key, String(value));
+        }
+      });
+    }
+
+    const response = await apiFetch(`${API_BASE_URL}/chat/users/${userId}/conversations?${params}`);
+    return handleResponse<ConversationPage>(response);
+  },
+
   /**
    * Clear/delete a conversation
    */
@@ -82,7 +317,7 @@ export const chatAPI = {
     success: boolean;
     message: string;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/chat/conversation/${conversationId}`, {
+    const response = await apiFetch(`${API_BASE_URL}/chat/conversation/${conversationId}`, {
       method: 'DELETE',
     });
     return handleResponse(response);
@@ -96,8 +331,10 @@ export const chatAPI = {
     total_messages: number;
     average_messages_per_conversation: number;
     escalation_rate: number;
+    rated_answers: number;
+    helpful_rate: number;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/chat/stats`);
+    const response = await apiFetch(`${API_BASE_URL}/chat/stats`);
     return handleResponse(response);
   },
 };
@@ -122,7 +359,28 @@ export const knowledgeBaseAPI = {
       });
     }
     
-    const response = await fetch(`${API_BASE_URL}/kb/search?${params}`);
+    const response = await apiFetch(`${API_BASE_URL}/kb/search?${params}`);
+    return handleResponse(response);
+  },
+
+  /**
+   * List knowledge base entries without a search query
+   */
+  listEntries: async (filters?: EntryListFilters): Promise<{
+    entries: KnowledgeBaseEntry[];
+    total: number;
+  }> => {
+    const params = new URLSearchParams();
+
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, String(value));
+        }
+      });
+    }
+
+    const response = await apiFetch(`${API_BASE_URL}/kb/entries?${params}`);
     return handleResponse(response);
   },
 
@@ -133,7 +391,7 @@ export const knowledgeBaseAPI = {
     success: boolean;
     message: string;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/kb/entries`, {
+    const response = await apiFetch(`${API_BASE_URL}/kb/entries`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -153,7 +411,7 @@ export const knowledgeBaseAPI = {
     success: boolean;
     message: string;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/kb/entries/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/kb/entries/${id}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -170,7 +428,7 @@ export const knowledgeBaseAPI = {
     success: boolean;
     message: string;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/kb/entries/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/kb/entries/${id}`, {
       method: 'DELETE',
     });
     return handleResponse(response);
@@ -183,21 +441,178 @@ export const knowledgeBaseAPI = {
     categories: string[];
     total: number;
   }> => {
-    const response = await fetch(`${API_BASE_URL}/kb/categories`);
+    const response = await apiFetch(`${API_BASE_URL}/kb/categories`);
     return handleResponse(response);
   },
 
   /**
    * Get knowledge base statistics
    */
-  getStats: async (): Promise<{
-    total_entries: number;
-    by_category: Record<string, number>;
-    by_priority: Record<string, number>;
-  }> => {
-    const response = await fetch(`${API_BASE_URL}/kb/stats`);
+  getStats: async (): Promise<KnowledgeBaseStats> => {
+    const response = await apiFetch(`${API_BASE_URL}/kb/stats`);
     return handleResponse(response);
   },
 };
 
+export const taxonomyAPI = {
+  /**
+   * List support categories with their subcategories
+   */
+  listCategories: async (): Promise<TaxonomyCategory[]> => {
+    const response = await apiFetch(`${API_BASE_URL}/taxonomy/categories`);
+    return handleResponse<TaxonomyCategory[]>(response);
+  },
+};
+
+export const feedbackAPI = {
+  /**
+   * Rate an assistant answer; rating it again replaces the earlier feedback
+   */
+  submit: async (
+    conversationId: string,
+    messageId: string,
+    feedback: FeedbackInput,
+    userId?: string
+  ): Promise<MessageFeedback> => {
+    const response = await apiFetch(`${API_BASE_URL}/feedback`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ conversation_id: conversationId, message_id: messageId, user_id: userId, ...feedback }),
+    });
+    return handleResponse<MessageFeedback>(response);
+  },
+
+  /**
+   * Get helpfulness scores per knowledge base entry, least helpful first
+   */
+  getArticleHelpfulness: async (): Promise<ArticleHelpfulness[]> => {
+    const response = await apiFetch(`${API_BASE_URL}/feedback/articles`);
+    return handleResponse<ArticleHelpfulness[]>(response);
+  },
+};
+
+export const csatAPI = {
+  /**
+   * Answer the satisfaction survey for a conversation that has ended
+   */
+  submit: async (
+    conversationId: string,
+    rating: number,
+    comment?: string,
+    userId?: string
+  ): Promise<CsatResponse> => {
+    const response = await apiFetch(`${API_BASE_URL}/csat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ conversation_id: conversationId, rating, comment, user_id: userId }),
+    });
+    return handleResponse<CsatResponse>(response);
+  },
+
+  /**
+   * Get satisfaction overall, by category and by whether the conversation was escalated
+   */
+  getStats: async (): Promise<CsatStats> => {
+    const response = await apiFetch(`${API_BASE_URL}/csat/stats`);
+    return handleResponse<CsatStats>(response);
+  },
+};
+
+export const analyticsAPI = {
+  /**
+   * Get support metrics per hour, day or week (the last 30 days by day unless a range is given)
+   */
+  getReport: async (options?: {
+    from?: Date;
+    to?: Date;
+    bucket?: AnalyticsBucketSize;
+  }): Promise<AnalyticsReport> => {
+    const params = new URLSearchParams();
+
+    if (options?.from) params.append('from', options.from.toISOString());
+    if (options?.to) params.append('to', options.to.toISOString());
+    if (options?.bucket) params.append('bucket', options.bucket);
+
+    const response = await apiFetch(`${API_BASE_URL}/analytics?${params}`);
+    return handleResponse<AnalyticsReport>(response);
+  },
+};
+
+export const escalationAPI = {
+  /**
+   * List conversations for the agent console, queued tickets first
+   */
+  listConversations: async (status?: ConversationSummary['status']): Promise<ConversationSummary[]> => {
+    const params = status ? `?${new URLSearchParams({ status })}` : '';
+    const response = await apiFetch(`${API_BASE_URL}/escalations/conversations${params}`);
+    return handleResponse<ConversationSummary[]>(response);
+  },
+
+  /**
+   * Get the full transcript of a conversation
+   */
+  getTranscript: async (conversationId: string): Promise<ConversationTranscript> => {
+    const response = await apiFetch(`${API_BASE_URL}/escalations/conversations/${conversationId}`);
+    return handleResponse<ConversationTranscript>(response);
+  },
+
+  /**
+   * Take a conversation over from the assistant
+   */
+  takeOver: async (conversationId: string): Promise<EscalationTicket> => {
+    const response = await apiFetch(`${API_BASE_URL}/escalations/conversations/${conversationId}/takeover`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    return handleResponse<EscalationTicket>(response);
+  },
+
+  /**
+   * Send a reply to the customer
+   */
+  reply: async (ticketId: string, message: string): Promise<ChatMessage> => {
+    const response = await apiFetch(`${API_BASE_URL}/escalations/${ticketId}/reply`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message }),
+    });
+    return handleResponse<ChatMessage>(response);
+  },
+
+  /**
+   * Return the conversation to the assistant
+   */
+  handBack: async (ticketId: string): Promise<EscalationTicket> => {
+    const response = await apiFetch(`${API_BASE_URL}/escalations/${ticketId}/handback`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    return handleResponse<EscalationTicket>(response);
+  },
+
+  /**
+   * Close the ticket and mark the conversation resolved
+   */
+  resolve: async (ticketId: string, resolutionNote?: string): Promise<EscalationTicket> => {
+    const response = await apiFetch(`${API_BASE_URL}/escalations/${ticketId}/resolve`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ resolution_note: resolutionNote }),
+    });
+    return handleResponse<EscalationTicket>(response);
+  },
+};
+
 export { APIError };
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ChatSocket } from './chatSocket'
+
+class FakeWebSocket {
+  static readonly OPEN = 1
+  static instances: FakeWebSocket[] = []
+
+  readyState = 0
+  sent: Record<string, unknown>[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onclose: (() => void) | null = null
+  url: string
+
+  constructor(url: string) {
+    this.url = url
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.readyState = 3
+    this.onclose?.()
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN
+    this.onopen?.()
+  }
+
+  receive(frame: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(frame) })
+  }
+}
+
+const reply = {
+  message: 'Reset it from the login page.',
+  confidence: 0.9,
+  sources: [],
+  requires_escalation: false,
+  conversation_id: 'conv_1',
+  metadata: { processing_time: 10, category: 'technical' }
+}
+
+describe('ChatSocket', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('resends unanswered messages to the acknowledged conversation after reconnecting', async () => {
+    const socket = new ChatSocket({ reconnectDelay: 100 })
+    socket.connect()
+    const first = FakeWebSocket.instances[0]
+    first.open()
+    expect(first.url).toMatch(/^ws:\/\/.*\/chat\/socket/)
+
+    const onAck = vi.fn()
+    const response = socket.sendMessage('How do I reset my password?', undefined, onAck)
+    const { client_id } = first.sent[0]
+    first.receive({ type: 'ack', client_id, conversation_id: 'conv_1' })
+    first.close()
+
+    vi.advanceTimersByTime(100)
+    const second = FakeWebSocket.instances[1]
+    second.open()
+    expect(second.sent).toEqual([
+      { type: 'subscribe', conversation_id: 'conv_1' },
+      { type: 'message', client_id, conversation_id: 'conv_1', message: 'How do I reset my password?' },
+    ])
+
+    second.receive({ type: 'reply', client_id, data: reply })
+    await expect(response).resolves.toEqual(reply)
+    expect(onAck).toHaveBeenCalledWith('conv_1')
+    socket.close()
+  })
+
+  it('backs off between failed reconnection attempts and stops once closed', () => {
+    const socket = new ChatSocket({ reconnectDelay: 100, maxReconnectDelay: 300 })
+    socket.connect()
+    FakeWebSocket.instances[0].close()
+
+    vi.advanceTimersByTime(100)
+    FakeWebSocket.instances[1].close()
+    vi.advanceTimersByTime(199)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+    vi.advanceTimersByTime(1)
+    expect(FakeWebSocket.instances).toHaveLength(3)
+
+    socket.close()
+    vi.advanceTimersByTime(1000)
+    expect(FakeWebSocket.instances).toHaveLength(3)
+  })
+
+  it('rejects a message the server could not answer', async () => {
+    const socket = new ChatSocket()
+    socket.connect()
+    FakeWebSocket.instances[0].open()
+
+    const response = socket.sendMessage('Hello', 'conv_other')
+    const { client_id } = FakeWebSocket.instances[0].sent[0]
+    FakeWebSocket.instances[0].receive({ type: 'error', client_id, error: 'Conversation "conv_other" belongs to another user' })
+
+    await expect(response).rejects.toThrow('Conversation "conv_other" belongs to another user')
+    socket.close()
+  })
+})
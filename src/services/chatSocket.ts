@@ -0,0 +1,152 @@
+import type { ChatSocketClientFrame, ChatSocketServerFrame } from '@api-schema/chatSocket';
+import type { ChatResponse } from '../types';
+import { chatAPI } from './api';
+
+export type { ChatSocketServerFrame };
+
+interface ChatSocketOptions {
+  /** Delay before the first reconnection attempt, doubled after each failure, in ms (default: 1000) */
+  reconnectDelay?: number;
+  /** Longest delay between reconnection attempts, in ms (default: 30000) */
+  maxReconnectDelay?: number;
+}
+
+interface PendingMessage {
+  frame: Extract<ChatSocketClientFrame, { type: 'message' }>;
+  resolve: (response: ChatResponse) => void;
+  reject: (error: Error) => void;
+  onAck?: (conversationId: string) => void;
+}
+
+/**
+ * Two-way chat over the backend's WebSocket. Reconnects when the connection
+ * drops, then subscribes again and resends every message not yet answered;
+ * the server answers a resent message only once.
+ */
+export class ChatSocket {
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending = new Map<string, PendingMessage>();
+  private subscriptions = new Set<string>();
+  private listeners = new Set<(frame: ChatSocketServerFrame) => void>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+
+  constructor(options: ChatSocketOptions = {}) {
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  connect(): void {
+    this.closed = false;
+    const socket = new WebSocket(chatAPI.getSocketUrl());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.subscriptions.forEach(conversationId => this.send({ type: 'subscribe', conversation_id: conversationId }));
+      this.pending.forEach(message => this.send(message.frame));
+      this.connectionListeners.forEach(listener => listener(true));
+    };
+    socket.onmessage = (event) => {
+      this.handleFrame(JSON.parse(event.data) as ChatSocketServerFrame);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.connectionListeners.forEach(listener => listener(false));
+      if (!this.closed) this.scheduleReconnect();
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.pending.forEach(message => message.reject(new Error('The chat connection was closed')));
+    this.pending.clear();
+  }
+
+  /**
+   * Ask the assistant. The message is kept until it is answered, and resent after a reconnect.
+   */
+  sendMessage(message: string, conversationId?: string, onAck?: (conversationId: string) => void): Promise<ChatResponse> {
+    const clientId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const frame = { type: 'message' as const, client_id: clientId, conversation_id: conversationId, message };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(clientId, { frame, resolve, reject, onAck });
+      this.send(frame);
+    });
+  }
+
+  subscribe(conversationId: string): void {
+    this.subscriptions.add(conversationId);
+    this.send({ type: 'subscribe', conversation_id: conversationId });
+  }
+
+  unsubscribe(conversationId: string): void {
+    this.subscriptions.delete(conversationId);
+    this.send({ type: 'unsubscribe', conversation_id: conversationId });
+  }
+
+  // Typing indicators and read receipts are only worth sending while connected
+  sendTyping(conversationId: string, isTyping: boolean): void {
+    this.send({ type: 'typing', conversation_id: conversationId, is_typing: isTyping });
+  }
+
+  sendRead(conversationId: string, messageId: string): void {
+    this.send({ type: 'read', conversation_id: conversationId, message_id: messageId });
+  }
+
+  onFrame(listener: (frame: ChatSocketServerFrame) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => this.connectionListeners.delete(listener);
+  }
+
+  private send(frame: ChatSocketClientFrame): void {
+    if (this.connected) this.socket!.send(JSON.stringify(frame));
+  }
+
+  private handleFrame(frame: ChatSocketServerFrame): void {
+    if (frame.type === 'ack') {
+      const message = this.pending.get(frame.client_id);
+      if (message) {
+        // Resends go to the conversation the server started for the message
+        message.frame.conversation_id = frame.conversation_id;
+        this.subscriptions.add(frame.conversation_id);
+        message.onAck?.(frame.conversation_id);
+      }
+    } else if (frame.type === 'reply') {
+      this.pending.get(frame.client_id)?.resolve(frame.data);
+      this.pending.delete(frame.client_id);
+    } else if (frame.type === 'error' && frame.client_id) {
+      this.pending.get(frame.client_id)?.reject(new Error(frame.error));
+      this.pending.delete(frame.client_id);
+    }
+
+    this.listeners.forEach(listener => listener(frame));
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.reconnectDelay * 2 ** this.attempts, this.maxReconnectDelay);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
@@ -0,0 +1,34 @@
+import type { KnowledgeBaseEntry } from '../types';
+
+export const PRIORITIES: KnowledgeBaseEntry['priority'][] = ['low', 'medium', 'high'];
+
+export interface EntryFormValues {
+  title: string;
+  content: string;
+  category: string;
+  priority: string;
+  product_type: string;
+  tags: string;
+}
+
+/**
+ * Validate the form the same way the backend's addEntrySchema / updateEntrySchema do,
+ * against the category ids of the taxonomy. Returns an error message per invalid field.
+ */
+export function validateEntry(
+  values: EntryFormValues,
+  categories: string[]
+): Partial<Record<keyof EntryFormValues, string>> {
+  const errors: Partial<Record<keyof EntryFormValues, string>> = {};
+
+  if (!values.title.trim()) errors.title = 'Title is required';
+  if (!values.content.trim()) errors.content = 'Content is required';
+  if (!categories.includes(values.category)) {
+    errors.category = 'Category is required';
+  }
+  if (!PRIORITIES.includes(values.priority as KnowledgeBaseEntry['priority'])) {
+    errors.priority = 'Priority is required';
+  }
+
+  return errors;
+}
@@ -1,63 +1,162 @@
 // Types for the frontend application
 
-export interface ChatMessage {
+// The chat REST contract is shared with the backend and derived from its schemas
+export type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  Conversation,
+  ConversationListOptions,
+  ConversationPage,
+  ConversationPreview,
+  ConversationStatus,
+  KnowledgeBaseChunk,
+  KnowledgeBaseEntry,
+} from '@api-schema/chat';
+import type { ChatMessage, ChatResponse, Conversation, KnowledgeBaseEntry } from '@api-schema/chat';
+
+export type FeedbackRating = 'helpful' | 'not_helpful';
+
+export type FeedbackReason = 'incorrect' | 'incomplete' | 'irrelevant' | 'unclear' | 'other';
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  /** Why the answer did not help; only given with 'not_helpful' */
+  reason?: FeedbackReason;
+  comment?: string;
+}
+
+export interface MessageFeedback extends FeedbackInput {
   id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  metadata?: {
-    confidence?: number;
-    sources?: string[];
-    category?: string;
-    priority?: 'low' | 'medium' | 'high';
-  };
+  conversation_id: string;
+  message_id: string;
+  user_id?: string;
+  source_ids: string[];
+  created_at: Date;
+  updated_at: Date;
 }
 
-export interface ChatRequest {
-  message: string;
-  conversation_id?: string;
+// How customers rated the answers a knowledge base entry was used for
+export interface ArticleHelpfulness {
+  entry_id: string;
+  helpful: number;
+  not_helpful: number;
+  score: number;
+}
+
+export type ChatStreamEvent =
+  | { type: 'classified'; data: { category: string; intent: string; confidence: number } }
+  | { type: 'sources'; data: KnowledgeBaseEntry[] }
+  // The finished reply replayed word by word, just before done
+  | { type: 'token'; data: { text: string } }
+  | { type: 'done'; data: ChatResponse }
+  | { type: 'error'; data: { message: string } };
+
+// A customer's 1-5 satisfaction rating of a conversation that has ended
+export interface CsatResponse {
+  id: string;
+  conversation_id: string;
   user_id?: string;
-  context?: {
-    previous_messages?: ChatMessage[];
-    user_preferences?: Record<string, any>;
+  rating: number;
+  comment?: string;
+  category: string;
+  escalated: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CsatSummary {
+  responses: number;
+  average_rating: number;
+  satisfaction_rate: number;
+}
+
+export interface CsatStats extends CsatSummary {
+  by_category: Record<string, CsatSummary>;
+  by_escalation: {
+    escalated: CsatSummary;
+    not_escalated: CsatSummary;
   };
 }
 
-export interface ChatResponse {
-  message: string;
-  confidence: number;
-  sources: KnowledgeBaseEntry[];
-  suggested_actions?: string[];
-  requires_escalation: boolean;
-  conversation_id: string;
-  metadata: {
-    processing_time: number;
-    category: string;
-    priority: string;
+// Admins may do anything; the other roles only what their routes allow
+export type Role = 'customer' | 'agent' | 'kb_editor' | 'admin';
+
+export interface AuthSession {
+  token: string;
+  expires_at: Date;
+  user: {
+    id: string;
+    role: Role;
+    name?: string;
   };
 }
 
-export interface KnowledgeBaseEntry {
-  id: string;
-  title: string;
-  content: string;
-  category: 'billing' | 'technical' | 'general' | 'shipping' | 'returns';
-  priority: 'low' | 'medium' | 'high';
-  product_type?: string;
-  tags: string[];
-  last_updated: Date;
-  chunk_content?: string;
-  relevance?: number;
-  distance?: number;
+// Support metrics for a range of time, as reported by /api/analytics
+export type AnalyticsBucketSize = 'hour' | 'day' | 'week';
+
+export interface ProcessingTimePercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
 }
 
-export interface Conversation {
+export interface AnalyticsMetrics {
+  conversations: number;
+  messages: number;
+  escalation_rate: number;
+  deflection_rate: number;
+  mean_confidence: number | null;
+  processing_time: ProcessingTimePercentiles | null;
+  category_mix: Record<string, number>;
+}
+
+export interface AnalyticsBucket extends AnalyticsMetrics {
+  start: Date;
+  end: Date;
+}
+
+export interface UnansweredQuery {
+  query: string;
+  count: number;
+  last_asked: Date;
+}
+
+export interface AnalyticsReport {
+  from: Date;
+  to: Date;
+  bucket: AnalyticsBucketSize;
+  totals: AnalyticsMetrics;
+  buckets: AnalyticsBucket[];
+  top_unanswered_queries: UnansweredQuery[];
+}
+
+export interface EscalationTicket {
   id: string;
-  messages: ChatMessage[];
+  conversation_id: string;
+  user_id?: string;
+  status: 'open' | 'claimed' | 'resolved';
+  priority: 'low' | 'medium' | 'high';
+  category: string;
+  reason: string;
+  assigned_agent?: string;
+  resolution_note?: string;
   created_at: Date;
   updated_at: Date;
-  user_id?: string;
-  status: 'active' | 'resolved' | 'escalated';
+  resolved_at?: Date;
+}
+
+// A conversation as listed in the agent console queue
+export interface ConversationSummary extends Conversation {
+  ticket?: EscalationTicket;
+  message_count: number;
+  last_message?: ChatMessage;
+}
+
+export interface ConversationTranscript {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  ticket?: EscalationTicket;
 }
 
 export interface User {
@@ -77,6 +176,33 @@ export interface APIError {
   details?: string[];
 }
 
+export interface EntryListFilters {
+  category?: KnowledgeBaseEntry['category'];
+  priority?: KnowledgeBaseEntry['priority'];
+  product_type?: string;
+  tag?: string;
+  limit?: number;
+}
+
+/**
+ * A support category from the taxonomy, as served by /api/taxonomy/categories
+ */
+export interface TaxonomyCategory {
+  id: string;
+  name: string;
+  description?: string;
+  subcategories: { id: string; name: string }[];
+  default_priority: 'low' | 'medium' | 'high';
+  suggested_actions: string[];
+  escalation_policy: 'always' | 'rules';
+}
+
+export interface KnowledgeBaseStats {
+  total_entries: number;
+  by_category: Record<string, number>;
+  by_priority: Record<string, number>;
+}
+
 export interface SearchFilters {
   category?: string;
   priority?: string;